@@ -12,10 +12,12 @@ import { TagInput } from "@/components/tag-input"
 import { TableGenerator } from "@/components/table-generator"
 import { ImageInserter } from "@/components/image-inserter"
 import { NoteLinkInput } from "@/components/note-link-input"
-import { saveDocument, getDocument } from "@/lib/storage-utils"
+import { saveDocument, getDocument, markDocumentOpened, type DocumentRevision } from "@/lib/storage-utils"
 import { WysimarkEditor } from "@/components/wysimark-editor"
 import { Hash } from "lucide-react"
 import { DiagramInserter } from "@/components/diagram-inserter"
+import { replaceDiagramBlock } from "@/lib/diagram-utils"
+import { RevisionHistory } from "@/components/revision-history"
 
 export default function NotesEditorPage() {
   const router = useRouter()
@@ -29,45 +31,52 @@ export default function NotesEditorPage() {
   const [isNoteLinkInputOpen, setIsNoteLinkInputOpen] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
   const [isDiagramInserterOpen, setIsDiagramInserterOpen] = useState(false)
+  const [editingDiagram, setEditingDiagram] = useState<string | null>(null)
+  const [isRevisionHistoryOpen, setIsRevisionHistoryOpen] = useState(false)
 
   // Check if we're editing an existing document or creating a new one with a title
   useEffect(() => {
-    try {
-      const urlParams = new URLSearchParams(window.location.search)
-      const docId = urlParams.get("id")
-      const titleParam = urlParams.get("title")
-
-      if (docId) {
-        const doc = getDocument(docId)
-        if (doc) {
-          setId(docId)
-          setTitle(doc.title)
-          setSummary(doc.summary || "")
-          setTags(doc.tags)
-          setMarkdown(doc.content)
-        }
-      } else if (titleParam) {
-        // Creating a new note with a specific title (from note links)
-        const decodedTitle = decodeURIComponent(titleParam)
-        setTitle(decodedTitle)
-        setMarkdown(`# ${decodedTitle}\n\n`)
-      } else {
-        // Default content for new notes
-        setMarkdown(`# Introduction
+    const loadDocument = async () => {
+      try {
+        const urlParams = new URLSearchParams(window.location.search)
+        const docId = urlParams.get("id")
+        const titleParam = urlParams.get("title")
+
+        if (docId) {
+          const doc = await getDocument(docId)
+          if (doc) {
+            setId(docId)
+            setTitle(doc.title)
+            setSummary(doc.summary || "")
+            setTags(doc.tags)
+            setMarkdown(doc.content)
+            markDocumentOpened(docId)
+          }
+        } else if (titleParam) {
+          // Creating a new note with a specific title (from note links)
+          const decodedTitle = decodeURIComponent(titleParam)
+          setTitle(decodedTitle)
+          setMarkdown(`# ${decodedTitle}\n\n`)
+        } else {
+          // Default content for new notes
+          setMarkdown(`# Introduction
 Start writing your notes here.
 
 # Key Points
 Add your main ideas and concepts.`)
-      }
-    } catch (error) {
-      console.error("Error loading document:", error)
-      // Set default content if there's an error
-      setMarkdown(`# Introduction
+        }
+      } catch (error) {
+        console.error("Error loading document:", error)
+        // Set default content if there's an error
+        setMarkdown(`# Introduction
 Start writing your notes here.
 
 # Key Points
 Add your main ideas and concepts.`)
+      }
     }
+
+    loadDocument()
   }, [])
 
   const handleSave = async () => {
@@ -79,7 +88,6 @@ Add your main ideas and concepts.`)
         summary,
         tags,
         content: markdown,
-        createdAt: new Date().toISOString(),
       })
 
       setId(docId)
@@ -96,6 +104,13 @@ Add your main ideas and concepts.`)
     }
   }
 
+  const handleRestoreRevision = (revision: DocumentRevision) => {
+    setTitle(revision.title)
+    setSummary(revision.summary || "")
+    setTags(revision.tags)
+    setMarkdown(revision.content)
+  }
+
   const handleInsertTable = (tableMarkdown: string) => {
     insertAtCursor(tableMarkdown)
   }
@@ -105,6 +120,20 @@ Add your main ideas and concepts.`)
     insertAtCursor(imageMarkdown)
   }
 
+  // New diagrams go at the cursor; an edited one replaces its block
+  const handleInsertDiagram = (diagramMarkdown: string) => {
+    if (editingDiagram !== null) {
+      setMarkdown((current) => replaceDiagramBlock(current, editingDiagram, diagramMarkdown))
+    } else {
+      insertAtCursor(`\n${diagramMarkdown}`)
+    }
+  }
+
+  const handleEditDiagram = (source: string) => {
+    setEditingDiagram(source)
+    setIsDiagramInserterOpen(true)
+  }
+
   const handleInsertNoteLink = (linkText: string) => {
     insertAtCursor(linkText)
     setIsNoteLinkInputOpen(false)
@@ -167,6 +196,9 @@ Add your main ideas and concepts.`)
             <Button size="default" variant="ghost" onClick={() => router.push("/")}>
               Library
             </Button>
+            <Button size="default" variant="outline" onClick={() => setIsRevisionHistoryOpen(true)} disabled={!id}>
+              History
+            </Button>
             <Button
               size="default"
               variant="outline"
@@ -275,7 +307,7 @@ Add your main ideas and concepts.`)
               <CardContent className="p-6 flex-1 flex flex-col">
                 <h2 className="text-heading-3 mb-4">Preview</h2>
                 <div className="flex-1 overflow-y-auto pr-2">
-                  <CornellNotes markdown={markdown} />
+                  <CornellNotes markdown={markdown} onDiagramClick={handleEditDiagram} />
                 </div>
               </CardContent>
             </Card>
@@ -302,8 +334,19 @@ Add your main ideas and concepts.`)
       />
       <DiagramInserter
         isOpen={isDiagramInserterOpen}
-        onClose={() => setIsDiagramInserterOpen(false)}
-        onInsert={handleInsertImage}
+        onClose={() => {
+          setIsDiagramInserterOpen(false)
+          setEditingDiagram(null)
+        }}
+        onInsert={handleInsertDiagram}
+        initialSource={editingDiagram ?? undefined}
+      />
+      <RevisionHistory
+        isOpen={isRevisionHistoryOpen}
+        onClose={() => setIsRevisionHistoryOpen(false)}
+        documentId={id}
+        current={{ title, summary, tags, content: markdown }}
+        onRestore={handleRestoreRevision}
       />
     </main>
   )
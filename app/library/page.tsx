@@ -9,10 +9,22 @@ import { Card, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
-import { getAllDocuments, deleteDocument, type DocumentData } from "@/lib/storage-utils"
-import { exportAllToZip, importMarkdownFiles } from "@/lib/export-import-utils"
+import {
+  getAllDocuments,
+  deleteDocument,
+  markDocumentOpened,
+  sortDocuments,
+  getDocumentUpdatedAt,
+  DOCUMENT_SORT_LABELS,
+  type DocumentData,
+  type DocumentSortKey,
+} from "@/lib/storage-utils"
+import { exportAllToZip, importMarkdownFiles, describeMarkdownImport } from "@/lib/export-import-utils"
 import { cn } from "@/lib/utils"
 import { CornellNotes } from "@/components/cornell-notes"
+import { SearchSnippet } from "@/components/search-snippet"
+import { SavedSearches } from "@/components/saved-searches"
+import { searchLibrary, type LibrarySearch } from "@/lib/search-query"
 import {
   DropdownMenu,
   DropdownMenuCheckboxItem,
@@ -24,7 +36,7 @@ import {
 } from "@/components/ui/dropdown-menu"
 
 // Import the exportToPdf function
-import { exportToPdf } from "@/lib/export-utils"
+import { exportToPdf, getPdfExportSettings } from "@/lib/export-utils"
 
 // Add sorting functionality to the library page
 // First, add these imports at the top of the file (after the existing imports)
@@ -42,15 +54,39 @@ export default function LibraryPage() {
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   // Then, add these state variables after the existing state declarations
-  const [sortBy, setSortBy] = useState<"date" | "title" | "tags">("date")
+  const [sortBy, setSortBy] = useState<DocumentSortKey>("updated")
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc")
+  const [librarySearch, setLibrarySearch] = useState<LibrarySearch | null>(null)
+  const [highlightedSectionId, setHighlightedSectionId] = useState<string | null>(null)
 
   useEffect(() => {
     loadDocuments()
   }, [])
 
-  const loadDocuments = () => {
-    const docs = getAllDocuments()
+  // Run the search query shortly after typing stops
+  useEffect(() => {
+    const query = searchTerm.trim()
+    if (!query) {
+      setLibrarySearch(null)
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      const search = await searchLibrary(query, documents)
+      if (!cancelled) {
+        setLibrarySearch(search)
+      }
+    }, 150)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [searchTerm, documents])
+
+  const loadDocuments = async () => {
+    const docs = await getAllDocuments()
     setDocuments(docs)
 
     // Extract all unique tags
@@ -63,8 +99,8 @@ export default function LibraryPage() {
     }
   }
 
-  const handleDelete = (id: string) => {
-    deleteDocument(id)
+  const handleDelete = async (id: string) => {
+    await deleteDocument(id)
 
     // If the active document is deleted, set the first document as active
     if (activeDocument && activeDocument.id === id) {
@@ -72,7 +108,7 @@ export default function LibraryPage() {
       setActiveDocument(remainingDocs.length > 0 ? remainingDocs[0] : null)
     }
 
-    loadDocuments()
+    await loadDocuments()
 
     console.log("Document deleted from library")
   }
@@ -81,37 +117,28 @@ export default function LibraryPage() {
     setSelectedTags((prev) => (prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]))
   }
 
-  // Replace the filteredDocuments declaration with this updated version that includes sorting
-  const filteredDocuments = documents
-    .filter((doc) => {
-      // Filter by search term (fixed to properly search in title and content)
-      const matchesSearch =
-        searchTerm === "" ||
-        doc.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        (doc.summary && doc.summary.toLowerCase().includes(searchTerm.toLowerCase())) ||
-        doc.content.toLowerCase().includes(searchTerm.toLowerCase())
-
-      // Filter by selected tags (fixed to properly filter by tags)
-      const matchesTags = selectedTags.length === 0 || selectedTags.every((tag) => doc.tags.includes(tag))
-
-      return matchesSearch && matchesTags
-    })
-    .sort((a, b) => {
-      // Sort by the selected field
-      if (sortBy === "date") {
-        const dateA = new Date(a.createdAt).getTime()
-        const dateB = new Date(b.createdAt).getTime()
-        return sortDirection === "asc" ? dateA - dateB : dateB - dateA
-      } else if (sortBy === "title") {
-        return sortDirection === "asc" ? a.title.localeCompare(b.title) : b.title.localeCompare(a.title)
-      } else if (sortBy === "tags") {
-        // Sort by the first tag, or title if no tags
-        const tagA = a.tags.length > 0 ? a.tags[0] : ""
-        const tagB = b.tags.length > 0 ? b.tags[0] : ""
-        return sortDirection === "asc" ? tagA.localeCompare(tagB) : tagB.localeCompare(tagA)
-      }
-      return 0
-    })
+  // Full-text results keep their relevance ranking; otherwise sort by the selected key
+  const searchResultsById = new Map((librarySearch?.results || []).map((result) => [result.document.id, result]))
+  const filteredDocuments = (
+    librarySearch?.results
+      ? librarySearch.documents
+      : sortDocuments(librarySearch ? librarySearch.documents : documents, sortBy, sortDirection)
+  ).filter((doc) => {
+    // Filter by selected tags (fixed to properly filter by tags)
+    return selectedTags.length === 0 || selectedTags.every((tag) => doc.tags.includes(tag))
+  })
+
+  const selectDocument = (doc: DocumentData) => {
+    setActiveDocument(doc)
+    markDocumentOpened(doc.id)
+
+    // Jump to the section containing the search hit, if any
+    const sectionId = searchResultsById.get(doc.id)?.sectionId || null
+    setHighlightedSectionId(sectionId)
+    if (sectionId) {
+      setTimeout(() => document.getElementById(sectionId)?.scrollIntoView({ behavior: "smooth" }), 100)
+    }
+  }
 
   const extractHeadings = (content: string): string[] => {
     const headings: string[] = []
@@ -155,10 +182,9 @@ export default function LibraryPage() {
 
     setIsImporting(true)
     try {
-      const count = await importMarkdownFiles(files)
-      loadDocuments()
-      console.log(`Imported ${count} markdown files`)
-      alert(`Successfully imported ${count} markdown files`)
+      const result = await importMarkdownFiles(files)
+      await loadDocuments()
+      alert(`Import finished: ${describeMarkdownImport(result)}`)
     } catch (error) {
       console.error("Import failed:", error)
       alert(`Import failed: ${error instanceof Error ? error.message : "Unknown error occurred"}`)
@@ -179,7 +205,13 @@ export default function LibraryPage() {
     }
 
     try {
-      await exportToPdf(activeDocument.title, activeDocument.summary || "", activeDocument.content)
+      await exportToPdf(
+        activeDocument.title,
+        activeDocument.summary || "",
+        activeDocument.content,
+        getPdfExportSettings(),
+        activeDocument,
+      )
       console.log("PDF exported successfully")
       alert(`Successfully exported "${activeDocument.title}" as PDF`)
     } catch (error) {
@@ -206,11 +238,16 @@ export default function LibraryPage() {
         <div className="p-4">
           <div className="relative mb-4">
             <Input
-              placeholder="Search notes..."
+              placeholder="Search notes or tag:, has:, before:..."
               className="input-standard"
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
             />
+            {librarySearch?.errors.map((error) => (
+              <div key={error} className="text-xs text-destructive mt-1">
+                {error}
+              </div>
+            ))}
           </div>
 
           <div className="mb-4">
@@ -221,16 +258,16 @@ export default function LibraryPage() {
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button variant="outline" size="sm" className="flex-1 justify-between">
-                    {sortBy === "date" ? "Date" : sortBy === "title" ? "Title" : "Tags"}
+                    {DOCUMENT_SORT_LABELS[sortBy]}
                     <ChevronDown className="h-4 w-4 ml-2" />
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent>
-                  <DropdownMenuItem onClick={() => setSortBy("date")}>Date {sortBy === "date" && "✓"}</DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => setSortBy("title")}>
-                    Title {sortBy === "title" && "✓"}
-                  </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => setSortBy("tags")}>Tags {sortBy === "tags" && "✓"}</DropdownMenuItem>
+                  {(Object.keys(DOCUMENT_SORT_LABELS) as DocumentSortKey[]).map((key) => (
+                    <DropdownMenuItem key={key} onClick={() => setSortBy(key)}>
+                      {DOCUMENT_SORT_LABELS[key]} {sortBy === key && "✓"}
+                    </DropdownMenuItem>
+                  ))}
                 </DropdownMenuContent>
               </DropdownMenu>
               <Button
@@ -297,6 +334,10 @@ export default function LibraryPage() {
             )}
           </div>
 
+          <div className="mb-4">
+            <SavedSearches currentQuery={searchTerm} onSelect={setSearchTerm} />
+          </div>
+
           <div className="space-y-1">
             <div className="font-medium mb-2 text-sm">Documents</div>
             {filteredDocuments.length > 0 ? (
@@ -309,9 +350,16 @@ export default function LibraryPage() {
                       ? "bg-accent text-accent-foreground font-medium"
                       : "hover:bg-accent/50",
                   )}
-                  onClick={() => setActiveDocument(doc)}
+                  onClick={() => selectDocument(doc)}
                 >
                   <div className="line-clamp-1">{doc.title}</div>
+                  {searchResultsById.has(doc.id) && (
+                    <SearchSnippet segments={searchResultsById.get(doc.id)!.snippet} className="line-clamp-2" />
+                  )}
+                  <div className="text-xs text-muted-foreground">
+                    {new Date(getDocumentUpdatedAt(doc)).toLocaleDateString()}
+                    {doc.wordCount !== undefined && ` · ${doc.wordCount} words`}
+                  </div>
                 </button>
               ))
             ) : (
@@ -344,7 +392,7 @@ export default function LibraryPage() {
               type="file"
               ref={fileInputRef}
               onChange={handleImportFiles}
-              accept=".md"
+              accept=".md,.zip"
               multiple
               className="hidden"
             />
@@ -373,11 +421,16 @@ export default function LibraryPage() {
         <div className="md:hidden p-4 border-b border-border">
           <div className="relative mb-4">
             <Input
-              placeholder="Search notes..."
+              placeholder="Search notes or tag:, has:, before:..."
               className="input-standard"
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
             />
+            {librarySearch?.errors.map((error) => (
+              <div key={error} className="text-xs text-destructive mt-1">
+                {error}
+              </div>
+            ))}
           </div>
 
           <div className="mb-4">
@@ -388,16 +441,16 @@ export default function LibraryPage() {
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button variant="outline" size="sm" className="flex-1 justify-between">
-                    {sortBy === "date" ? "Date" : sortBy === "title" ? "Title" : "Tags"}
+                    {DOCUMENT_SORT_LABELS[sortBy]}
                     <ChevronDown className="h-4 w-4 ml-2" />
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent>
-                  <DropdownMenuItem onClick={() => setSortBy("date")}>Date {sortBy === "date" && "✓"}</DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => setSortBy("title")}>
-                    Title {sortBy === "title" && "✓"}
-                  </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => setSortBy("tags")}>Tags {sortBy === "tags" && "✓"}</DropdownMenuItem>
+                  {(Object.keys(DOCUMENT_SORT_LABELS) as DocumentSortKey[]).map((key) => (
+                    <DropdownMenuItem key={key} onClick={() => setSortBy(key)}>
+                      {DOCUMENT_SORT_LABELS[key]} {sortBy === key && "✓"}
+                    </DropdownMenuItem>
+                  ))}
                 </DropdownMenuContent>
               </DropdownMenu>
               <Button
@@ -464,6 +517,10 @@ export default function LibraryPage() {
             )}
           </div>
 
+          <div className="mt-4">
+            <SavedSearches currentQuery={searchTerm} onSelect={setSearchTerm} />
+          </div>
+
           {/* Mobile import/export buttons */}
           <div className="flex gap-2 mt-4">
             <Button
@@ -495,10 +552,18 @@ export default function LibraryPage() {
                 <div
                   key={doc.id}
                   className="p-4 cursor-pointer hover:bg-accent/50"
-                  onClick={() => setActiveDocument(doc)}
+                  onClick={() => selectDocument(doc)}
                 >
                   <div className="font-medium mb-2">{doc.title}</div>
-                  {doc.summary && <div className="text-xs text-muted-foreground mb-2">{doc.summary}</div>}
+                  {searchResultsById.has(doc.id) ? (
+                    <SearchSnippet segments={searchResultsById.get(doc.id)!.snippet} className="mb-2" />
+                  ) : (
+                    doc.summary && <div className="text-xs text-muted-foreground mb-2">{doc.summary}</div>
+                  )}
+                  <div className="text-xs text-muted-foreground mb-2">
+                    Edited {new Date(getDocumentUpdatedAt(doc)).toLocaleDateString()}
+                    {doc.wordCount !== undefined && ` · ${doc.wordCount} words`}
+                  </div>
                   <div className="flex flex-wrap gap-2 mb-2">
                     {doc.tags.map((tag) => (
                       <Badge key={tag} variant="secondary" className="text-xs uppercase">
@@ -576,7 +641,7 @@ export default function LibraryPage() {
             </Card>
 
             {/* Cornell notes preview */}
-            <CornellNotes markdown={activeDocument.content} />
+            <CornellNotes markdown={activeDocument.content} highlightSectionId={highlightedSectionId || undefined} />
           </div>
         ) : (
           <div className="flex items-center justify-center h-[calc(100vh-4rem)] md:h-screen">
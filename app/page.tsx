@@ -8,31 +8,62 @@ import { Card, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
-import { getAllDocuments, deleteDocument, type DocumentData } from "@/lib/storage-utils"
-import { exportAllToZip, importMarkdownFiles } from "@/lib/export-import-utils"
+import {
+  getAllDocuments,
+  deleteDocument,
+  markDocumentOpened,
+  sortDocuments,
+  getDocumentUpdatedAt,
+  formatDocumentDetails,
+  DOCUMENT_SORT_LABELS,
+  type DocumentData,
+  type DocumentSortKey,
+} from "@/lib/storage-utils"
+import { exportAllToZip, importMarkdownFiles, describeMarkdownImport } from "@/lib/export-import-utils"
 import { cn } from "@/lib/utils"
 import { CornellNotes } from "@/components/cornell-notes"
 import { RelatedNotes } from "@/components/related-notes"
-import { exportToPdf } from "@/lib/export-utils"
-import { ChevronDown, Search, X, Tag, Check } from "lucide-react"
+import { SearchSnippet } from "@/components/search-snippet"
+import { SavedSearches } from "@/components/saved-searches"
+import { FlashcardGenerator } from "@/components/flashcard-generator"
+import { VaultImportDialog } from "@/components/vault-import-dialog"
+import { BackupDialog } from "@/components/backup-dialog"
+import { HtmlImportDialog } from "@/components/html-import-dialog"
+import { PdfBinderDialog } from "@/components/pdf-binder-dialog"
+import { PdfExportDialog } from "@/components/pdf-export-dialog"
+import { searchLibrary, type LibrarySearch } from "@/lib/search-query"
+import { exportToPdf, type PdfExportOptions } from "@/lib/export-utils"
+import { exportToHtml, exportToEpub } from "@/lib/html-export"
+import { ChevronDown, Search, X, Tag, Check, ArrowUpDown } from "lucide-react"
 import { exportToAnki } from "@/lib/anki-export-utils"
+import { getAllFlashcardDecks } from "@/lib/flashcard-utils"
 
 export default function LibraryPage() {
   const router = useRouter()
   const [allDocuments, setAllDocuments] = useState<DocumentData[]>([])
   const [searchQuery, setSearchQuery] = useState("")
   const [filterTags, setFilterTags] = useState<string[]>([])
+  const [sortBy, setSortBy] = useState<DocumentSortKey>("updated")
+  const [librarySearch, setLibrarySearch] = useState<LibrarySearch | null>(null)
+  const [highlightedSectionId, setHighlightedSectionId] = useState<string | null>(null)
   const [activeDocument, setActiveDocument] = useState<DocumentData | null>(null)
   const [isExporting, setIsExporting] = useState(false)
   const [isImporting, setIsImporting] = useState(false)
+  const [isVaultImportOpen, setIsVaultImportOpen] = useState(false)
+  const [isBackupOpen, setIsBackupOpen] = useState(false)
+  const [isHtmlImportOpen, setIsHtmlImportOpen] = useState(false)
+  const [isPdfBinderOpen, setIsPdfBinderOpen] = useState(false)
+  const [isPdfExportOpen, setIsPdfExportOpen] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const [isExportingAnki, setIsExportingAnki] = useState(false)
+  const [isExportingEpub, setIsExportingEpub] = useState(false)
+  const [isFlashcardGeneratorOpen, setIsFlashcardGeneratorOpen] = useState(false)
 
   // Custom dropdown state
   const [tagsDropdownOpen, setTagsDropdownOpen] = useState(false)
-  const [pdfDropdownOpen, setPdfDropdownOpen] = useState(false)
+  const [sortDropdownOpen, setSortDropdownOpen] = useState(false)
   const tagsDropdownRef = useRef<HTMLDivElement>(null)
-  const pdfDropdownRef = useRef<HTMLDivElement>(null)
+  const sortDropdownRef = useRef<HTMLDivElement>(null)
 
   // Compute filtered documents directly during render
   const filteredDocuments = useMemo(() => {
@@ -40,19 +71,15 @@ export default function LibraryPage() {
       return []
     }
 
-    let result = [...allDocuments]
-
-    // Apply search filter (title, summary, and tags)
-    if (searchQuery.trim()) {
-      const query = searchQuery.trim().toLowerCase()
-
-      result = result.filter((doc) => {
-        const titleMatch = doc.title.toLowerCase().includes(query)
-        const summaryMatch = doc.summary?.toLowerCase().includes(query) || false
-        const tagMatch = doc.tags.some((tag) => tag.toLowerCase().includes(query))
-        return titleMatch || summaryMatch || tagMatch
-      })
-    }
+    // Full-text results are already ranked by relevance; otherwise sort by the selected key
+    // (titles A-Z, everything else newest/largest first)
+    let result = librarySearch?.results
+      ? librarySearch.documents
+      : sortDocuments(
+          librarySearch ? librarySearch.documents : allDocuments,
+          sortBy,
+          sortBy === "title" || sortBy === "tags" ? "asc" : "desc",
+        )
 
     // Apply tag filter
     if (filterTags.length > 0) {
@@ -61,11 +88,35 @@ export default function LibraryPage() {
       })
     }
 
-    // Sort by creation date (newest first) - default sorting only
-    result.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-
     return result
-  }, [allDocuments, searchQuery, filterTags])
+  }, [allDocuments, librarySearch, filterTags, sortBy])
+
+  // Look up the search hit for a document (snippet and matching section)
+  const searchResultsById = useMemo(() => {
+    return new Map((librarySearch?.results || []).map((searchResult) => [searchResult.document.id, searchResult]))
+  }, [librarySearch])
+
+  // Run the search query shortly after typing stops
+  useEffect(() => {
+    const query = searchQuery.trim()
+    if (!query) {
+      setLibrarySearch(null)
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      const search = await searchLibrary(query, allDocuments)
+      if (!cancelled) {
+        setLibrarySearch(search)
+      }
+    }, 150)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [searchQuery, allDocuments])
 
   // Get all available tags
   const availableTags = useMemo(() => {
@@ -79,8 +130,8 @@ export default function LibraryPage() {
       if (tagsDropdownRef.current && !tagsDropdownRef.current.contains(event.target as Node)) {
         setTagsDropdownOpen(false)
       }
-      if (pdfDropdownRef.current && !pdfDropdownRef.current.contains(event.target as Node)) {
-        setPdfDropdownOpen(false)
+      if (sortDropdownRef.current && !sortDropdownRef.current.contains(event.target as Node)) {
+        setSortDropdownOpen(false)
       }
     }
 
@@ -92,25 +143,29 @@ export default function LibraryPage() {
 
   // Load documents on mount
   useEffect(() => {
-    const docs = getAllDocuments()
-    setAllDocuments(docs)
-
-    // Check if there's a specific document to show from URL params
-    const urlParams = new URLSearchParams(window.location.search)
-    const docId = urlParams.get("doc")
+    const loadDocuments = async () => {
+      const docs = await getAllDocuments()
+      setAllDocuments(docs)
+
+      // Check if there's a specific document to show from URL params
+      const urlParams = new URLSearchParams(window.location.search)
+      const docId = urlParams.get("doc")
+
+      if (docId && docs.length > 0) {
+        const targetDoc = docs.find((doc) => doc.id === docId)
+        if (targetDoc) {
+          setActiveDocument(targetDoc)
+          return
+        }
+      }
 
-    if (docId && docs.length > 0) {
-      const targetDoc = docs.find((doc) => doc.id === docId)
-      if (targetDoc) {
-        setActiveDocument(targetDoc)
-        return
+      // Set first document as active if none selected and no specific doc requested
+      if (docs.length > 0 && !activeDocument) {
+        setActiveDocument(docs[0])
       }
     }
 
-    // Set first document as active if none selected and no specific doc requested
-    if (docs.length > 0 && !activeDocument) {
-      setActiveDocument(docs[0])
-    }
+    loadDocuments()
   }, [])
 
   // Handle URL parameter changes for document selection
@@ -148,8 +203,8 @@ export default function LibraryPage() {
     setFilterTags([])
   }
 
-  const reloadDocuments = () => {
-    const docs = getAllDocuments()
+  const reloadDocuments = async () => {
+    const docs = await getAllDocuments()
     setAllDocuments(docs)
 
     if (docs.length > 0 && !activeDocument) {
@@ -157,7 +212,13 @@ export default function LibraryPage() {
     }
   }
 
-  const handleDelete = (id: string) => {
+  const handleHtmlImported = async (id: string) => {
+    const docs = await getAllDocuments()
+    setAllDocuments(docs)
+    setActiveDocument(docs.find((doc) => doc.id === id) || null)
+  }
+
+  const handleDelete = async (id: string) => {
     const docToDelete = allDocuments.find((doc) => doc.id === id)
     const docTitle = docToDelete ? docToDelete.title : "this document"
 
@@ -167,14 +228,14 @@ export default function LibraryPage() {
       return
     }
 
-    deleteDocument(id)
+    await deleteDocument(id)
 
     if (activeDocument && activeDocument.id === id) {
       const remaining = allDocuments.filter((doc) => doc.id !== id)
       setActiveDocument(remaining.length > 0 ? remaining[0] : null)
     }
 
-    reloadDocuments()
+    await reloadDocuments()
   }
 
   const handleExportAll = async () => {
@@ -205,9 +266,9 @@ export default function LibraryPage() {
 
     setIsImporting(true)
     try {
-      const count = await importMarkdownFiles(files)
-      reloadDocuments()
-      alert(`Successfully imported ${count} files`)
+      const result = await importMarkdownFiles(files)
+      await reloadDocuments()
+      alert(`Import finished: ${describeMarkdownImport(result)}`)
     } catch (error) {
       console.error("Import failed:", error)
       alert(`Import failed: ${error instanceof Error ? error.message : "Unknown error"}`)
@@ -219,22 +280,61 @@ export default function LibraryPage() {
     }
   }
 
-  const handleExportPdf = async (font: "sans" | "serif" | "mixed") => {
+  const handleExportPdf = async (options: PdfExportOptions) => {
     if (!activeDocument) {
       alert("Please select a document to export.")
       return
     }
 
     try {
-      await exportToPdf(activeDocument.title, activeDocument.summary || "", activeDocument.content, font)
+      await exportToPdf(
+        activeDocument.title,
+        activeDocument.summary || "",
+        activeDocument.content,
+        options,
+        activeDocument,
+      )
       alert(`Successfully exported "${activeDocument.title}" as PDF`)
     } catch (error) {
       console.error("PDF export failed:", error)
       alert(`PDF export failed: ${error instanceof Error ? error.message : "Unknown error"}`)
     }
+  }
 
-    // Close the dropdown after export
-    setPdfDropdownOpen(false)
+  const handleExportHtml = async () => {
+    if (!activeDocument) return
+
+    try {
+      await exportToHtml(activeDocument)
+    } catch (error) {
+      console.error("HTML export failed:", error)
+      alert(`HTML export failed: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // Export the active note, or every note in the current filter, as an EPUB book
+  const handleExportEpub = async (docs: DocumentData[]) => {
+    if (docs.length === 0) {
+      alert("No documents to export.")
+      return
+    }
+
+    const bookTitle =
+      docs.length === 1
+        ? docs[0].title
+        : filterTags.length > 0
+          ? `Notes tagged ${filterTags.join(", ")}`
+          : "Cornell Notes Library"
+
+    setIsExportingEpub(true)
+    try {
+      await exportToEpub(docs, bookTitle)
+    } catch (error) {
+      console.error("EPUB export failed:", error)
+      alert(`EPUB export failed: ${error instanceof Error ? error.message : "Unknown error"}`)
+    } finally {
+      setIsExportingEpub(false)
+    }
   }
 
   const handleNoteLinkClick = (title: string) => {
@@ -249,16 +349,24 @@ export default function LibraryPage() {
 
   const handleDocumentSelect = (doc: DocumentData) => {
     setActiveDocument(doc)
+    markDocumentOpened(doc.id)
 
     // Update the URL to reflect the selected document without causing a page reload
     const newUrl = new URL(window.location.href)
     newUrl.searchParams.set("doc", doc.id)
     window.history.replaceState({}, "", newUrl.toString())
 
+    // Search hits jump straight to the matching section
+    const sectionId = searchResultsById.get(doc.id)?.sectionId
+    setHighlightedSectionId(sectionId || null)
+
     // Check if we're on mobile (lg breakpoint and below)
     const isMobile = window.innerWidth < 1024
 
-    if (isMobile) {
+    if (sectionId) {
+      // Use setTimeout to ensure the document has been rendered first
+      setTimeout(() => handleHeadingClick(sectionId), 100)
+    } else if (isMobile) {
       // On mobile, scroll to the document title in the main content area
       // Use setTimeout to ensure the document has been rendered first
       setTimeout(() => {
@@ -300,10 +408,20 @@ export default function LibraryPage() {
       return
     }
 
+    // Offer to carry over review progress when the note has a flashcard deck
+    const deck = getAllFlashcardDecks().find(
+      (candidate) => candidate.sourceDocumentId === activeDocument.id && candidate.cards.length > 0,
+    )
+    const useDeck =
+      !!deck &&
+      window.confirm(
+        `Export the cards of the "${deck.name}" deck with their review progress?\n\nChoose Cancel to export one new card per section instead.`,
+      )
+
     setIsExportingAnki(true)
     try {
-      await exportToAnki(activeDocument.title, activeDocument.summary || "", activeDocument.content)
-      alert(`Successfully exported "${activeDocument.title}" as Anki flashcards`)
+      const count = await exportToAnki(activeDocument, { deck: useDeck ? deck : undefined })
+      alert(`Exported ${count} card${count !== 1 ? "s" : ""} from "${activeDocument.title}" as an Anki package`)
     } catch (error) {
       console.error("Anki export failed:", error)
       alert(`Anki export failed: ${error instanceof Error ? error.message : "Unknown error"}`)
@@ -325,7 +443,7 @@ export default function LibraryPage() {
           <div className="relative flex-1 max-w-xs sm:max-w-sm">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
             <Input
-              placeholder="Search..."
+              placeholder="Search... (tag:, folder:, has:, links-to:)"
               className="pl-10 pr-8 w-full text-sm h-10"
               value={searchQuery}
               onChange={handleSearchInput}
@@ -378,6 +496,42 @@ export default function LibraryPage() {
             )}
           </div>
 
+          {/* Custom Sort Dropdown */}
+          <div className="relative" ref={sortDropdownRef}>
+            <Button
+              variant="outline"
+              size="default"
+              className="gap-2 h-10"
+              onClick={() => setSortDropdownOpen(!sortDropdownOpen)}
+            >
+              <ArrowUpDown className="h-4 w-4" />
+              <span className="hidden sm:inline">{DOCUMENT_SORT_LABELS[sortBy]}</span>
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+
+            {sortDropdownOpen && (
+              <div className="absolute left-0 top-full mt-1 w-48 rounded-md border bg-popover p-1 text-popover-foreground shadow-md z-50">
+                <div className="px-2 py-1.5 text-sm font-semibold">Sort by</div>
+                <div className="-mx-1 my-1 h-px bg-muted"></div>
+                {(Object.keys(DOCUMENT_SORT_LABELS) as DocumentSortKey[]).map((key) => (
+                  <div
+                    key={key}
+                    className="relative flex cursor-pointer select-none items-center rounded-sm py-1.5 pl-8 pr-2 text-sm outline-none hover:bg-accent hover:text-accent-foreground"
+                    onClick={() => {
+                      setSortBy(key)
+                      setSortDropdownOpen(false)
+                    }}
+                  >
+                    <span className="absolute left-2 flex h-3.5 w-3.5 items-center justify-center">
+                      {sortBy === key && <Check className="h-4 w-4" />}
+                    </span>
+                    {DOCUMENT_SORT_LABELS[key]}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
           {/* Clear Filters */}
           {(searchQuery || filterTags.length > 0) && (
             <Button variant="ghost" size="default" onClick={clearAllFilters} className="whitespace-nowrap h-10">
@@ -388,6 +542,10 @@ export default function LibraryPage() {
         </div>
 
         <div className="flex items-center gap-3 sm:gap-4">
+          <Button variant="outline" size="default" onClick={() => router.push("/review")} className="h-10">
+            Review
+          </Button>
+
           {/* New Note button - hidden on mobile */}
           <Button
             size="default"
@@ -428,6 +586,14 @@ export default function LibraryPage() {
               {allDocuments.length !== filteredDocuments.length && ` of ${allDocuments.length}`})
             </div>
 
+            {librarySearch && librarySearch.errors.length > 0 && (
+              <div className="text-xs text-destructive mb-3 space-y-1">
+                {librarySearch.errors.map((error) => (
+                  <div key={error}>{error}</div>
+                ))}
+              </div>
+            )}
+
             <div className="space-y-2">
               {filteredDocuments.length === 0 ? (
                 <div className="text-xs text-muted-foreground p-3 text-center">
@@ -446,9 +612,22 @@ export default function LibraryPage() {
                     onClick={() => handleDocumentSelect(doc)}
                   >
                     <div className="line-clamp-1 font-medium text-base">{doc.title}</div>
-                    {doc.summary && (
-                      <div className="text-xs text-muted-foreground mt-1 line-clamp-2">{doc.summary}</div>
+                    {searchResultsById.has(doc.id) ? (
+                      <>
+                        {searchResultsById.get(doc.id)!.sectionHeading && (
+                          <div className="text-xs font-medium mt-1 line-clamp-1">
+                            {searchResultsById.get(doc.id)!.sectionHeading}
+                          </div>
+                        )}
+                        <SearchSnippet segments={searchResultsById.get(doc.id)!.snippet} className="mt-1 line-clamp-3" />
+                      </>
+                    ) : (
+                      doc.summary && <div className="text-xs text-muted-foreground mt-1 line-clamp-2">{doc.summary}</div>
                     )}
+                    <div className="text-xs text-muted-foreground mt-1">
+                      Edited {new Date(getDocumentUpdatedAt(doc)).toLocaleDateString()}
+                      {doc.wordCount !== undefined && ` · ${doc.wordCount} words`}
+                    </div>
                     {doc.tags.length > 0 && (
                       <div className="flex gap-1 mt-2 overflow-x-auto">
                         {doc.tags.slice(0, 3).map((tag) => (
@@ -468,6 +647,10 @@ export default function LibraryPage() {
               )}
             </div>
 
+            <div className="mt-6 pt-4 border-t border-border">
+              <SavedSearches currentQuery={searchQuery} onSelect={setSearchQuery} />
+            </div>
+
             <div className="mt-6 pt-4 border-t border-border space-y-2">
               <div className="grid grid-cols-2 gap-2">
                 <Button variant="outline" size="sm" onClick={handleExportAll} disabled={isExporting}>
@@ -481,11 +664,42 @@ export default function LibraryPage() {
                   {isImporting ? "Importing..." : "Import"}
                 </Button>
               </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => handleExportEpub(filteredDocuments)}
+                disabled={isExportingEpub}
+              >
+                {isExportingEpub
+                  ? "Exporting..."
+                  : filteredDocuments.length === allDocuments.length
+                    ? "Export Library as EPUB"
+                    : `Export ${filteredDocuments.length} as EPUB`}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => setIsPdfBinderOpen(true)}
+                disabled={allDocuments.length === 0}
+              >
+                Export PDF Binder
+              </Button>
+              <Button variant="outline" size="sm" className="w-full" onClick={() => setIsVaultImportOpen(true)}>
+                Import Obsidian / Logseq Vault
+              </Button>
+              <Button variant="outline" size="sm" className="w-full" onClick={() => setIsHtmlImportOpen(true)}>
+                Import Web Page / HTML
+              </Button>
+              <Button variant="outline" size="sm" className="w-full" onClick={() => setIsBackupOpen(true)}>
+                Backup & Restore
+              </Button>
               <input
                 type="file"
                 ref={fileInputRef}
                 onChange={handleImportFiles}
-                accept=".md"
+                accept=".md,.zip"
                 multiple
                 className="hidden"
               />
@@ -500,6 +714,11 @@ export default function LibraryPage() {
             <div className="p-4 sm:p-6 max-w-4xl mx-auto">
               <div className="flex items-start justify-between mb-6 gap-4">
                 <div className="flex-1 min-w-0">
+                  {activeDocument.folder && (
+                    <div className="text-xs text-muted-foreground mb-1">
+                      {activeDocument.folder.split("/").join(" / ")}
+                    </div>
+                  )}
                   <h1 className="text-2xl sm:text-3xl font-bold mb-3 break-words">{activeDocument.title}</h1>
                   <div className="flex flex-wrap gap-1 overflow-x-auto">
                     {activeDocument.tags.map((tag) => (
@@ -508,6 +727,17 @@ export default function LibraryPage() {
                       </Badge>
                     ))}
                   </div>
+                  <div className="text-xs text-muted-foreground mt-2">{formatDocumentDetails(activeDocument)}</div>
+                  {activeDocument.sourceUrl && (
+                    <a
+                      href={activeDocument.sourceUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs text-primary underline break-all"
+                    >
+                      {activeDocument.sourceUrl}
+                    </a>
+                  )}
                 </div>
                 {/* Action buttons - hidden on mobile */}
                 <div className="hidden md:flex gap-2 flex-shrink-0">
@@ -515,43 +745,31 @@ export default function LibraryPage() {
                     Edit
                   </Button>
 
-                  {/* Custom PDF Export Dropdown */}
-                  <div className="relative" ref={pdfDropdownRef}>
-                    <Button variant="outline" size="sm" onClick={() => setPdfDropdownOpen(!pdfDropdownOpen)}>
-                      Export PDF
-                      <ChevronDown className="h-4 w-4 ml-2" />
-                    </Button>
-
-                    {pdfDropdownOpen && (
-                      <div className="absolute right-0 top-full mt-1 min-w-[8rem] rounded-md border bg-popover p-1 text-popover-foreground shadow-md z-50">
-                        <div className="px-2 py-1.5 text-sm font-semibold">Font Style</div>
-                        <div className="-mx-1 my-1 h-px bg-muted"></div>
-                        <div
-                          className="relative flex cursor-pointer select-none items-center rounded-sm px-2 py-1.5 text-sm outline-none hover:bg-accent hover:text-accent-foreground"
-                          onClick={() => handleExportPdf("sans")}
-                        >
-                          Sans
-                        </div>
-                        <div
-                          className="relative flex cursor-pointer select-none items-center rounded-sm px-2 py-1.5 text-sm outline-none hover:bg-accent hover:text-accent-foreground"
-                          onClick={() => handleExportPdf("serif")}
-                        >
-                          Serif
-                        </div>
-                        <div
-                          className="relative flex cursor-pointer select-none items-center rounded-sm px-2 py-1.5 text-sm outline-none hover:bg-accent hover:text-accent-foreground"
-                          onClick={() => handleExportPdf("mixed")}
-                        >
-                          Mixed
-                        </div>
-                      </div>
-                    )}
-                  </div>
+                  <Button variant="outline" size="sm" onClick={() => setIsPdfExportOpen(true)}>
+                    Export PDF
+                  </Button>
 
                   <Button variant="outline" size="sm" onClick={handleExportAnki} disabled={isExportingAnki}>
                     {isExportingAnki ? "Exporting..." : "Export Anki"}
                   </Button>
 
+                  <Button variant="outline" size="sm" onClick={handleExportHtml}>
+                    Export HTML
+                  </Button>
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleExportEpub([activeDocument])}
+                    disabled={isExportingEpub}
+                  >
+                    Export EPUB
+                  </Button>
+
+                  <Button variant="outline" size="sm" onClick={() => setIsFlashcardGeneratorOpen(true)}>
+                    Flashcards
+                  </Button>
+
                   <Button
                     variant="outline"
                     size="sm"
@@ -591,10 +809,24 @@ export default function LibraryPage() {
               </Card>
 
               <div className="mb-8">
-                <CornellNotes markdown={activeDocument.content} onNoteClick={handleNoteLinkClick} />
+                <CornellNotes
+                  markdown={activeDocument.content}
+                  onNoteClick={handleNoteLinkClick}
+                  highlightSectionId={highlightedSectionId || undefined}
+                />
               </div>
 
               <RelatedNotes document={activeDocument} onNoteClick={setActiveDocument} />
+
+              <FlashcardGenerator
+                key={activeDocument.id}
+                isOpen={isFlashcardGeneratorOpen}
+                onClose={() => setIsFlashcardGeneratorOpen(false)}
+                documentId={activeDocument.id}
+                documentTitle={activeDocument.title}
+                documentContent={activeDocument.content}
+                documentTags={activeDocument.tags}
+              />
             </div>
           ) : (
             <div className="flex items-center justify-center min-h-[60vh] p-8">
@@ -609,6 +841,34 @@ export default function LibraryPage() {
           )}
         </main>
       </div>
+
+      <VaultImportDialog
+        isOpen={isVaultImportOpen}
+        onClose={() => setIsVaultImportOpen(false)}
+        onImported={reloadDocuments}
+      />
+
+      <HtmlImportDialog
+        isOpen={isHtmlImportOpen}
+        onClose={() => setIsHtmlImportOpen(false)}
+        onImported={handleHtmlImported}
+      />
+
+      <BackupDialog isOpen={isBackupOpen} onClose={() => setIsBackupOpen(false)} onRestored={reloadDocuments} />
+
+      <PdfExportDialog
+        isOpen={isPdfExportOpen}
+        onClose={() => setIsPdfExportOpen(false)}
+        onExport={handleExportPdf}
+      />
+
+      <PdfBinderDialog
+        isOpen={isPdfBinderOpen}
+        onClose={() => setIsPdfBinderOpen(false)}
+        documents={allDocuments}
+        initialSelection={filteredDocuments.map((doc) => doc.id)}
+        defaultTitle={filterTags.length > 0 ? `Notes tagged ${filterTags.join(", ")}` : "Cornell Notes Library"}
+      />
     </div>
   )
 }
@@ -0,0 +1,213 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { FlashcardReview } from "@/components/flashcard-review"
+import { DeckSchedulerSettings } from "@/components/deck-scheduler-settings"
+import { DeckResyncDialog } from "@/components/deck-resync-dialog"
+import { AnkiImportDialog } from "@/components/anki-import-dialog"
+import {
+  getAllFlashcardDecks,
+  getDueFlashcards,
+  getDeckDueCount,
+  deleteFlashcardDeck,
+  type DueFlashcard,
+  type FlashcardDeck,
+} from "@/lib/flashcard-utils"
+import { SCHEDULER_NAMES } from "@/lib/scheduler"
+import { deleteReviewLogEntries } from "@/lib/review-log"
+import { BarChart3, Brain, RefreshCw, Settings, Upload } from "lucide-react"
+
+export default function ReviewPage() {
+  const [decks, setDecks] = useState<FlashcardDeck[]>([])
+  const [session, setSession] = useState<DueFlashcard[] | null>(null)
+  const [settingsDeck, setSettingsDeck] = useState<FlashcardDeck | null>(null)
+  const [resyncDeck, setResyncDeck] = useState<FlashcardDeck | null>(null)
+  const [isImportOpen, setIsImportOpen] = useState(false)
+
+  const loadDecks = () => {
+    setDecks(getAllFlashcardDecks())
+  }
+
+  useEffect(() => {
+    loadDecks()
+  }, [])
+
+  const totalDue = decks.reduce((total, deck) => total + getDeckDueCount(deck), 0)
+
+  const startSession = (deckId?: string) => {
+    const cards = getDueFlashcards(deckId)
+    if (cards.length === 0) {
+      alert("No cards are due for review right now.")
+      return
+    }
+    setSession(cards)
+  }
+
+  const endSession = () => {
+    setSession(null)
+    loadDecks()
+  }
+
+  const handleDelete = (deck: FlashcardDeck) => {
+    if (!window.confirm(`Delete the deck "${deck.name}" and all of its cards?`)) return
+
+    if (deleteFlashcardDeck(deck.id)) {
+      deleteReviewLogEntries(deck.id).catch((error) => console.error("Error deleting review log:", error))
+      loadDecks()
+    } else {
+      alert("Failed to delete the deck. Please try again.")
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="w-full flex items-center justify-between p-4 border-b border-border sticky top-0 z-10 bg-background gap-4">
+        <div className="flex items-center gap-4">
+          <Link href="/" className="font-medium text-lg whitespace-nowrap">
+            Notes
+          </Link>
+          <span className="text-muted-foreground">/</span>
+          <span className="font-medium">Review</span>
+        </div>
+        {!session && (
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => setIsImportOpen(true)} className="h-10">
+              <Upload className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">Import</span>
+            </Button>
+            <Button variant="outline" asChild className="h-10">
+              <Link href="/review/stats">
+                <BarChart3 className="h-4 w-4 sm:mr-2" />
+                <span className="hidden sm:inline">Statistics</span>
+              </Link>
+            </Button>
+            <Button onClick={() => startSession()} disabled={totalDue === 0} className="h-10">
+              Study all due ({totalDue})
+            </Button>
+          </div>
+        )}
+      </header>
+
+      <main className="p-4 sm:p-6 max-w-3xl mx-auto">
+        {session ? (
+          <FlashcardReview cards={session} onExit={endSession} />
+        ) : decks.length === 0 ? (
+          <div className="flex items-center justify-center min-h-[60vh] p-8">
+            <div className="text-center">
+              <Brain className="h-10 w-10 mx-auto mb-4 text-muted-foreground" />
+              <h3 className="text-lg font-medium mb-2">No flashcard decks yet</h3>
+              <p className="text-sm text-muted-foreground mb-4">
+                Open a note and use Flashcards to generate a deck from it, or import decks from Anki.
+              </p>
+              <div className="flex justify-center gap-2">
+                <Button asChild>
+                  <Link href="/">Go to notes</Link>
+                </Button>
+                <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+                  Import from Anki
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {decks.map((deck) => {
+              const due = getDeckDueCount(deck)
+              const activeCards = deck.cards.filter((card) => card.syncStatus !== "retired").length
+              const changedCards = deck.cards.filter((card) => card.syncStatus === "changed").length
+              return (
+                <Card key={deck.id}>
+                  <CardContent className="p-4 flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="font-medium line-clamp-1">{deck.name}</div>
+                      {deck.description && (
+                        <div className="text-xs text-muted-foreground line-clamp-1 mt-1">{deck.description}</div>
+                      )}
+                      <div className="flex items-center gap-2 mt-2">
+                        <Badge variant={due > 0 ? "default" : "secondary"} className="text-xs">
+                          {due} due
+                        </Badge>
+                        <span className="text-xs text-muted-foreground">
+                          {activeCards} card{activeCards !== 1 ? "s" : ""}
+                        </span>
+                        {changedCards > 0 && (
+                          <Badge variant="outline" className="text-xs text-amber-700 dark:text-amber-400">
+                            {changedCards} changed
+                          </Badge>
+                        )}
+                        <Badge variant="outline" className="text-xs">
+                          {SCHEDULER_NAMES[deck.scheduler || "sm2"]}
+                        </Badge>
+                        {deck.sourceDocumentId && (
+                          <Link
+                            href={`/?doc=${deck.sourceDocumentId}`}
+                            className="text-xs text-muted-foreground hover:text-primary hover:underline"
+                          >
+                            Source note
+                          </Link>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                      {deck.sourceDocumentId && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="w-9 p-0"
+                          onClick={() => setResyncDeck(deck)}
+                          title="Resync with source note"
+                        >
+                          <RefreshCw className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="w-9 p-0"
+                        onClick={() => setSettingsDeck(deck)}
+                        title="Scheduling settings"
+                      >
+                        <Settings className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(deck)}
+                        className="border-destructive text-destructive hover:bg-destructive hover:text-destructive-foreground"
+                      >
+                        Delete
+                      </Button>
+                      <Button size="sm" onClick={() => startSession(deck.id)} disabled={due === 0}>
+                        Study
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              )
+            })}
+          </div>
+        )}
+      </main>
+
+      <DeckSchedulerSettings
+        isOpen={settingsDeck !== null}
+        onClose={() => setSettingsDeck(null)}
+        deck={settingsDeck}
+        onSaved={loadDecks}
+      />
+
+      <DeckResyncDialog
+        isOpen={resyncDeck !== null}
+        onClose={() => setResyncDeck(null)}
+        deck={resyncDeck}
+        onSaved={loadDecks}
+      />
+
+      <AnkiImportDialog isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} onImported={loadDecks} />
+    </div>
+  )
+}
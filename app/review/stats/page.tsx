@@ -0,0 +1,188 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { Card, CardContent } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { ReviewHeatmap } from "@/components/review-heatmap"
+import { getAllFlashcardDecks, type FlashcardDeck } from "@/lib/flashcard-utils"
+import { getReviewLogEntries, type ReviewLogEntry } from "@/lib/review-log"
+import {
+  getDayKey,
+  getReviewsPerDay,
+  getStudyStreak,
+  getRetentionByDeck,
+  getDueForecast,
+  getMostLapsedCards,
+} from "@/lib/review-stats"
+
+const FORECAST_DAYS = 30
+
+export default function ReviewStatsPage() {
+  const [decks, setDecks] = useState<FlashcardDeck[]>([])
+  const [entries, setEntries] = useState<ReviewLogEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    const loadStats = async () => {
+      setDecks(getAllFlashcardDecks())
+      try {
+        setEntries(await getReviewLogEntries())
+      } catch (error) {
+        console.error("Error loading review log:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadStats()
+  }, [])
+
+  const reviewsPerDay = useMemo(() => getReviewsPerDay(entries), [entries])
+  const retention = useMemo(() => getRetentionByDeck(entries, decks), [entries, decks])
+  const forecast = useMemo(() => getDueForecast(decks, FORECAST_DAYS), [decks])
+  const lapsedCards = useMemo(() => getMostLapsedCards(decks, entries), [decks, entries])
+
+  const streak = getStudyStreak(reviewsPerDay)
+  const maxForecast = Math.max(1, ...forecast)
+  const totalPassed = retention.reduce((total, deck) => total + deck.passed, 0)
+  const totalMature = retention.reduce((total, deck) => total + deck.reviews, 0)
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="w-full flex items-center p-4 border-b border-border sticky top-0 z-10 bg-background gap-4">
+        <Link href="/" className="font-medium text-lg whitespace-nowrap">
+          Notes
+        </Link>
+        <span className="text-muted-foreground">/</span>
+        <Link href="/review" className="font-medium hover:underline">
+          Review
+        </Link>
+        <span className="text-muted-foreground">/</span>
+        <span className="font-medium">Statistics</span>
+      </header>
+
+      <main className="p-4 sm:p-6 max-w-4xl mx-auto space-y-6">
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading statistics...</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {[
+                { label: "Total reviews", value: entries.length },
+                { label: "Today", value: reviewsPerDay.get(getDayKey(new Date())) || 0 },
+                { label: "Day streak", value: streak },
+                {
+                  label: "Retention",
+                  value: totalMature > 0 ? `${Math.round((totalPassed / totalMature) * 100)}%` : "–",
+                },
+              ].map((stat) => (
+                <Card key={stat.label}>
+                  <CardContent className="p-4">
+                    <div className="text-xs text-muted-foreground">{stat.label}</div>
+                    <div className="text-2xl font-bold mt-1">{stat.value}</div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <Card>
+              <CardContent className="p-4">
+                <h2 className="text-base font-medium text-muted-foreground mb-3">Reviews per day</h2>
+                <ReviewHeatmap reviewsPerDay={reviewsPerDay} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-4">
+                <h2 className="text-base font-medium text-muted-foreground mb-3">
+                  Due in the next {FORECAST_DAYS} days
+                </h2>
+                <div className="flex items-end gap-[2px] h-32">
+                  {forecast.map((count, day) => (
+                    <div
+                      key={day}
+                      className="flex-1 bg-primary/80 rounded-t-sm min-h-[1px]"
+                      style={{ height: `${(count / maxForecast) * 100}%` }}
+                      title={`${day === 0 ? "Today" : `In ${day} day${day > 1 ? "s" : ""}`}: ${count} card${count !== 1 ? "s" : ""}`}
+                    />
+                  ))}
+                </div>
+                <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                  <span>Today</span>
+                  <span>+{FORECAST_DAYS - 1}d</span>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-4">
+                <h2 className="text-base font-medium text-muted-foreground mb-3">Retention by deck</h2>
+                {retention.length === 0 ? (
+                  <div className="text-sm text-muted-foreground">No decks yet.</div>
+                ) : (
+                  <div className="space-y-3">
+                    {retention.map((deck) => (
+                      <div key={deck.deckId}>
+                        <div className="flex justify-between text-sm mb-1">
+                          <span className="line-clamp-1">{deck.name}</span>
+                          <span className="text-muted-foreground whitespace-nowrap ml-2">
+                            {deck.retention !== null
+                              ? `${Math.round(deck.retention * 100)}% of ${deck.reviews}`
+                              : "Not enough reviews"}
+                          </span>
+                        </div>
+                        <div className="h-2 rounded-full bg-muted overflow-hidden">
+                          <div
+                            className="h-full bg-green-600 dark:bg-green-500"
+                            style={{ width: `${(deck.retention || 0) * 100}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-4">
+                <h2 className="text-base font-medium text-muted-foreground mb-3">Most lapsed cards</h2>
+                {lapsedCards.length === 0 ? (
+                  <div className="text-sm text-muted-foreground">No forgotten cards so far.</div>
+                ) : (
+                  <div className="divide-y divide-border">
+                    {lapsedCards.map(({ card, deck, lapses }) => (
+                      <div key={card.id} className="py-3 flex items-start justify-between gap-4">
+                        <div className="min-w-0">
+                          <div className="text-sm line-clamp-2">{card.front}</div>
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {deck.name}
+                            {deck.sourceDocumentId && (
+                              <>
+                                {" · "}
+                                <Link
+                                  href={`/?doc=${deck.sourceDocumentId}`}
+                                  className="hover:text-primary hover:underline"
+                                >
+                                  Open source note
+                                </Link>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                        <Badge variant="destructive" className="text-xs flex-shrink-0">
+                          {lapses} lapse{lapses !== 1 ? "s" : ""}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 /// <reference lib="webworker" />
 
 const CACHE_NAME = "cornell-notes-v1"
-const STATIC_CACHE_NAME = "cornell-notes-static-v1"
+const STATIC_CACHE_NAME = "cornell-notes-static-v2"
 
 // Assets to cache immediately
 const STATIC_ASSETS = [
@@ -10,10 +10,10 @@ const STATIC_ASSETS = [
   "/manifest.json",
   "/icon-192x192.png",
   "/icon-512x512.png",
-  "/fonts/HelveticaNeue-Regular.ttf",
-  "/fonts/HelveticaNeue-Bold.ttf",
-  "/fonts/Charter-Regular.ttf",
-  "/fonts/Charter-Bold.ttf",
+  "/fonts/NotoSans-Regular.ttf",
+  "/fonts/NotoSans-Bold.ttf",
+  "/fonts/NotoSerif-Regular.ttf",
+  "/fonts/NotoSerif-Bold.ttf",
 ]
 
 // Runtime cache patterns
@@ -21,6 +21,7 @@ const RUNTIME_CACHE_PATTERNS = [
   /^https:\/\/fonts\.googleapis\.com/,
   /^https:\/\/fonts\.gstatic\.com/,
   /\.(?:png|jpg|jpeg|svg|gif|webp)$/,
+  /\.(?:ttf|woff2?)$/,
   /\.(?:js|css)$/,
 ]
 
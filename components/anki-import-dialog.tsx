@@ -0,0 +1,112 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { saveFlashcardDeck } from "@/lib/flashcard-utils"
+import { importAnkiFile } from "@/lib/anki-import-utils"
+import { Upload } from "lucide-react"
+
+interface AnkiImportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onImported: () => void
+}
+
+export function AnkiImportDialog({ isOpen, onClose, onImported }: AnkiImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [preserveScheduling, setPreserveScheduling] = useState(true)
+  const [isImporting, setIsImporting] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (!isOpen) {
+      setFile(null)
+    }
+  }, [isOpen])
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(event.target.files?.[0] || null)
+  }
+
+  const handleImport = async () => {
+    if (!file) return
+
+    setIsImporting(true)
+    try {
+      const result = await importAnkiFile(file, { preserveScheduling })
+      result.decks.forEach((deck) => saveFlashcardDeck(deck))
+
+      onImported()
+      onClose()
+
+      const details = [
+        `${result.cardCount} card${result.cardCount !== 1 ? "s" : ""} in ${result.decks.length} deck${result.decks.length !== 1 ? "s" : ""}`,
+        result.imageCount > 0 ? `${result.imageCount} image${result.imageCount !== 1 ? "s" : ""}` : "",
+        result.skipped > 0 ? `${result.skipped} skipped` : "",
+      ].filter(Boolean)
+      alert(`Imported ${details.join(", ")}.`)
+    } catch (error) {
+      alert(`Anki import failed: ${error instanceof Error ? error.message : "Unknown error"}`)
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="text-xl flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            Import from Anki
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Choose an Anki package (.apkg) or a deck exported as plain text (.txt). Each Anki deck becomes a flashcard
+            deck; cloze notes become cloze cards.
+          </p>
+
+          <div className="flex items-center gap-3">
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+              Choose file
+            </Button>
+            <span className="text-sm text-muted-foreground line-clamp-1">{file ? file.name : "No file selected"}</span>
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={handleFileChange}
+              accept=".apkg,.txt,.tsv,.csv"
+              className="hidden"
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="preserve-scheduling"
+              checked={preserveScheduling}
+              onCheckedChange={(checked) => setPreserveScheduling(checked === true)}
+            />
+            <Label htmlFor="preserve-scheduling" className="text-sm">
+              Keep review intervals from Anki (packages only)
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter className="mt-4">
+          <Button variant="outline" onClick={onClose} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!file || isImporting}>
+            {isImporting ? "Importing..." : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
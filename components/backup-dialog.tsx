@@ -0,0 +1,345 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  downloadBackup,
+  createLocalBackup,
+  loadLocalBackup,
+  parseBackup,
+  previewBackup,
+  restoreBackup,
+  getBackupSettings,
+  saveBackupSettings,
+  getLastAutomaticBackup,
+  DEFAULT_BACKUP_SETTINGS,
+  type BackupMergeStrategy,
+  type BackupPreview,
+  type BackupSettings,
+} from "@/lib/backup-utils"
+import { getLocalBackups, type LocalBackupInfo } from "@/lib/backup-storage"
+import { DatabaseBackup } from "lucide-react"
+
+interface BackupDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onRestored: () => void
+}
+
+const STRATEGY_LABELS: Record<BackupMergeStrategy, string> = {
+  skip: "Skip them and keep the current version",
+  overwrite: "Overwrite with the backup version",
+  "keep-both": "Keep both (restore the backup as a copy)",
+}
+
+const INTERVAL_OPTIONS = [
+  { hours: 6, label: "Every 6 hours" },
+  { hours: 24, label: "Daily" },
+  { hours: 168, label: "Weekly" },
+]
+
+const KEEP_OPTIONS = [3, 5, 10, 20]
+
+function formatSize(size: number): string {
+  return size >= 1024 * 1024 ? `${(size / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(size / 1024))} KB`
+}
+
+export function BackupDialog({ isOpen, onClose, onRestored }: BackupDialogProps) {
+  const [settings, setSettings] = useState<BackupSettings>(DEFAULT_BACKUP_SETTINGS)
+  const [lastBackup, setLastBackup] = useState<string | null>(null)
+  const [localBackups, setLocalBackups] = useState<LocalBackupInfo[]>([])
+  const [preview, setPreview] = useState<BackupPreview | null>(null)
+  const [strategy, setStrategy] = useState<BackupMergeStrategy>("skip")
+  const [isBusy, setIsBusy] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const loadLocalBackups = async () => {
+    try {
+      setLocalBackups(await getLocalBackups())
+    } catch (error) {
+      console.error("Error loading local backups:", error)
+    }
+    setLastBackup(getLastAutomaticBackup())
+  }
+
+  useEffect(() => {
+    if (isOpen) {
+      setSettings(getBackupSettings())
+      loadLocalBackups()
+    } else {
+      setPreview(null)
+      setStrategy("skip")
+    }
+  }, [isOpen])
+
+  const updateSettings = (changes: Partial<BackupSettings>) => {
+    const updated = { ...settings, ...changes }
+    setSettings(updated)
+    saveBackupSettings(updated)
+  }
+
+  const runTask = async (task: () => Promise<void>, failure: string) => {
+    setIsBusy(true)
+    try {
+      await task()
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      alert(`${failure}: ${error instanceof Error ? error.message : "Unknown error"}`)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleBackupNow = () =>
+    runTask(async () => {
+      await createLocalBackup()
+      await loadLocalBackups()
+    }, "Backup failed")
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    runTask(async () => {
+      setPreview(await previewBackup(parseBackup(await file.text())))
+    }, "Could not read the backup")
+  }
+
+  const handlePreviewLocal = (id: string) =>
+    runTask(async () => {
+      setPreview(await previewBackup(await loadLocalBackup(id)))
+    }, "Could not read the backup")
+
+  const handleRestore = () => {
+    if (!preview) return
+
+    runTask(async () => {
+      const result = await restoreBackup(preview, strategy)
+      onRestored()
+      onClose()
+
+      const details = [
+        `${result.added} notes added`,
+        result.overwritten > 0 ? `${result.overwritten} overwritten` : "",
+        result.duplicated > 0 ? `${result.duplicated} restored as copies` : "",
+        result.skipped > 0 ? `${result.skipped} skipped` : "",
+        result.decks > 0 ? `${result.decks} flashcard deck${result.decks !== 1 ? "s" : ""}` : "",
+        result.images > 0 ? `${result.images} image${result.images !== 1 ? "s" : ""}` : "",
+        result.revisions > 0 ? `${result.revisions} revision${result.revisions !== 1 ? "s" : ""}` : "",
+        result.reviews > 0 ? `${result.reviews} logged review${result.reviews !== 1 ? "s" : ""}` : "",
+        result.savedSearches > 0 ? `${result.savedSearches} saved search${result.savedSearches !== 1 ? "es" : ""}` : "",
+      ].filter(Boolean)
+      alert(`Restore finished: ${details.join(", ")}.`)
+    }, "Restore failed")
+  }
+
+  const countStatus = (items: { status: string }[], status: string) =>
+    items.filter((item) => item.status === status).length
+
+  const conflicts = preview ? countStatus(preview.documents, "conflict") + countStatus(preview.decks, "conflict") : 0
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[600px] max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl flex items-center gap-2">
+            <DatabaseBackup className="h-5 w-5" />
+            Backup & Restore
+          </DialogTitle>
+        </DialogHeader>
+
+        {preview ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Backup from{" "}
+              {preview.backup.createdAt ? new Date(preview.backup.createdAt).toLocaleString() : "an unknown date"}.
+              Nothing changes until you restore.
+            </p>
+
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{preview.documents.length} notes</Badge>
+              <Badge variant="secondary">{preview.decks.length} flashcard decks</Badge>
+              <Badge variant="secondary">{preview.imageCount} images</Badge>
+              {preview.revisionCount > 0 && <Badge variant="secondary">{preview.revisionCount} revisions</Badge>}
+              {preview.reviewCount > 0 && <Badge variant="secondary">{preview.reviewCount} logged reviews</Badge>}
+              {preview.savedSearchCount > 0 && (
+                <Badge variant="secondary">{preview.savedSearchCount} saved searches</Badge>
+              )}
+              <Badge variant="outline">{countStatus(preview.documents, "new")} new notes</Badge>
+              {countStatus(preview.documents, "unchanged") > 0 && (
+                <Badge variant="outline">{countStatus(preview.documents, "unchanged")} already up to date</Badge>
+              )}
+              {conflicts > 0 && (
+                <Badge variant="outline" className="text-amber-700 dark:text-amber-400">
+                  {conflicts} differ from the library
+                </Badge>
+              )}
+            </div>
+
+            {conflicts > 0 && (
+              <div className="space-y-2">
+                <Label>Notes and decks that differ from the library</Label>
+                <Select value={strategy} onValueChange={(value) => setStrategy(value as BackupMergeStrategy)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(STRATEGY_LABELS) as BackupMergeStrategy[]).map((key) => (
+                      <SelectItem key={key} value={key}>
+                        {STRATEGY_LABELS[key]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="border rounded-md divide-y divide-border max-h-60 overflow-y-auto">
+              {preview.documents.map(({ document, status }) => (
+                <div key={document.id} className="p-2 text-sm flex items-center justify-between gap-2">
+                  <span className="line-clamp-1">{document.title || "Untitled"}</span>
+                  {status === "new" && (
+                    <Badge variant="secondary" className="text-xs">
+                      New
+                    </Badge>
+                  )}
+                  {status === "conflict" && (
+                    <Badge variant="outline" className="text-xs text-amber-700 dark:text-amber-400">
+                      Differs
+                    </Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                A backup contains every note, image and flashcard deck in this browser.
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" onClick={() => runTask(downloadBackup, "Backup failed")} disabled={isBusy}>
+                  Download backup
+                </Button>
+                <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isBusy}>
+                  Restore from file
+                </Button>
+                <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".json" className="hidden" />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-medium">Automatic backups</h3>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="automatic-backups"
+                  checked={settings.enabled}
+                  onCheckedChange={(checked) => updateSettings({ enabled: checked === true })}
+                />
+                <Label htmlFor="automatic-backups" className="text-sm">
+                  Back up automatically in this browser while the app is open
+                </Label>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Select
+                  value={settings.intervalHours.toString()}
+                  onValueChange={(value) => updateSettings({ intervalHours: Number(value) })}
+                  disabled={!settings.enabled}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INTERVAL_OPTIONS.map((option) => (
+                      <SelectItem key={option.hours} value={option.hours.toString()}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={settings.keep.toString()}
+                  onValueChange={(value) => updateSettings({ keep: Number(value) })}
+                  disabled={!settings.enabled}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {KEEP_OPTIONS.map((keep) => (
+                      <SelectItem key={keep} value={keep.toString()}>
+                        Keep {keep} backups
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {lastBackup ? `Last backup: ${new Date(lastBackup).toLocaleString()}` : "No backups made yet"}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="font-medium">Backups in this browser</h3>
+                <Button variant="ghost" size="sm" onClick={handleBackupNow} disabled={isBusy}>
+                  Back up now
+                </Button>
+              </div>
+              {localBackups.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No local backups yet.</p>
+              ) : (
+                <div className="border rounded-md divide-y divide-border max-h-48 overflow-y-auto">
+                  {localBackups.map((backup) => (
+                    <div key={backup.id} className="p-2 text-sm flex items-center justify-between gap-2">
+                      <span>
+                        {new Date(backup.createdAt).toLocaleString()}
+                        <span className="text-muted-foreground">
+                          {" "}
+                          · {backup.documentCount} notes · {formatSize(backup.size)}
+                        </span>
+                      </span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handlePreviewLocal(backup.id)}
+                        disabled={isBusy}
+                      >
+                        Restore
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="mt-4">
+          {preview ? (
+            <>
+              <Button variant="outline" onClick={() => setPreview(null)} disabled={isBusy}>
+                Back
+              </Button>
+              <Button onClick={handleRestore} disabled={isBusy}>
+                {isBusy ? "Restoring..." : "Restore"}
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
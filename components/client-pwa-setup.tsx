@@ -2,6 +2,7 @@
 
 import { useEffect } from "react"
 import { registerServiceWorker } from "@/lib/pwa-utils"
+import { scheduleAutomaticBackups } from "@/lib/backup-utils"
 
 export function ClientPWASetup() {
   useEffect(() => {
@@ -9,6 +10,9 @@ export function ClientPWASetup() {
     registerServiceWorker()
   }, [])
 
+  // Automatic local backups run on every page, whenever the app is open
+  useEffect(() => scheduleAutomaticBackups(), [])
+
   // This component doesn't render anything
   return null
 }
@@ -0,0 +1,65 @@
+"use client"
+
+import { useMemo } from "react"
+import { CODE_THEME, tokenizeCode, toCssColor } from "@/lib/syntax-highlight"
+
+interface CodeBlockProps {
+  code: string
+  language?: string
+}
+
+const MONOSPACE_FONT =
+  "ui-monospace, SFMono-Regular, 'SF Mono', Monaco, Menlo, 'Roboto Mono', 'Ubuntu Mono', 'Liberation Mono', 'Courier New', Courier, monospace"
+
+// Highlighted code with line numbers, in the same printer-friendly theme as the PDF export
+export function CodeBlock({ code, language }: CodeBlockProps) {
+  const lines = useMemo(() => tokenizeCode(code, language), [code, language])
+  const gutterWidth = `${String(lines.length).length}ch`
+
+  return (
+    <div
+      className="mb-4 last:mb-0 rounded-md border text-sm overflow-hidden"
+      style={{
+        fontFamily: MONOSPACE_FONT,
+        lineHeight: "1.5rem",
+        background: toCssColor(CODE_THEME.background),
+        borderColor: toCssColor(CODE_THEME.border),
+        color: toCssColor(CODE_THEME.tokens.plain.color),
+      }}
+      data-language={language || undefined}
+    >
+      <pre className="py-3 m-0" style={{ fontFamily: "inherit" }}>
+        {lines.map((tokens, index) => (
+          <div key={index} className="flex">
+            <span
+              className="select-none text-right pr-3 pl-3 shrink-0"
+              style={{ width: `calc(${gutterWidth} + 1.5rem)`, color: toCssColor(CODE_THEME.lineNumber) }}
+              aria-hidden="true"
+            >
+              {index + 1}
+            </span>
+            <code className="flex-1 min-w-0 pr-3 whitespace-pre-wrap [overflow-wrap:anywhere]">
+              {tokens.length === 0
+                ? "\n"
+                : tokens.map((token, tokenIndex) => {
+                    const style = CODE_THEME.tokens[token.type]
+                    return (
+                      <span
+                        key={tokenIndex}
+                        style={{
+                          color: toCssColor(style.color),
+                          fontWeight: style.bold ? 600 : undefined,
+                          fontStyle: style.italic ? "italic" : undefined,
+                        }}
+                      >
+                        {token.text}
+                      </span>
+                    )
+                  })}
+            </code>
+          </div>
+        ))}
+      </pre>
+    </div>
+  )
+}
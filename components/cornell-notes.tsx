@@ -7,10 +7,14 @@ import ReactMarkdown from "react-markdown"
 import remarkGfm from "remark-gfm"
 import { getImage } from "@/lib/image-storage"
 import { processNoteLinks } from "@/lib/link-utils"
+import { CodeBlock } from "@/components/code-block"
+import { DiagramBlock } from "@/components/diagram-block"
 
 interface CornellNotesProps {
   markdown: string
   onNoteClick?: (title: string) => void
+  onDiagramClick?: (source: string) => void // Makes ```mermaid diagrams clickable, e.g. to edit them
+  highlightSectionId?: string // Section to emphasise, e.g. the one a search hit landed in
 }
 
 interface Section {
@@ -19,7 +23,7 @@ interface Section {
   id: string
 }
 
-export function CornellNotes({ markdown, onNoteClick }: CornellNotesProps) {
+export function CornellNotes({ markdown, onNoteClick, onDiagramClick, highlightSectionId }: CornellNotesProps) {
   const [processedContent, setProcessedContent] = useState<string>(markdown)
 
   // Process the markdown to load images from storage and handle note links
@@ -164,7 +168,11 @@ export function CornellNotes({ markdown, onNoteClick }: CornellNotesProps) {
             {/* Added visual connection with alternating backgrounds and connecting borders */}
             <div
               className={`py-4 px-4 font-medium flex items-start relative ${
-                index % 2 === 0 ? "bg-muted/30" : "bg-background"
+                section.id === highlightSectionId
+                  ? "bg-yellow-100 dark:bg-yellow-900/40"
+                  : index % 2 === 0
+                    ? "bg-muted/30"
+                    : "bg-background"
               }`}
             >
               <div className="pt-[2px]" id={section.id}>
@@ -207,8 +215,18 @@ export function CornellNotes({ markdown, onNoteClick }: CornellNotesProps) {
                     blockquote: ({ node, ...props }) => (
                       <blockquote className="border-l-4 border-muted-foreground/30 pl-4 italic mb-4" {...props} />
                     ),
-                    code: ({ node, inline, ...props }) =>
-                      inline ? (
+                    code: ({ node, className, children, ...props }) => {
+                      // Fenced blocks carry a language class or end with a newline; inline code has neither
+                      const code = String(children ?? "")
+                      const language = /language-([^\s]+)/.exec(className || "")?.[1]
+                      if (language === "mermaid") {
+                        return <DiagramBlock source={code.replace(/\n$/, "")} onEdit={onDiagramClick} />
+                      }
+                      if (language || code.includes("\n")) {
+                        return <CodeBlock code={code.replace(/\n$/, "")} language={language} />
+                      }
+
+                      return (
                         <code
                           className="bg-muted px-1 py-0.5 rounded text-sm font-mono"
                           style={{
@@ -218,31 +236,13 @@ export function CornellNotes({ markdown, onNoteClick }: CornellNotesProps) {
                             lineHeight: "1.25rem",
                           }}
                           {...props}
-                        />
-                      ) : (
-                        <code
-                          className="block bg-muted rounded-md text-sm overflow-x-auto mb-4 whitespace-pre font-mono"
-                          style={{
-                            fontFamily:
-                              "ui-monospace, SFMono-Regular, 'SF Mono', Monaco, Menlo, 'Roboto Mono', 'Ubuntu Mono', 'Liberation Mono', 'Courier New', Courier, monospace",
-                            padding: "12px",
-                            fontSize: "0.875rem",
-                            lineHeight: "1.5rem",
-                          }}
-                          {...props}
-                        />
-                      ),
-                    pre: ({ node, ...props }) => (
-                      <pre
-                        className="mb-4 last:mb-0 bg-muted rounded-md overflow-x-auto font-mono"
-                        style={{
-                          padding: "0",
-                          fontFamily:
-                            "ui-monospace, SFMono-Regular, 'SF Mono', Monaco, Menlo, 'Roboto Mono', 'Ubuntu Mono', 'Liberation Mono', 'Courier New', Courier, monospace",
-                        }}
-                        {...props}
-                      />
-                    ),
+                        >
+                          {children}
+                        </code>
+                      )
+                    },
+                    // CodeBlock draws its own container
+                    pre: ({ node, children }) => <>{children}</>,
                     table: ({ node, ...props }) => (
                       <div className="overflow-x-auto mb-4 last:mb-0">
                         <table className="w-full border-collapse" {...props} />
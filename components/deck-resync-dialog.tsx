@@ -0,0 +1,193 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { getDocument } from "@/lib/storage-utils"
+import { saveFlashcardDeck, type FlashcardDeck } from "@/lib/flashcard-utils"
+import { resyncDeck, applyPendingUpdate, type DeckSyncResult } from "@/lib/deck-sync"
+import { RefreshCw } from "lucide-react"
+
+interface DeckResyncDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  deck: FlashcardDeck | null
+  onSaved: (deck: FlashcardDeck) => void
+}
+
+export function DeckResyncDialog({ isOpen, onClose, deck, onSaved }: DeckResyncDialogProps) {
+  const [result, setResult] = useState<DeckSyncResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [acceptedIds, setAcceptedIds] = useState<Set<string>>(new Set())
+
+  // Compare the deck with the current note each time the dialog opens
+  useEffect(() => {
+    if (!isOpen || !deck) {
+      setResult(null)
+      setError(null)
+      return
+    }
+
+    let cancelled = false
+
+    const loadResult = async () => {
+      if (!deck.sourceDocumentId) {
+        setError("This deck is not linked to a note.")
+        return
+      }
+
+      const doc = await getDocument(deck.sourceDocumentId)
+      if (cancelled) return
+
+      if (!doc) {
+        setError("The source note of this deck no longer exists.")
+        return
+      }
+
+      const syncResult = resyncDeck(deck, doc.content, doc.tags)
+      setResult(syncResult)
+      setAcceptedIds(new Set(syncResult.changed.map((card) => card.id)))
+    }
+
+    loadResult()
+
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, deck])
+
+  const toggleAccepted = (cardId: string) => {
+    setAcceptedIds((previous) => {
+      const next = new Set(previous)
+      if (next.has(cardId)) {
+        next.delete(cardId)
+      } else {
+        next.add(cardId)
+      }
+      return next
+    })
+  }
+
+  const handleApply = () => {
+    if (!result) return
+
+    // Unticked changes stay flagged so they can be decided on later
+    const updatedDeck: FlashcardDeck = {
+      ...result.deck,
+      cards: result.deck.cards.map((card) => (acceptedIds.has(card.id) ? applyPendingUpdate(card) : card)),
+    }
+
+    try {
+      saveFlashcardDeck(updatedDeck)
+      onSaved(updatedDeck)
+      onClose()
+    } catch (error) {
+      console.error("Failed to resync deck:", error)
+      alert("Failed to save the resynced deck. Please try again.")
+    }
+  }
+
+  const hasChanges = result && (result.added.length > 0 || result.changed.length > 0 || result.retired.length > 0)
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[700px] max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl flex items-center gap-2">
+            <RefreshCw className="h-5 w-5" />
+            Resync with Note
+          </DialogTitle>
+        </DialogHeader>
+
+        {error ? (
+          <div className="text-center py-8 text-muted-foreground">{error}</div>
+        ) : !result ? (
+          <div className="text-center py-8 text-muted-foreground">Comparing with the note...</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{result.unchanged} unchanged</Badge>
+              <Badge variant="outline" className="text-green-700 dark:text-green-400">
+                {result.added.length} new
+              </Badge>
+              <Badge variant="outline" className="text-amber-700 dark:text-amber-400">
+                {result.changed.length} changed
+              </Badge>
+              <Badge variant="outline" className="text-red-700 dark:text-red-400">
+                {result.retired.length} retired
+              </Badge>
+            </div>
+
+            {!hasChanges && <div className="text-sm text-muted-foreground">The deck is up to date with its note.</div>}
+
+            {result.changed.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium mb-2">Changed source text</h3>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Ticked cards take the new content and keep their review progress.
+                </p>
+                <div className="space-y-2">
+                  {result.changed.map((card) => (
+                    <div key={card.id} className="flex items-start gap-3 border rounded-md p-3">
+                      <Checkbox
+                        checked={acceptedIds.has(card.id)}
+                        onCheckedChange={() => toggleAccepted(card.id)}
+                        className="mt-0.5"
+                      />
+                      <div className="min-w-0 text-sm space-y-1">
+                        <div className="line-through text-muted-foreground line-clamp-2">{card.front}</div>
+                        <div className="line-clamp-2">{card.pendingUpdate?.front}</div>
+                        {card.back !== card.pendingUpdate?.back && (
+                          <div className="text-xs text-muted-foreground line-clamp-2">
+                            Answer: {card.pendingUpdate?.back}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {result.added.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium mb-2">New cards</h3>
+                <ul className="space-y-1 text-sm">
+                  {result.added.map((card) => (
+                    <li key={card.id} className="line-clamp-1">
+                      + {card.front}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {result.retired.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium mb-2">Retired (source deleted)</h3>
+                <ul className="space-y-1 text-sm text-muted-foreground">
+                  {result.retired.map((card) => (
+                    <li key={card.id} className="line-clamp-1">
+                      − {card.front}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="mt-4">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!hasChanges}>
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
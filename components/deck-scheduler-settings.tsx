@@ -0,0 +1,185 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { updateDeckScheduler, type FlashcardDeck } from "@/lib/flashcard-utils"
+import { getDeckSchedulerSettings, SCHEDULER_NAMES, type SchedulerAlgorithm } from "@/lib/scheduler"
+import { Settings } from "lucide-react"
+
+interface DeckSchedulerSettingsProps {
+  isOpen: boolean
+  onClose: () => void
+  deck: FlashcardDeck | null
+  onSaved: (deck: FlashcardDeck) => void
+}
+
+// Steps are edited as space-separated minutes, e.g. "1 10"
+function formatSteps(steps: number[]): string {
+  return steps.join(" ")
+}
+
+function parseSteps(value: string): number[] | null {
+  const parts = value.trim().split(/[\s,]+/).filter(Boolean)
+  const steps = parts.map(Number)
+  return steps.every((step) => !isNaN(step) && step > 0) ? steps : null
+}
+
+export function DeckSchedulerSettings({ isOpen, onClose, deck, onSaved }: DeckSchedulerSettingsProps) {
+  const [algorithm, setAlgorithm] = useState<SchedulerAlgorithm>("sm2")
+  const [desiredRetention, setDesiredRetention] = useState(0.9)
+  const [learningSteps, setLearningSteps] = useState("")
+  const [relearningSteps, setRelearningSteps] = useState("")
+  const [maximumInterval, setMaximumInterval] = useState("")
+
+  // Reset the form from the deck each time the dialog opens
+  useEffect(() => {
+    if (!isOpen || !deck) return
+
+    const settings = getDeckSchedulerSettings(deck)
+    setAlgorithm(deck.scheduler || "sm2")
+    setDesiredRetention(settings.desiredRetention)
+    setLearningSteps(formatSteps(settings.learningSteps))
+    setRelearningSteps(formatSteps(settings.relearningSteps))
+    setMaximumInterval(String(settings.maximumInterval))
+  }, [isOpen, deck])
+
+  const handleSave = () => {
+    if (!deck) return
+
+    const parsedLearningSteps = parseSteps(learningSteps)
+    const parsedRelearningSteps = parseSteps(relearningSteps)
+    const parsedMaximumInterval = Number(maximumInterval)
+
+    if (!parsedLearningSteps || !parsedRelearningSteps) {
+      alert("Steps must be positive numbers of minutes, separated by spaces.")
+      return
+    }
+    if (!Number.isInteger(parsedMaximumInterval) || parsedMaximumInterval < 1) {
+      alert("Maximum interval must be a whole number of days.")
+      return
+    }
+
+    const switching = (deck.scheduler || "sm2") !== algorithm
+    if (
+      switching &&
+      !window.confirm(
+        `Switch "${deck.name}" to ${SCHEDULER_NAMES[algorithm]}? Existing review progress will be converted to the new algorithm.`,
+      )
+    ) {
+      return
+    }
+
+    try {
+      const updated = updateDeckScheduler(deck.id, algorithm, {
+        desiredRetention,
+        learningSteps: parsedLearningSteps,
+        relearningSteps: parsedRelearningSteps,
+        maximumInterval: parsedMaximumInterval,
+      })
+      if (updated) {
+        onSaved(updated)
+      }
+      onClose()
+    } catch (error) {
+      console.error("Failed to update scheduler:", error)
+      alert("Failed to save deck settings. Please try again.")
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="text-xl flex items-center gap-2">
+            <Settings className="h-5 w-5" />
+            Scheduling
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Algorithm</Label>
+            <Select value={algorithm} onValueChange={(value) => setAlgorithm(value as SchedulerAlgorithm)}>
+              <SelectTrigger className="w-full mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="sm2">SM-2 (classic)</SelectItem>
+                <SelectItem value="fsrs">FSRS (adaptive)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {algorithm === "fsrs" && (
+            <>
+              <div>
+                <div className="flex items-center justify-between">
+                  <Label>Desired retention</Label>
+                  <span className="text-sm text-muted-foreground">{Math.round(desiredRetention * 100)}%</span>
+                </div>
+                <Slider
+                  className="mt-3"
+                  min={0.7}
+                  max={0.97}
+                  step={0.01}
+                  value={[desiredRetention]}
+                  onValueChange={([value]) => setDesiredRetention(value)}
+                />
+                <p className="text-xs text-muted-foreground mt-2">
+                  Higher retention means more frequent reviews.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="learningSteps">Learning steps (min)</Label>
+                  <Input
+                    id="learningSteps"
+                    className="mt-1"
+                    value={learningSteps}
+                    onChange={(e) => setLearningSteps(e.target.value)}
+                    placeholder="1 10"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="relearningSteps">Relearning steps (min)</Label>
+                  <Input
+                    id="relearningSteps"
+                    className="mt-1"
+                    value={relearningSteps}
+                    onChange={(e) => setRelearningSteps(e.target.value)}
+                    placeholder="10"
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
+          <div>
+            <Label htmlFor="maximumInterval">Maximum interval (days)</Label>
+            <Input
+              id="maximumInterval"
+              className="mt-1"
+              type="number"
+              min={1}
+              value={maximumInterval}
+              onChange={(e) => setMaximumInterval(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="mt-4">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
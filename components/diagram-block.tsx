@@ -0,0 +1,67 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { CodeBlock } from "@/components/code-block"
+import { parseDiagramSource, renderDiagram } from "@/lib/diagram-utils"
+import { Pencil } from "lucide-react"
+
+interface DiagramBlockProps {
+  source: string
+  onEdit?: (source: string) => void
+}
+
+// A ```mermaid block drawn from its source, re-rendered whenever the source changes
+export function DiagramBlock({ source, onEdit }: DiagramBlockProps) {
+  const [image, setImage] = useState<string | null>(null)
+  const [failed, setFailed] = useState(false)
+  const { altText } = parseDiagramSource(source)
+
+  useEffect(() => {
+    let cancelled = false
+
+    renderDiagram(source)
+      .then((dataUrl) => {
+        if (!cancelled) {
+          setImage(dataUrl)
+          setFailed(false)
+        }
+      })
+      .catch((error) => {
+        console.error("Error rendering diagram:", error)
+        if (!cancelled) setFailed(true)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [source])
+
+  if (failed) {
+    return (
+      <div className="mb-4 last:mb-0">
+        <p className="text-xs text-destructive mb-1">This diagram could not be drawn.</p>
+        <CodeBlock code={source} language="mermaid" />
+      </div>
+    )
+  }
+
+  return (
+    <figure
+      className={`group relative mb-4 last:mb-0 rounded-md border bg-white ${onEdit ? "cursor-pointer" : ""}`}
+      onClick={onEdit ? () => onEdit(source) : undefined}
+      title={onEdit ? "Click to edit diagram" : undefined}
+    >
+      {image ? (
+        <img src={image} alt={altText || "Diagram"} className="w-full h-auto object-contain rounded-md" />
+      ) : (
+        <div className="h-40 animate-pulse bg-muted/50 rounded-md" />
+      )}
+      {onEdit && (
+        <span className="absolute top-2 right-2 hidden group-hover:flex items-center gap-1 rounded bg-background/90 border px-2 py-1 text-xs">
+          <Pencil className="h-3 w-3" />
+          Edit
+        </span>
+      )}
+    </figure>
+  )
+}
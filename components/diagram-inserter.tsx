@@ -1,21 +1,25 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useRef, useState } from "react"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
-import { generateDiagramImage, generateDiagramPreview } from "@/lib/diagram-utils"
-import { Eye, Loader2 } from "lucide-react"
+import { formatDiagramBlock, generateDiagramPreview, parseDiagramSource, validateDiagram } from "@/lib/diagram-utils"
+import type { DiagramError } from "@/lib/diagram-parser"
+import { AlertCircle, Eye, Loader2 } from "lucide-react"
 
 interface DiagramInserterProps {
   isOpen: boolean
   onClose: () => void
   onInsert: (diagramMarkdown: string) => void
+  initialSource?: string // Source of a diagram block to edit instead of inserting a new one
 }
 
+const PREVIEW_DELAY = 400 // Wait for a pause in typing before redrawing, in milliseconds
+
 const diagramTemplates = {
   flowchart: {
     name: "Flowchart",
@@ -26,7 +30,8 @@ const diagramTemplates = {
     B -->|No| D[Action 2]
     C --> E[End]
     D --> E`,
-    syntax: "Use TD (top-down), LR (left-right). Shapes: [] rectangle, {} diamond, () rounded, (()) circle",
+    syntax:
+      "Use TD (top-down), LR (left-right), BT or RL. Shapes: [] rectangle, {} diamond, () rounded, (()) circle. Group nodes with subgraph ... end",
   },
   sequence: {
     name: "Sequence Diagram",
@@ -68,7 +73,8 @@ const diagramTemplates = {
     Processing --> Error : fail
     Error --> Idle : retry
     Complete --> [*]`,
-    syntax: "Use [*] for start/end states, --> for transitions with labels after :",
+    syntax:
+      "Use [*] for start/end states, --> for transitions with labels after :. Group states with state Name { ... }",
   },
   block: {
     name: "Block Diagram",
@@ -159,15 +165,97 @@ const diagramTemplates = {
     Task D: [0.7, 0.2]`,
     syntax: "Define axes with x-axis and y-axis. Place items with [x, y] coordinates (0-1)",
   },
+  mindmap: {
+    name: "Mind Map",
+    description: "Ideas branching out from a central topic",
+    template: `mindmap
+  root((Photosynthesis))
+    Inputs
+      Sunlight
+      Water
+      Carbon dioxide
+    Outputs
+      Glucose
+      Oxygen
+    Stages
+      Light reactions
+      Calvin cycle`,
+    syntax:
+      "Indent each idea under its parent; the first line is the root. Shapes: [] square, () rounded, (()) circle, {{}} hexagon",
+  },
+  timeline: {
+    name: "Timeline",
+    description: "Historical events in order",
+    template: `timeline
+    title Space Race
+    section Early satellites
+      1957 : Sputnik 1
+      1958 : Explorer 1 : NASA founded
+    section Crewed flight
+      1961 : Yuri Gagarin orbits Earth
+      1969 : Apollo 11 Moon landing`,
+    syntax:
+      "Write period : event : event. Start a line with : to add more events to the period above. Group with section",
+  },
+  gantt: {
+    name: "Gantt Chart",
+    description: "Project schedules and deadlines",
+    template: `gantt
+    title Thesis Plan
+    dateFormat YYYY-MM-DD
+    section Research
+    Literature review :done, lit, 2024-01-08, 3w
+    Experiments :active, exp, after lit, 4w
+    section Writing
+    First draft :draft, after exp, 3w
+    Submission :milestone, crit, after draft, 0d`,
+    syntax:
+      "Tasks are name : [done|active|crit|milestone,] [id,] [start date or after id,] duration (5d, 2w) or end date",
+  },
+  pie: {
+    name: "Pie Chart",
+    description: "Shares of a whole",
+    template: `pie showData
+    title Study Time per Subject
+    "Biology" : 12
+    "Chemistry" : 8
+    "Mathematics" : 15
+    "History" : 5`,
+    syntax: 'Write "label" : value for each slice. showData after pie lists the values in the legend',
+  },
+  xychart: {
+    name: "Bar Chart",
+    description: "Values compared across categories",
+    template: `xychart-beta
+    title "Exam Scores"
+    x-axis [Quiz 1, Quiz 2, Midterm, Quiz 3, Final]
+    y-axis "Score" 0 --> 100
+    bar [72, 80, 68, 85, 90]
+    line [72, 80, 68, 85, 90]`,
+    syntax: "List categories with x-axis [a, b, c]; add bar [1, 2, 3] or line [1, 2, 3] series with one value each",
+  },
 }
 
-export function DiagramInserter({ isOpen, onClose, onInsert }: DiagramInserterProps) {
+export function DiagramInserter({ isOpen, onClose, onInsert, initialSource }: DiagramInserterProps) {
   const [selectedType, setSelectedType] = useState<keyof typeof diagramTemplates>("flowchart")
   const [diagramCode, setDiagramCode] = useState(diagramTemplates.flowchart.template)
   const [altText, setAltText] = useState("")
-  const [isGenerating, setIsGenerating] = useState(false)
   const [isGeneratingPreview, setIsGeneratingPreview] = useState(false)
   const [previewImage, setPreviewImage] = useState<string | null>(null)
+  const [errors, setErrors] = useState<DiagramError[]>([])
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const highlightRef = useRef<HTMLDivElement>(null)
+
+  // Load the diagram being edited
+  useEffect(() => {
+    if (isOpen && initialSource !== undefined) {
+      const { type, code, altText } = parseDiagramSource(initialSource)
+      if (type !== "generic") setSelectedType(type)
+      setDiagramCode(code)
+      setAltText(altText)
+      setPreviewImage(null)
+    }
+  }, [isOpen, initialSource])
 
   const handleTypeChange = (type: keyof typeof diagramTemplates) => {
     setSelectedType(type)
@@ -178,38 +266,59 @@ export function DiagramInserter({ isOpen, onClose, onInsert }: DiagramInserterPr
     }
   }
 
-  const handleGeneratePreview = async () => {
-    if (!diagramCode.trim()) return
+  // Check the code as it is typed and redraw the preview once it is valid. The last good preview stays up while
+  // there are errors
+  useEffect(() => {
+    if (!isOpen) return
+    let cancelled = false
+
+    const timer = setTimeout(async () => {
+      const found = validateDiagram(diagramCode)
+      setErrors(found)
+      if (!diagramCode.trim()) setPreviewImage(null)
+      if (found.length > 0 || !diagramCode.trim()) return
+
+      setIsGeneratingPreview(true)
+      try {
+        const previewDataUrl = await generateDiagramPreview(diagramCode, parseDiagramSource(diagramCode).type)
+        if (!cancelled) setPreviewImage(previewDataUrl)
+      } catch (error) {
+        console.error("Error generating preview:", error)
+      } finally {
+        if (!cancelled) setIsGeneratingPreview(false)
+      }
+    }, PREVIEW_DELAY)
 
-    setIsGeneratingPreview(true)
-    try {
-      const previewDataUrl = await generateDiagramPreview(diagramCode, selectedType)
-      setPreviewImage(previewDataUrl)
-    } catch (error) {
-      console.error("Error generating preview:", error)
-      alert("Failed to generate preview. Please check your syntax.")
-    } finally {
-      setIsGeneratingPreview(false)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
     }
+  }, [isOpen, diagramCode])
+
+  // Select the line an error points at, starting from its column
+  const showError = (error: DiagramError) => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+
+    const lines = diagramCode.split("\n")
+    const lineStart = lines.slice(0, error.line - 1).reduce((offset, line) => offset + line.length + 1, 0)
+    const lineEnd = lineStart + (lines[error.line - 1]?.length ?? 0)
+    textarea.focus()
+    textarea.setSelectionRange(Math.min(lineStart + error.column - 1, lineEnd), lineEnd)
   }
 
-  const handleInsert = async () => {
+  // The diagram is kept as source in the note, so it can be edited later; images are drawn only for export
+  const handleInsert = () => {
     if (!diagramCode.trim()) return
-
-    setIsGenerating(true)
-    try {
-      const imageId = await generateDiagramImage(diagramCode, selectedType)
-      // Always make diagrams full-width
-      const markdown = `<img src="cornell-image://${imageId}" alt="${altText || `${diagramTemplates[selectedType].name} diagram`}" class="full-width-image" />\n`
-      onInsert(markdown)
-      onClose()
-      resetForm()
-    } catch (error) {
-      console.error("Error generating diagram:", error)
-      alert("Failed to generate diagram. Please check your syntax and try again.")
-    } finally {
-      setIsGenerating(false)
+    const found = validateDiagram(diagramCode)
+    if (found.length > 0) {
+      setErrors(found)
+      return
     }
+
+    onInsert(formatDiagramBlock(diagramCode, altText || `${diagramTemplates[selectedType].name} diagram`))
+    onClose()
+    resetForm()
   }
 
   const resetForm = () => {
@@ -217,15 +326,23 @@ export function DiagramInserter({ isOpen, onClose, onInsert }: DiagramInserterPr
     setDiagramCode(diagramTemplates.flowchart.template)
     setAltText("")
     setPreviewImage(null)
+    setErrors([])
+  }
+
+  // An edited diagram shouldn't linger as the starting point for the next new one
+  const handleClose = () => {
+    if (initialSource !== undefined) resetForm()
+    onClose()
   }
 
   const currentTemplate = diagramTemplates[selectedType]
+  const errorLines = new Set(errors.map((error) => error.line))
 
   return (
-    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
       <DialogContent className="sm:max-w-[1200px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Insert Diagram</DialogTitle>
+          <DialogTitle>{initialSource !== undefined ? "Edit Diagram" : "Insert Diagram"}</DialogTitle>
         </DialogHeader>
 
         <div className="space-y-4">
@@ -279,48 +396,78 @@ export function DiagramInserter({ isOpen, onClose, onInsert }: DiagramInserterPr
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
             {/* Code Editor */}
             <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label htmlFor="diagramCode" className="text-sm font-medium">
-                  Diagram Code
-                </Label>
-                <Button
-                  type="button"
-                  variant="outline"
-                  size="sm"
-                  onClick={handleGeneratePreview}
-                  disabled={isGeneratingPreview || !diagramCode.trim()}
-                  className="gap-2"
+              <Label htmlFor="diagramCode" className="text-sm font-medium">
+                Diagram Code
+              </Label>
+              <div className="relative">
+                <Textarea
+                  ref={textareaRef}
+                  id="diagramCode"
+                  value={diagramCode}
+                  onChange={(e) => setDiagramCode(e.target.value)}
+                  onScroll={(e) => {
+                    if (highlightRef.current) highlightRef.current.scrollTop = e.currentTarget.scrollTop
+                  }}
+                  placeholder="Enter your diagram code here..."
+                  className="font-mono text-sm min-h-[300px]"
+                  aria-invalid={errors.length > 0}
+                  aria-describedby={errors.length > 0 ? "diagramErrors" : undefined}
+                />
+                {/* Tints the lines with errors, laid out exactly like the text underneath */}
+                <div
+                  ref={highlightRef}
+                  aria-hidden="true"
+                  className="pointer-events-none absolute inset-0 overflow-hidden rounded-md border border-transparent px-3 py-2 font-mono text-sm text-transparent whitespace-pre-wrap break-words"
                 >
-                  {isGeneratingPreview ? <Loader2 className="h-4 w-4 animate-spin" /> : <Eye className="h-4 w-4" />}
-                  Preview
-                </Button>
+                  {diagramCode.split("\n").map((line, index) => (
+                    <div key={index} className={errorLines.has(index + 1) ? "rounded-sm bg-destructive/15" : undefined}>
+                      {line || " "}
+                    </div>
+                  ))}
+                </div>
               </div>
-              <Textarea
-                id="diagramCode"
-                value={diagramCode}
-                onChange={(e) => {
-                  setDiagramCode(e.target.value)
-                  setPreviewImage(null) // Clear preview when code changes
-                }}
-                placeholder="Enter your diagram code here..."
-                className="font-mono text-sm min-h-[300px]"
-              />
+              {errors.length > 0 && (
+                <ul id="diagramErrors" className="space-y-1">
+                  {errors.map((error, index) => (
+                    <li key={index}>
+                      <button
+                        type="button"
+                        onClick={() => showError(error)}
+                        className="flex w-full items-start gap-2 rounded px-2 py-1 text-left text-xs text-destructive hover:bg-destructive/10"
+                      >
+                        <AlertCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                        <span>
+                          Line {error.line}, column {error.column}: {error.message}
+                          {error.expected.length > 0 && (
+                            <span className="text-muted-foreground"> (expected {error.expected.join(", ")})</span>
+                          )}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
 
             {/* Preview */}
             <div className="space-y-2">
-              <Label className="text-sm font-medium">Preview</Label>
+              <div className="flex items-center gap-2">
+                <Label className="text-sm font-medium">Preview</Label>
+                {isGeneratingPreview && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+              </div>
               <div className="border rounded-md p-4 min-h-[300px] bg-white flex items-center justify-center">
                 {previewImage ? (
                   <img
-                    src={previewImage || "/placeholder.svg"}
+                    src={previewImage}
                     alt="Diagram preview"
-                    className="max-w-full max-h-full object-contain"
+                    className={`max-w-full max-h-full object-contain ${errors.length > 0 ? "opacity-40" : ""}`}
                   />
                 ) : (
                   <div className="text-center text-muted-foreground">
                     <Eye className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                    <p className="text-sm">Click "Preview" to see your diagram</p>
+                    <p className="text-sm">
+                      {errors.length > 0 ? "Fix the errors to see your diagram" : "Your diagram appears as you type"}
+                    </p>
                   </div>
                 )}
               </div>
@@ -329,18 +476,18 @@ export function DiagramInserter({ isOpen, onClose, onInsert }: DiagramInserterPr
 
           <div className="bg-blue-50 dark:bg-blue-950/20 p-3 rounded-md">
             <p className="text-xs text-blue-700 dark:text-blue-300">
-              <strong>Note:</strong> Diagrams are generated as static images optimized for PDF export and printing. They
-              use a clean, printer-friendly style without shading or colors.
+              <strong>Note:</strong> Diagrams are saved as editable code in your note; click one in the preview to
+              change it. They are drawn as sharp vector graphics in a clean, printer-friendly style, also in PDFs.
             </p>
           </div>
         </div>
 
         <DialogFooter>
-          <Button variant="outline" onClick={onClose}>
+          <Button variant="outline" onClick={handleClose}>
             Cancel
           </Button>
-          <Button onClick={handleInsert} disabled={isGenerating || !diagramCode.trim()}>
-            {isGenerating ? "Generating..." : "Insert Diagram"}
+          <Button onClick={handleInsert} disabled={!diagramCode.trim() || errors.length > 0}>
+            {initialSource !== undefined ? "Update Diagram" : "Insert Diagram"}
           </Button>
         </DialogFooter>
       </DialogContent>
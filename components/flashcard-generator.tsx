@@ -86,10 +86,15 @@ export function FlashcardGenerator({
 
       const deck = createFlashcardDeck(deckName, deckDescription, documentId || undefined)
 
-      // Add all cards to the deck
+      // Add all cards to the deck, remembering the types so the deck can be resynced later
       const deckWithCards = {
         ...deck,
         cards: previewCards,
+        generatorTypes: [
+          ...(selectedTypes.questionAnswer ? ["question-answer" as const] : []),
+          ...(selectedTypes.feynman ? ["feynman" as const] : []),
+          ...(selectedTypes.cloze ? ["cloze" as const] : []),
+        ],
       }
 
       saveFlashcardDeck(deckWithCards)
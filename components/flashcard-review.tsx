@@ -0,0 +1,262 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import {
+  getFlashcardDeck,
+  previewFlashcardReview,
+  reviewFlashcardInDeck,
+  splitClozeText,
+  REVIEW_GRADES,
+  type DueFlashcard,
+  type Flashcard,
+} from "@/lib/flashcard-utils"
+import { cn } from "@/lib/utils"
+import { FlashcardText } from "@/components/flashcard-text"
+import { ArrowLeft, Eye } from "lucide-react"
+
+interface FlashcardReviewProps {
+  cards: DueFlashcard[]
+  onExit: () => void
+}
+
+// Labels for the detailed 0-5 SM-2 scale
+const QUALITY_LABELS = ["Blackout", "Wrong", "Wrong, but familiar", "Hard", "Good", "Perfect"]
+
+// Short label for the time until a card's next review, e.g. "10m", "3d", "2mo"
+function formatDueIn(card: Flashcard, now: Date): string {
+  const minutes = Math.max(1, Math.round((new Date(card.nextReview || now).getTime() - now.getTime()) / 60000))
+  if (minutes < 60) return `${minutes}m`
+  if (minutes < 60 * 24) return `${Math.round(minutes / 60)}h`
+
+  const days = Math.round(minutes / (60 * 24))
+  if (days < 30) return `${days}d`
+  if (days < 365) return `${Math.round(days / 30)}mo`
+  return `${(days / 365).toFixed(1)}y`
+}
+
+// Render the front of a card, masking the cloze blank
+function CardFront({ card, revealed }: { card: Flashcard; revealed: boolean }) {
+  const cloze = card.type === "cloze" ? splitClozeText(card.front) : null
+
+  if (!cloze) {
+    return (
+      <div className="text-lg leading-relaxed whitespace-pre-wrap">
+        <FlashcardText text={card.front} />
+      </div>
+    )
+  }
+
+  return (
+    <div className="text-lg leading-relaxed whitespace-pre-wrap">
+      <FlashcardText text={cloze[0]} />
+      {revealed ? (
+        <span className="font-semibold bg-yellow-100 dark:bg-yellow-900/40 rounded px-1">{card.back}</span>
+      ) : (
+        <span
+          className="inline-block min-w-[5rem] border-b-2 border-foreground align-baseline mx-1"
+          aria-label="Hidden term"
+        >
+          &nbsp;
+        </span>
+      )}
+      <FlashcardText text={cloze[1]} />
+    </div>
+  )
+}
+
+export function FlashcardReview({ cards, onExit }: FlashcardReviewProps) {
+  const [queue, setQueue] = useState<DueFlashcard[]>(cards)
+  const [position, setPosition] = useState(0)
+  const [revealed, setRevealed] = useState(false)
+  const [detailedGrades, setDetailedGrades] = useState(false)
+  const [reviewedCount, setReviewedCount] = useState(0)
+  const [againCount, setAgainCount] = useState(0)
+  const [shownAt, setShownAt] = useState(() => Date.now())
+
+  const current = queue[position]
+  const isFinished = !current
+
+  // Next interval for each possible grade, using the card's deck scheduler
+  const intervalPreviews = useMemo(() => {
+    const deck = current ? getFlashcardDeck(current.deckId) : null
+    const card = deck?.cards.find((c) => c.id === current?.id)
+    if (!deck || !card) return null
+
+    const now = new Date()
+    return QUALITY_LABELS.map((_, quality) => formatDueIn(previewFlashcardReview(deck, card, quality), now))
+  }, [current])
+
+  const handleGrade = useCallback(
+    (quality: number) => {
+      if (!current) return
+
+      let reviewed: Flashcard | null
+      try {
+        reviewed = reviewFlashcardInDeck(current.deckId, current.id, quality, Date.now() - shownAt)
+      } catch (error) {
+        console.error("Failed to save review:", error)
+        alert("Could not save this review. Please try again.")
+        return
+      }
+
+      setReviewedCount((count) => count + 1)
+
+      // Failed cards come back at the end of the session
+      if (quality < 3) {
+        setAgainCount((count) => count + 1)
+        setQueue((previous) => [...previous, { ...(reviewed || current), deckId: current.deckId }])
+      }
+
+      setPosition((index) => index + 1)
+      setRevealed(false)
+      setShownAt(Date.now())
+    },
+    [current, shownAt],
+  )
+
+  // Keyboard shortcuts: space/enter reveals, number keys grade
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!current || event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) {
+        return
+      }
+
+      if (!revealed) {
+        if (event.key === " " || event.key === "Enter") {
+          event.preventDefault()
+          setRevealed(true)
+        }
+        return
+      }
+
+      const number = Number(event.key)
+      if (event.key.trim() === "" || isNaN(number)) return
+
+      if (detailedGrades && number >= 0 && number <= 5) {
+        handleGrade(number)
+      } else if (!detailedGrades && number >= 1 && number <= REVIEW_GRADES.length) {
+        handleGrade(REVIEW_GRADES[number - 1].quality)
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [current, revealed, detailedGrades, handleGrade])
+
+  if (isFinished) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center space-y-4">
+          <h2 className="text-2xl font-bold">Session complete</h2>
+          <p className="text-muted-foreground">
+            {reviewedCount} review{reviewedCount !== 1 ? "s" : ""}
+            {againCount > 0 && ` · ${againCount} repeated`}
+          </p>
+          <Button onClick={onExit}>Back to decks</Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <Button variant="ghost" size="sm" onClick={onExit}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          End session
+        </Button>
+        <div className="flex items-center gap-2">
+          <Switch id="detailedGrades" checked={detailedGrades} onCheckedChange={setDetailedGrades} />
+          <Label htmlFor="detailedGrades" className="text-sm">
+            Grade 0–5
+          </Label>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3 text-sm text-muted-foreground">
+        <Progress value={(position / queue.length) * 100} className="flex-1" />
+        <span className="whitespace-nowrap">
+          {position + 1} / {queue.length}
+        </span>
+      </div>
+
+      <Card>
+        <CardContent className="p-6 sm:p-8 space-y-6">
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className="text-xs capitalize">
+              {current.type.replace("-", " ")}
+            </Badge>
+            {!current.lastReviewed && (
+              <Badge variant="secondary" className="text-xs">
+                New
+              </Badge>
+            )}
+            {current.syncStatus === "changed" && (
+              <Badge variant="outline" className="text-xs text-amber-700 dark:text-amber-400">
+                Source changed
+              </Badge>
+            )}
+          </div>
+
+          <CardFront card={current} revealed={revealed} />
+
+          {revealed && current.type !== "cloze" && (
+            <div className="border-t border-border pt-6 text-base leading-relaxed whitespace-pre-wrap">
+              <FlashcardText text={current.back} />
+            </div>
+          )}
+
+          {revealed && current.notes && (
+            <div className="text-xs text-muted-foreground whitespace-pre-wrap">
+              <FlashcardText text={current.notes} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {!revealed ? (
+        <Button className="w-full" size="lg" onClick={() => setRevealed(true)}>
+          <Eye className="h-4 w-4 mr-2" />
+          Show answer
+        </Button>
+      ) : detailedGrades ? (
+        <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+          {QUALITY_LABELS.map((label, quality) => (
+            <Button
+              key={quality}
+              variant="outline"
+              className={cn("h-auto py-2 flex-col", quality < 3 && "text-destructive")}
+              onClick={() => handleGrade(quality)}
+            >
+              <span className="text-lg font-semibold">{quality}</span>
+              <span className="text-xs text-muted-foreground">{label}</span>
+              {intervalPreviews && <span className="text-xs opacity-70">{intervalPreviews[quality]}</span>}
+            </Button>
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-4 gap-2">
+          {REVIEW_GRADES.map((grade, index) => (
+            <Button
+              key={grade.label}
+              variant={grade.quality < 3 ? "destructive" : "outline"}
+              className="h-auto py-3 flex-col"
+              onClick={() => handleGrade(grade.quality)}
+            >
+              <span>{grade.label}</span>
+              <span className="text-xs opacity-70">
+                {intervalPreviews ? `${intervalPreviews[grade.quality]} · ${index + 1}` : index + 1}
+              </span>
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
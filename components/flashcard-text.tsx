@@ -0,0 +1,51 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { getImage } from "@/lib/image-storage"
+
+interface FlashcardTextProps {
+  text: string
+}
+
+// Image references in card text, e.g. from imported Anki media
+const IMAGE_REGEX = /!\[([^\]]*)\]\(cornell-image:\/\/([^)]+)\)/g
+
+function StoredImage({ imageId, alt }: { imageId: string; alt: string }) {
+  const [src, setSrc] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    getImage(imageId)
+      .then((data) => {
+        if (!cancelled) setSrc(data || "/system-error-screen.png")
+      })
+      .catch((error) => {
+        console.error(`Error loading image ${imageId}:`, error)
+        if (!cancelled) setSrc("/system-error-screen.png")
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [imageId])
+
+  if (!src) return null
+  return <img src={src} alt={alt} className="block max-w-full max-h-72 my-2 rounded" />
+}
+
+// Plain card text with stored images rendered in place
+export function FlashcardText({ text }: FlashcardTextProps) {
+  const parts: React.ReactNode[] = []
+  let lastIndex = 0
+
+  for (const match of text.matchAll(IMAGE_REGEX)) {
+    parts.push(text.slice(lastIndex, match.index))
+    parts.push(<StoredImage key={match.index} imageId={match[2]} alt={match[1]} />)
+    lastIndex = match.index! + match[0].length
+  }
+  parts.push(text.slice(lastIndex))
+
+  return <>{parts}</>
+}
@@ -0,0 +1,235 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { CornellNotes } from "@/components/cornell-notes"
+import { convertHtmlToNote, plainTextToHtml, type HtmlImportResult } from "@/lib/html-import"
+import { saveDocument } from "@/lib/storage-utils"
+import { Globe } from "lucide-react"
+
+interface HtmlImportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onImported: (documentId: string) => void
+}
+
+export function HtmlImportDialog({ isOpen, onClose, onImported }: HtmlImportDialogProps) {
+  const [html, setHtml] = useState<string | null>(null)
+  const [files, setFiles] = useState<File[]>([])
+  const [preview, setPreview] = useState<HtmlImportResult | null>(null)
+  const [title, setTitle] = useState("")
+  const [summary, setSummary] = useState("")
+  const [sourceUrl, setSourceUrl] = useState("")
+  const [isDragging, setIsDragging] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (!isOpen) {
+      setHtml(null)
+      setFiles([])
+      setPreview(null)
+      setTitle("")
+      setSummary("")
+      setSourceUrl("")
+    }
+  }, [isOpen])
+
+  const loadHtml = async (content: string, relatedFiles: File[] = []) => {
+    try {
+      const result = await convertHtmlToNote(content, { files: relatedFiles, storeImages: false })
+      setHtml(content)
+      setFiles(relatedFiles)
+      setPreview(result)
+      setTitle(result.title)
+      setSummary(result.summary)
+      setSourceUrl(result.sourceUrl || "")
+    } catch (error) {
+      console.error("Error converting HTML:", error)
+      alert(`Could not read the page: ${error instanceof Error ? error.message : "Unknown error"}`)
+    }
+  }
+
+  // A saved page may come with its images, e.g. "page.html" plus the files of "page_files"
+  const loadFiles = async (selected: File[]) => {
+    const page = selected.find((file) => /\.html?$/i.test(file.name))
+    if (!page) {
+      alert("Choose an .html file to import.")
+      return
+    }
+    await loadHtml(
+      await page.text(),
+      selected.filter((file) => file !== page),
+    )
+  }
+
+  const handlePaste = (event: React.ClipboardEvent) => {
+    event.preventDefault()
+    const pastedHtml = event.clipboardData.getData("text/html")
+    const pastedText = event.clipboardData.getData("text/plain")
+    if (pastedHtml || pastedText) {
+      loadHtml(pastedHtml || plainTextToHtml(pastedText))
+    }
+  }
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault()
+    setIsDragging(false)
+
+    const droppedFiles = Array.from(event.dataTransfer.files)
+    if (droppedFiles.length > 0) {
+      loadFiles(droppedFiles)
+      return
+    }
+
+    // Selections dragged straight from a browser tab
+    const droppedHtml = event.dataTransfer.getData("text/html")
+    if (droppedHtml) {
+      loadHtml(droppedHtml)
+    }
+  }
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || [])
+    event.target.value = ""
+    if (selected.length > 0) {
+      loadFiles(selected)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!html) return
+
+    setIsImporting(true)
+    try {
+      const result = await convertHtmlToNote(html, {
+        sourceUrl: sourceUrl.trim() || undefined,
+        files,
+        storeImages: true,
+      })
+
+      const docId = await saveDocument({
+        title: title.trim() || result.title,
+        summary: summary.trim(),
+        tags: [],
+        content: result.content,
+        sourceUrl: result.sourceUrl,
+      })
+
+      onImported(docId)
+      onClose()
+
+      if (result.missingImages > 0) {
+        alert(
+          `${result.missingImages} image${result.missingImages !== 1 ? "s" : ""} could not be copied into your notes. ` +
+            "Images on the web are linked instead and need a connection to show.",
+        )
+      }
+    } catch (error) {
+      console.error("HTML import failed:", error)
+      alert(`Import failed: ${error instanceof Error ? error.message : "Unknown error"}`)
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const sectionCount = preview ? preview.content.split("\n").filter((line) => line.startsWith("# ")).length : 0
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[800px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl flex items-center gap-2">
+            <Globe className="h-5 w-5" />
+            Import Web Page
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div
+            tabIndex={0}
+            onPaste={handlePaste}
+            onDragOver={(event) => {
+              event.preventDefault()
+              setIsDragging(true)
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`border-2 border-dashed rounded-md p-6 text-center text-sm text-muted-foreground outline-none focus:border-primary ${
+              isDragging ? "border-primary bg-muted/50" : "border-border"
+            }`}
+          >
+            <p>Click here and paste (Ctrl+V) copied web content, or drop a saved .html page.</p>
+            <p className="text-xs mt-1">Headings become Cornell sections. Nothing is saved until you import.</p>
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-3"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isImporting}
+            >
+              Choose file
+            </Button>
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={handleFileChange}
+              accept=".html,.htm,image/*"
+              multiple
+              className="hidden"
+            />
+          </div>
+
+          {preview && (
+            <>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label htmlFor="html-import-title">Title</Label>
+                  <Input id="html-import-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="html-import-source">Source URL</Label>
+                  <Input
+                    id="html-import-source"
+                    value={sourceUrl}
+                    placeholder="https://..."
+                    onChange={(e) => setSourceUrl(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="html-import-summary">Summary</Label>
+                <Input id="html-import-summary" value={summary} onChange={(e) => setSummary(e.target.value)} />
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary">
+                  {sectionCount} section{sectionCount !== 1 ? "s" : ""}
+                </Badge>
+                {files.length > 0 && <Badge variant="secondary">{files.length} files from the saved page</Badge>}
+              </div>
+
+              <div className="max-h-80 overflow-y-auto">
+                <CornellNotes markdown={preview.content} />
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="mt-4">
+          <Button variant="outline" onClick={onClose} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!preview || isImporting}>
+            {isImporting ? "Importing..." : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -5,7 +5,7 @@ import type React from "react"
 import { useState, useRef, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { getNoteLinkSuggestions, noteExists } from "@/lib/link-utils"
+import { getNoteLinkSuggestions } from "@/lib/link-utils"
 import { Link, Plus } from 'lucide-react'
 
 interface NoteLinkInputProps {
@@ -21,12 +21,22 @@ export function NoteLinkInput({ onInsert, onClose }: NoteLinkInputProps) {
   const inputRef = useRef<HTMLInputElement>(null)
 
   useEffect(() => {
-    if (query.length > 0) {
-      const newSuggestions = getNoteLinkSuggestions(query)
-      setSuggestions(newSuggestions)
-      setSelectedIndex(0)
-    } else {
+    if (query.length === 0) {
       setSuggestions([])
+      return
+    }
+
+    let cancelled = false
+
+    getNoteLinkSuggestions(query).then((newSuggestions) => {
+      if (!cancelled) {
+        setSuggestions(newSuggestions)
+        setSelectedIndex(0)
+      }
+    })
+
+    return () => {
+      cancelled = true
     }
   }, [query])
 
@@ -102,7 +112,8 @@ export function NoteLinkInput({ onInsert, onClose }: NoteLinkInputProps) {
               <div className="flex items-center gap-2">
                 <Link className="h-3 w-3" />
                 {suggestion}
-                {noteExists(suggestion) && <span className="text-xs text-muted-foreground">(exists)</span>}
+                {/* Suggestions are always drawn from existing note titles */}
+                <span className="text-xs text-muted-foreground">(exists)</span>
               </div>
             </button>
           ))}
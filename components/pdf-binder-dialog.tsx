@@ -0,0 +1,173 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { PdfLayoutSettings } from "@/components/pdf-export-dialog"
+import {
+  exportBinderToPdf,
+  getPdfExportSettings,
+  savePdfExportSettings,
+  DEFAULT_PDF_OPTIONS,
+  type PdfExportOptions,
+} from "@/lib/export-utils"
+import type { DocumentData } from "@/lib/storage-utils"
+import { BookOpen } from "lucide-react"
+
+interface PdfBinderDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  documents: DocumentData[]
+  initialSelection: string[]
+  defaultTitle: string
+}
+
+export function PdfBinderDialog({ isOpen, onClose, documents, initialSelection, defaultTitle }: PdfBinderDialogProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [title, setTitle] = useState("")
+  const [options, setOptions] = useState<PdfExportOptions>(DEFAULT_PDF_OPTIONS)
+  const [isExporting, setIsExporting] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedIds(new Set(initialSelection))
+      setTitle(defaultTitle)
+      setOptions(getPdfExportSettings())
+    }
+  }, [isOpen])
+
+  // Notes appear in the binder in the order listed here
+  const sortedDocuments = useMemo(
+    () => [...documents].sort((a, b) => (a.title || "Untitled").localeCompare(b.title || "Untitled")),
+    [documents],
+  )
+
+  const tags = useMemo(() => [...new Set(documents.flatMap((doc) => doc.tags))].sort(), [documents])
+
+  const toggleDocument = (id: string, checked: boolean) => {
+    const updated = new Set(selectedIds)
+    if (checked) {
+      updated.add(id)
+    } else {
+      updated.delete(id)
+    }
+    setSelectedIds(updated)
+  }
+
+  const selectTag = (tag: string) => {
+    setSelectedIds(new Set(documents.filter((doc) => doc.tags.includes(tag)).map((doc) => doc.id)))
+    setTitle(`Notes tagged ${tag}`)
+  }
+
+  const handleExport = async () => {
+    const selected = sortedDocuments.filter((doc) => selectedIds.has(doc.id))
+    if (selected.length === 0) return
+
+    savePdfExportSettings(options)
+    setIsExporting(true)
+    try {
+      await exportBinderToPdf(selected, title.trim() || defaultTitle, options)
+      onClose()
+    } catch (error) {
+      console.error("PDF binder export failed:", error)
+      alert(`PDF export failed: ${error instanceof Error ? error.message : "Unknown error"}`)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[600px] max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl flex items-center gap-2">
+            <BookOpen className="h-5 w-5" />
+            Export PDF Binder
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            One PDF with a cover page, a table of contents and bookmarks. Links between the chosen notes become
+            clickable.
+          </p>
+
+          <div className="space-y-1">
+            <Label htmlFor="pdf-binder-title">Title</Label>
+            <Input id="pdf-binder-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+
+          {tags.length > 0 && (
+            <div className="space-y-1">
+              <Label>Select all notes tagged</Label>
+              <div className="flex flex-wrap gap-1">
+                {tags.map((tag) => (
+                  <Badge
+                    key={tag}
+                    variant="outline"
+                    className="cursor-pointer uppercase text-xs hover:bg-muted"
+                    onClick={() => selectTag(tag)}
+                  >
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>
+                {selectedIds.size} of {documents.length} notes
+              </Label>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSelectedIds(new Set(documents.map((doc) => doc.id)))}
+                >
+                  All
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+                  None
+                </Button>
+              </div>
+            </div>
+            <div className="border rounded-md divide-y divide-border max-h-60 overflow-y-auto">
+              {sortedDocuments.map((doc) => (
+                <div key={doc.id} className="p-2 text-sm flex items-center gap-2">
+                  <Checkbox
+                    id={`pdf-binder-${doc.id}`}
+                    checked={selectedIds.has(doc.id)}
+                    onCheckedChange={(checked) => toggleDocument(doc.id, checked === true)}
+                  />
+                  <Label htmlFor={`pdf-binder-${doc.id}`} className="font-normal line-clamp-1">
+                    {doc.title || "Untitled"}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="font-medium">Page layout</h3>
+            <PdfLayoutSettings value={options} onChange={setOptions} />
+          </div>
+        </div>
+
+        <DialogFooter className="mt-4">
+          <Button variant="outline" onClick={onClose} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={selectedIds.size === 0 || isExporting}>
+            {isExporting ? "Exporting..." : "Export PDF"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,235 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  getPdfExportSettings,
+  savePdfExportSettings,
+  DEFAULT_PDF_OPTIONS,
+  PDF_PAGE_SIZE_LABELS,
+  PDF_HEADER_FOOTER_LABELS,
+  type PdfExportOptions,
+  type PdfFont,
+  type PdfHeaderFooterItem,
+  type PdfOrientation,
+  type PdfPageSize,
+} from "@/lib/export-utils"
+import { FileText } from "lucide-react"
+
+interface PdfExportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onExport: (options: PdfExportOptions) => Promise<void>
+}
+
+interface PdfLayoutSettingsProps {
+  value: PdfExportOptions
+  onChange: (options: PdfExportOptions) => void
+}
+
+const FONT_LABELS: Record<PdfFont, string> = {
+  sans: "Sans Serif",
+  serif: "Serif",
+  mixed: "Mixed",
+}
+
+const ORIENTATION_LABELS: Record<PdfOrientation, string> = {
+  portrait: "Portrait",
+  landscape: "Landscape",
+}
+
+const MARGIN_OPTIONS = [
+  { value: 10, label: "Narrow margins" },
+  { value: 15, label: "Normal margins" },
+  { value: 20, label: "Wide margins" },
+]
+
+const CUE_WIDTH_OPTIONS = [
+  { value: 35, label: "Narrow cue column" },
+  { value: 45, label: "Standard cue column" },
+  { value: 60, label: "Wide cue column" },
+]
+
+const FONT_SCALE_OPTIONS = [
+  { value: 0.9, label: "Small text" },
+  { value: 1, label: "Normal text" },
+  { value: 1.15, label: "Large text" },
+  { value: 1.3, label: "Extra large text" },
+]
+
+const LINE_SPACING_OPTIONS = [
+  { value: 0.9, label: "Compact lines" },
+  { value: 1, label: "Normal lines" },
+  { value: 1.25, label: "Relaxed lines" },
+  { value: 1.5, label: "Wide lines" },
+]
+
+// Select for a setting with a fixed list of choices
+function OptionSelect<T extends string | number>({
+  value,
+  options,
+  onChange,
+}: {
+  value: T
+  options: Array<{ value: T; label: string }>
+  onChange: (value: T) => void
+}) {
+  return (
+    <Select
+      value={value.toString()}
+      onValueChange={(selected) => {
+        const option = options.find((item) => item.value.toString() === selected)
+        if (option) onChange(option.value)
+      }}
+    >
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value.toString()}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+const toOptions = <T extends string>(labels: Record<T, string>) =>
+  (Object.keys(labels) as T[]).map((key) => ({ value: key, label: labels[key] }))
+
+// Page layout fields shared by the single note and binder PDF exports
+export function PdfLayoutSettings({ value, onChange }: PdfLayoutSettingsProps) {
+  const update = (changes: Partial<PdfExportOptions>) => onChange({ ...value, ...changes })
+
+  const toggleItem = (position: "header" | "footer", item: PdfHeaderFooterItem, checked: boolean) => {
+    const items = value[position].filter((current) => current !== item)
+    update({ [position]: checked ? [...items, item] : items })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-2 sm:grid-cols-2">
+        <OptionSelect
+          value={value.pageSize}
+          options={toOptions(PDF_PAGE_SIZE_LABELS)}
+          onChange={(pageSize: PdfPageSize) => update({ pageSize })}
+        />
+        <OptionSelect
+          value={value.orientation}
+          options={toOptions(ORIENTATION_LABELS)}
+          onChange={(orientation: PdfOrientation) => update({ orientation })}
+        />
+        <OptionSelect
+          value={value.font}
+          options={toOptions(FONT_LABELS)}
+          onChange={(font: PdfFont) => update({ font })}
+        />
+        <OptionSelect value={value.margin} options={MARGIN_OPTIONS} onChange={(margin) => update({ margin })} />
+        <OptionSelect
+          value={value.cueColumnWidth}
+          options={CUE_WIDTH_OPTIONS}
+          onChange={(cueColumnWidth) => update({ cueColumnWidth })}
+        />
+        <OptionSelect
+          value={value.fontScale}
+          options={FONT_SCALE_OPTIONS}
+          onChange={(fontScale) => update({ fontScale })}
+        />
+        <OptionSelect
+          value={value.lineSpacing}
+          options={LINE_SPACING_OPTIONS}
+          onChange={(lineSpacing) => update({ lineSpacing })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Header and footer</Label>
+        <div className="grid grid-cols-[1fr_4rem_4rem] gap-y-2 text-sm items-center">
+          <span />
+          <span className="text-xs text-muted-foreground text-center">Header</span>
+          <span className="text-xs text-muted-foreground text-center">Footer</span>
+          {(Object.keys(PDF_HEADER_FOOTER_LABELS) as PdfHeaderFooterItem[]).map((item) => (
+            <div key={item} className="contents">
+              <span>{PDF_HEADER_FOOTER_LABELS[item]}</span>
+              {(["header", "footer"] as const).map((position) => (
+                <div key={position} className="flex justify-center">
+                  <Checkbox
+                    aria-label={`${PDF_HEADER_FOOTER_LABELS[item]} in ${position}`}
+                    checked={value[position].includes(item)}
+                    onCheckedChange={(checked) => toggleItem(position, item, checked === true)}
+                  />
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="pdf-study-sheet"
+          checked={value.studySheet}
+          onCheckedChange={(checked) => update({ studySheet: checked === true })}
+        />
+        <Label htmlFor="pdf-study-sheet" className="text-sm font-normal">
+          Study sheet: leave the cue column blank to write your own cues
+        </Label>
+      </div>
+    </div>
+  )
+}
+
+export function PdfExportDialog({ isOpen, onClose, onExport }: PdfExportDialogProps) {
+  const [options, setOptions] = useState<PdfExportOptions>(DEFAULT_PDF_OPTIONS)
+  const [isExporting, setIsExporting] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) {
+      setOptions(getPdfExportSettings())
+    }
+  }, [isOpen])
+
+  const handleExport = async () => {
+    savePdfExportSettings(options)
+    setIsExporting(true)
+    try {
+      await onExport(options)
+      onClose()
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[520px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Export PDF
+          </DialogTitle>
+        </DialogHeader>
+
+        <PdfLayoutSettings value={options} onChange={setOptions} />
+
+        <DialogFooter className="mt-4">
+          <Button variant="ghost" onClick={() => setOptions(DEFAULT_PDF_OPTIONS)} disabled={isExporting}>
+            Reset
+          </Button>
+          <Button variant="outline" onClick={onClose} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting ? "Exporting..." : "Export PDF"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
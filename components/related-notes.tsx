@@ -1,5 +1,6 @@
 "use client"
 
+import { useEffect, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { getRelatedDocuments } from "@/lib/link-utils"
@@ -12,7 +13,24 @@ interface RelatedNotesProps {
 }
 
 export function RelatedNotes({ document, onNoteClick }: RelatedNotesProps) {
-  const { forwardLinks, backlinks } = getRelatedDocuments(document)
+  const [forwardLinks, setForwardLinks] = useState<DocumentData[]>([])
+  const [backlinks, setBacklinks] = useState<DocumentData[]>([])
+
+  // Load linked notes whenever the document changes
+  useEffect(() => {
+    let cancelled = false
+
+    getRelatedDocuments(document).then((related) => {
+      if (!cancelled) {
+        setForwardLinks(related.forwardLinks)
+        setBacklinks(related.backlinks)
+      }
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [document])
 
   if (forwardLinks.length === 0 && backlinks.length === 0) {
     return null
@@ -0,0 +1,57 @@
+"use client"
+
+import { getDayKey } from "@/lib/review-stats"
+import { cn } from "@/lib/utils"
+
+interface ReviewHeatmapProps {
+  reviewsPerDay: Map<string, number>
+  weeks?: number
+}
+
+// Colour buckets by number of reviews on a day
+function getIntensityClass(count: number): string {
+  if (count === 0) return "bg-muted"
+  if (count < 10) return "bg-green-200 dark:bg-green-900"
+  if (count < 25) return "bg-green-400 dark:bg-green-700"
+  if (count < 50) return "bg-green-600 dark:bg-green-500"
+  return "bg-green-800 dark:bg-green-300"
+}
+
+export function ReviewHeatmap({ reviewsPerDay, weeks = 53 }: ReviewHeatmapProps) {
+  // Columns are weeks starting on Sunday, ending with the current week
+  const today = new Date()
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() - today.getDay() - (weeks - 1) * 7)
+
+  const columns = Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, weekday) => {
+      const date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + week * 7 + weekday)
+      const key = getDayKey(date)
+      return { date, key, count: reviewsPerDay.get(key) || 0, isFuture: date > today }
+    }),
+  )
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="flex gap-[3px] w-max">
+        {columns.map((days, week) => (
+          <div key={week} className="flex flex-col gap-[3px]">
+            {days.map((day) => (
+              <div
+                key={day.key}
+                className={cn("h-3 w-3 rounded-sm", day.isFuture ? "bg-transparent" : getIntensityClass(day.count))}
+                title={day.isFuture ? undefined : `${day.date.toLocaleDateString()}: ${day.count} review${day.count !== 1 ? "s" : ""}`}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-1 mt-2 text-xs text-muted-foreground">
+        <span className="mr-1">Less</span>
+        {[0, 5, 15, 30, 60].map((count) => (
+          <div key={count} className={cn("h-3 w-3 rounded-sm", getIntensityClass(count))} />
+        ))}
+        <span className="ml-1">More</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,226 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { getDocumentRevisions, type DocumentRevision } from "@/lib/storage-utils"
+import { diffLines, getDiffStats } from "@/lib/diff-utils"
+import { cn } from "@/lib/utils"
+import { History, Copy, RotateCcw } from "lucide-react"
+
+// Value used in the selects for the unsaved editor state
+const CURRENT_VERSION = "current"
+
+interface RevisionSnapshot {
+  title: string
+  summary?: string
+  tags: string[]
+  content: string
+}
+
+interface RevisionHistoryProps {
+  isOpen: boolean
+  onClose: () => void
+  documentId: string | null
+  current: RevisionSnapshot
+  onRestore: (revision: DocumentRevision) => void
+}
+
+// Render a revision as plain text so metadata changes show up in the diff too
+function snapshotToText(snapshot: RevisionSnapshot): string {
+  const header = [`Title: ${snapshot.title}`]
+  if (snapshot.summary) header.push(`Summary: ${snapshot.summary}`)
+  if (snapshot.tags.length > 0) header.push(`Tags: ${snapshot.tags.join(", ")}`)
+  return `${header.join("\n")}\n\n${snapshot.content}`
+}
+
+function formatRevisionDate(savedAt: string): string {
+  return new Date(savedAt).toLocaleString()
+}
+
+export function RevisionHistory({ isOpen, onClose, documentId, current, onRestore }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<DocumentRevision[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [baseId, setBaseId] = useState<string>("")
+  const [compareId, setCompareId] = useState<string>(CURRENT_VERSION)
+
+  // Load revisions each time the panel opens
+  useEffect(() => {
+    if (!isOpen || !documentId) {
+      setRevisions([])
+      return
+    }
+
+    let cancelled = false
+    setIsLoading(true)
+
+    getDocumentRevisions(documentId).then((loaded) => {
+      if (cancelled) return
+
+      // Newest first for display
+      const newestFirst = [...loaded].reverse()
+      setRevisions(newestFirst)
+      setBaseId(newestFirst[0]?.id || "")
+      setCompareId(CURRENT_VERSION)
+      setIsLoading(false)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, documentId])
+
+  const resolveSnapshot = (id: string): RevisionSnapshot | null => {
+    if (id === CURRENT_VERSION) return current
+    return revisions.find((revision) => revision.id === id) || null
+  }
+
+  const baseSnapshot = resolveSnapshot(baseId)
+  const compareSnapshot = resolveSnapshot(compareId)
+  const selectedRevision = revisions.find((revision) => revision.id === baseId) || null
+
+  const diff = useMemo(() => {
+    if (!baseSnapshot || !compareSnapshot) return []
+    return diffLines(snapshotToText(baseSnapshot), snapshotToText(compareSnapshot))
+  }, [baseSnapshot, compareSnapshot])
+
+  const stats = getDiffStats(diff)
+
+  const handleRestore = () => {
+    if (!selectedRevision) return
+
+    const confirmed = window.confirm(
+      `Restore the version saved on ${formatRevisionDate(selectedRevision.savedAt)}?\n\nUnsaved changes in the editor will be replaced.`,
+    )
+    if (!confirmed) return
+
+    onRestore(selectedRevision)
+    onClose()
+  }
+
+  const handleCopy = async () => {
+    if (!selectedRevision) return
+
+    try {
+      await navigator.clipboard.writeText(selectedRevision.content)
+      alert("Revision content copied to clipboard")
+    } catch (error) {
+      console.error("Copy failed:", error)
+      alert("Could not copy to clipboard. Please try again.")
+    }
+  }
+
+  const renderOptions = (includeCurrent: boolean) => (
+    <SelectContent>
+      {includeCurrent && <SelectItem value={CURRENT_VERSION}>Current editor</SelectItem>}
+      {revisions.map((revision, index) => (
+        <SelectItem key={revision.id} value={revision.id}>
+          {formatRevisionDate(revision.savedAt)}
+          {index === 0 ? " (latest save)" : ""}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  )
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[900px] max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="text-xl flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Revision History
+          </DialogTitle>
+        </DialogHeader>
+
+        {!documentId ? (
+          <div className="text-center py-8 text-muted-foreground">Save this note to start keeping revisions.</div>
+        ) : isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading revisions...</div>
+        ) : revisions.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No revisions recorded yet.</div>
+        ) : (
+          <div className="flex flex-col gap-4 min-h-0">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label>Revision</Label>
+                <Select value={baseId} onValueChange={setBaseId}>
+                  <SelectTrigger className="w-full mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  {renderOptions(false)}
+                </Select>
+              </div>
+              <div>
+                <Label>Compare with</Label>
+                <Select value={compareId} onValueChange={setCompareId}>
+                  <SelectTrigger className="w-full mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  {renderOptions(true)}
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2 text-sm">
+              <Badge variant="outline" className="text-green-700 dark:text-green-400">
+                +{stats.added}
+              </Badge>
+              <Badge variant="outline" className="text-red-700 dark:text-red-400">
+                -{stats.removed}
+              </Badge>
+              {stats.added === 0 && stats.removed === 0 && (
+                <span className="text-muted-foreground">The selected versions are identical</span>
+              )}
+            </div>
+
+            <div className="flex-1 min-h-0 max-h-[45vh] overflow-auto border rounded-md font-mono text-xs">
+              {diff.map((line, index) => (
+                <div
+                  key={index}
+                  className={cn(
+                    "flex whitespace-pre-wrap break-words",
+                    line.type === "added" && "bg-green-100 dark:bg-green-950",
+                    line.type === "removed" && "bg-red-100 dark:bg-red-950",
+                  )}
+                >
+                  <span className="w-10 flex-shrink-0 text-right pr-2 text-muted-foreground select-none">
+                    {line.oldLineNumber ?? ""}
+                  </span>
+                  <span className="w-10 flex-shrink-0 text-right pr-2 text-muted-foreground select-none">
+                    {line.newLineNumber ?? ""}
+                  </span>
+                  <span className="w-4 flex-shrink-0 select-none">
+                    {line.type === "added" ? "+" : line.type === "removed" ? "-" : " "}
+                  </span>
+                  <span className="flex-1">{line.text || " "}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="flex justify-between items-center mt-4">
+          <div className="text-sm text-muted-foreground">
+            {revisions.length > 0 && `${revisions.length} revision${revisions.length > 1 ? "s" : ""} saved`}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+            <Button variant="outline" onClick={handleCopy} disabled={!selectedRevision}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </Button>
+            <Button onClick={handleRestore} disabled={!selectedRevision}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Restore
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,97 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { getSavedSearches, saveSearch, deleteSavedSearch, type SavedSearch } from "@/lib/search-query"
+import { cn } from "@/lib/utils"
+import { Bookmark, X } from "lucide-react"
+
+interface SavedSearchesProps {
+  currentQuery: string
+  onSelect: (query: string) => void
+}
+
+export function SavedSearches({ currentQuery, onSelect }: SavedSearchesProps) {
+  const [searches, setSearches] = useState<SavedSearch[]>([])
+
+  useEffect(() => {
+    setSearches(getSavedSearches())
+  }, [])
+
+  const handleSave = () => {
+    const query = currentQuery.trim()
+    if (!query) return
+
+    const name = window.prompt("Name this search:", query)
+    if (!name?.trim()) return
+
+    try {
+      saveSearch(name.trim(), query)
+      setSearches(getSavedSearches())
+    } catch (error) {
+      console.error("Failed to save search:", error)
+      alert("Could not save this search. Please try again.")
+    }
+  }
+
+  const handleDelete = (search: SavedSearch) => {
+    if (deleteSavedSearch(search.id)) {
+      setSearches(getSavedSearches())
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-sm font-medium text-muted-foreground">Saved Searches</div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={handleSave}
+          disabled={!currentQuery.trim()}
+          title="Save the current search"
+        >
+          <Bookmark className="h-3.5 w-3.5 mr-1" />
+          Save
+        </Button>
+      </div>
+
+      {searches.length === 0 ? (
+        <div className="text-xs text-muted-foreground">
+          Try <code>tag:biology -tag:draft has:diagram</code> and save it here.
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {searches.map((search) => (
+            <div
+              key={search.id}
+              className={cn(
+                "group flex items-center rounded-md text-sm transition-colors",
+                currentQuery.trim() === search.query ? "bg-accent text-accent-foreground" : "hover:bg-accent/50",
+              )}
+            >
+              <button
+                className="flex-1 min-w-0 text-left px-2 py-1.5"
+                onClick={() => onSelect(search.query)}
+                title={search.query}
+              >
+                <div className="line-clamp-1">{search.name}</div>
+                {search.name !== search.query && (
+                  <div className="text-xs text-muted-foreground font-mono line-clamp-1">{search.query}</div>
+                )}
+              </button>
+              <button
+                className="px-2 opacity-0 group-hover:opacity-100 hover:text-destructive"
+                onClick={() => handleDelete(search)}
+                aria-label={`Delete saved search ${search.name}`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
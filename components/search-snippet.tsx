@@ -0,0 +1,29 @@
+"use client"
+
+import type { SnippetSegment } from "@/lib/search-index"
+import { cn } from "@/lib/utils"
+
+interface SearchSnippetProps {
+  segments: SnippetSegment[]
+  className?: string
+}
+
+export function SearchSnippet({ segments, className }: SearchSnippetProps) {
+  if (segments.length === 0) {
+    return null
+  }
+
+  return (
+    <div className={cn("text-xs text-muted-foreground", className)}>
+      {segments.map((segment, index) =>
+        segment.highlight ? (
+          <mark key={index} className="bg-yellow-200 text-foreground dark:bg-yellow-800 rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        ),
+      )}
+    </div>
+  )
+}
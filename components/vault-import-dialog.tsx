@@ -0,0 +1,248 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { getAllDocuments, type DocumentData } from "@/lib/storage-utils"
+import {
+  getVaultFilesFromFolder,
+  getVaultFilesFromZip,
+  previewVaultImport,
+  importVault,
+  type VaultConflictStrategy,
+  type VaultFile,
+  type VaultImportPlan,
+} from "@/lib/vault-import"
+import { FolderInput } from "lucide-react"
+
+interface VaultImportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onImported: () => void
+}
+
+const STRATEGY_LABELS: Record<VaultConflictStrategy, string> = {
+  skip: "Skip notes that already exist",
+  replace: "Replace the existing notes",
+  "keep-both": "Keep both (rename imported notes)",
+}
+
+export function VaultImportDialog({ isOpen, onClose, onImported }: VaultImportDialogProps) {
+  const [plan, setPlan] = useState<VaultImportPlan | null>(null)
+  const [existingDocs, setExistingDocs] = useState<DocumentData[]>([])
+  const [strategy, setStrategy] = useState<VaultConflictStrategy>("skip")
+  const [isReading, setIsReading] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const folderInputRef = useRef<HTMLInputElement>(null)
+  const zipInputRef = useRef<HTMLInputElement>(null)
+
+  // Folder selection is not part of React's input attributes
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "")
+  })
+
+  useEffect(() => {
+    if (!isOpen) {
+      setPlan(null)
+      setStrategy("skip")
+    }
+  }, [isOpen])
+
+  const loadPreview = async (readFiles: () => Promise<VaultFile[]>) => {
+    setIsReading(true)
+    try {
+      const docs = await getAllDocuments()
+      const files = await readFiles()
+      setExistingDocs(docs)
+      setPlan(await previewVaultImport(files, docs))
+    } catch (error) {
+      console.error("Error reading vault:", error)
+      alert(`Could not read the vault: ${error instanceof Error ? error.message : "Unknown error"}`)
+    } finally {
+      setIsReading(false)
+    }
+  }
+
+  const handleFolderChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files
+    if (files && files.length > 0) {
+      const selected = Array.from(files)
+      loadPreview(async () => getVaultFilesFromFolder(selected))
+    }
+    event.target.value = ""
+  }
+
+  const handleZipChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) {
+      loadPreview(() => getVaultFilesFromZip(file))
+    }
+    event.target.value = ""
+  }
+
+  const handleImport = async () => {
+    if (!plan) return
+
+    setIsImporting(true)
+    try {
+      const result = await importVault(plan, strategy, existingDocs)
+      onImported()
+      onClose()
+
+      const details = [
+        `${result.imported} imported`,
+        result.replaced > 0 ? `${result.replaced} replaced` : "",
+        result.skipped > 0 ? `${result.skipped} skipped` : "",
+        result.images > 0 ? `${result.images} image${result.images !== 1 ? "s" : ""}` : "",
+      ].filter(Boolean)
+      alert(`Vault import finished: ${details.join(", ")}.`)
+    } catch (error) {
+      console.error("Vault import failed:", error)
+      alert(`Vault import failed: ${error instanceof Error ? error.message : "Unknown error"}`)
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const conflicts = plan ? plan.notes.filter((note) => note.conflict).length : 0
+  const duplicates = plan ? plan.notes.filter((note) => note.duplicateTitle).length : 0
+  const missingLinks = plan ? plan.notes.reduce((total, note) => total + note.missingLinks.length, 0) : 0
+  const missingAttachments = plan ? plan.notes.reduce((total, note) => total + note.missingAttachments.length, 0) : 0
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[700px] max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl flex items-center gap-2">
+            <FolderInput className="h-5 w-5" />
+            Import Vault
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Import an Obsidian or Logseq vault as a folder or zip. Frontmatter, #tags, [[links]] and embedded images
+            are kept, and folders are remembered on each note. Nothing is saved until you confirm the preview.
+          </p>
+
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={() => folderInputRef.current?.click()}
+              disabled={isReading || isImporting}
+            >
+              Choose folder
+            </Button>
+            <Button variant="outline" onClick={() => zipInputRef.current?.click()} disabled={isReading || isImporting}>
+              Choose zip
+            </Button>
+            <input type="file" ref={folderInputRef} onChange={handleFolderChange} multiple className="hidden" />
+            <input type="file" ref={zipInputRef} onChange={handleZipChange} accept=".zip" className="hidden" />
+          </div>
+
+          {isReading && <div className="text-center py-4 text-muted-foreground">Reading vault...</div>}
+
+          {plan && !isReading && (
+            <>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary">{plan.notes.length} notes</Badge>
+                <Badge variant="secondary">{plan.attachments.size} images</Badge>
+                {conflicts > 0 && (
+                  <Badge variant="outline" className="text-amber-700 dark:text-amber-400">
+                    {conflicts} already in library
+                  </Badge>
+                )}
+                {duplicates > 0 && (
+                  <Badge variant="outline" className="text-amber-700 dark:text-amber-400">
+                    {duplicates} share a title
+                  </Badge>
+                )}
+                {missingLinks > 0 && (
+                  <Badge variant="outline" className="text-red-700 dark:text-red-400">
+                    {missingLinks} unresolved links
+                  </Badge>
+                )}
+                {missingAttachments > 0 && (
+                  <Badge variant="outline" className="text-red-700 dark:text-red-400">
+                    {missingAttachments} missing images
+                  </Badge>
+                )}
+                {plan.skipped.length > 0 && <Badge variant="outline">{plan.skipped.length} other files ignored</Badge>}
+              </div>
+
+              {conflicts > 0 && (
+                <div className="space-y-2">
+                  <Label>Notes with a title that already exists</Label>
+                  <Select value={strategy} onValueChange={(value) => setStrategy(value as VaultConflictStrategy)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(STRATEGY_LABELS) as VaultConflictStrategy[]).map((key) => (
+                        <SelectItem key={key} value={key}>
+                          {STRATEGY_LABELS[key]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="border rounded-md divide-y divide-border max-h-72 overflow-y-auto">
+                {plan.notes.map((note) => (
+                  <div key={note.path} className="p-3 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        {note.folder && (
+                          <div className="text-xs text-muted-foreground line-clamp-1">
+                            {note.folder.split("/").join(" / ")}
+                          </div>
+                        )}
+                        <div className="font-medium line-clamp-1">{note.title}</div>
+                      </div>
+                      <div className="flex gap-1 flex-shrink-0">
+                        {note.conflict && (
+                          <Badge variant="outline" className="text-xs text-amber-700 dark:text-amber-400">
+                            Exists
+                          </Badge>
+                        )}
+                        {note.duplicateTitle && (
+                          <Badge variant="outline" className="text-xs text-amber-700 dark:text-amber-400">
+                            Duplicate title
+                          </Badge>
+                        )}
+                        {note.tags.length > 0 && (
+                          <Badge variant="secondary" className="text-xs">
+                            {note.tags.length} tag{note.tags.length !== 1 ? "s" : ""}
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                    {(note.missingLinks.length > 0 || note.missingAttachments.length > 0) && (
+                      <div className="text-xs text-red-700 dark:text-red-400 mt-1 line-clamp-2">
+                        Unresolved: {[...note.missingLinks, ...note.missingAttachments].join(", ")}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="mt-4">
+          <Button variant="outline" onClick={onClose} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!plan || isReading || isImporting}>
+            {isImporting ? "Importing..." : plan ? `Import ${plan.notes.length} notes` : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
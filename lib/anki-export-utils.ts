@@ -1,14 +1,22 @@
-import JSZip from "jszip"
 import { getImage } from "./image-storage"
+import { getSectionId } from "./search-index"
+import { getReviewLogEntries, type ReviewLogEntry } from "./review-log"
+import { buildAnkiPackage, type AnkiNote, type AnkiReview } from "./anki-package"
+import type { DocumentData } from "./storage-utils"
+import type { FlashcardDeck } from "./flashcard-utils"
+import { difficultyToEaseFactor } from "./scheduler"
 
 interface FlashCard {
   front: string
   back: string
-  title: string
-  tags: string
+  sectionId: string
   images?: { [key: string]: string } // Store images as base64 data URLs
 }
 
+export interface AnkiExportOptions {
+  deck?: FlashcardDeck // Export this deck's cards with their review progress instead of one new card per section
+}
+
 // Helper function to download a blob
 function downloadBlob(blob: Blob, filename: string) {
   const url = URL.createObjectURL(blob)
@@ -170,7 +178,10 @@ async function processImagesForAnki(content: string): Promise<{ html: string; im
       // For data URLs, we can embed them directly
       if (imageData.startsWith("data:")) {
         // Generate a unique filename for this image
-        const imageKey = `img_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`
+        // Stored images keep their id, so repeated exports don't pile up copies in Anki's media folder
+        const imageKey = src.startsWith("cornell-image://")
+          ? `cornell-${src.replace("cornell-image://", "")}`
+          : `img_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`
         const extension = imageData.includes("data:image/png") ? "png" : "jpg"
         const filename = `${imageKey}.${extension}`
 
@@ -239,7 +250,7 @@ async function cleanMarkdownForAnki(text: string): Promise<{ content: string; im
     // Convert markdown links to HTML
     .replace(/\[([^\]]+)\]$$([^)]+)$$/g, '<a href="$2" style="color: #0066cc;">$1</a>')
     // Remove note links (Cornell-specific) but keep the text
-    .replace(/\[\[([^\]]+)\]\]/g, "<strong>$1</strong>")
+    .replace(/\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g, (_, title: string, label?: string) => `<strong>${label || title}</strong>`)
     // Convert blockquotes
     .replace(
       /^> (.+)$/gm,
@@ -259,318 +270,186 @@ async function cleanMarkdownForAnki(text: string): Promise<{ content: string; im
   return { content: cleaned, images }
 }
 
-// Get document tags from storage
-function getDocumentTags(title: string): string[] {
-  try {
-    if (typeof window === "undefined") return []
-
-    const docs = localStorage.getItem("cornell-notes-docs")
-    if (!docs) return []
-
-    const documents = JSON.parse(docs)
-    const doc = documents.find((d: any) => d.title === title)
-    return doc?.tags || []
-  } catch (error) {
-    console.error("Error getting document tags:", error)
-    return []
-  }
-}
-
-// Parse Cornell notes into flashcards with enhanced content processing
-async function parseNotesToFlashcards(
-  title: string,
-  summary: string,
-  markdown: string,
-  documentTags: string[] = [],
-): Promise<FlashCard[]> {
+// Parse Cornell notes into one flashcard per "# " section
+async function parseNotesToFlashcards(markdown: string): Promise<FlashCard[]> {
   const flashcards: FlashCard[] = []
+  const sections: { heading: string; lines: string[] }[] = []
 
-  // Create tags string from document tags only - no automatic content type tags
-  const tagsString = documentTags.length > 0 ? documentTags.join(" ") : ""
+  markdown.split("\n").forEach((line) => {
+    if (line.startsWith("# ")) {
+      sections.push({ heading: line.substring(2).trim(), lines: [] })
+    } else if (sections.length > 0) {
+      sections[sections.length - 1].lines.push(line)
+    }
+  })
 
-  // Add a summary card if summary exists
-  if (summary.trim()) {
-    const { content, images } = await cleanMarkdownForAnki(summary)
+  // Process sections sequentially to avoid async issues
+  for (const section of sections) {
+    const contentText = section.lines.join("\n").trim()
+    if (!section.heading || !contentText) continue
+
+    const { content, images } = await cleanMarkdownForAnki(contentText)
     flashcards.push({
-      front: `Summary: ${title}`,
+      front: section.heading,
       back: content,
-      title: title,
-      tags: tagsString, // Only document tags, no automatic 'summary' tag
-      images: images,
+      sectionId: getSectionId(section.heading),
+      images,
     })
   }
 
-  // Parse sections from markdown
-  const lines = markdown.split("\n")
-  let currentHeading = ""
-  let currentContent: string[] = []
-
-  // Process all sections sequentially to avoid async issues
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i]
+  return flashcards
+}
 
-    if (line.startsWith("# ")) {
-      // Save previous section if it exists
-      if (currentHeading && currentContent.length > 0) {
-        const contentText = currentContent.join("\n").trim()
-        if (contentText) {
-          const { content, images } = await cleanMarkdownForAnki(contentText)
-          flashcards.push({
-            front: currentHeading,
-            back: content,
-            title: title,
-            tags: tagsString, // Only document tags, no automatic 'section' tag
-            images: images,
-          })
-        }
-      }
+// Escape plain text for an HTML field
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\n/g, "<br>")
+}
 
-      // Start new section
-      currentHeading = line.substring(2).trim()
-      currentContent = []
-    } else if (currentHeading) {
-      // Add content to current section
-      currentContent.push(line)
-    }
-  }
+// Anki answer button for a 0-5 review grade
+function qualityToEase(quality: number): AnkiReview["ease"] {
+  if (quality < 3) return 1
+  if (quality === 3) return 2
+  if (quality === 4) return 3
+  return 4
+}
 
-  // Add the last section
-  if (currentHeading && currentContent.length > 0) {
-    const contentText = currentContent.join("\n").trim()
-    if (contentText) {
-      const { content, images } = await cleanMarkdownForAnki(contentText)
-      flashcards.push({
-        front: currentHeading,
-        back: content,
-        title: title,
-        tags: tagsString, // Only document tags, no automatic 'section' tag
-        images: images,
-      })
+// Notes for each section, with stable ids so re-exports update existing Anki notes
+function buildSectionNotes(
+  doc: DocumentData,
+  flashcards: FlashCard[],
+  fields: Pick<AnkiNote["fields"], "Title" | "Summary">,
+): AnkiNote[] {
+  const usedGuids = new Set<string>()
+
+  return flashcards.map((card) => {
+    let guid = `${doc.id}-${card.sectionId}`
+    for (let suffix = 2; usedGuids.has(guid); suffix++) {
+      guid = `${doc.id}-${card.sectionId}-${suffix}`
     }
-  }
+    usedGuids.add(guid)
 
-  return flashcards
+    return { guid, fields: { ...fields, Question: card.front, Answer: card.back }, tags: doc.tags }
+  })
 }
 
-// Escape text for TSV format - enhanced to handle problematic characters
-function escapeTSVField(text: string): string {
-  if (!text) return ""
-
-  // First, normalize the text by removing any existing HTML line breaks that might interfere
-  let cleaned = text
-    .replace(/<br\s*\/?>/gi, " ") // Convert HTML breaks to spaces
-    .replace(/\r?\n/g, " ") // Convert actual newlines to spaces
-    .replace(/\t/g, "    ") // Convert tabs to 4 spaces
-    .replace(/\s+/g, " ") // Collapse multiple spaces
-    .trim()
-
-  // Handle quotes by doubling them (TSV standard)
-  cleaned = cleaned.replace(/"/g, '""')
+// Notes for the cards of a flashcard deck, carrying over their SM-2 state and review history. Images in the cards are
+// added to images
+async function buildDeckNotes(
+  doc: DocumentData,
+  deck: FlashcardDeck,
+  fields: Pick<AnkiNote["fields"], "Title" | "Summary">,
+  images: { [key: string]: string },
+): Promise<AnkiNote[]> {
+  let entries: ReviewLogEntry[] = []
+  try {
+    entries = await getReviewLogEntries(deck.id)
+  } catch (error) {
+    console.error("Error loading review log for Anki export:", error)
+  }
 
-  // If the field contains commas, tabs, quotes, or newlines, wrap in quotes
-  if (cleaned.includes('"') || cleaned.includes("\t") || cleaned.includes("\n") || cleaned.includes(",")) {
-    cleaned = `"${cleaned}"`
+  const notes: AnkiNote[] = []
+  for (const card of deck.cards) {
+    if (card.syncStatus === "retired") continue
+
+    const reviews: AnkiReview[] = entries
+      .filter((entry) => entry.cardId === card.id)
+      .sort((a, b) => a.reviewedAt.localeCompare(b.reviewedAt))
+      .map((entry) => ({
+        reviewedAt: entry.reviewedAt,
+        ease: qualityToEase(entry.quality),
+        interval: entry.nextInterval,
+        lastInterval: entry.previousInterval,
+        durationMs: entry.durationMs,
+      }))
+
+    // Card text is markdown like the note it came from, so it gets the same formatting as section cards
+    const front = await cleanMarkdownForAnki(card.front)
+    const back = await cleanMarkdownForAnki(card.back)
+    const cardNotes = card.notes ? await cleanMarkdownForAnki(card.notes) : null
+    Object.assign(images, front.images, back.images, cardNotes?.images)
+
+    notes.push({
+      guid: card.id,
+      fields: {
+        ...fields,
+        Question: front.content,
+        Answer: cardNotes ? `${back.content}<br><br><em>${cardNotes.content}</em>` : back.content,
+      },
+      tags: [...new Set([...doc.tags, ...card.tags])],
+      schedule: card.lastReviewed
+        ? {
+            interval: card.interval,
+            // FSRS does not update the ease factor, so it is derived from the card's difficulty
+            easeFactor: card.fsrs ? difficultyToEaseFactor(card.fsrs.difficulty) : card.easeFactor,
+            reviews: Math.max(reviews.length, card.repetitions),
+            lapses: card.lapses || 0,
+            nextReview: card.nextReview,
+          }
+        : undefined,
+      reviews,
+    })
   }
 
-  return cleaned
+  return notes
 }
 
-// Generate Anki-compatible TSV content with proper headers
-function generateAnkiTSV(flashcards: FlashCard[]): string {
-  // Add header row for clarity (Anki will ignore it during import if configured properly)
-  const header = "#separator:tab\n#html:true\n#tags column:4\n"
-
-  // Generate data rows
-  const dataRows = flashcards
-    .map((card, index) => {
-      try {
-        const front = escapeTSVField(card.front)
-        const back = escapeTSVField(card.back)
-        const title = escapeTSVField(card.title)
-        const tags = escapeTSVField(card.tags)
-
-        // Debug log for problematic cards
-        if (index === 0) {
-          console.log("First card debug:", {
-            originalFront: card.front.substring(0, 50),
-            escapedFront: front.substring(0, 50),
-            originalBack: card.back.substring(0, 50),
-            escapedBack: back.substring(0, 50),
-            tags: tags,
-          })
-        }
-
-        return `${front}\t${back}\t${title}\t${tags}`
-      } catch (error) {
-        console.error(`Error processing card ${index}:`, error, card)
-        return `Error processing card\tError in content\t${card.title || "Unknown"}\terror`
-      }
-    })
-    .join("\n")
-
-  return header + dataRows
+// Decode a data URL into the bytes stored in the package
+async function dataUrlToBytes(dataUrl: string): Promise<Uint8Array> {
+  const response = await fetch(dataUrl)
+  return new Uint8Array(await response.arrayBuffer())
 }
 
-// Export flashcards to Anki format with images
-export async function exportToAnki(title: string, summary: string, markdown: string): Promise<void> {
+// Export a note as an Anki package, returning the number of cards
+export async function exportToAnki(doc: DocumentData, options: AnkiExportOptions = {}): Promise<number> {
   try {
-    // Get document tags
-    const documentTags = getDocumentTags(title)
-    console.log("Document tags found:", documentTags) // Debug log
+    const images: { [key: string]: string } = {}
+
+    const summary = doc.summary?.trim() ? await cleanMarkdownForAnki(doc.summary) : { content: "", images: {} }
+    Object.assign(images, summary.images)
+    const fields = { Title: escapeHtml(doc.title), Summary: summary.content }
 
-    // Parse notes into flashcards
-    const flashcards = await parseNotesToFlashcards(title, summary, markdown, documentTags)
+    let notes: AnkiNote[]
+    if (options.deck) {
+      notes = await buildDeckNotes(doc, options.deck, fields, images)
+    } else {
+      const flashcards = await parseNotesToFlashcards(doc.content)
+      flashcards.forEach((card) => Object.assign(images, card.images))
+      notes = buildSectionNotes(doc, flashcards, fields)
+    }
 
-    if (flashcards.length === 0) {
+    if (notes.length === 0) {
       throw new Error(
-        "No flashcards could be generated from this note. Make sure you have headings (# sections) with content.",
+        options.deck
+          ? "The flashcard deck of this note has no cards to export."
+          : "No flashcards could be generated from this note. Make sure you have headings (# sections) with content.",
       )
     }
 
-    // Debug log to check flashcard content
-    console.log("Sample flashcard:", {
-      front: flashcards[0]?.front?.substring(0, 100),
-      back: flashcards[0]?.back?.substring(0, 100),
-      title: flashcards[0]?.title,
-      tags: flashcards[0]?.tags,
-    })
-
-    // Collect all images from all flashcards
-    const allImages: { [key: string]: string } = {}
-    flashcards.forEach((card) => {
-      if (card.images) {
-        Object.assign(allImages, card.images)
-      }
-    })
-
-    // Generate TSV content
-    const tsvContent = generateAnkiTSV(flashcards)
-    console.log("TSV preview (first 300 chars):", tsvContent.substring(0, 300)) // Debug log
-
-    // Create zip file
-    const zip = new JSZip()
-
-    // Add the TSV file to the zip
-    const filename = `${title.replace(/[^a-z0-9]/gi, "-").toLowerCase()}-flashcards.txt`
-    zip.file(filename, tsvContent)
-
-    // Add all images to the zip
-    const imagePromises = Object.entries(allImages).map(async ([filename, dataUrl]) => {
+    const media: { [filename: string]: Uint8Array } = {}
+    for (const [filename, dataUrl] of Object.entries(images)) {
       try {
-        // Convert data URL to blob
-        const response = await fetch(dataUrl)
-        const blob = await response.blob()
-        zip.file(`images/${filename}`, blob)
+        media[filename] = await dataUrlToBytes(dataUrl)
       } catch (error) {
         console.error(`Error adding image ${filename}:`, error)
       }
-    })
+    }
 
-    await Promise.all(imagePromises)
-
-    // Add a comprehensive readme file with import instructions
-    const readmeContent = `Anki Flashcards Export - ${title}
-${"=".repeat(50)}
-
-This package contains ${flashcards.length} flashcards exported from "${title}".
-${Object.keys(allImages).length > 0 ? `Includes ${Object.keys(allImages).length} images in the 'images' folder.` : ""}
-
-CONTENTS:
-- ${filename}: Flashcard data in Anki-compatible format
-${Object.keys(allImages).length > 0 ? "- images/: All referenced images" : ""}
-
-FILE FORMAT:
-The .txt file contains tab-separated values with these columns:
-1. Front (Question/Heading)
-2. Back (Answer/Content with HTML formatting)  
-3. Title (Source document: "${title}")
-4. Tags (${documentTags.length > 0 ? documentTags.join(", ") : "None"})
-
-IMPORT INSTRUCTIONS:
-1. Extract this zip file completely
-2. Open Anki
-3. Select or create a deck
-4. Go to File → Import
-5. Select the ${filename} file
-6. Configure import settings:
-   ✓ Field separator: Tab
-   ✓ Allow HTML in fields: YES
-   ✓ First line is field names: NO
-   ✓ Field mapping:
-     - Field 1 → Front
-     - Field 2 → Back
-     - Field 3 → Title (add this field if needed)
-     - Field 4 → Tags
-7. Click Import
-
-FIELD SETUP:
-If you don't have a Title field in your note type:
-1. Go to Tools → Manage Note Types
-2. Select your note type and click Fields
-3. Add a new field called "Title"
-4. Rearrange fields to match the import order
-
-${
-  Object.keys(allImages).length > 0
-    ? `
-IMAGE SETUP:
-Copy images to your Anki media folder:
-
-Windows: Documents\\Anki2\\[Profile]\\collection.media\\
-Mac: ~/Library/Application Support/Anki2/[Profile]/collection.media/
-Linux: ~/.local/share/Anki2/[Profile]/collection.media/
-
-1. Copy ALL files from the 'images' folder to collection.media
-2. Restart Anki
-3. Images will appear in your cards automatically
-
-`
-    : ""
-}
-FORMATTING INCLUDED:
-✓ HTML tables
-✓ Ordered and unordered lists  
-✓ Bold and italic text
-✓ Code blocks and inline code
-✓ Links and blockquotes
-✓ Headers and line breaks
-${Object.keys(allImages).length > 0 ? "✓ Images" : ""}
-
-TAGS APPLIED:
-Document tags: ${documentTags.length > 0 ? documentTags.join(", ") : "None"}
-Note: No automatic content-type tags are added
-
-TROUBLESHOOTING:
-- Fields misaligned? Check field separator is set to "Tab"
-- No formatting? Enable "Allow HTML in fields"
-- Missing tags? Ensure field 4 maps to "Tags"
-- Images missing? Copy images to collection.media folder
-- Summary card issues? Check for special characters in summary text
-
-Generated: ${new Date().toLocaleString()}
-Cards: ${flashcards.length}
-Images: ${Object.keys(allImages).length}
-`
-
-    zip.file("README.txt", readmeContent)
-
-    // Generate and download the zip
-    const zipBlob = await zip.generateAsync({ type: "blob" })
-    const zipFilename = `${title.replace(/[^a-z0-9]/gi, "-").toLowerCase()}-anki-flashcards.zip`
-
-    downloadBlob(zipBlob, zipFilename)
-
-    console.log(
-      `Successfully exported ${flashcards.length} flashcards to Anki format with ${Object.keys(allImages).length} images`,
-    )
+    const blob = await buildAnkiPackage({ deckName: doc.title, notes, media })
+    downloadBlob(blob, `${doc.title.replace(/[^a-z0-9]/gi, "-").toLowerCase()}.apkg`)
+
+    return notes.length
   } catch (error) {
     console.error("Error exporting to Anki:", error)
     throw error
   }
 }
 
-// Preview flashcards (for debugging or user preview)
-export async function previewFlashcards(title: string, summary: string, markdown: string): Promise<FlashCard[]> {
-  const documentTags = getDocumentTags(title)
-  return await parseNotesToFlashcards(title, summary, markdown, documentTags)
+// Preview the section flashcards of a note (for debugging or user preview)
+export async function previewFlashcards(markdown: string): Promise<FlashCard[]> {
+  return await parseNotesToFlashcards(markdown)
 }
@@ -0,0 +1,473 @@
+/**
+ * Import Anki decks into flashcard decks
+ * Reads .apkg packages (SQLite collection + media) and Anki's plain-text exports. Media is stored
+ * through image storage and referenced from card text as ![alt](cornell-image://id)
+ */
+
+import JSZip from "jszip"
+import type { Database } from "sql.js"
+import { storeImage } from "./image-storage"
+import { createFlashcard, createFlashcardDeck, CLOZE_BLANK, type Flashcard, type FlashcardDeck } from "./flashcard-utils"
+import { loadSqlJs, ANKI_FIELD_SEPARATOR } from "./anki-package"
+
+export interface AnkiImportOptions {
+  preserveScheduling?: boolean // Keep intervals, ease and due dates of studied cards
+}
+
+export interface AnkiImportResult {
+  decks: FlashcardDeck[] // Not yet saved
+  cardCount: number
+  imageCount: number
+  skipped: number // Notes that produced no usable card
+}
+
+interface AnkiModel {
+  name: string
+  type: number // 0 = standard, 1 = cloze
+  flds: { name: string; ord: number }[]
+  tmpls: { qfmt: string; afmt: string; ord: number }[]
+}
+
+interface ImportedCardContent {
+  type: Flashcard["type"]
+  front: string
+  back: string
+  notes: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const IMAGE_MIME_TYPES: { [extension: string]: string } = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+}
+
+const CLOZE_REGEX = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g
+
+// Plain text export headers, e.g. "#separator:tab"
+const SEPARATORS: { [name: string]: string } = {
+  tab: "\t",
+  comma: ",",
+  semicolon: ";",
+  pipe: "|",
+  space: " ",
+  colon: ":",
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, "&")
+}
+
+// Convert an Anki field to card text, turning images into stored image references
+function htmlToCardText(html: string, imageIds: Map<string, string>): string {
+  const text = html
+    .replace(/\[sound:[^\]]*\]/g, "")
+    .replace(/<img[^>]*src=["']?([^"'\s>]+)["']?[^>]*>/gi, (match, src: string) => {
+      const alt = match.match(/alt=["']([^"']*)["']/i)?.[1] || ""
+      const imageId = imageIds.get(decodeEntities(src))
+      return imageId ? `\n![${alt}](cornell-image://${imageId})\n` : alt
+    })
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<\/(div|p|li|h[1-6]|tr|blockquote)>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+
+  return decodeEntities(text)
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
+
+// Fill an Anki card template with note fields (conditionals, filters and {{FrontSide}})
+function renderTemplate(template: string, fields: { [name: string]: string }, frontSide = ""): string {
+  let rendered = template.replace(
+    /\{\{([#^])([^}]+)\}\}([\s\S]*?)\{\{\/\2\}\}/g,
+    (_, kind: string, name: string, inner: string) => {
+      const hasValue = !!fields[name.trim()]?.trim()
+      return (kind === "#") === hasValue ? inner : ""
+    },
+  )
+
+  rendered = rendered.replace(/\{\{([^}]+)\}\}/g, (_, tag: string) => {
+    const parts = tag.trim().split(":")
+    const name = parts[parts.length - 1].trim()
+    const filters = parts.slice(0, -1)
+
+    if (name === "FrontSide") return frontSide
+    // Typed answers have no equivalent when reviewing here
+    if (filters.includes("type")) return ""
+    return fields[name] || ""
+  })
+
+  return rendered
+}
+
+// Answer side of a template without the repeated question
+function renderAnswer(template: string, fields: { [name: string]: string }): string {
+  return renderTemplate(template, fields).replace(/^[\s\S]*?<hr id=["']?answer["']?\s*\/?>/i, "")
+}
+
+// Cloze cards: the deletion with the card's number is blanked, the others are shown
+function buildClozeContent(
+  text: string,
+  clozeNumber: number,
+  extra: string,
+  imageIds: Map<string, string>,
+): ImportedCardContent | null {
+  const answers: string[] = []
+  const front = text.replace(CLOZE_REGEX, (_, number: string, answer: string) => {
+    if (Number(number) !== clozeNumber) return answer
+    answers.push(answer)
+    return CLOZE_BLANK
+  })
+
+  if (answers.length === 0) return null
+
+  const back = answers.map((answer) => htmlToCardText(answer, imageIds)).join(", ")
+  const notes = htmlToCardText(extra, imageIds)
+
+  // Several blanks with the same number can't be revealed one by one, so ask for them all at once
+  if (answers.length > 1) {
+    return { type: "question-answer", front: htmlToCardText(front, imageIds), back, notes }
+  }
+  return { type: "cloze", front: htmlToCardText(front, imageIds), back, notes }
+}
+
+// Card content for one template of a note
+function buildCardContent(
+  model: AnkiModel,
+  fieldValues: string[],
+  ord: number,
+  imageIds: Map<string, string>,
+): ImportedCardContent | null {
+  const fields: { [name: string]: string } = {}
+  model.flds.forEach((field) => {
+    fields[field.name] = fieldValues[field.ord] || ""
+  })
+
+  // Notes exported from this app map straight back to their fields
+  if (model.name.startsWith("Cornell") && "Question" in fields && "Answer" in fields) {
+    return {
+      type: "question-answer",
+      front: htmlToCardText(fields.Question, imageIds),
+      back: htmlToCardText(fields.Answer, imageIds),
+      notes: htmlToCardText(fields.Summary || "", imageIds),
+    }
+  }
+
+  if (model.type === 1) {
+    const template = model.tmpls[0]
+    const clozeField = template?.qfmt.match(/\{\{cloze:([^}]+)\}\}/)?.[1] || model.flds[0]?.name
+    const extra = template ? renderAnswer(template.afmt.replace(/\{\{cloze:[^}]+\}\}/g, ""), fields) : ""
+    return buildClozeContent(fields[clozeField] || "", ord + 1, extra, imageIds)
+  }
+
+  const template = model.tmpls.find((candidate) => candidate.ord === ord) || model.tmpls[0]
+  if (!template) return null
+
+  const front = htmlToCardText(renderTemplate(template.qfmt, fields), imageIds)
+  const back = htmlToCardText(renderAnswer(template.afmt, fields), imageIds)
+  return front ? { type: "question-answer", front, back, notes: "" } : null
+}
+
+// Map Anki's scheduling columns onto the SM-2 fields of a card
+function applyAnkiScheduling(
+  card: Flashcard,
+  row: { type: number; queue: number; due: number; ivl: number; factor: number; reps: number; lapses: number },
+  collectionCreated: number,
+): Flashcard {
+  // Only review (2) and relearning (3) cards have a day interval; learning cards restart as new
+  if (row.type !== 2 && row.type !== 3) return card
+
+  const interval = Math.max(1, row.ivl)
+  // Review queue due dates are days since the collection was created
+  const nextReview = row.queue === 2 ? new Date(collectionCreated + row.due * DAY_MS) : new Date()
+  const lastReviewed = new Date(Math.min(Date.now(), nextReview.getTime() - interval * DAY_MS))
+
+  return {
+    ...card,
+    interval,
+    easeFactor: row.factor > 0 ? row.factor / 1000 : card.easeFactor,
+    // SM-2 only grows intervals by the ease factor from the third successful review on
+    repetitions: Math.max(2, row.reps - row.lapses),
+    lapses: row.lapses,
+    lastReviewed: lastReviewed.toISOString(),
+    nextReview: nextReview.toISOString(),
+  }
+}
+
+function getExtension(filename: string): string {
+  return filename.split(".").pop()?.toLowerCase() || ""
+}
+
+// Store the images of a package, returning their ids by Anki filename
+async function importMedia(zip: JSZip): Promise<Map<string, string>> {
+  const imageIds = new Map<string, string>()
+  const mediaFile = zip.file("media")
+  if (!mediaFile) return imageIds
+
+  let mediaMap: { [index: string]: string } = {}
+  try {
+    mediaMap = JSON.parse(await mediaFile.async("string"))
+  } catch (error) {
+    console.error("Error reading Anki media list:", error)
+    return imageIds
+  }
+
+  for (const [index, filename] of Object.entries(mediaMap)) {
+    const mimeType = IMAGE_MIME_TYPES[getExtension(filename)]
+    const entry = zip.file(index)
+    if (!mimeType || !entry) continue
+
+    try {
+      const base64 = await entry.async("base64")
+      imageIds.set(filename, await storeImage(`data:${mimeType};base64,${base64}`, filename))
+    } catch (error) {
+      console.error(`Error importing Anki media ${filename}:`, error)
+    }
+  }
+
+  return imageIds
+}
+
+function queryRows(db: Database, sql: string): { [column: string]: number | string }[] {
+  const statement = db.prepare(sql)
+  const rows: { [column: string]: number | string }[] = []
+  while (statement.step()) {
+    rows.push(statement.getAsObject() as { [column: string]: number | string })
+  }
+  statement.free()
+  return rows
+}
+
+// Read the decks of an .apkg package
+async function importAnkiPackage(file: File, options: AnkiImportOptions): Promise<AnkiImportResult> {
+  const zip = await JSZip.loadAsync(file)
+  const collectionFile = zip.file("collection.anki21") || zip.file("collection.anki2")
+
+  // Packages in the newer format also carry a placeholder collection.anki2 asking to update Anki
+  if (zip.file("collection.anki21b") && !zip.file("collection.anki21")) {
+    throw new Error(
+      'This package uses the newest Anki format. Export it again from Anki with "Support older Anki versions" enabled.',
+    )
+  }
+  if (!collectionFile) {
+    throw new Error("This file is not an Anki package (collection not found).")
+  }
+
+  const SQL = await loadSqlJs()
+  const db = new SQL.Database(await collectionFile.async("uint8array"))
+
+  try {
+    const [col] = queryRows(db, "SELECT crt, models, decks FROM col")
+    if (!col || !col.models) {
+      throw new Error("This Anki collection could not be read.")
+    }
+
+    const models: { [id: string]: AnkiModel } = JSON.parse(String(col.models))
+    const ankiDecks: { [id: string]: { name: string } } = JSON.parse(String(col.decks))
+    const collectionCreated = Number(col.crt) * 1000
+
+    const imageIds = await importMedia(zip)
+
+    const notes = new Map<number, { mid: string; fields: string[]; tags: string[] }>()
+    queryRows(db, "SELECT id, mid, flds, tags FROM notes").forEach((row) => {
+      notes.set(Number(row.id), {
+        mid: String(row.mid),
+        fields: String(row.flds).split(ANKI_FIELD_SEPARATOR),
+        tags: String(row.tags).split(/\s+/).filter(Boolean),
+      })
+    })
+
+    const decks = new Map<string, FlashcardDeck>()
+    let cardCount = 0
+    let skipped = 0
+
+    queryRows(db, "SELECT nid, did, ord, type, queue, due, ivl, factor, reps, lapses FROM cards ORDER BY id").forEach(
+      (row) => {
+        const note = notes.get(Number(row.nid))
+        const model = note && models[note.mid]
+        const content = model ? buildCardContent(model, note.fields, Number(row.ord), imageIds) : null
+
+        if (!note || !content) {
+          skipped++
+          return
+        }
+
+        const deckId = String(row.did)
+        let deck = decks.get(deckId)
+        if (!deck) {
+          const name = (ankiDecks[deckId]?.name || "Imported deck").replace(/::/g, " / ")
+          deck = createFlashcardDeck(name, `Imported from ${file.name}`)
+          decks.set(deckId, deck)
+        }
+
+        let card = createFlashcard(content.type, content.front, content.back, content.notes, note.tags)
+        if (options.preserveScheduling) {
+          card = applyAnkiScheduling(
+            card,
+            {
+              type: Number(row.type),
+              queue: Number(row.queue),
+              due: Number(row.due),
+              ivl: Number(row.ivl),
+              factor: Number(row.factor),
+              reps: Number(row.reps),
+              lapses: Number(row.lapses),
+            },
+            collectionCreated,
+          )
+        }
+
+        deck.cards.push(card)
+        cardCount++
+      },
+    )
+
+    return { decks: [...decks.values()], cardCount, imageCount: imageIds.size, skipped }
+  } finally {
+    db.close()
+  }
+}
+
+// Split delimited text into rows of fields, honouring quoted fields with "" escapes and newlines
+function parseDelimitedRows(text: string, separator: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true
+    } else if (char === separator) {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter((fields) => fields.some((value) => value.trim()))
+}
+
+// Read Anki's "Notes/Cards in Plain Text" export
+async function importAnkiText(file: File): Promise<AnkiImportResult> {
+  const text = await file.text()
+
+  // Header lines such as "#separator:tab" and "#tags column:3" describe the columns
+  const headers: { [name: string]: string } = {}
+  const body = text
+    .split(/\r?\n/)
+    .filter((line) => {
+      const header = line.match(/^#([a-z ]+):(.*)$/i)
+      if (header) headers[header[1].trim().toLowerCase()] = header[2].trim()
+      return !header
+    })
+    .join("\n")
+
+  const separator = SEPARATORS[(headers.separator || "tab").toLowerCase()] || headers.separator || "\t"
+  const isHtml = headers.html !== "false"
+
+  // Column numbers in the headers are 1-based
+  const getColumn = (name: string) => (headers[name] ? Number(headers[name]) - 1 : -1)
+  const tagsColumn = getColumn("tags column")
+  const deckColumn = getColumn("deck column")
+  const metaColumns = new Set([tagsColumn, deckColumn, getColumn("notetype column"), getColumn("guid column")])
+
+  const noImages = new Map<string, string>()
+  const toText = (value: string) => (isHtml ? htmlToCardText(value, noImages) : value.trim())
+  const defaultName = file.name.replace(/\.[^.]+$/, "")
+
+  const decks = new Map<string, FlashcardDeck>()
+  let cardCount = 0
+  let skipped = 0
+
+  parseDelimitedRows(body, separator).forEach((row) => {
+    const fields = row.filter((_, index) => !metaColumns.has(index))
+    const tags = tagsColumn >= 0 ? (row[tagsColumn] || "").split(/\s+/).filter(Boolean) : []
+    const deckName = ((deckColumn >= 0 && row[deckColumn]) || defaultName).replace(/::/g, " / ")
+
+    const contents: ImportedCardContent[] = []
+    const clozeNumbers = new Set([...(fields[0] || "").matchAll(CLOZE_REGEX)].map((match) => Number(match[1])))
+
+    if (clozeNumbers.size > 0) {
+      clozeNumbers.forEach((number) => {
+        const content = buildClozeContent(fields[0], number, fields.slice(1).join("\n"), noImages)
+        if (content) contents.push(content)
+      })
+    } else if (fields.length >= 2 && toText(fields[0])) {
+      contents.push({
+        type: "question-answer",
+        front: toText(fields[0]),
+        back: toText(fields[1]),
+        notes: fields.slice(2).map(toText).filter(Boolean).join("\n"),
+      })
+    }
+
+    if (contents.length === 0) {
+      skipped++
+      return
+    }
+
+    const deck = decks.get(deckName) || createFlashcardDeck(deckName, `Imported from ${file.name}`)
+    decks.set(deckName, deck)
+
+    contents.forEach((content) => {
+      deck.cards.push(createFlashcard(content.type, content.front, content.back, content.notes, tags))
+      cardCount++
+    })
+  })
+
+  return { decks: [...decks.values()], cardCount, imageCount: 0, skipped }
+}
+
+// Import an .apkg package or a plain-text export
+export async function importAnkiFile(file: File, options: AnkiImportOptions = {}): Promise<AnkiImportResult> {
+  try {
+    const result = getExtension(file.name) === "apkg" ? await importAnkiPackage(file, options) : await importAnkiText(file)
+
+    if (result.cardCount === 0) {
+      throw new Error("No cards were found in this file.")
+    }
+
+    return result
+  } catch (error) {
+    console.error("Error importing Anki file:", error)
+    throw error
+  }
+}
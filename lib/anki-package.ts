@@ -0,0 +1,343 @@
+/**
+ * Build Anki .apkg packages in the browser
+ * A package is a zip holding a SQLite collection (collection.anki2), a "media" JSON map and the
+ * media files named "0", "1", ... so Anki imports notes, scheduling and images in one step
+ */
+
+import JSZip from "jszip"
+import type { Database, SqlJsStatic } from "sql.js"
+
+// Scheduling state of an already studied card
+export interface AnkiCardSchedule {
+  interval: number // Days
+  easeFactor: number // SM-2 ease, e.g. 2.5
+  reviews: number
+  lapses: number
+  nextReview?: string
+}
+
+export interface AnkiReview {
+  reviewedAt: string
+  ease: 1 | 2 | 3 | 4 // Again / Hard / Good / Easy
+  interval: number
+  lastInterval: number
+  durationMs?: number
+}
+
+export interface AnkiNote {
+  guid: string // Stable id, so importing a newer export updates the notes instead of duplicating them
+  fields: Record<AnkiFieldName, string>
+  tags: string[]
+  schedule?: AnkiCardSchedule // New card when missing
+  reviews?: AnkiReview[]
+}
+
+export interface AnkiPackage {
+  deckName: string
+  notes: AnkiNote[]
+  media: { [filename: string]: Uint8Array }
+}
+
+// Question comes first because Anki checks the first field for duplicates
+export const ANKI_FIELDS = ["Question", "Answer", "Title", "Summary"] as const
+export type AnkiFieldName = (typeof ANKI_FIELDS)[number]
+
+export const ANKI_FIELD_SEPARATOR = "\x1f"
+
+// Fixed id so repeated imports reuse the same note type instead of creating "Cornell+" copies
+const CORNELL_MODEL_ID = 1718000000000
+const DEFAULT_DECK_ID = 1
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const CORNELL_CSS = `.card {
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+  font-size: 18px;
+  text-align: left;
+  color: #222;
+  background-color: #fff;
+}
+.title { font-size: 0.8em; color: #888; margin-bottom: 12px; }
+.question { font-weight: bold; font-size: 1.2em; }
+.summary { margin-top: 16px; padding-top: 8px; border-top: 1px dashed #ccc; font-size: 0.9em; color: #555; }
+.nightMode .card, .card.nightMode { color: #eee; background-color: #222; }`
+
+const QUESTION_TEMPLATE = `<div class="title">{{Title}}</div>
+<div class="question">{{Question}}</div>`
+
+const ANSWER_TEMPLATE = `{{FrontSide}}
+<hr id="answer">
+<div class="answer">{{Answer}}</div>
+{{#Summary}}<div class="summary"><strong>Summary:</strong> {{Summary}}</div>{{/Summary}}`
+
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+  ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null,
+  models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null,
+  usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null,
+  flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null,
+  mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null,
+  ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null,
+  odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+  ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`
+
+let sqlJsPromise: Promise<SqlJsStatic> | null = null
+
+// Load sql.js on first use; it is large and only needed for Anki packages
+export function loadSqlJs(): Promise<SqlJsStatic> {
+  if (!sqlJsPromise) {
+    sqlJsPromise = import("sql.js").then((module) =>
+      // The bundler emits the .wasm file next to the other static assets
+      module.default({ locateFile: () => new URL("sql.js/dist/sql-wasm-browser.wasm", import.meta.url).href }),
+    )
+    sqlJsPromise.catch(() => {
+      sqlJsPromise = null
+    })
+  }
+  return sqlJsPromise
+}
+
+// Anki deck names use "::" for nesting, which a note title should not trigger
+export function getAnkiDeckName(title: string): string {
+  return title.replace(/::/g, ":").trim() || "Cornell Notes"
+}
+
+// Anki tags are space separated, so spaces inside a tag become underscores
+function formatAnkiTags(tags: string[]): string {
+  const cleaned = tags.map((tag) => tag.trim().replace(/\s+/g, "_")).filter(Boolean)
+  return cleaned.length > 0 ? ` ${cleaned.join(" ")} ` : ""
+}
+
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, " ")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim()
+}
+
+// First 8 hex digits of the SHA-1 of the stripped first field, used by Anki's duplicate check
+async function getFieldChecksum(field: string): Promise<number> {
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(stripHtml(field)))
+  const bytes = new Uint8Array(digest)
+  return ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0
+}
+
+function buildModels(deckId: number, now: number) {
+  return {
+    [CORNELL_MODEL_ID]: {
+      id: CORNELL_MODEL_ID,
+      name: "Cornell",
+      type: 0,
+      mod: Math.floor(now / 1000),
+      usn: -1,
+      sortf: 0,
+      did: deckId,
+      tmpls: [
+        { name: "Card 1", ord: 0, qfmt: QUESTION_TEMPLATE, afmt: ANSWER_TEMPLATE, did: null, bqfmt: "", bafmt: "" },
+      ],
+      flds: ANKI_FIELDS.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: "Arial", size: 20, media: [] })),
+      css: CORNELL_CSS,
+      latexPre:
+        "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+      latexPost: "\\end{document}",
+      latexsvg: false,
+      req: [[0, "any", [0]]],
+      tags: [],
+      vers: [],
+    },
+  }
+}
+
+function buildDeck(id: number, name: string, now: number) {
+  return {
+    id,
+    name,
+    desc: "",
+    mod: Math.floor(now / 1000),
+    usn: -1,
+    lrnToday: [0, 0],
+    revToday: [0, 0],
+    newToday: [0, 0],
+    timeToday: [0, 0],
+    collapsed: false,
+    browserCollapsed: false,
+    dyn: 0,
+    conf: 1,
+    extendNew: 10,
+    extendRev: 50,
+  }
+}
+
+function buildDeckConfig(now: number) {
+  return {
+    1: {
+      id: 1,
+      name: "Default",
+      mod: Math.floor(now / 1000),
+      usn: -1,
+      maxTaken: 60,
+      autoplay: true,
+      timer: 0,
+      replayq: true,
+      dyn: false,
+      new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+      lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+      rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 200 },
+    },
+  }
+}
+
+function buildCollectionConfig(now: number) {
+  return {
+    nextPos: 1,
+    estTimes: true,
+    activeDecks: [DEFAULT_DECK_ID],
+    sortType: "noteFld",
+    timeLim: 0,
+    sortBackwards: false,
+    addToCur: true,
+    curDeck: DEFAULT_DECK_ID,
+    newBury: true,
+    newSpread: 0,
+    dueCounts: true,
+    curModel: String(CORNELL_MODEL_ID),
+    collapseTime: 1200,
+    creationOffset: new Date(now).getTimezoneOffset(),
+  }
+}
+
+// Write the collection tables for a package into an empty database
+async function writeCollection(db: Database, pkg: AnkiPackage): Promise<void> {
+  const now = Date.now()
+  const nowSeconds = Math.floor(now / 1000)
+  // Review due dates are stored as days since the collection was created, so create it today
+  const today = new Date(now)
+  const created = new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime()
+  const deckId = now
+
+  db.exec(SCHEMA)
+
+  const decks = {
+    [DEFAULT_DECK_ID]: buildDeck(DEFAULT_DECK_ID, "Default", now),
+    [deckId]: buildDeck(deckId, getAnkiDeckName(pkg.deckName), now),
+  }
+
+  db.run("INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')", [
+    Math.floor(created / 1000),
+    now,
+    now,
+    JSON.stringify({ ...buildCollectionConfig(now), nextPos: pkg.notes.length + 1 }),
+    JSON.stringify(buildModels(deckId, now)),
+    JSON.stringify(decks),
+    JSON.stringify(buildDeckConfig(now)),
+  ])
+
+  const usedReviewIds = new Set<number>()
+
+  for (let index = 0; index < pkg.notes.length; index++) {
+    const note = pkg.notes[index]
+    const noteId = now + index
+    const cardId = now + index
+    const fields = ANKI_FIELDS.map((name) => note.fields[name] || "")
+
+    db.run("INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')", [
+      noteId,
+      note.guid,
+      CORNELL_MODEL_ID,
+      nowSeconds,
+      formatAnkiTags(note.tags),
+      fields.join(ANKI_FIELD_SEPARATOR),
+      stripHtml(fields[0]),
+      await getFieldChecksum(fields[0]),
+    ])
+
+    const schedule = note.schedule
+    const factor = schedule ? Math.max(1300, Math.round(schedule.easeFactor * 1000)) : 0
+
+    if (schedule) {
+      // Review cards: overdue cards become due today since due days can't precede the collection
+      const due = schedule.nextReview
+        ? Math.max(0, Math.floor((new Date(schedule.nextReview).getTime() - created) / DAY_MS))
+        : 0
+      db.run("INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 2, 2, ?, ?, ?, ?, ?, 0, 0, 0, 0, '')", [
+        cardId,
+        noteId,
+        deckId,
+        nowSeconds,
+        due,
+        Math.max(1, Math.round(schedule.interval)),
+        factor,
+        schedule.reviews,
+        schedule.lapses,
+      ])
+    } else {
+      // New cards are due by position
+      db.run("INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')", [
+        cardId,
+        noteId,
+        deckId,
+        nowSeconds,
+        index + 1,
+      ])
+    }
+
+    for (const review of note.reviews || []) {
+      // Review ids are millisecond timestamps and must be unique
+      let reviewId = new Date(review.reviewedAt).getTime()
+      while (usedReviewIds.has(reviewId)) reviewId++
+      usedReviewIds.add(reviewId)
+
+      db.run("INSERT INTO revlog VALUES (?, ?, -1, ?, ?, ?, ?, ?, ?)", [
+        reviewId,
+        cardId,
+        review.ease,
+        review.interval,
+        review.lastInterval,
+        factor,
+        Math.min(Math.round(review.durationMs || 0), 60000),
+        review.lastInterval > 0 ? 1 : 0,
+      ])
+    }
+  }
+}
+
+// Build the .apkg file for a set of notes
+export async function buildAnkiPackage(pkg: AnkiPackage): Promise<Blob> {
+  const SQL = await loadSqlJs()
+  const db = new SQL.Database()
+
+  try {
+    await writeCollection(db, pkg)
+
+    const zip = new JSZip()
+    zip.file("collection.anki2", db.export())
+
+    const mediaMap: { [index: string]: string } = {}
+    Object.entries(pkg.media).forEach(([filename, data], index) => {
+      mediaMap[String(index)] = filename
+      zip.file(String(index), data)
+    })
+    zip.file("media", JSON.stringify(mediaMap))
+
+    return await zip.generateAsync({ type: "blob", compression: "DEFLATE" })
+  } finally {
+    db.close()
+  }
+}
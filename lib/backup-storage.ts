@@ -0,0 +1,111 @@
+/**
+ * Local backup storage using IndexedDB
+ * Automatic backups are kept in the browser so a library can be rolled back without a download
+ */
+
+import { settleTransaction } from "./indexeddb-utils"
+
+export interface LocalBackupInfo {
+  id: string
+  createdAt: string
+  documentCount: number
+  size: number // Length of the serialized backup in characters
+}
+
+interface LocalBackupRecord extends LocalBackupInfo {
+  data: string // Serialized backup JSON
+}
+
+// Database name and version
+const DB_NAME = "cornell-notes-backups"
+const DB_VERSION = 1
+const STORE_NAME = "backups"
+
+// Open the database connection
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onerror = (event) => {
+      console.error("Error opening IndexedDB:", event)
+      reject(new Error("Could not open backup database"))
+    }
+
+    request.onsuccess = (event) => {
+      resolve((event.target as IDBOpenDBRequest).result)
+    }
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result
+
+      // Create the backup store with an index on createdAt for pruning
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: "id" })
+        store.createIndex("createdAt", "createdAt", { unique: false })
+      }
+    }
+  })
+}
+
+// Store a serialized backup and return its ID
+export async function storeLocalBackup(data: string, documentCount: number): Promise<string> {
+  const db = await openDB()
+  const transaction = db.transaction([STORE_NAME], "readwrite")
+  const store = transaction.objectStore(STORE_NAME)
+
+  const record: LocalBackupRecord = {
+    id: `backup_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+    createdAt: new Date().toISOString(),
+    documentCount,
+    size: data.length,
+    data,
+  }
+
+  store.add(record)
+
+  return settleTransaction(db, transaction, "Failed to store backup", () => record.id)
+}
+
+// List stored backups without their data, newest first
+export async function getLocalBackups(): Promise<LocalBackupInfo[]> {
+  const db = await openDB()
+  const transaction = db.transaction([STORE_NAME], "readonly")
+  const store = transaction.objectStore(STORE_NAME)
+
+  const backups: LocalBackupInfo[] = []
+  const request = store.index("createdAt").openCursor(null, "prev")
+  request.onsuccess = () => {
+    const cursor = request.result
+    if (cursor) {
+      const { id, createdAt, documentCount, size } = cursor.value as LocalBackupRecord
+      backups.push({ id, createdAt, documentCount, size })
+      cursor.continue()
+    }
+  }
+
+  return settleTransaction(db, transaction, "Failed to retrieve backups", () => backups)
+}
+
+// Get the serialized data of a stored backup
+export async function getLocalBackupData(id: string): Promise<string | null> {
+  const db = await openDB()
+  const transaction = db.transaction([STORE_NAME], "readonly")
+  const request = transaction.objectStore(STORE_NAME).get(id)
+
+  return settleTransaction(db, transaction, "Failed to retrieve backup", () => {
+    const record = request.result as LocalBackupRecord | undefined
+    return record ? record.data : null
+  })
+}
+
+// Delete stored backups by ID
+export async function deleteLocalBackups(ids: string[]): Promise<void> {
+  if (ids.length === 0) return
+
+  const db = await openDB()
+  const transaction = db.transaction([STORE_NAME], "readwrite")
+  const store = transaction.objectStore(STORE_NAME)
+  ids.forEach((id) => store.delete(id))
+
+  return settleTransaction(db, transaction, "Failed to delete backups", () => undefined)
+}
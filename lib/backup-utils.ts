@@ -0,0 +1,470 @@
+/**
+ * Full library backups
+ * A backup is one JSON file with every document and its revision history, image, flashcard deck, logged review and
+ * saved search. Backups carry a schema version; older files are migrated when read, so any backup ever written can be
+ * restored.
+ */
+
+import { v4 as uuidv4 } from "uuid"
+import {
+  getAllDocuments,
+  saveDocument,
+  getAllDocumentRevisions,
+  importDocumentRevisions,
+  type DocumentData,
+  type DocumentRevision,
+} from "./storage-utils"
+import { getAllImages, importImages } from "./image-storage"
+import { getAllFlashcardDecks, saveFlashcardDeck, type FlashcardDeck } from "./flashcard-utils"
+import { getReviewLogEntries, importReviewLogEntries, type ReviewLogEntry } from "./review-log"
+import { getSavedSearches, importSavedSearches, type SavedSearch } from "./search-query"
+import { storeLocalBackup, getLocalBackups, getLocalBackupData, deleteLocalBackups } from "./backup-storage"
+
+// Version 1 had no version field and only documents and images; version 2 added flashcard decks and version 3
+// revisions, the review log and saved searches
+export const BACKUP_VERSION = 3
+
+export interface BackupData {
+  version: number
+  createdAt: string
+  documents: DocumentData[]
+  images: Record<string, string> // Image id -> data URL
+  flashcardDecks: FlashcardDeck[]
+  revisions: DocumentRevision[]
+  reviewLog: ReviewLogEntry[]
+  savedSearches: SavedSearch[]
+}
+
+export type BackupMergeStrategy = "skip" | "overwrite" | "keep-both"
+
+export type BackupItemStatus = "new" | "conflict" | "unchanged"
+
+export interface BackupPreview {
+  backup: BackupData
+  documents: { document: DocumentData; status: BackupItemStatus }[]
+  decks: { deck: FlashcardDeck; status: BackupItemStatus }[]
+  imageCount: number
+  revisionCount: number
+  reviewCount: number
+  savedSearchCount: number
+}
+
+export interface BackupRestoreResult {
+  added: number
+  overwritten: number
+  duplicated: number // Conflicting items restored as copies
+  skipped: number
+  decks: number
+  images: number
+  revisions: number
+  reviews: number
+  savedSearches: number
+}
+
+export interface BackupSettings {
+  enabled: boolean
+  intervalHours: number
+  keep: number // Number of automatic backups to keep
+}
+
+const BACKUP_SETTINGS_KEY = "cornell-notes-backup-settings"
+const LAST_BACKUP_KEY = "cornell-notes-last-backup"
+
+export const DEFAULT_BACKUP_SETTINGS: BackupSettings = {
+  enabled: false,
+  intervalHours: 24,
+  keep: 5,
+}
+
+// Collect every document, revision, image, flashcard deck, logged review and saved search into a backup
+export async function createBackup(): Promise<BackupData> {
+  return {
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    documents: await getAllDocuments(),
+    images: await getAllImages(),
+    flashcardDecks: getAllFlashcardDecks(),
+    revisions: await getAllDocumentRevisions(),
+    reviewLog: await getReviewLogEntries(),
+    savedSearches: getSavedSearches(),
+  }
+}
+
+// Export all documents, revisions, images, flashcard decks, logged reviews and saved searches
+export async function exportAllData(): Promise<string> {
+  try {
+    return JSON.stringify(await createBackup())
+  } catch (error) {
+    console.error("Error exporting data:", error)
+    throw new Error("Failed to export data")
+  }
+}
+
+// Download a backup of the whole library as a JSON file
+export async function downloadBackup(): Promise<void> {
+  const data = await exportAllData()
+  const blob = new Blob([data], { type: "application/json" })
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `cornell-notes-backup-${new Date().toISOString().slice(0, 10)}.json`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+
+  setTimeout(() => URL.revokeObjectURL(url), 100)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string")
+}
+
+// Check that an item has the given string fields, naming the first one that is wrong
+function requireStrings(item: unknown, path: string, fields: string[], optional: string[] = []): void {
+  if (!isRecord(item)) {
+    throw new Error(`${path} is not an object`)
+  }
+  fields.forEach((field) => {
+    if (typeof item[field] !== "string") {
+      throw new Error(`${path}.${field} must be text`)
+    }
+  })
+  optional.forEach((field) => {
+    if (item[field] !== undefined && item[field] !== null && typeof item[field] !== "string") {
+      throw new Error(`${path}.${field} must be text`)
+    }
+  })
+}
+
+function validateDocument(item: unknown, path: string): void {
+  requireStrings(
+    item,
+    path,
+    ["id", "title", "content", "createdAt"],
+    ["summary", "updatedAt", "folder", "sourceUrl"],
+  )
+  const tags = (item as Record<string, unknown>).tags
+  if (tags !== undefined && !isStringArray(tags)) {
+    throw new Error(`${path}.tags must be a list of text`)
+  }
+}
+
+function validateDeck(item: unknown, path: string): void {
+  requireStrings(item, path, ["id", "name"], ["description", "sourceDocumentId"])
+  const cards = (item as Record<string, unknown>).cards
+  if (!Array.isArray(cards)) {
+    throw new Error(`${path}.cards must be a list`)
+  }
+  cards.forEach((card, index) => requireStrings(card, `${path}.cards[${index}]`, ["id", "front", "back"]))
+}
+
+function validateRevision(item: unknown, path: string): void {
+  requireStrings(item, path, ["id", "documentId", "title", "content", "savedAt"], ["summary"])
+  if (!isStringArray((item as Record<string, unknown>).tags)) {
+    throw new Error(`${path}.tags must be a list of text`)
+  }
+}
+
+function validateReview(item: unknown, path: string): void {
+  requireStrings(item, path, ["id", "cardId", "deckId", "reviewedAt"])
+  const fields = ["quality", "elapsedDays", "previousInterval", "nextInterval"]
+  fields.forEach((field) => {
+    if (typeof (item as Record<string, unknown>)[field] !== "number") {
+      throw new Error(`${path}.${field} must be a number`)
+    }
+  })
+}
+
+function validateSavedSearch(item: unknown, path: string): void {
+  requireStrings(item, path, ["id", "name", "query"], ["createdAt"])
+}
+
+// Check an optional list added in a later backup version; older backups get an empty list
+function validateList<T>(
+  data: Record<string, unknown>,
+  key: string,
+  sinceVersion: number,
+  version: number,
+  validate: (item: unknown, path: string) => void,
+): T[] {
+  const list = version >= sinceVersion ? data[key] : []
+  if (!Array.isArray(list)) {
+    throw new Error(`The backup's ${key} list is not valid`)
+  }
+  list.forEach((item, index) => validate(item, `${key}[${index}]`))
+  return list as T[]
+}
+
+// Check a parsed backup file and migrate it to the current version
+export function validateBackup(data: unknown): BackupData {
+  if (!isRecord(data)) {
+    throw new Error("This file is not a Cornell Notes backup")
+  }
+
+  const version = data.version === undefined ? 1 : data.version
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new Error("The backup has an invalid version number")
+  }
+  if (version > BACKUP_VERSION) {
+    throw new Error(`This backup was made by a newer version of the app (backup version ${version})`)
+  }
+
+  if (!Array.isArray(data.documents)) {
+    throw new Error("The backup has no document list")
+  }
+  data.documents.forEach((doc, index) => validateDocument(doc, `documents[${index}]`))
+
+  const images = data.images ?? {}
+  if (!isRecord(images) || !Object.values(images).every((image) => typeof image === "string")) {
+    throw new Error("The backup's images are not valid")
+  }
+
+  // Version 1 backups had no flashcard decks
+  const decks = version >= 2 ? data.flashcardDecks : []
+  if (!Array.isArray(decks)) {
+    throw new Error("The backup has no flashcard deck list")
+  }
+  decks.forEach((deck, index) => validateDeck(deck, `flashcardDecks[${index}]`))
+
+  return {
+    version: BACKUP_VERSION,
+    createdAt: typeof data.createdAt === "string" ? data.createdAt : "",
+    documents: (data.documents as DocumentData[]).map((doc) => ({ ...doc, tags: doc.tags || [] })),
+    images: images as Record<string, string>,
+    flashcardDecks: decks as FlashcardDeck[],
+    // Version 1 and 2 backups had no revisions, review log or saved searches
+    revisions: validateList<DocumentRevision>(data, "revisions", 3, version, validateRevision),
+    reviewLog: validateList<ReviewLogEntry>(data, "reviewLog", 3, version, validateReview),
+    savedSearches: validateList<SavedSearch>(data, "savedSearches", 3, version, validateSavedSearch),
+  }
+}
+
+// Parse and validate the text of a backup file
+export function parseBackup(text: string): BackupData {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error("This file is not valid JSON")
+  }
+  return validateBackup(data)
+}
+
+function isSameDocument(a: DocumentData, b: DocumentData): boolean {
+  return (
+    a.title === b.title &&
+    a.content === b.content &&
+    (a.summary || "") === (b.summary || "") &&
+    (a.tags || []).join("\n") === (b.tags || []).join("\n") &&
+    a.folder === b.folder &&
+    a.sourceUrl === b.sourceUrl
+  )
+}
+
+function isSameDeck(a: FlashcardDeck, b: FlashcardDeck): boolean {
+  return a.name === b.name && JSON.stringify(a.cards) === JSON.stringify(b.cards)
+}
+
+// Compare a backup with the current library without changing anything
+export async function previewBackup(backup: BackupData): Promise<BackupPreview> {
+  const existingDocs = new Map((await getAllDocuments()).map((doc) => [doc.id, doc]))
+  const existingDecks = new Map(getAllFlashcardDecks().map((deck) => [deck.id, deck]))
+
+  const documents = backup.documents.map((document) => {
+    const existing = existingDocs.get(document.id)
+    const status: BackupItemStatus = !existing ? "new" : isSameDocument(existing, document) ? "unchanged" : "conflict"
+    return { document, status }
+  })
+
+  const decks = backup.flashcardDecks.map((deck) => {
+    const existing = existingDecks.get(deck.id)
+    const status: BackupItemStatus = !existing ? "new" : isSameDeck(existing, deck) ? "unchanged" : "conflict"
+    return { deck, status }
+  })
+
+  return {
+    backup,
+    documents,
+    decks,
+    imageCount: Object.keys(backup.images).length,
+    revisionCount: backup.revisions.length,
+    reviewCount: backup.reviewLog.length,
+    savedSearchCount: backup.savedSearches.length,
+  }
+}
+
+// Pick a name that is not taken yet, e.g. "Biology (2)"
+function getUniqueName(name: string, taken: Set<string>): string {
+  let candidate = name
+  for (let counter = 2; taken.has(candidate.toLowerCase()); counter++) {
+    candidate = `${name} (${counter})`
+  }
+  taken.add(candidate.toLowerCase())
+  return candidate
+}
+
+// Restore a previewed backup; conflicting items are handled by the chosen strategy
+export async function restoreBackup(
+  preview: BackupPreview,
+  strategy: BackupMergeStrategy,
+): Promise<BackupRestoreResult> {
+  const result: BackupRestoreResult = {
+    added: 0,
+    overwritten: 0,
+    duplicated: 0,
+    skipped: 0,
+    decks: 0,
+    images: 0,
+    revisions: 0,
+    reviews: 0,
+    savedSearches: 0,
+  }
+
+  const existingDocs = await getAllDocuments()
+  const takenTitles = new Set(existingDocs.map((doc) => doc.title.toLowerCase()))
+
+  // Images first so restored notes never point at missing images
+  result.images = await importImages(preview.backup.images)
+
+  // Backup document id -> id it was restored under, for decks linked to copied notes
+  const restoredIds = new Map<string, string>()
+
+  for (const { document, status } of preview.documents) {
+    if (status === "unchanged" || (status === "conflict" && strategy === "skip")) {
+      result.skipped++
+      continue
+    }
+
+    const copy = status === "conflict" && strategy === "keep-both"
+    const id = copy ? uuidv4() : document.id
+    const title = copy ? getUniqueName(document.title, takenTitles) : document.title
+
+    await saveDocument({
+      id,
+      title,
+      summary: document.summary,
+      tags: document.tags || [],
+      folder: document.folder,
+      sourceUrl: document.sourceUrl,
+      content: document.content,
+      createdAt: document.createdAt,
+      updatedAt: document.updatedAt,
+    })
+    restoredIds.set(document.id, id)
+
+    if (copy) result.duplicated++
+    else if (status === "conflict") result.overwritten++
+    else result.added++
+  }
+
+  // History of notes restored as copies goes with the copy, under new ids so the original keeps its own
+  const revisions = preview.backup.revisions.map((revision) => {
+    const documentId = restoredIds.get(revision.documentId)
+    return documentId && documentId !== revision.documentId
+      ? { ...revision, id: `${revision.id}-${documentId}`, documentId }
+      : revision
+  })
+  result.revisions = await importDocumentRevisions(revisions)
+
+  const takenDeckNames = new Set(getAllFlashcardDecks().map((deck) => deck.name.toLowerCase()))
+  // Backup deck id -> id of the copy it was restored as
+  const copiedDeckIds = new Map<string, string>()
+
+  for (const { deck, status } of preview.decks) {
+    if (status === "unchanged" || (status === "conflict" && strategy === "skip")) continue
+
+    const sourceDocumentId = deck.sourceDocumentId
+      ? restoredIds.get(deck.sourceDocumentId) || deck.sourceDocumentId
+      : undefined
+
+    if (status === "conflict" && strategy === "keep-both") {
+      const id = `${deck.id}-${Date.now()}`
+      saveFlashcardDeck({ ...deck, id, name: getUniqueName(deck.name, takenDeckNames), sourceDocumentId })
+      copiedDeckIds.set(deck.id, id)
+    } else {
+      saveFlashcardDeck({ ...deck, sourceDocumentId })
+    }
+    result.decks++
+  }
+
+  const reviewLog = preview.backup.reviewLog.map((entry) => {
+    const deckId = copiedDeckIds.get(entry.deckId)
+    return deckId ? { ...entry, id: `${entry.id}-${deckId}`, deckId } : entry
+  })
+  result.reviews = await importReviewLogEntries(reviewLog)
+  result.savedSearches = importSavedSearches(preview.backup.savedSearches)
+
+  return result
+}
+
+// Automatic local backups
+
+export function getBackupSettings(): BackupSettings {
+  try {
+    const settings = localStorage.getItem(BACKUP_SETTINGS_KEY)
+    return settings ? { ...DEFAULT_BACKUP_SETTINGS, ...JSON.parse(settings) } : DEFAULT_BACKUP_SETTINGS
+  } catch (error) {
+    console.error("Error loading backup settings:", error)
+    return DEFAULT_BACKUP_SETTINGS
+  }
+}
+
+export function saveBackupSettings(settings: BackupSettings): void {
+  localStorage.setItem(BACKUP_SETTINGS_KEY, JSON.stringify(settings))
+}
+
+// Get the time of the last automatic backup, if any
+export function getLastAutomaticBackup(): string | null {
+  return localStorage.getItem(LAST_BACKUP_KEY)
+}
+
+// Store a backup in this browser and drop the oldest ones beyond the configured limit
+export async function createLocalBackup(): Promise<void> {
+  const backup = await createBackup()
+  await storeLocalBackup(JSON.stringify(backup), backup.documents.length)
+  localStorage.setItem(LAST_BACKUP_KEY, backup.createdAt)
+
+  const { keep } = getBackupSettings()
+  const backups = await getLocalBackups()
+  await deleteLocalBackups(backups.slice(Math.max(keep, 1)).map((info) => info.id))
+}
+
+// Read a backup stored in this browser
+export async function loadLocalBackup(id: string): Promise<BackupData> {
+  const data = await getLocalBackupData(id)
+  if (!data) {
+    throw new Error("This backup no longer exists")
+  }
+  return parseBackup(data)
+}
+
+// Make an automatic backup if one is due
+export async function runScheduledBackup(): Promise<boolean> {
+  const settings = getBackupSettings()
+  if (!settings.enabled) return false
+
+  const last = getLastAutomaticBackup()
+  if (last && Date.now() - new Date(last).getTime() < settings.intervalHours * 60 * 60 * 1000) {
+    return false
+  }
+
+  try {
+    await createLocalBackup()
+    return true
+  } catch (error) {
+    console.error("Automatic backup failed:", error)
+    return false
+  }
+}
+
+// Check for due backups now and every 15 minutes while the app is open; returns a cleanup function
+export function scheduleAutomaticBackups(): () => void {
+  runScheduledBackup()
+  const timer = setInterval(runScheduledBackup, 15 * 60 * 1000)
+  return () => clearInterval(timer)
+}
@@ -0,0 +1,179 @@
+/**
+ * Resync flashcard decks with their source note
+ * Cards are matched to freshly generated cards through their source anchors, so unchanged cards
+ * keep their scheduling, edited content is flagged for review and deleted content is retired
+ */
+
+import {
+  generateFlashcards,
+  type Flashcard,
+  type FlashcardDeck,
+  type FlashcardType,
+} from "./flashcard-utils"
+import { tokenize } from "./search-index"
+
+export interface DeckSyncResult {
+  deck: FlashcardDeck // Resynced deck, not yet saved
+  added: Flashcard[]
+  changed: Flashcard[] // Cards flagged with a pending update
+  retired: Flashcard[]
+  unchanged: number
+}
+
+// Minimum word overlap for an edited list item or sentence to count as the same source
+const SIMILARITY_THRESHOLD = 0.5
+
+// Card types to regenerate: the ones chosen when the deck was created, or the ones it contains
+export function getDeckGeneratorTypes(deck: FlashcardDeck): FlashcardType[] {
+  return deck.generatorTypes || [...new Set(deck.cards.map((card) => card.type))]
+}
+
+// Identity of a card's content: cloze cards share a sentence, so the hidden term is part of it
+function getContentKey(card: Flashcard): string {
+  const answer = card.type === "cloze" ? card.back : card.front
+  return `${card.type}|${card.source?.kind}|${card.source?.hash}|${answer.toLowerCase()}`
+}
+
+// Word overlap (Jaccard index) between two source texts
+function getSimilarity(a: string, b: string): number {
+  const wordsA = new Set(tokenize(a))
+  const wordsB = new Set(tokenize(b))
+  if (wordsA.size === 0 && wordsB.size === 0) return 1
+
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length
+  return shared / (wordsA.size + wordsB.size - shared)
+}
+
+// Score how likely a regenerated card replaces an existing one (0 = not a match)
+function getChangeScore(card: Flashcard, candidate: Flashcard): number {
+  if (!card.source || !candidate.source) return 0
+  if (card.type !== candidate.type || card.source.kind !== candidate.source.kind) return 0
+
+  // Same text under a renamed heading
+  if (card.source.hash === candidate.source.hash) return 2
+
+  if (card.source.sectionId !== candidate.source.sectionId) return 0
+
+  // A section has one card per type, so any edit to it is a change of the same card
+  if (card.source.kind === "section") return 1
+
+  const similarity = getSimilarity(card.source.text, candidate.source.text)
+  if (similarity < SIMILARITY_THRESHOLD) return 0
+
+  // Cloze cards should also keep hiding the same term
+  if (card.type === "cloze" && card.back.toLowerCase() !== candidate.back.toLowerCase()) return 0
+
+  return similarity
+}
+
+// Match a deck against the current note content without saving anything
+export function resyncDeck(deck: FlashcardDeck, markdown: string, tags: string[] = []): DeckSyncResult {
+  const candidates = generateFlashcards(markdown, getDeckGeneratorTypes(deck), tags)
+  const unmatched = new Set(candidates)
+  const results = new Map<string, Flashcard>()
+  const changed: Flashcard[] = []
+  const retired: Flashcard[] = []
+  let unchanged = 0
+
+  // Exact matches first, so edits elsewhere can't steal an unchanged card's source
+  const candidatesByKey = new Map<string, Flashcard[]>()
+  candidates.forEach((candidate) => {
+    const key = getContentKey(candidate)
+    candidatesByKey.set(key, [...(candidatesByKey.get(key) || []), candidate])
+  })
+
+  deck.cards.forEach((card) => {
+    let match: Flashcard | undefined
+
+    if (card.source) {
+      match = candidatesByKey.get(getContentKey(card))?.find((candidate) => unmatched.has(candidate))
+    } else {
+      // Cards generated before anchors existed: adopt the source of an identical regenerated card
+      match = candidates.find(
+        (candidate) =>
+          unmatched.has(candidate) &&
+          candidate.type === card.type &&
+          candidate.front === card.front &&
+          candidate.back === card.back,
+      )
+    }
+
+    if (match) {
+      unmatched.delete(match)
+      unchanged++
+      results.set(card.id, {
+        ...card,
+        source: match.source,
+        syncStatus: undefined,
+        pendingUpdate: undefined,
+      })
+    }
+  })
+
+  // Then pair the remaining anchored cards with their closest regenerated card
+  deck.cards.forEach((card) => {
+    if (results.has(card.id)) return
+
+    if (!card.source) {
+      // Without an anchor there is nothing to compare against, so leave the card alone
+      results.set(card.id, card)
+      return
+    }
+
+    let best: Flashcard | undefined
+    let bestScore = 0
+    unmatched.forEach((candidate) => {
+      const score = getChangeScore(card, candidate)
+      if (score > bestScore) {
+        best = candidate
+        bestScore = score
+      }
+    })
+
+    if (best) {
+      unmatched.delete(best)
+      const flagged: Flashcard = {
+        ...card,
+        syncStatus: "changed",
+        pendingUpdate: { front: best.front, back: best.back, notes: best.notes, source: best.source! },
+      }
+      changed.push(flagged)
+      results.set(card.id, flagged)
+    } else {
+      const retiredCard: Flashcard = { ...card, syncStatus: "retired", pendingUpdate: undefined }
+      if (card.syncStatus !== "retired") {
+        retired.push(retiredCard)
+      }
+      results.set(card.id, retiredCard)
+    }
+  })
+
+  const added = [...unmatched]
+
+  return {
+    deck: {
+      ...deck,
+      generatorTypes: getDeckGeneratorTypes(deck),
+      cards: [...deck.cards.map((card) => results.get(card.id) || card), ...added],
+      updatedAt: new Date().toISOString(),
+    },
+    added,
+    changed,
+    retired,
+    unchanged,
+  }
+}
+
+// Accept the regenerated content of a flagged card, keeping its scheduling
+export function applyPendingUpdate(card: Flashcard): Flashcard {
+  if (!card.pendingUpdate) return card
+
+  const { source, ...content } = card.pendingUpdate
+  return { ...card, ...content, source, syncStatus: undefined, pendingUpdate: undefined }
+}
+
+// Keep a flagged card's current content and anchor it to the new source text
+export function dismissPendingUpdate(card: Flashcard): Flashcard {
+  if (!card.pendingUpdate) return card
+  return { ...card, source: card.pendingUpdate.source, syncStatus: undefined, pendingUpdate: undefined }
+}
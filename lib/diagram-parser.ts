@@ -0,0 +1,1475 @@
+import type { LayoutDirection } from "./graph-layout"
+
+/**
+ * Parsers for the Mermaid-style diagram code in ```mermaid blocks
+ * Each diagram type has a parser that turns the code into a syntax tree for its renderer. Statements that can't be
+ * understood are skipped and reported with their position and what was expected there, so an editor can point at
+ * the mistake while the rest of the diagram is still drawn.
+ */
+
+export interface DiagramError {
+  line: number // 1-based, counting every line of the code
+  column: number // 1-based
+  message: string
+  expected: string[] // What would have been valid at that position
+}
+
+export interface ParseResult<T> {
+  ast: T
+  errors: DiagramError[]
+}
+
+// A statement: a line that isn't blank or a %% comment
+interface SourceLine {
+  number: number
+  indent: number
+  text: string // Without the surrounding whitespace
+}
+
+const DIRECTIONS = ["TB", "TD", "BT", "LR", "RL"]
+const ID = "[\\w\\u00C0-\\uFFFF]+"
+
+function readLines(code: string): SourceLine[] {
+  return code.split("\n").flatMap((raw, index) => {
+    const text = raw.trim()
+    if (!text || text.startsWith("%%")) return []
+    return [{ number: index + 1, indent: raw.length - raw.trimStart().length, text }]
+  })
+}
+
+function syntaxError(line: SourceLine, offset: number, message: string, expected: string[] = []): DiagramError {
+  return { line: line.number, column: line.indent + offset + 1, message, expected }
+}
+
+// Report the word at an offset as unexpected
+function unexpected(line: SourceLine, offset: number, expected: string[]): DiagramError {
+  const found = line.text.slice(offset).trim().split(/\s+/)[0] || line.text
+  const shown = found.length > 24 ? `${found.slice(0, 24)}…` : found
+  return syntaxError(line, offset, `Unexpected "${shown}"`, expected)
+}
+
+// Split off the declaration line, checking that it is the one the parser expects
+function readHeader(code: string, keyword: RegExp, name: string, errors: DiagramError[]) {
+  const [header, ...lines] = readLines(code)
+  const match = header?.text.match(keyword)
+  if (header && !match) errors.push(syntaxError(header, 0, `Expected the diagram to start with ${name}`, [name]))
+  return { header, match, lines }
+}
+
+function readDirection(
+  value: string,
+  line: SourceLine,
+  offset: number,
+  errors: DiagramError[],
+): LayoutDirection | null {
+  const declared = value.toUpperCase()
+  if (!DIRECTIONS.includes(declared)) {
+    errors.push(syntaxError(line, offset, `Unknown direction "${value}"`, DIRECTIONS))
+    return null
+  }
+  return declared === "TB" ? "TD" : (declared as LayoutDirection)
+}
+
+function unquote(text: string): string {
+  return text.trim().replace(/^"(.*)"$/, "$1")
+}
+
+// Flowcharts
+
+export type FlowchartShape = "rect" | "rounded" | "stadium" | "subroutine" | "circle" | "diamond" | "hexagon"
+
+export interface FlowchartNode {
+  id: string
+  label: string
+  shape: FlowchartShape
+  subgraph?: string
+}
+
+export interface FlowchartEdge {
+  from: string
+  to: string
+  label: string
+  dashed: boolean
+  thick: boolean
+  arrow: boolean
+}
+
+// A named group of nodes, drawn as a box around them
+export interface Subgraph {
+  id: string
+  title: string
+  parent?: string
+}
+
+export interface FlowchartAst {
+  direction: LayoutDirection
+  nodes: FlowchartNode[]
+  edges: FlowchartEdge[]
+  subgraphs: Subgraph[]
+}
+
+// Opening and closing brackets of each node shape, longest first
+const FLOWCHART_SHAPES: Array<[string, string, FlowchartShape]> = [
+  ["(((", ")))", "circle"],
+  ["((", "))", "circle"],
+  ["([", "])", "stadium"],
+  ["[[", "]]", "subroutine"],
+  ["[(", ")]", "rect"],
+  ["{{", "}}", "hexagon"],
+  ["[", "]", "rect"],
+  ["(", ")", "rounded"],
+  ["{", "}", "diamond"],
+  [">", "]", "rect"],
+]
+
+const FLOWCHART_LINKS = ["-->", "---", "-.->", "==>", "--o", "--x"]
+const FLOWCHART_STATEMENTS = ["node", "subgraph", "end", "direction", "style", "classDef", "class", "click"]
+const FLOWCHART_ID_REGEX = new RegExp(`^\\s*(${ID})`)
+const FLOWCHART_LINK_REGEX = /^\s*(-\.+->|-\.+-|={2,}>|={3,}|-{2,}>|-{3,}|--[ox])\s*(?:\|([^|]*)\|)?/
+const FLOWCHART_TEXT_LINK_REGEX = /^\s*(--|==|-\.)\s*([^->.=|\s][^|]*?)\s*(-{2,}>|-{3,}|\.-+>|\.-+|={2,}>|={3,}|--[ox])/
+
+export function parseFlowchart(code: string): ParseResult<FlowchartAst> {
+  const errors: DiagramError[] = []
+  const { header, match, lines } = readHeader(code, /^(?:flowchart|graph)\b\s*([^\s;]*)/i, "flowchart", errors)
+  let direction: LayoutDirection = "TD"
+  if (header && match?.[1]) {
+    direction = readDirection(match[1], header, match[0].length - match[1].length, errors) || direction
+  }
+
+  const nodes = new Map<string, FlowchartNode>()
+  const shaped = new Set<string>()
+  const edges: FlowchartEdge[] = []
+  const subgraphs: Subgraph[] = []
+  const openSubgraphs: Array<{ id: string; line: SourceLine }> = []
+  const currentSubgraph = () => openSubgraphs[openSubgraphs.length - 1]?.id
+
+  lines.forEach((line) => {
+    const text = line.text.replace(/;$/, "")
+
+    const subgraph = text.match(/^subgraph\b\s*(.*)$/)
+    if (subgraph) {
+      if (!subgraph[1]) {
+        errors.push(syntaxError(line, text.length, "Expected a name for the subgraph", ["subgraph name"]))
+        return
+      }
+      const titled = subgraph[1].match(new RegExp(`^(${ID})\\s*\\[\\s*"?(.*?)"?\\s*\\]$`))
+      const id = titled ? titled[1] : unquote(subgraph[1])
+      subgraphs.push({ id, title: titled ? titled[2] : id, parent: currentSubgraph() })
+      openSubgraphs.push({ id, line })
+      return
+    }
+    if (text === "end") {
+      if (!openSubgraphs.pop()) errors.push(syntaxError(line, 0, '"end" without a subgraph to close', ["subgraph"]))
+      return
+    }
+    if (/^(direction|style|classDef|class|click|linkStyle)\b/.test(text)) return
+
+    // A node reference, with its shape and label if this is where it is defined
+    const readNode = (offset: number): { id: string; end: number } | null => {
+      const idMatch = text.slice(offset).match(FLOWCHART_ID_REGEX)
+      if (!idMatch) return null
+      const id = idMatch[1]
+      const end = offset + idMatch[0].length
+
+      if (!nodes.has(id)) nodes.set(id, { id, label: id, shape: "rect", subgraph: currentSubgraph() })
+      const rest = text.slice(end)
+      const shape = FLOWCHART_SHAPES.find(([open]) => rest.startsWith(open))
+      if (!shape) return { id, end }
+
+      const [open, close, shapeName] = shape
+      const quoted = rest[open.length] === '"' ? rest.indexOf('"', open.length + 1) : -1
+      const closing = rest.indexOf(close, quoted >= 0 ? quoted : open.length)
+      if (closing < 0) {
+        errors.push(syntaxError(line, end, `Expected "${close}" to close the label of ${id}`, [close]))
+        return null
+      }
+      nodes.set(id, { ...nodes.get(id)!, label: unquote(rest.slice(open.length, closing)), shape: shapeName })
+      shaped.add(id)
+      return { id, end: end + closing + close.length }
+    }
+
+    // One or more nodes joined with &
+    const readNodeGroup = (offset: number): { ids: string[]; end: number } | null => {
+      const ids: string[] = []
+      let end = offset
+      while (true) {
+        const node = readNode(end)
+        if (!node) return ids.length > 0 ? { ids, end } : null
+        ids.push(node.id)
+        end = node.end
+        const joiner = text.slice(end).match(/^\s*&\s*/)
+        if (!joiner) return { ids, end }
+        end += joiner[0].length
+      }
+    }
+
+    // A chain of node groups joined by links, e.g. A --> B & C -->|label| D
+    const errorCount = errors.length
+    let group = readNodeGroup(0)
+    if (!group && errors.length === errorCount) errors.push(unexpected(line, 0, FLOWCHART_STATEMENTS))
+    while (group && errors.length === errorCount && text.slice(group.end).trim()) {
+      const rest = text.slice(group.end)
+      const plainLink = rest.match(FLOWCHART_LINK_REGEX)
+      const link = plainLink || rest.match(FLOWCHART_TEXT_LINK_REGEX)
+      if (!link) {
+        errors.push(unexpected(line, group.end + (rest.length - rest.trimStart().length), [...FLOWCHART_LINKS, "&"]))
+        return
+      }
+      const linkEnd = group.end + link[0].length
+      const next = readNodeGroup(linkEnd)
+      if (!next) {
+        if (errors.length > errorCount) return
+        errors.push(syntaxError(line, linkEnd, "Expected a node after the link", ["node"]))
+        return
+      }
+
+      const token = plainLink ? link[1] : link[1] + link[3]
+      for (const from of group.ids) {
+        for (const to of next.ids) {
+          edges.push({
+            from,
+            to,
+            label: unquote(link[2] || ""),
+            dashed: token.includes("."),
+            thick: token.includes("="),
+            arrow: /[>ox]$/.test(token),
+          })
+        }
+      }
+      group = next
+    }
+  })
+
+  openSubgraphs.forEach(({ id, line }) => {
+    errors.push(syntaxError(line, 0, `Subgraph "${id}" is never closed`, ["end"]))
+  })
+
+  // Links to a subgraph go to its first node
+  const parents = new Map(subgraphs.map((subgraph) => [subgraph.id, subgraph.parent]))
+  subgraphs.forEach((subgraph) => {
+    if (shaped.has(subgraph.id)) return
+    const inside = (node: FlowchartNode) => {
+      for (let id = node.subgraph; id; id = parents.get(id)) {
+        if (id === subgraph.id) return true
+      }
+      return false
+    }
+    const first = [...nodes.values()].find(inside)
+    nodes.delete(subgraph.id)
+    edges.forEach((edge) => {
+      if (edge.from === subgraph.id && first) edge.from = first.id
+      if (edge.to === subgraph.id && first) edge.to = first.id
+    })
+  })
+
+  return { ast: { direction, nodes: [...nodes.values()], edges, subgraphs }, errors }
+}
+
+// Sequence diagrams
+
+export interface SequenceParticipant {
+  id: string
+  name: string
+}
+
+export interface SequenceMessage {
+  from: string
+  to: string
+  message: string
+  dashed: boolean
+}
+
+export interface SequenceAst {
+  participants: SequenceParticipant[]
+  messages: SequenceMessage[]
+}
+
+const SEQUENCE_ARROWS = ["->>", "-->>", "->", "-->", "-x", "--x", "-)", "--)"]
+const SEQUENCE_STATEMENTS = ["participant", "actor", "message", "Note", "loop", "alt", "opt", "par", "end"]
+const SEQUENCE_BLOCKS = ["loop", "alt", "opt", "par", "critical", "break", "rect", "box"]
+const SEQUENCE_PARTICIPANT_REGEX = new RegExp(`^(participant|actor)\\s+(${ID})(?:\\s+as\\s+(.+))?$`)
+const SEQUENCE_MESSAGE_REGEX = new RegExp(
+  `^(${ID})\\s*(-->>|->>|--x|-x|--\\)|-\\)|-->|->)\\s*[+-]?\\s*(${ID})?\\s*(:.*)?$`,
+)
+const SEQUENCE_NOTE_REGEX = new RegExp(`^note\\s+(left of|right of|over)\\s+${ID}(\\s*,\\s*${ID})?\\s*:`, "i")
+
+export function parseSequenceDiagram(code: string): ParseResult<SequenceAst> {
+  const errors: DiagramError[] = []
+  const { lines } = readHeader(code, /^sequenceDiagram\b/i, "sequenceDiagram", errors)
+  const participants = new Map<string, SequenceParticipant>()
+  const messages: SequenceMessage[] = []
+  const openBlocks: Array<{ keyword: string; line: SourceLine }> = []
+
+  const addParticipant = (id: string, name = id) => {
+    if (!participants.has(id)) participants.set(id, { id, name })
+  }
+
+  lines.forEach((line) => {
+    const { text } = line
+    const keyword = text.split(/\s+/)[0].toLowerCase()
+
+    const participant = text.match(SEQUENCE_PARTICIPANT_REGEX)
+    if (participant) {
+      addParticipant(participant[2], participant[3]?.trim())
+      return
+    }
+    if (SEQUENCE_BLOCKS.includes(keyword)) {
+      openBlocks.push({ keyword, line })
+      return
+    }
+    if (keyword === "end") {
+      if (!openBlocks.pop()) errors.push(syntaxError(line, 0, '"end" without a block to close', SEQUENCE_BLOCKS))
+      return
+    }
+    if (keyword === "else" || keyword === "and" || keyword === "option") {
+      const block = openBlocks[openBlocks.length - 1]
+      const allowed = { else: ["alt"], and: ["par"], option: ["critical"] }[keyword]
+      if (!block || !allowed.includes(block.keyword)) {
+        errors.push(syntaxError(line, 0, `"${keyword}" only belongs in a ${allowed[0]} block`, allowed))
+      }
+      return
+    }
+    if (["activate", "deactivate", "autonumber", "title", "destroy", "create"].includes(keyword)) return
+    if (keyword === "note") {
+      if (!SEQUENCE_NOTE_REGEX.test(text)) {
+        errors.push(syntaxError(line, 0, "Expected a note like Note right of A: text", ["left of", "right of", "over"]))
+      }
+      return
+    }
+
+    const message = text.match(SEQUENCE_MESSAGE_REGEX)
+    if (message) {
+      const [, from, arrow, to, body] = message
+      if (!to) {
+        const offset = text.indexOf(arrow) + arrow.length
+        errors.push(syntaxError(line, offset, `Expected a participant after ${arrow}`, ["participant"]))
+        return
+      }
+      addParticipant(from)
+      addParticipant(to)
+      messages.push({ from, to, message: body ? body.slice(1).trim() : "", dashed: arrow.startsWith("--") })
+      return
+    }
+
+    const arrowAt = text.search(/-/)
+    if (arrowAt > 0) errors.push(unexpected(line, arrowAt, SEQUENCE_ARROWS))
+    else errors.push(unexpected(line, 0, SEQUENCE_STATEMENTS))
+  })
+
+  openBlocks.forEach(({ keyword, line }) => {
+    errors.push(syntaxError(line, 0, `"${keyword}" block is never closed`, ["end"]))
+  })
+
+  return { ast: { participants: [...participants.values()], messages }, errors }
+}
+
+// Class diagrams
+
+export interface ClassNode {
+  name: string
+  attributes: string[]
+  methods: string[]
+}
+
+export interface ClassRelationship {
+  from: string
+  to: string
+  type: "inheritance" | "association"
+  label: string
+}
+
+export interface ClassAst {
+  classes: ClassNode[]
+  relationships: ClassRelationship[]
+}
+
+const CLASS_RELATIONS = ["<|--", "--|>", "*--", "o--", "-->", "<--", "..>", "..|>", "--", ".."]
+const CLASS_STATEMENTS = ["class", "relationship", "}"]
+const CLASS_DECLARATION_REGEX = new RegExp(`^class\\s+(${ID})(?:~[^~]*~)?\\s*(\\{)?\\s*(\\})?$`)
+const CLASS_MEMBER_REGEX = new RegExp(`^(${ID})\\s*:\\s*(.+)$`)
+const CLASS_RELATION_REGEX = new RegExp(
+  `^(${ID})\\s*(?:"[^"]*"\\s*)?` +
+    `(<\\|--|--\\|>|<\\|\\.\\.|\\.\\.\\|>|\\*--|--\\*|o--|--o|<--|-->|<\\.\\.|\\.\\.>|--|\\.\\.)` +
+    `\\s*(?:"[^"]*"\\s*)?(${ID})?\\s*(?::\\s*(.*))?$`,
+)
+
+export function parseClassDiagram(code: string): ParseResult<ClassAst> {
+  const errors: DiagramError[] = []
+  const { lines } = readHeader(code, /^classDiagram\b/i, "classDiagram", errors)
+  const classes = new Map<string, ClassNode>()
+  const relationships: ClassRelationship[] = []
+  let openClass: { node: ClassNode; line: SourceLine } | null = null
+
+  const addClass = (name: string) => {
+    if (!classes.has(name)) classes.set(name, { name, attributes: [], methods: [] })
+    return classes.get(name)!
+  }
+  const addMember = (node: ClassNode, member: string) => {
+    if (member.includes("(")) node.methods.push(member)
+    else node.attributes.push(member)
+  }
+
+  lines.forEach((line) => {
+    const { text } = line
+    if (openClass) {
+      if (text === "}") openClass = null
+      else addMember(openClass.node, text)
+      return
+    }
+
+    const declaration = text.match(CLASS_DECLARATION_REGEX)
+    if (declaration) {
+      const node = addClass(declaration[1])
+      if (declaration[2] && !declaration[3]) openClass = { node, line }
+      return
+    }
+    if (text === "}") {
+      errors.push(syntaxError(line, 0, '"}" without a class to close', ["class"]))
+      return
+    }
+    if (/^<<.*>>/.test(text) || /^(note|direction|style|cssClass|click|link|callback)\b/.test(text)) return
+
+    const relation = text.match(CLASS_RELATION_REGEX)
+    if (relation) {
+      const [, from, arrow, to, label] = relation
+      if (!to) {
+        const offset = text.indexOf(arrow) + arrow.length
+        errors.push(syntaxError(line, offset, `Expected a class after ${arrow}`, ["class name"]))
+        return
+      }
+      addClass(from)
+      addClass(to)
+      const type = arrow.includes("|") ? "inheritance" : "association"
+      relationships.push({ from, to, type, label: label?.trim() || "" })
+      return
+    }
+
+    const member = text.match(CLASS_MEMBER_REGEX)
+    if (member) {
+      addMember(addClass(member[1]), member[2].trim())
+      return
+    }
+
+    const relationAt = text.search(/[-.<*o|]{2}/)
+    if (relationAt > 0) errors.push(unexpected(line, relationAt, CLASS_RELATIONS))
+    else errors.push(unexpected(line, 0, CLASS_STATEMENTS))
+  })
+
+  if (openClass) {
+    const { node, line } = openClass as { node: ClassNode; line: SourceLine }
+    errors.push(syntaxError(line, 0, `Class "${node.name}" is never closed`, ["}"]))
+  }
+
+  return { ast: { classes: [...classes.values()], relationships }, errors }
+}
+
+// State diagrams
+
+export interface StateNode {
+  id: string
+  label: string
+  kind: "state" | "start" | "end" | "choice" | "fork"
+  composite?: string
+}
+
+export interface StateTransition {
+  from: string
+  to: string
+  label: string
+}
+
+export interface StateAst {
+  direction: LayoutDirection
+  states: StateNode[]
+  transitions: StateTransition[]
+  composites: Subgraph[] // Composite states, drawn as boxes around the states inside them
+}
+
+const STATE_STATEMENTS = ["state", "transition", "description", "note", "direction", "}"]
+const STATE_DECLARATION_REGEX = new RegExp(`^state\\s+(?:"([^"]*)"\\s+as\\s+)?(${ID})\\s*(?:<<(\\w+)>>)?\\s*(\\{)?$`)
+const STATE_TRANSITION_REGEX = /^(.+?)\s*-->\s*(.*?)\s*(?::\s*(.*))?$/
+const STATE_NAME_REGEX = new RegExp(`^(${ID}|\\[\\*\\])$`)
+const STATE_DESCRIPTION_REGEX = new RegExp(`^(${ID})\\s*:\\s*(.+)$`)
+
+export function parseStateDiagram(code: string): ParseResult<StateAst> {
+  const errors: DiagramError[] = []
+  const { lines } = readHeader(code, /^stateDiagram(-v2)?\b/i, "stateDiagram-v2", errors)
+
+  let direction: LayoutDirection = "TD"
+  const states = new Map<string, StateNode>()
+  const transitions: StateTransition[] = []
+  const composites: Subgraph[] = []
+  const openComposites: Array<{ id: string; line: SourceLine }> = []
+  let openNote: SourceLine | null = null
+  const currentComposite = () => openComposites[openComposites.length - 1]?.id
+
+  const addState = (id: string, kind: StateNode["kind"] = "state", label = id) => {
+    if (!states.has(id)) states.set(id, { id, label, kind, composite: currentComposite() })
+    return states.get(id)!
+  }
+  // [*] is the start state of the enclosing composite state on the left of a transition, and its end on the right
+  const stateId = (name: string, side: "start" | "end") => {
+    if (name !== "[*]") return addState(name).id
+    return addState(`[*]${side}:${currentComposite() || ""}`, side, "").id
+  }
+
+  lines.forEach((line) => {
+    const { text } = line
+    if (openNote) {
+      if (/^end\s+note$/i.test(text)) openNote = null
+      return
+    }
+    if (text === "--") return
+    if (/^note\b/i.test(text)) {
+      if (!text.includes(":")) openNote = line
+      return
+    }
+
+    const directionMatch = text.match(/^direction\s+(\S+)$/i)
+    if (directionMatch) {
+      const declared = readDirection(directionMatch[1], line, text.length - directionMatch[1].length, errors)
+      if (declared && openComposites.length === 0) direction = declared
+      return
+    }
+
+    if (/^state\b/.test(text)) {
+      const declaration = text.match(STATE_DECLARATION_REGEX)
+      if (!declaration) {
+        errors.push(syntaxError(line, 0, 'Expected a state like state Name, state "Label" as Name or state Name {'))
+        return
+      }
+      const [, label, id, stereotype, opensBlock] = declaration
+      if (opensBlock) {
+        composites.push({ id, title: label || id, parent: currentComposite() })
+        openComposites.push({ id, line })
+      } else {
+        const fork = stereotype === "fork" || stereotype === "join"
+        const state = addState(id, stereotype === "choice" ? "choice" : fork ? "fork" : "state")
+        if (label) state.label = label
+      }
+      return
+    }
+    if (text === "}") {
+      if (!openComposites.pop()) errors.push(syntaxError(line, 0, '"}" without a composite state to close', ["state"]))
+      return
+    }
+
+    const transition = text.match(STATE_TRANSITION_REGEX)
+    if (transition) {
+      const [, from, to, label] = transition
+      if (!STATE_NAME_REGEX.test(from)) {
+        errors.push(unexpected(line, 0, ["state name", "[*]"]))
+        return
+      }
+      if (!STATE_NAME_REGEX.test(to)) {
+        const offset = text.indexOf("-->") + 3
+        errors.push(syntaxError(line, offset, "Expected a state after -->", ["state name", "[*]"]))
+        return
+      }
+      transitions.push({ from: stateId(from, "start"), to: stateId(to, "end"), label: label?.trim() || "" })
+      return
+    }
+
+    const description = text.match(STATE_DESCRIPTION_REGEX)
+    if (description) {
+      addState(description[1]).label = description[2].trim()
+      return
+    }
+
+    errors.push(unexpected(line, 0, STATE_STATEMENTS))
+  })
+
+  openComposites.forEach(({ id, line }) => {
+    errors.push(syntaxError(line, 0, `Composite state "${id}" is never closed`, ["}"]))
+  })
+  if (openNote) errors.push(syntaxError(openNote, 0, "Note is never closed", ["end note"]))
+
+  // Transitions into a composite state go to its start state, and out of it from its end state
+  const compositeIds = new Set(composites.map((composite) => composite.id))
+  const parents = new Map(composites.map((composite) => [composite.id, composite.parent]))
+  const inside = (state: StateNode, composite: string) => {
+    for (let id = state.composite; id; id = parents.get(id)) {
+      if (id === composite) return true
+    }
+    return false
+  }
+  composites.forEach(({ id, title, parent }) => {
+    states.delete(id)
+    const first = [...states.values()].find((state) => inside(state, id))
+    // An empty composite state is drawn as a plain one
+    if (!first) {
+      states.set(id, { id, label: title, kind: "state", composite: parent })
+      compositeIds.delete(id)
+      return
+    }
+    const entry = states.get(`[*]start:${id}`) || first
+    const exit = states.get(`[*]end:${id}`) || first
+    transitions.forEach((transition) => {
+      if (transition.from === id) transition.from = exit.id
+      if (transition.to === id) transition.to = entry.id
+    })
+  })
+
+  return {
+    ast: {
+      direction,
+      states: [...states.values()],
+      transitions: transitions.filter(({ from, to }) => !compositeIds.has(from) && !compositeIds.has(to)),
+      composites,
+    },
+    errors,
+  }
+}
+
+// Block diagrams
+
+export interface Block {
+  id: string
+  label: string
+  row: number
+  col: number
+}
+
+export interface BlockAst {
+  columns: number
+  blocks: Block[]
+  connections: Array<{ from: string; to: string }>
+}
+
+const BLOCK_STATEMENTS = ["columns", "block", "connection"]
+const BLOCK_REGEX = new RegExp(`^(${ID})(?:\\["([^"]*)"\\]|\\[([^\\]]*)\\])?(?=\\s|$)`)
+const BLOCK_LABEL_START_REGEX = new RegExp(`^${ID}\\[`)
+const BLOCK_CONNECTION_REGEX = new RegExp(`^(${ID})\\s*(-->|---)\\s*(${ID})?$`)
+
+export function parseBlockDiagram(code: string): ParseResult<BlockAst> {
+  const errors: DiagramError[] = []
+  const { lines } = readHeader(code, /^block(-beta)?\b/i, "block-beta", errors)
+  let columns = 3
+  let row = 0
+  let col = 0
+  const blocks: Block[] = []
+  const connections: Array<{ from: string; to: string }> = []
+
+  lines.forEach((line) => {
+    const { text } = line
+
+    const columnsMatch = text.match(/^columns\b\s*(.*)$/)
+    if (columnsMatch) {
+      const value = Number(columnsMatch[1])
+      if (!Number.isInteger(value) || value < 1) {
+        errors.push(syntaxError(line, text.length - columnsMatch[1].length, "Expected a number of columns", ["number"]))
+        return
+      }
+      columns = value
+      row = 0
+      col = 0
+      return
+    }
+
+    if (/-(->|--)/.test(text)) {
+      const connection = text.match(BLOCK_CONNECTION_REGEX)
+      if (connection?.[3]) connections.push({ from: connection[1], to: connection[3] })
+      else if (connection) errors.push(syntaxError(line, text.length, "Expected a block after the link", ["block id"]))
+      else errors.push(unexpected(line, 0, ["A --> B"]))
+      return
+    }
+
+    // A row of blocks, filling the columns left to right. "space" leaves a cell empty
+    let offset = 0
+    while (offset < text.length) {
+      const block = text.slice(offset).match(BLOCK_REGEX)
+      const unclosed = !block && text.slice(offset).match(BLOCK_LABEL_START_REGEX)
+      if (unclosed) {
+        errors.push(syntaxError(line, offset + unclosed[0].length - 1, "Expected \"]\" to close the label", ["]"]))
+        return
+      }
+      if (!block) {
+        errors.push(unexpected(line, offset, offset === 0 ? BLOCK_STATEMENTS : ["block id", 'id["label"]']))
+        return
+      }
+      const [token, id, quoted, plain] = block
+      if (blocks.some((existing) => existing.id === id)) {
+        errors.push(syntaxError(line, offset, `Block "${id}" is already defined`))
+      } else if (id !== "space" || quoted !== undefined || plain !== undefined) {
+        blocks.push({ id, label: quoted ?? plain ?? id, row, col })
+      }
+      col++
+      if (col >= columns) {
+        col = 0
+        row++
+      }
+      offset += token.length
+      offset += text.slice(offset).length - text.slice(offset).trimStart().length
+    }
+  })
+
+  return { ast: { columns, blocks, connections }, errors }
+}
+
+// User journeys
+
+export interface JourneyTask {
+  task: string
+  score: number
+  actor: string
+}
+
+export interface JourneyAst {
+  title: string
+  sections: Array<{ name: string; tasks: JourneyTask[] }>
+}
+
+export function parseUserJourney(code: string): ParseResult<JourneyAst> {
+  const errors: DiagramError[] = []
+  const { lines } = readHeader(code, /^journey\b/i, "journey", errors)
+  let title = ""
+  const sections: JourneyAst["sections"] = []
+
+  lines.forEach((line) => {
+    const { text } = line
+    if (text.startsWith("title ")) {
+      title = text.substring(6).trim()
+      return
+    }
+    if (text.startsWith("section ")) {
+      sections.push({ name: text.substring(8).trim(), tasks: [] })
+      return
+    }
+
+    const parts = text.split(":")
+    if (parts.length < 2) {
+      errors.push(unexpected(line, 0, ["title", "section", "task: score: actor"]))
+      return
+    }
+    const section = sections[sections.length - 1]
+    if (!section) {
+      errors.push(syntaxError(line, 0, "Tasks need a section above them", ["section"]))
+      return
+    }
+    const score = Number(parts[1].trim())
+    if (!Number.isInteger(score) || score < 1 || score > 5) {
+      const offset = parts[0].length + 1 + (parts[1].length - parts[1].trimStart().length)
+      errors.push(syntaxError(line, offset, "Expected a score from 1 to 5", ["1", "2", "3", "4", "5"]))
+      return
+    }
+    section.tasks.push({ task: parts[0].trim(), score, actor: parts.slice(2).join(":").trim() })
+  })
+
+  return { ast: { title, sections }, errors }
+}
+
+// Entity relationship diagrams
+
+export interface EntityAttribute {
+  type: string
+  name: string
+  constraints: string
+}
+
+export interface Entity {
+  name: string
+  attributes: EntityAttribute[]
+}
+
+export interface Cardinality {
+  min: "zero" | "one"
+  max: "one" | "many"
+}
+
+export interface Relationship {
+  from: string
+  to: string
+  label: string
+  fromCardinality: Cardinality
+  toCardinality: Cardinality
+  identifying: boolean
+}
+
+export interface ERAst {
+  direction: LayoutDirection
+  entities: Entity[]
+  relationships: Relationship[]
+}
+
+const ENTITY = "[\\w\\u00C0-\\uFFFF-]+"
+const ER_CARDINALITIES = ["||--||", "||--o{", "||--|{", "}o--o{", "|o..o|"]
+const ENTITY_REGEX = new RegExp(`^(${ENTITY})\\s*(\\{)?$`)
+const RELATIONSHIP_START_REGEX = new RegExp(`^(${ENTITY})\\s*`)
+const RELATIONSHIP_MARKERS_REGEX = /^([|}][o|])(--|\.\.)([o|][|{])\s*/
+const RELATIONSHIP_END_REGEX = new RegExp(`^(${ENTITY})\\s*`)
+
+export function parseERDiagram(code: string): ParseResult<ERAst> {
+  const errors: DiagramError[] = []
+  const { lines } = readHeader(code, /^erDiagram\b/i, "erDiagram", errors)
+
+  let direction: LayoutDirection = "TD"
+  const entities = new Map<string, Entity>()
+  const relationships: Relationship[] = []
+  let openEntity: { entity: Entity; line: SourceLine } | null = null
+
+  const addEntity = (name: string) => {
+    if (!entities.has(name)) entities.set(name, { name, attributes: [] })
+    return entities.get(name)!
+  }
+
+  lines.forEach((line) => {
+    const { text } = line
+    if (openEntity) {
+      if (text === "}") {
+        openEntity = null
+        return
+      }
+      const attribute = text.match(/^(\S+)\s+(\S+)\s*(.*)$/)
+      if (attribute) {
+        const constraints = attribute[3].replace(/"/g, "").trim()
+        openEntity.entity.attributes.push({ type: attribute[1], name: attribute[2], constraints })
+      } else {
+        errors.push(syntaxError(line, text.length, "Expected an attribute type followed by its name", ["name"]))
+      }
+      return
+    }
+
+    const directionMatch = text.match(/^direction\s+(\S+)$/i)
+    if (directionMatch) {
+      direction = readDirection(directionMatch[1], line, text.length - directionMatch[1].length, errors) || direction
+      return
+    }
+
+    const entity = text.match(ENTITY_REGEX)
+    if (entity) {
+      const declared = addEntity(entity[1])
+      if (entity[2]) openEntity = { entity: declared, line }
+      return
+    }
+
+    // A relationship, read piece by piece so that the first thing wrong can be pointed at
+    const start = text.match(RELATIONSHIP_START_REGEX)
+    if (!start) {
+      errors.push(unexpected(line, 0, ["entity", "relationship", "direction"]))
+      return
+    }
+    let offset = start[0].length
+    const markers = text.slice(offset).match(RELATIONSHIP_MARKERS_REGEX)
+    if (!markers) {
+      errors.push(syntaxError(line, offset, "Expected the cardinality of a relationship", ER_CARDINALITIES))
+      return
+    }
+    offset += markers[0].length
+    const end = text.slice(offset).match(RELATIONSHIP_END_REGEX)
+    if (!end) {
+      errors.push(syntaxError(line, offset, "Expected the entity on the other side", ["entity"]))
+      return
+    }
+    offset += end[0].length
+    if (text[offset] !== ":") {
+      errors.push(syntaxError(line, offset, "Expected a label for the relationship", [":"]))
+      return
+    }
+    const label = unquote(text.slice(offset + 1))
+    if (!label) {
+      errors.push(syntaxError(line, text.length, "Expected a label after the colon", ["label"]))
+      return
+    }
+
+    const [, fromMarker, connector, toMarker] = markers
+    addEntity(start[1])
+    addEntity(end[1])
+    relationships.push({
+      from: start[1],
+      to: end[1],
+      label,
+      // Markers read outwards from the entity: the outer character is the maximum, the inner one the minimum
+      fromCardinality: { min: fromMarker[1] === "o" ? "zero" : "one", max: fromMarker[0] === "}" ? "many" : "one" },
+      toCardinality: { min: toMarker[0] === "o" ? "zero" : "one", max: toMarker[1] === "{" ? "many" : "one" },
+      identifying: connector === "--",
+    })
+  })
+
+  if (openEntity) {
+    const { entity, line } = openEntity as { entity: Entity; line: SourceLine }
+    errors.push(syntaxError(line, 0, `Entity "${entity.name}" is never closed`, ["}"]))
+  }
+
+  return { ast: { direction, entities: [...entities.values()], relationships }, errors }
+}
+
+// Git graphs
+
+export type GitOperation =
+  | { type: "commit"; id: string | null; branch: string }
+  | { type: "branch"; name: string }
+  | { type: "merge"; branch: string; into: string }
+
+export interface GitAst {
+  operations: GitOperation[]
+}
+
+const GIT_STATEMENTS = ["commit", "branch", "checkout", "merge", "cherry-pick"]
+const GIT_OPTIONS = ["id:", "tag:", "type:"]
+
+export function parseGitGraph(code: string): ParseResult<GitAst> {
+  const errors: DiagramError[] = []
+  const { lines } = readHeader(code, /^gitgraph\b/i, "gitGraph", errors)
+  const branches = ["main"]
+  let current = "main"
+  const operations: GitOperation[] = []
+
+  // Options such as id: "Initial" after a command
+  const readOptions = (line: SourceLine, offset: number, allowed: string[]) => {
+    const options = new Map<string, string>()
+    let rest = line.text.slice(offset)
+    while (rest.trim()) {
+      const option = rest.match(/^\s*(\w+):\s*("[^"]*"|\S+)/)
+      const at = line.text.length - rest.length + (rest.length - rest.trimStart().length)
+      if (!option || !allowed.includes(`${option[1]}:`)) {
+        errors.push(unexpected(line, at, allowed))
+        return null
+      }
+      options.set(option[1], unquote(option[2]))
+      rest = rest.slice(option[0].length)
+    }
+    return options
+  }
+  const readBranch = (line: SourceLine, keyword: string) => {
+    const name = line.text.slice(keyword.length).trim().split(/\s+/)[0]
+    if (!name) errors.push(syntaxError(line, line.text.length, `Expected a branch name after ${keyword}`, ["branch"]))
+    return name || null
+  }
+
+  lines.forEach((line) => {
+    const { text } = line
+    const keyword = text.split(/\s+/)[0]
+
+    switch (keyword) {
+      case "commit": {
+        const options = readOptions(line, keyword.length, GIT_OPTIONS)
+        if (options) operations.push({ type: "commit", id: options.get("id") || null, branch: current })
+        return
+      }
+      case "branch": {
+        const name = readBranch(line, keyword)
+        if (!name) return
+        if (branches.includes(name)) {
+          errors.push(syntaxError(line, keyword.length + 1, `Branch "${name}" already exists`))
+          return
+        }
+        branches.push(name)
+        operations.push({ type: "branch", name })
+        current = name
+        return
+      }
+      case "checkout":
+      case "switch": {
+        const name = readBranch(line, keyword)
+        if (!name) return
+        if (!branches.includes(name)) {
+          errors.push(syntaxError(line, keyword.length + 1, `Unknown branch "${name}"`, branches))
+          return
+        }
+        current = name
+        return
+      }
+      case "merge": {
+        const name = readBranch(line, keyword)
+        if (!name) return
+        if (!branches.includes(name)) {
+          errors.push(syntaxError(line, keyword.length + 1, `Unknown branch "${name}"`, branches))
+        } else if (name === current) {
+          errors.push(syntaxError(line, keyword.length + 1, `Can't merge "${name}" into itself`))
+        } else if (readOptions(line, text.indexOf(name) + name.length, GIT_OPTIONS)) {
+          operations.push({ type: "merge", branch: name, into: current })
+        }
+        return
+      }
+      case "cherry-pick":
+        readOptions(line, keyword.length, ["id:", "parent:", "tag:"])
+        return
+      default:
+        errors.push(unexpected(line, 0, GIT_STATEMENTS))
+    }
+  })
+
+  return { ast: { operations }, errors }
+}
+
+// Quadrant charts
+
+export interface QuadrantPoint {
+  name: string
+  x: number
+  y: number
+}
+
+export interface QuadrantAst {
+  title: string
+  xAxis: string
+  yAxis: string
+  quadrants: Record<"1" | "2" | "3" | "4", string>
+  points: QuadrantPoint[]
+}
+
+const QUADRANT_STATEMENTS = ["title", "x-axis", "y-axis", "quadrant-1", "quadrant-2", "quadrant-3", "quadrant-4"]
+
+export function parseQuadrantChart(code: string): ParseResult<QuadrantAst> {
+  const errors: DiagramError[] = []
+  const { lines } = readHeader(code, /^quadrantChart\b/i, "quadrantChart", errors)
+  const ast: QuadrantAst = { title: "", xAxis: "", yAxis: "", quadrants: { 1: "", 2: "", 3: "", 4: "" }, points: [] }
+
+  lines.forEach((line) => {
+    const { text } = line
+    const keyword = text.split(/\s+/)[0]
+
+    if (keyword === "title") ast.title = text.substring(6).trim()
+    else if (keyword === "x-axis") ast.xAxis = text.substring(7).trim()
+    else if (keyword === "y-axis") ast.yAxis = text.substring(7).trim()
+    else if (keyword.startsWith("quadrant-")) {
+      const number = keyword.substring(9)
+      if (number === "1" || number === "2" || number === "3" || number === "4") {
+        ast.quadrants[number] = text.substring(keyword.length).trim()
+      } else {
+        errors.push(syntaxError(line, 9, `There is no quadrant ${number}`, ["1", "2", "3", "4"]))
+      }
+    } else if (text.includes(":")) {
+      // A point: Name: [x, y], with both between 0 and 1
+      const colon = text.indexOf(":")
+      const point = text.slice(colon + 1).match(/^\s*\[\s*([^,\]]*?)\s*,\s*([^\]]*?)\s*\]/)
+      if (!point) {
+        errors.push(syntaxError(line, colon + 1, "Expected coordinates like [0.3, 0.7]", ["[x, y]"]))
+        return
+      }
+      const [x, y] = [Number(point[1]), Number(point[2])]
+      const invalid = [x, y].findIndex((value, index) => !point[index + 1] || !(value >= 0 && value <= 1))
+      if (invalid >= 0) {
+        const offset = text.indexOf(point[invalid + 1], colon)
+        errors.push(syntaxError(line, offset, `${invalid === 0 ? "x" : "y"} must be a number from 0 to 1`, ["0 to 1"]))
+        return
+      }
+      ast.points.push({ name: text.slice(0, colon).trim(), x, y })
+    } else {
+      errors.push(unexpected(line, 0, QUADRANT_STATEMENTS))
+    }
+  })
+
+  return { ast, errors }
+}
+
+// Mind maps
+
+export type MindmapShape = "default" | "rect" | "rounded" | "circle" | "cloud" | "bang" | "hexagon"
+
+export interface MindmapNode {
+  label: string
+  shape: MindmapShape
+  children: MindmapNode[]
+}
+
+export interface MindmapAst {
+  root: MindmapNode | null
+}
+
+// Opening and closing brackets of each node shape, longest first
+const MINDMAP_SHAPES: Array<[string, string, MindmapShape]> = [
+  ["((", "))", "circle"],
+  ["))", "((", "bang"],
+  ["{{", "}}", "hexagon"],
+  ["[", "]", "rect"],
+  ["(", ")", "rounded"],
+  [")", "(", "cloud"],
+]
+const MINDMAP_ID_REGEX = new RegExp(`^${ID}`)
+
+export function parseMindmap(code: string): ParseResult<MindmapAst> {
+  const errors: DiagramError[] = []
+  const { lines } = readHeader(code, /^mindmap\b/i, "mindmap", errors)
+  let root: MindmapNode | null = null
+  let rootLine: SourceLine | null = null
+  // The nodes that can still get children, from the root down to the last one read
+  const parents: Array<{ node: MindmapNode; indent: number }> = []
+
+  lines.forEach((line) => {
+    const { text } = line
+    if (text.startsWith("::icon(") || text.startsWith(":::")) return
+
+    // A node is plain text, or an optional id followed by its label in the brackets of its shape
+    const id = text.match(MINDMAP_ID_REGEX)?.[0] || ""
+    const shape = MINDMAP_SHAPES.find(([open]) => text.startsWith(open, id.length))
+    let node: MindmapNode = { label: text, shape: "default", children: [] }
+    if (shape) {
+      const [open, close, shapeName] = shape
+      if (!text.endsWith(close) || text.length < id.length + open.length + close.length) {
+        errors.push(syntaxError(line, text.length, `Expected "${close}" to close the label`, [close]))
+        return
+      }
+      node = { label: unquote(text.slice(id.length + open.length, -close.length)), shape: shapeName, children: [] }
+    }
+
+    while (parents.length > 0 && parents[parents.length - 1].indent >= line.indent) parents.pop()
+    const parent = parents[parents.length - 1]
+    if (parent) parent.node.children.push(node)
+    else if (!root) {
+      root = node
+      rootLine = line
+    } else {
+      const rootText = rootLine ? ` on line ${rootLine.number}` : ""
+      errors.push(syntaxError(line, 0, `A mind map has a single root${rootText}; indent this node under it`))
+      return
+    }
+    parents.push({ node, indent: line.indent })
+  })
+
+  return { ast: { root }, errors }
+}
+
+// Timelines
+
+export interface TimelinePeriod {
+  period: string
+  events: string[]
+  section?: string
+}
+
+export interface TimelineAst {
+  title: string
+  sections: string[]
+  periods: TimelinePeriod[]
+}
+
+export function parseTimeline(code: string): ParseResult<TimelineAst> {
+  const errors: DiagramError[] = []
+  const { lines } = readHeader(code, /^timeline\b/i, "timeline", errors)
+  const ast: TimelineAst = { title: "", sections: [], periods: [] }
+
+  lines.forEach((line) => {
+    const { text } = line
+    if (/^title\s/.test(text)) {
+      ast.title = text.substring(6).trim()
+      return
+    }
+    if (/^section\s/.test(text)) {
+      ast.sections.push(text.substring(8).trim())
+      return
+    }
+
+    // A period with its events, e.g. 1969 : Moon landing : Woodstock. Lines starting with a colon add events to the
+    // period above them
+    const [period, ...events] = text.split(":").map((part) => part.trim())
+    let target = ast.periods[ast.periods.length - 1]
+    if (period) {
+      target = { period, events: [], section: ast.sections[ast.sections.length - 1] }
+      ast.periods.push(target)
+    } else if (!target) {
+      errors.push(syntaxError(line, 0, "Events need a period before them", ["period"]))
+      return
+    }
+    events.forEach((event, index) => {
+      if (event) {
+        target.events.push(event)
+        return
+      }
+      const offset = text.split(":", index + 1).join(":").length + 1
+      errors.push(syntaxError(line, offset, "Expected an event", ["event"]))
+    })
+  })
+
+  return { ast, errors }
+}
+
+// Gantt charts
+
+export interface GanttTask {
+  id: string
+  name: string
+  section?: string
+  start: number // UTC milliseconds
+  end: number
+  done: boolean
+  active: boolean
+  critical: boolean
+  milestone: boolean
+}
+
+export interface GanttAst {
+  title: string
+  sections: string[]
+  tasks: GanttTask[]
+}
+
+const DAY = 24 * 60 * 60 * 1000
+const GANTT_DURATIONS: Record<string, number> = { h: DAY / 24, d: DAY, w: 7 * DAY }
+const GANTT_TAGS = ["done", "active", "crit", "milestone"]
+const GANTT_SETTINGS = ["axisFormat", "tickInterval", "todayMarker", "excludes", "includes", "weekday"]
+const GANTT_STATEMENTS = ["title", "dateFormat", "section", "task : start, duration"]
+const GANTT_DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/
+const GANTT_DURATION_REGEX = /^(\d+(?:\.\d+)?)([hdw])$/
+
+function parseDate(value: string): number | null {
+  const match = value.match(GANTT_DATE_REGEX)
+  if (!match) return null
+  const [year, month, day] = match.slice(1).map(Number)
+  const date = Date.UTC(year, month - 1, day)
+  return new Date(date).getUTCDate() === day ? date : null
+}
+
+export function parseGantt(code: string): ParseResult<GanttAst> {
+  const errors: DiagramError[] = []
+  const { lines } = readHeader(code, /^gantt\b/i, "gantt", errors)
+  const ast: GanttAst = { title: "", sections: [], tasks: [] }
+
+  lines.forEach((line) => {
+    const { text } = line
+    const keyword = text.split(/\s+/)[0]
+
+    if (keyword === "title") {
+      ast.title = text.substring(6).trim()
+      return
+    }
+    if (keyword === "section") {
+      ast.sections.push(text.substring(8).trim())
+      return
+    }
+    if (keyword === "dateFormat") {
+      const format = text.substring(keyword.length).trim()
+      if (format !== "YYYY-MM-DD") {
+        errors.push(syntaxError(line, keyword.length + 1, `Unsupported date format "${format}"`, ["YYYY-MM-DD"]))
+      }
+      return
+    }
+    // Axis and calendar settings, which the chart doesn't apply
+    if (GANTT_SETTINGS.includes(keyword)) return
+    if (!text.includes(":")) {
+      errors.push(unexpected(line, 0, GANTT_STATEMENTS))
+      return
+    }
+
+    // A task: Name : [tags,] [id,] [start,] end. The start is a date or "after" other tasks, and defaults to the end of
+    // the task above; the end is a date or a duration
+    const colon = text.indexOf(":")
+    let offset = colon + 1
+    const parts = text
+      .slice(colon + 1)
+      .split(",")
+      .map((part) => {
+        const start = offset + (part.length - part.trimStart().length)
+        offset += part.length + 1
+        return { value: part.trim(), offset: start }
+      })
+
+    const tags = new Set<string>()
+    while (parts.length > 1 && GANTT_TAGS.includes(parts[0].value)) tags.add(parts.shift()!.value)
+    const endPart = parts.pop()!
+    if (parts.length > 2) {
+      errors.push(unexpected(line, parts[0].offset, GANTT_TAGS))
+      return
+    }
+    const startPart = parts.pop()
+    const idPart = parts.pop()
+
+    let start: number | null = ast.tasks[ast.tasks.length - 1]?.end ?? null
+    const after = startPart?.value.match(/^after\s+(.+)$/)
+    if (startPart && after) {
+      const ids = after[1].split(/\s+/)
+      const missing = ids.find((id) => !ast.tasks.some((task) => task.id === id))
+      if (missing) {
+        const taskIds = ast.tasks.map((task) => task.id)
+        errors.push(syntaxError(line, startPart.offset, `Unknown task "${missing}"`, taskIds))
+        return
+      }
+      start = Math.max(...ast.tasks.filter((task) => ids.includes(task.id)).map((task) => task.end))
+    } else if (startPart) {
+      start = parseDate(startPart.value)
+      if (start === null) {
+        errors.push(syntaxError(line, startPart.offset, "Expected a start date", ["YYYY-MM-DD", "after <task>"]))
+        return
+      }
+    } else if (start === null) {
+      errors.push(syntaxError(line, endPart.offset, "The first task needs a start date", ["YYYY-MM-DD"]))
+      return
+    }
+
+    const duration = endPart.value.match(GANTT_DURATION_REGEX)
+    const end = duration ? start + Number(duration[1]) * GANTT_DURATIONS[duration[2]] : parseDate(endPart.value)
+    if (end === null || end < start) {
+      errors.push(syntaxError(line, endPart.offset, "Expected a duration or an end date", ["5d", "2w", "YYYY-MM-DD"]))
+      return
+    }
+
+    ast.tasks.push({
+      id: idPart?.value || `task${ast.tasks.length + 1}`,
+      name: text.slice(0, colon).trim(),
+      section: ast.sections[ast.sections.length - 1],
+      start,
+      end,
+      done: tags.has("done"),
+      active: tags.has("active"),
+      critical: tags.has("crit"),
+      milestone: tags.has("milestone"),
+    })
+  })
+
+  return { ast, errors }
+}
+
+// Pie charts
+
+export interface PieAst {
+  title: string
+  showData: boolean
+  slices: Array<{ label: string; value: number }>
+}
+
+export function parsePieChart(code: string): ParseResult<PieAst> {
+  const errors: DiagramError[] = []
+  const { header, match, lines } = readHeader(code, /^pie\b\s*(.*)$/i, "pie", errors)
+  const ast: PieAst = { title: "", showData: false, slices: [] }
+
+  // The title can also follow the keyword, e.g. pie showData title Grades
+  const options = match?.[1].match(/^(showData\b)?\s*(?:title\s+(.*))?$/)
+  if (header && match && !options) {
+    errors.push(unexpected(header, header.text.length - match[1].length, ["showData", "title"]))
+  }
+  ast.showData = Boolean(options?.[1])
+  ast.title = options?.[2]?.trim() || ""
+
+  lines.forEach((line) => {
+    const { text } = line
+    if (/^title\s/.test(text)) {
+      ast.title = text.substring(6).trim()
+      return
+    }
+
+    const slice = text.match(/^("[^"]*"|[^:]+?)\s*:\s*(.*)$/)
+    if (!slice) {
+      errors.push(unexpected(line, 0, ["title", '"label" : value']))
+      return
+    }
+    const value = Number(slice[2])
+    if (!slice[2] || !(value >= 0)) {
+      const offset = text.length - slice[2].length
+      errors.push(syntaxError(line, offset, "Expected a positive number", ["number"]))
+      return
+    }
+    ast.slices.push({ label: unquote(slice[1]), value })
+  })
+
+  return { ast, errors }
+}
+
+// Bar and line charts
+
+export interface XYChartAst {
+  title: string
+  xLabel: string
+  categories: string[]
+  yLabel: string
+  yRange: { min: number; max: number } | null
+  series: Array<{ type: "bar" | "line"; values: number[] }>
+}
+
+const XYCHART_STATEMENTS = ["title", "x-axis", "y-axis", "bar", "line"]
+
+// A bracketed list, e.g. [jan, feb, "mar 1"], with where each item starts
+function readList(text: string, offset: number): Array<{ value: string; offset: number }> | null {
+  const rest = text.slice(offset)
+  if (!/^\[.*\]$/.test(rest)) return null
+  let position = offset + 1
+  return rest
+    .slice(1, -1)
+    .split(",")
+    .map((item) => {
+      const start = position + (item.length - item.trimStart().length)
+      position += item.length + 1
+      return { value: unquote(item), offset: start }
+    })
+}
+
+export function parseXYChart(code: string): ParseResult<XYChartAst> {
+  const errors: DiagramError[] = []
+  const { header, match, lines } = readHeader(code, /^xychart(-beta)?\b\s*(.*)$/i, "xychart-beta", errors)
+  if (header && match?.[2] && match[2] !== "vertical") {
+    errors.push(unexpected(header, header.text.length - match[2].length, ["vertical"]))
+  }
+  const ast: XYChartAst = { title: "", xLabel: "", categories: [], yLabel: "", yRange: null, series: [] }
+  const seriesLines: SourceLine[] = []
+
+  lines.forEach((line) => {
+    const { text } = line
+    const keyword = text.split(/[\s[]/)[0]
+    const rest = text.substring(keyword.length).trim()
+    const restOffset = text.length - rest.length
+
+    switch (keyword) {
+      case "title":
+        ast.title = unquote(rest)
+        return
+      case "x-axis": {
+        // An optional label, then the categories
+        const axis = rest.match(/^("[^"]*"|[^[\s]+)?\s*(\[.*)?$/)
+        const label = axis?.[1] || ""
+        if (axis?.[2]) {
+          const items = readList(text, text.length - axis[2].length)
+          if (!items) {
+            errors.push(syntaxError(line, text.length - axis[2].length, 'Expected "]" to close the categories', ["]"]))
+            return
+          }
+          ast.categories = items.map((item) => item.value)
+        } else if (/-->/.test(rest)) {
+          errors.push(syntaxError(line, restOffset, "Expected categories like [jan, feb, mar]", ["[a, b, c]"]))
+          return
+        }
+        ast.xLabel = unquote(label)
+        return
+      }
+      case "y-axis": {
+        // An optional label, then an optional range
+        const axis = rest.match(/^("[^"]*"|[^\s\d-][^\s]*)?\s*(?:(\S+)\s*-->\s*(\S+))?$/)
+        if (!axis) {
+          errors.push(syntaxError(line, restOffset, "Expected a label or a range like 0 --> 100", ["min --> max"]))
+          return
+        }
+        ast.yLabel = unquote(axis[1] || "")
+        if (axis[2] !== undefined) {
+          const [min, max] = [Number(axis[2]), Number(axis[3])]
+          if (!Number.isFinite(min) || !Number.isFinite(max) || min >= max) {
+            const offset = text.lastIndexOf(axis[2])
+            errors.push(syntaxError(line, offset, "Expected a range with the smaller number first", ["min --> max"]))
+            return
+          }
+          ast.yRange = { min, max }
+        }
+        return
+      }
+      case "bar":
+      case "line": {
+        const items = readList(text, restOffset)
+        if (!items) {
+          errors.push(syntaxError(line, restOffset, "Expected values like [4, 8, 15]", ["[a, b, c]"]))
+          return
+        }
+        const invalid = items.find((item) => !item.value || !Number.isFinite(Number(item.value)))
+        if (invalid) {
+          errors.push(syntaxError(line, invalid.offset, "Expected a number", ["number"]))
+          return
+        }
+        ast.series.push({ type: keyword, values: items.map((item) => Number(item.value)) })
+        seriesLines.push(line)
+        return
+      }
+      default:
+        errors.push(unexpected(line, 0, XYCHART_STATEMENTS))
+    }
+  })
+
+  // Every series needs a value per category
+  ast.series.forEach((series, index) => {
+    if (ast.categories.length > 0 && series.values.length !== ast.categories.length) {
+      const count = ast.categories.length
+      errors.push(syntaxError(seriesLines[index], 0, `Expected ${count} values, one for each x-axis category`))
+    }
+  })
+  if (ast.categories.length === 0) {
+    const count = Math.max(0, ...ast.series.map((series) => series.values.length))
+    ast.categories = Array.from({ length: count }, (_, index) => String(index + 1))
+  }
+
+  return { ast, errors }
+}
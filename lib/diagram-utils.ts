@@ -1,130 +1,264 @@
-import { storeImage } from "./image-storage"
+import {
+  parseBlockDiagram,
+  parseClassDiagram,
+  parseERDiagram,
+  parseFlowchart,
+  parseGantt,
+  parseGitGraph,
+  parseMindmap,
+  parsePieChart,
+  parseQuadrantChart,
+  parseSequenceDiagram,
+  parseStateDiagram,
+  parseTimeline,
+  parseUserJourney,
+  parseXYChart,
+  type Cardinality,
+  type DiagramError,
+  type Entity,
+  type FlowchartNode,
+  type MindmapNode,
+  type ParseResult,
+  type StateNode,
+} from "./diagram-parser"
+import { layoutGraph, type LayoutBox, type LayoutPoint } from "./graph-layout"
+import {
+  createVectorContext,
+  drawingToSvg,
+  svgToDataUrl,
+  type DiagramContext,
+  type VectorDrawing,
+} from "./vector-canvas"
+
+export type DiagramType =
+  | "flowchart"
+  | "sequence"
+  | "class"
+  | "state"
+  | "block"
+  | "journey"
+  | "er"
+  | "git"
+  | "quadrant"
+  | "mindmap"
+  | "timeline"
+  | "gantt"
+  | "pie"
+  | "xychart"
+
+// A diagram as stored in a note: the Mermaid-style source of a ```mermaid block
+export interface DiagramSource {
+  type: DiagramType | "generic"
+  code: string // Source without the alt text line
+  altText: string
+}
 
-// Diagram generation utility using Mermaid syntax
-export async function generateDiagramImage(diagramCode: string, diagramType: string): Promise<string> {
-  try {
-    // Create a canvas element for rendering
-    const canvas = document.createElement("canvas")
-    const ctx = canvas.getContext("2d")
-    if (!ctx) {
-      throw new Error("Could not get canvas context")
-    }
+// The first line of the source names the kind of diagram
+const DIAGRAM_KEYWORDS: Array<[RegExp, DiagramType]> = [
+  [/^(flowchart|graph)\b/i, "flowchart"],
+  [/^sequenceDiagram\b/i, "sequence"],
+  [/^classDiagram\b/i, "class"],
+  [/^stateDiagram(-v2)?\b/i, "state"],
+  [/^block(-beta)?\b/i, "block"],
+  [/^journey\b/i, "journey"],
+  [/^erDiagram\b/i, "er"],
+  [/^gitgraph\b/i, "git"],
+  [/^quadrantChart\b/i, "quadrant"],
+  [/^mindmap\b/i, "mindmap"],
+  [/^timeline\b/i, "timeline"],
+  [/^gantt\b/i, "gantt"],
+  [/^pie\b/i, "pie"],
+  [/^xychart(-beta)?\b/i, "xychart"],
+]
+
+const DIAGRAM_PARSERS: Record<DiagramType, (code: string) => ParseResult<unknown>> = {
+  flowchart: parseFlowchart,
+  sequence: parseSequenceDiagram,
+  class: parseClassDiagram,
+  state: parseStateDiagram,
+  block: parseBlockDiagram,
+  journey: parseUserJourney,
+  er: parseERDiagram,
+  git: parseGitGraph,
+  quadrant: parseQuadrantChart,
+  mindmap: parseMindmap,
+  timeline: parseTimeline,
+  gantt: parseGantt,
+  pie: parsePieChart,
+  xychart: parseXYChart,
+}
 
-    // Set canvas size based on diagram complexity
-    const lines = diagramCode.split("\n").length
-    const width = Math.max(600, Math.min(1200, lines * 40))
-    const height = Math.max(400, Math.min(800, lines * 30))
-
-    canvas.width = width
-    canvas.height = height
-
-    // Set printer-friendly white background
-    ctx.fillStyle = "#ffffff"
-    ctx.fillRect(0, 0, width, height)
-
-    // Generate diagram based on type
-    switch (diagramType) {
-      case "flowchart":
-        await renderFlowchart(ctx, diagramCode, width, height)
-        break
-      case "sequence":
-        await renderSequenceDiagram(ctx, diagramCode, width, height)
-        break
-      case "class":
-        await renderClassDiagram(ctx, diagramCode, width, height)
-        break
-      case "state":
-        await renderStateDiagram(ctx, diagramCode, width, height)
-        break
-      case "block":
-        await renderBlockDiagram(ctx, diagramCode, width, height)
-        break
-      case "journey":
-        await renderUserJourney(ctx, diagramCode, width, height)
-        break
-      case "er":
-        await renderERDiagram(ctx, diagramCode, width, height)
-        break
-      case "git":
-        await renderGitGraph(ctx, diagramCode, width, height)
-        break
-      case "quadrant":
-        await renderQuadrantChart(ctx, diagramCode, width, height)
-        break
-      default:
-        await renderGenericDiagram(ctx, diagramCode, width, height)
-    }
+const DIAGRAM_PADDING = 20 // Space around the drawn shapes, in diagram pixels
+const ALT_TEXT_REGEX = /^\s*%%\s*alt:\s*(.*)$/i
+const DIAGRAM_BLOCK_REGEX = /^```mermaid[^\n]*\n([\s\S]*?)^```[ \t]*$/gm
 
-    // Convert canvas to data URL
-    const dataUrl = canvas.toDataURL("image/png")
+export function parseDiagramSource(source: string): DiagramSource {
+  const lines = source.split("\n")
+  const altIndex = lines.findIndex((line) => ALT_TEXT_REGEX.test(line))
+  const altText = altIndex >= 0 ? lines[altIndex].match(ALT_TEXT_REGEX)![1].trim() : ""
+  const code = lines.filter((_, index) => index !== altIndex).join("\n").trim()
 
-    // Store the image and return the ID
-    const imageId = await storeImage(dataUrl, `diagram-${diagramType}-${Date.now()}.png`)
+  // %% lines are comments, so the first other line declares the diagram
+  const firstLine = code.split("\n").find((line) => line.trim() && !line.trim().startsWith("%%")) || ""
+  const type = DIAGRAM_KEYWORDS.find(([regex]) => regex.test(firstLine.trim()))?.[1] || "generic"
 
-    return imageId
-  } catch (error) {
-    console.error("Error generating diagram:", error)
-    throw new Error("Failed to generate diagram image")
+  return { type, code, altText }
+}
+
+// Syntax errors in diagram code, in the order they appear. Lines and columns count from the start of the code
+export function validateDiagram(code: string): DiagramError[] {
+  const lines = code.split("\n")
+  const firstIndex = lines.findIndex((line) => line.trim() && !line.trim().startsWith("%%"))
+  if (firstIndex < 0) return []
+
+  const firstLine = lines[firstIndex]
+  const type = DIAGRAM_KEYWORDS.find(([regex]) => regex.test(firstLine.trim()))?.[1]
+  if (!type) {
+    return [
+      {
+        line: firstIndex + 1,
+        column: firstLine.length - firstLine.trimStart().length + 1,
+        message: "Unknown diagram type",
+        expected: [
+          "flowchart",
+          "sequenceDiagram",
+          "classDiagram",
+          "stateDiagram-v2",
+          "block-beta",
+          "journey",
+          "erDiagram",
+          "gitGraph",
+          "quadrantChart",
+          "mindmap",
+          "timeline",
+          "gantt",
+          "pie",
+          "xychart-beta",
+        ],
+      },
+    ]
   }
+  return DIAGRAM_PARSERS[type](code).errors.sort((a, b) => a.line - b.line || a.column - b.column)
 }
 
-// Add this function after the generateDiagramImage function
-export async function generateDiagramPreview(diagramCode: string, diagramType: string): Promise<string> {
-  try {
-    // Create a canvas element for rendering
-    const canvas = document.createElement("canvas")
-    const ctx = canvas.getContext("2d")
-    if (!ctx) {
-      throw new Error("Could not get canvas context")
-    }
+// Markdown for a diagram block, with the alt text kept as a %% comment
+export function formatDiagramBlock(code: string, altText: string): string {
+  const alt = altText.trim() ? `%% alt: ${altText.trim().replace(/\n/g, " ")}\n` : ""
+  return `\`\`\`mermaid\n${alt}${code.trim()}\n\`\`\`\n`
+}
+
+// Replace the diagram block with the given source, e.g. after editing it. Identical blocks are indistinguishable,
+// so the first one is replaced
+export function replaceDiagramBlock(markdown: string, source: string, newBlock: string): string {
+  let replaced = false
+  return markdown.replace(DIAGRAM_BLOCK_REGEX, (block, blockSource: string) => {
+    if (replaced || blockSource.replace(/\n$/, "") !== source) return block
+    replaced = true
+    return newBlock.replace(/\n$/, "")
+  })
+}
+
+// Draw a diagram block's source as vector shapes, e.g. for the PDF export
+export async function renderDiagramVector(source: string): Promise<VectorDrawing> {
+  const { type, code } = parseDiagramSource(source)
+  const drawnCode = code
+    .split("\n")
+    .filter((line) => !line.trim().startsWith("%%"))
+    .join("\n")
+  return renderDiagramDrawing(drawnCode, type)
+}
+
+// Render a diagram block's source as an SVG data URL
+export async function renderDiagram(source: string): Promise<string> {
+  return svgToDataUrl(drawingToSvg(await renderDiagramVector(source)))
+}
 
-    // Set canvas size based on diagram complexity
-    const lines = diagramCode.split("\n").length
-    const width = Math.max(600, Math.min(1200, lines * 40))
-    const height = Math.max(400, Math.min(800, lines * 30))
-
-    canvas.width = width
-    canvas.height = height
-
-    // Set printer-friendly white background
-    ctx.fillStyle = "#ffffff"
-    ctx.fillRect(0, 0, width, height)
-
-    // Generate diagram based on type
-    switch (diagramType) {
-      case "flowchart":
-        await renderFlowchart(ctx, diagramCode, width, height)
-        break
-      case "sequence":
-        await renderSequenceDiagram(ctx, diagramCode, width, height)
-        break
-      case "class":
-        await renderClassDiagram(ctx, diagramCode, width, height)
-        break
-      case "state":
-        await renderStateDiagram(ctx, diagramCode, width, height)
-        break
-      case "block":
-        await renderBlockDiagram(ctx, diagramCode, width, height)
-        break
-      case "journey":
-        await renderUserJourney(ctx, diagramCode, width, height)
-        break
-      case "er":
-        await renderERDiagram(ctx, diagramCode, width, height)
-        break
-      case "git":
-        await renderGitGraph(ctx, diagramCode, width, height)
-        break
-      case "quadrant":
-        await renderQuadrantChart(ctx, diagramCode, width, height)
-        break
-      default:
-        await renderGenericDiagram(ctx, diagramCode, width, height)
+// Turn the diagram blocks in markdown into SVG images for export. Blocks that fail to render stay as code
+export async function replaceDiagramBlocks(
+  markdown: string,
+  toImage: (imageData: string, altText: string) => string,
+): Promise<string> {
+  const blocks = [...markdown.matchAll(DIAGRAM_BLOCK_REGEX)]
+  if (blocks.length === 0) return markdown
+
+  const images = new Map<string, string>()
+  for (const [block, source] of blocks) {
+    if (images.has(block)) continue
+    try {
+      const imageData = await renderDiagram(source)
+      images.set(block, toImage(imageData, parseDiagramSource(source).altText || "Diagram"))
+    } catch (error) {
+      console.error("Error rendering diagram for export:", error)
     }
+  }
+
+  return markdown.replace(DIAGRAM_BLOCK_REGEX, (block) => images.get(block) ?? block)
+}
+
+// Draw diagram code with the vector backend. The renderers lay out within a canvas-sized area sized by the line
+// count; the drawing is then cropped to what they drew
+async function renderDiagramDrawing(diagramCode: string, diagramType: string): Promise<VectorDrawing> {
+  const { context: ctx, finish } = createVectorContext()
+
+  const lines = diagramCode.split("\n").length
+  const width = Math.max(600, Math.min(1200, lines * 40))
+  const height = Math.max(400, Math.min(800, lines * 30))
+
+  // Generate diagram based on type
+  switch (diagramType) {
+    case "flowchart":
+      await renderFlowchart(ctx, diagramCode, width, height)
+      break
+    case "sequence":
+      await renderSequenceDiagram(ctx, diagramCode, width, height)
+      break
+    case "class":
+      await renderClassDiagram(ctx, diagramCode, width, height)
+      break
+    case "state":
+      await renderStateDiagram(ctx, diagramCode, width, height)
+      break
+    case "block":
+      await renderBlockDiagram(ctx, diagramCode, width, height)
+      break
+    case "journey":
+      await renderUserJourney(ctx, diagramCode, width, height)
+      break
+    case "er":
+      await renderERDiagram(ctx, diagramCode, width, height)
+      break
+    case "git":
+      await renderGitGraph(ctx, diagramCode, width, height)
+      break
+    case "quadrant":
+      await renderQuadrantChart(ctx, diagramCode, width, height)
+      break
+    case "mindmap":
+      await renderMindmap(ctx, diagramCode, width, height)
+      break
+    case "timeline":
+      await renderTimeline(ctx, diagramCode, width, height)
+      break
+    case "gantt":
+      await renderGantt(ctx, diagramCode, width, height)
+      break
+    case "pie":
+      await renderPieChart(ctx, diagramCode, width, height)
+      break
+    case "xychart":
+      await renderXYChart(ctx, diagramCode, width, height)
+      break
+    default:
+      await renderGenericDiagram(ctx, diagramCode, width, height)
+  }
 
-    // Return the data URL directly for preview
-    return canvas.toDataURL("image/png")
+  return finish(DIAGRAM_PADDING)
+}
+
+// Render diagram code as an SVG data URL with a printer-friendly white background
+export async function generateDiagramPreview(diagramCode: string, diagramType: string): Promise<string> {
+  try {
+    return svgToDataUrl(drawingToSvg(await renderDiagramDrawing(diagramCode, diagramType)))
   } catch (error) {
     console.error("Error generating diagram preview:", error)
     throw new Error("Failed to generate diagram preview")
@@ -136,6 +270,7 @@ const COLORS = {
   BLACK: "#000000",
   GRAY: "#666666",
   LIGHT_GRAY: "#cccccc",
+  PALE_GRAY: "#f5f5f5",
   WHITE: "#ffffff",
 }
 
@@ -147,14 +282,7 @@ const FONTS = {
 }
 
 // Helper function to draw rounded rectangle
-function drawRoundedRect(
-  ctx: CanvasRenderingContext2D,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  radius = 5,
-) {
+function drawRoundedRect(ctx: DiagramContext, x: number, y: number, width: number, height: number, radius = 5) {
   ctx.beginPath()
   ctx.moveTo(x + radius, y)
   ctx.lineTo(x + width - radius, y)
@@ -169,17 +297,7 @@ function drawRoundedRect(
 }
 
 // Helper function to draw arrow
-function drawArrow(
-  ctx: CanvasRenderingContext2D,
-  fromX: number,
-  fromY: number,
-  toX: number,
-  toY: number,
-  dashed = false,
-) {
-  const headLength = 10
-  const angle = Math.atan2(toY - fromY, toX - fromX)
-
+function drawArrow(ctx: DiagramContext, fromX: number, fromY: number, toX: number, toY: number, dashed = false) {
   ctx.strokeStyle = COLORS.BLACK
   ctx.lineWidth = 1.5
 
@@ -195,156 +313,256 @@ function drawArrow(
   ctx.lineTo(toX, toY)
   ctx.stroke()
 
-  // Draw arrowhead
+  drawArrowHead(ctx, toX, toY, Math.atan2(toY - fromY, toX - fromX))
+}
+
+// Helper function to draw an open arrowhead pointing along the angle
+function drawArrowHead(ctx: DiagramContext, x: number, y: number, angle: number) {
+  const headLength = 10
+
   ctx.setLineDash([])
   ctx.beginPath()
-  ctx.moveTo(toX, toY)
-  ctx.lineTo(toX - headLength * Math.cos(angle - Math.PI / 6), toY - headLength * Math.sin(angle - Math.PI / 6))
-  ctx.moveTo(toX, toY)
-  ctx.lineTo(toX - headLength * Math.cos(angle + Math.PI / 6), toY - headLength * Math.sin(angle + Math.PI / 6))
+  ctx.moveTo(x, y)
+  ctx.lineTo(x - headLength * Math.cos(angle - Math.PI / 6), y - headLength * Math.sin(angle - Math.PI / 6))
+  ctx.moveTo(x, y)
+  ctx.lineTo(x - headLength * Math.cos(angle + Math.PI / 6), y - headLength * Math.sin(angle + Math.PI / 6))
   ctx.stroke()
 }
 
-// Flowchart renderer
-async function renderFlowchart(ctx: CanvasRenderingContext2D, code: string, width: number, height: number) {
-  const nodes = new Map()
-  const connections = []
-  const lines = code.split("\n").filter((line) => line.trim())
-
-  // Parse nodes and connections
-  lines.forEach((line) => {
-    const trimmed = line.trim()
-    if (trimmed.includes("-->") || trimmed.includes("->")) {
-      const parts = trimmed.split(/-->|->/)
-      if (parts.length >= 2) {
-        const from = parts[0].trim()
-        const to = parts[1].split("|")[0].trim()
-        const label = trimmed.includes("|") ? trimmed.split("|")[1].split("|")[0] : ""
-
-        connections.push({ from, to, label })
-
-        // Extract node definitions
-        if (!nodes.has(from)) {
-          nodes.set(from, { id: from, shape: getShapeFromSyntax(from), label: getNodeLabel(from) })
-        }
-        if (!nodes.has(to)) {
-          nodes.set(to, { id: to, shape: getShapeFromSyntax(to), label: getNodeLabel(to) })
-        }
-      }
-    }
-  })
+// Helper function to draw an edge routed by the graph layout, with rounded bends
+function drawEdge(ctx: DiagramContext, points: LayoutPoint[], { dashed = false, arrow = true, lineWidth = 1.5 } = {}) {
+  if (points.length < 2) return
 
-  // Layout nodes in a grid
-  const nodeArray = Array.from(nodes.values())
-  const cols = Math.ceil(Math.sqrt(nodeArray.length))
-  const nodeWidth = 120
-  const nodeHeight = 60
-  const spacing = 150
-
-  nodeArray.forEach((node, index) => {
-    const col = index % cols
-    const row = Math.floor(index / cols)
-    node.x = 50 + col * spacing
-    node.y = 50 + row * (nodeHeight + 50)
-  })
+  ctx.strokeStyle = COLORS.BLACK
+  ctx.lineWidth = lineWidth
+  ctx.setLineDash(dashed ? [5, 5] : [])
+
+  ctx.beginPath()
+  ctx.moveTo(points[0].x, points[0].y)
+  for (let i = 1; i < points.length - 1; i++) {
+    const [previous, corner, next] = [points[i - 1], points[i], points[i + 1]]
+    const before = Math.hypot(corner.x - previous.x, corner.y - previous.y) || 1
+    const after = Math.hypot(next.x - corner.x, next.y - corner.y) || 1
+    const radius = Math.min(10, before / 2, after / 2)
+    ctx.lineTo(
+      corner.x - ((corner.x - previous.x) * radius) / before,
+      corner.y - ((corner.y - previous.y) * radius) / before,
+    )
+    ctx.quadraticCurveTo(
+      corner.x,
+      corner.y,
+      corner.x + ((next.x - corner.x) * radius) / after,
+      corner.y + ((next.y - corner.y) * radius) / after,
+    )
+  }
+  const end = points[points.length - 1]
+  const beforeEnd = points[points.length - 2]
+  ctx.lineTo(end.x, end.y)
+  ctx.stroke()
+  ctx.setLineDash([])
 
-  // Draw connections
+  if (arrow) {
+    ctx.lineWidth = 1.5
+    drawArrowHead(ctx, end.x, end.y, Math.atan2(end.y - beforeEnd.y, end.x - beforeEnd.x))
+  }
+}
+
+// Helper function to measure an edge label for the graph layout
+function measureEdgeLabel(ctx: DiagramContext, label: string) {
+  if (!label) return {}
   ctx.font = FONTS.SMALL
-  connections.forEach((conn) => {
-    const fromNode = nodes.get(conn.from)
-    const toNode = nodes.get(conn.to)
+  return { labelWidth: ctx.measureText(label).width + 8, labelHeight: 16 }
+}
 
-    if (fromNode && toNode) {
-      const fromX = fromNode.x + nodeWidth / 2
-      const fromY = fromNode.y + nodeHeight / 2
-      const toX = toNode.x + nodeWidth / 2
-      const toY = toNode.y + nodeHeight / 2
+// Helper function to draw an edge label in the slot the graph layout kept for it
+function drawEdgeLabel(ctx: DiagramContext, label: string, box: LayoutBox | null) {
+  if (!label || !box) return
 
-      drawArrow(ctx, fromX, fromY, toX, toY)
+  ctx.fillStyle = COLORS.WHITE
+  ctx.fillRect(box.x, box.y, box.width, box.height)
+  ctx.font = FONTS.SMALL
+  ctx.fillStyle = COLORS.BLACK
+  ctx.textAlign = "center"
+  ctx.fillText(label, box.x + box.width / 2, box.y + box.height / 2 + 4)
+}
 
-      // Draw label if exists
-      if (conn.label) {
-        const midX = (fromX + toX) / 2
-        const midY = (fromY + toY) / 2
-        ctx.fillStyle = COLORS.WHITE
-        ctx.fillRect(midX - 20, midY - 8, 40, 16)
-        ctx.fillStyle = COLORS.BLACK
-        ctx.textAlign = "center"
-        ctx.fillText(conn.label, midX, midY + 4)
-      }
-    }
+// Helper function to draw a cluster box with its title in the top-left corner
+function drawCluster(ctx: DiagramContext, title: string, box: LayoutBox | undefined) {
+  if (!box) return
+
+  ctx.fillStyle = COLORS.PALE_GRAY
+  ctx.strokeStyle = COLORS.GRAY
+  ctx.lineWidth = 1
+  ctx.setLineDash([])
+  drawRoundedRect(ctx, box.x, box.y, box.width, box.height)
+  ctx.fill()
+  ctx.stroke()
+
+  ctx.font = FONTS.BOLD
+  ctx.fillStyle = COLORS.BLACK
+  ctx.textAlign = "left"
+  ctx.fillText(title, box.x + 8, box.y + 15)
+}
+
+// Helper function to break text into lines that fit a width, at spaces
+function wrapText(ctx: DiagramContext, text: string, maxWidth: number): string[] {
+  const lines: string[] = []
+  text.split(" ").forEach((word) => {
+    const line = lines.length > 0 ? `${lines[lines.length - 1]} ${word}` : word
+    if (lines.length > 0 && ctx.measureText(line).width <= maxWidth) lines[lines.length - 1] = line
+    else lines.push(word)
+  })
+  return lines
+}
+
+// Helper function to draw centered lines of text, 14px apart
+function drawTextLines(ctx: DiagramContext, lines: string[], centerX: number, centerY: number) {
+  ctx.fillStyle = COLORS.BLACK
+  ctx.textAlign = "center"
+  lines.forEach((line, index) => {
+    ctx.fillText(line, centerX, centerY + 4 + (index - (lines.length - 1) / 2) * 14)
   })
+}
 
-  // Draw nodes
+// Flowchart shapes
+function measureFlowchartNode(ctx: DiagramContext, node: FlowchartNode) {
   ctx.font = FONTS.NORMAL
-  nodeArray.forEach((node) => {
-    ctx.strokeStyle = COLORS.BLACK
-    ctx.fillStyle = COLORS.WHITE
-    ctx.lineWidth = 1.5
+  const lines = node.label.split(/<br\s*\/?>/i)
+  const textWidth = Math.max(...lines.map((line) => ctx.measureText(line).width))
+  const textHeight = lines.length * 16
+
+  switch (node.shape) {
+    case "circle": {
+      const size = Math.max(50, textWidth + 24, textHeight + 24)
+      return { width: size, height: size }
+    }
+    case "diamond": {
+      const width = Math.max(100, textWidth * 1.6 + 30)
+      return { width, height: Math.max(60, width * 0.45, textHeight * 2 + 20) }
+    }
+    case "hexagon":
+      return { width: Math.max(100, textWidth + 50), height: textHeight + 28 }
+    default:
+      return { width: Math.max(100, textWidth + 30), height: textHeight + 28 }
+  }
+}
+
+function drawFlowchartNode(ctx: DiagramContext, node: FlowchartNode, box: LayoutBox) {
+  const { x, y, width, height } = box
+  const centerX = x + width / 2
+  const centerY = y + height / 2
 
-    if (node.shape === "diamond") {
-      // Draw diamond
+  ctx.strokeStyle = COLORS.BLACK
+  ctx.fillStyle = COLORS.WHITE
+  ctx.lineWidth = 1.5
+  ctx.setLineDash([])
+
+  switch (node.shape) {
+    case "diamond":
       ctx.beginPath()
-      ctx.moveTo(node.x + nodeWidth / 2, node.y)
-      ctx.lineTo(node.x + nodeWidth, node.y + nodeHeight / 2)
-      ctx.lineTo(node.x + nodeWidth / 2, node.y + nodeHeight)
-      ctx.lineTo(node.x, node.y + nodeHeight / 2)
+      ctx.moveTo(centerX, y)
+      ctx.lineTo(x + width, centerY)
+      ctx.lineTo(centerX, y + height)
+      ctx.lineTo(x, centerY)
       ctx.closePath()
-    } else if (node.shape === "circle") {
-      // Draw circle
+      break
+    case "circle":
       ctx.beginPath()
-      ctx.arc(node.x + nodeWidth / 2, node.y + nodeHeight / 2, Math.min(nodeWidth, nodeHeight) / 2, 0, 2 * Math.PI)
-    } else {
-      // Draw rectangle (default)
-      drawRoundedRect(ctx, node.x, node.y, nodeWidth, nodeHeight)
+      ctx.arc(centerX, centerY, Math.min(width, height) / 2, 0, 2 * Math.PI)
+      break
+    case "hexagon": {
+      const inset = height / 4
+      ctx.beginPath()
+      ctx.moveTo(x + inset, y)
+      ctx.lineTo(x + width - inset, y)
+      ctx.lineTo(x + width, centerY)
+      ctx.lineTo(x + width - inset, y + height)
+      ctx.lineTo(x + inset, y + height)
+      ctx.lineTo(x, centerY)
+      ctx.closePath()
+      break
     }
+    case "rounded":
+      drawRoundedRect(ctx, x, y, width, height, 12)
+      break
+    case "stadium":
+      drawRoundedRect(ctx, x, y, width, height, height / 2)
+      break
+    default:
+      drawRoundedRect(ctx, x, y, width, height)
+  }
 
-    ctx.fill()
+  ctx.fill()
+  ctx.stroke()
+
+  if (node.shape === "subroutine") {
+    ctx.beginPath()
+    ctx.moveTo(x + 8, y)
+    ctx.lineTo(x + 8, y + height)
+    ctx.moveTo(x + width - 8, y)
+    ctx.lineTo(x + width - 8, y + height)
     ctx.stroke()
+  }
 
-    // Draw text
-    ctx.fillStyle = COLORS.BLACK
-    ctx.textAlign = "center"
-    ctx.fillText(node.label, node.x + nodeWidth / 2, node.y + nodeHeight / 2 + 4)
+  // Draw text
+  const lines = node.label.split(/<br\s*\/?>/i)
+  ctx.font = FONTS.NORMAL
+  ctx.fillStyle = COLORS.BLACK
+  ctx.textAlign = "center"
+  lines.forEach((line, index) => {
+    ctx.fillText(line, centerX, centerY + 4 + (index - (lines.length - 1) / 2) * 16)
   })
 }
 
-// Sequence diagram renderer
-async function renderSequenceDiagram(ctx: CanvasRenderingContext2D, code: string, width: number, height: number) {
-  const participants = []
-  const messages = []
-  const lines = code.split("\n").filter((line) => line.trim())
-
-  // Parse participants and messages
-  lines.forEach((line) => {
-    const trimmed = line.trim()
-    if (trimmed.startsWith("participant")) {
-      const parts = trimmed.split(" as ")
-      const id = trimmed.split(" ")[1]
-      const name = parts.length > 1 ? parts[1] : id
-      participants.push({ id, name })
-    } else if (trimmed.includes("->>") || trimmed.includes("-->>")) {
-      const isDashed = trimmed.includes("-->")
-      const parts = trimmed.split(isDashed ? "-->>" : "->>")
-      if (parts.length >= 2) {
-        const from = parts[0].trim()
-        const rest = parts[1].split(":")
-        const to = rest[0].trim()
-        const message = rest.length > 1 ? rest[1].trim() : ""
-        messages.push({ from, to, message, dashed: isDashed })
-      }
-    }
+// Flowchart renderer
+async function renderFlowchart(ctx: DiagramContext, code: string, width: number, height: number) {
+  const { direction, nodes, edges, subgraphs } = parseFlowchart(code).ast
+
+  const layout = layoutGraph(
+    nodes.map((node) => ({
+      id: node.id,
+      ...measureFlowchartNode(ctx, node),
+      shape: node.shape === "diamond" ? "diamond" : node.shape === "circle" ? "ellipse" : "rect",
+      cluster: node.subgraph,
+    })),
+    edges.map((edge) => ({ from: edge.from, to: edge.to, ...measureEdgeLabel(ctx, edge.label) })),
+    subgraphs.map((subgraph) => {
+      ctx.font = FONTS.BOLD
+      return { id: subgraph.id, parent: subgraph.parent, labelWidth: ctx.measureText(subgraph.title).width }
+    }),
+    { direction, clusterLabelHeight: 20 },
+  )
+
+  // Subgraphs first so that everything else is drawn on top of them
+  subgraphs.forEach((subgraph) => drawCluster(ctx, subgraph.title, layout.clusters.get(subgraph.id)))
+
+  edges.forEach((edge, index) => {
+    const { points } = layout.edges[index]
+    drawEdge(ctx, points, { dashed: edge.dashed, arrow: edge.arrow, lineWidth: edge.thick ? 3 : 1.5 })
+  })
+  edges.forEach((edge, index) => drawEdgeLabel(ctx, edge.label, layout.edges[index].label))
+
+  nodes.forEach((node) => {
+    const box = layout.nodes.get(node.id)
+    if (box) drawFlowchartNode(ctx, node, box)
   })
+}
+
+// Sequence diagram renderer
+async function renderSequenceDiagram(ctx: DiagramContext, code: string, width: number, height: number) {
+  const { ast } = parseSequenceDiagram(code)
+  const { messages } = ast
 
   // Layout participants
   const participantWidth = 100
   const participantHeight = 40
-  const spacing = width / (participants.length + 1)
+  const spacing = width / (ast.participants.length + 1)
 
-  participants.forEach((participant, index) => {
-    participant.x = spacing * (index + 1) - participantWidth / 2
-    participant.y = 30
-  })
+  const participants = ast.participants.map((participant, index) => ({
+    ...participant,
+    x: spacing * (index + 1) - participantWidth / 2,
+    y: 30,
+  }))
 
   // Draw participants
   ctx.font = FONTS.NORMAL
@@ -395,47 +613,20 @@ async function renderSequenceDiagram(ctx: CanvasRenderingContext2D, code: string
 }
 
 // Class diagram renderer
-async function renderClassDiagram(ctx: CanvasRenderingContext2D, code: string, width: number, height: number) {
-  const classes = []
-  const relationships = []
-  const lines = code.split("\n").filter((line) => line.trim())
-
-  let currentClass = null
-  lines.forEach((line) => {
-    const trimmed = line.trim()
-    if (trimmed.startsWith("class ")) {
-      const className = trimmed.split(" ")[1].split(" ")[0]
-      currentClass = { name: className, attributes: [], methods: [] }
-      classes.push(currentClass)
-    } else if (trimmed.includes("<|--") || trimmed.includes("-->")) {
-      const parts = trimmed.split(/<\|--|-->/)
-      if (parts.length >= 2) {
-        relationships.push({
-          from: parts[0].trim(),
-          to: parts[1].trim(),
-          type: trimmed.includes("<|--") ? "inheritance" : "association",
-        })
-      }
-    } else if (currentClass && (trimmed.startsWith("+") || trimmed.startsWith("-"))) {
-      if (trimmed.includes("()")) {
-        currentClass.methods.push(trimmed)
-      } else {
-        currentClass.attributes.push(trimmed)
-      }
-    }
-  })
+async function renderClassDiagram(ctx: DiagramContext, code: string, width: number, height: number) {
+  const { ast } = parseClassDiagram(code)
+  const { relationships } = ast
 
   // Layout classes
   const classWidth = 150
   const classHeight = 120
-  const cols = Math.ceil(Math.sqrt(classes.length))
+  const cols = Math.ceil(Math.sqrt(ast.classes.length))
 
-  classes.forEach((cls, index) => {
-    const col = index % cols
-    const row = Math.floor(index / cols)
-    cls.x = 50 + col * (classWidth + 50)
-    cls.y = 50 + row * (classHeight + 50)
-  })
+  const classes = ast.classes.map((cls, index) => ({
+    ...cls,
+    x: 50 + (index % cols) * (classWidth + 50),
+    y: 50 + Math.floor(index / cols) * (classHeight + 50),
+  }))
 
   // Draw relationships
   relationships.forEach((rel) => {
@@ -523,227 +714,114 @@ async function renderClassDiagram(ctx: CanvasRenderingContext2D, code: string, w
   })
 }
 
-// State diagram renderer
-async function renderStateDiagram(ctx: CanvasRenderingContext2D, code: string, width: number, height: number) {
-  const states = new Map()
-  const transitions = []
-  const lines = code.split("\n").filter((line) => line.trim())
-
-  // Parse states and transitions
-  lines.forEach((line) => {
-    const trimmed = line.trim()
-    if (trimmed.includes(" --> ")) {
-      const parts = trimmed.split(" --> ")
-      if (parts.length >= 2) {
-        const from = parts[0].trim()
-        const rest = parts[1].split(" : ")
-        const to = rest[0].trim()
-        const label = rest.length > 1 ? rest[1].trim() : ""
-
-        transitions.push({ from, to, label })
-
-        // Add states
-        if (from !== "[*]" && !states.has(from)) {
-          states.set(from, { name: from, isStart: false, isEnd: false })
-        }
-        if (to !== "[*]" && !states.has(to)) {
-          states.set(to, { name: to, isStart: false, isEnd: false })
-        }
-      }
-    }
-  })
-
-  // Layout states
-  const stateArray = Array.from(states.values())
-  const stateWidth = 100
-  const stateHeight = 50
-  const cols = Math.ceil(Math.sqrt(stateArray.length))
-
-  stateArray.forEach((state, index) => {
-    const col = index % cols
-    const row = Math.floor(index / cols)
-    state.x = 100 + col * (stateWidth + 80)
-    state.y = 100 + row * (stateHeight + 80)
-  })
-
-  // Draw transitions
-  ctx.font = FONTS.SMALL
-  transitions.forEach((trans) => {
-    let fromX, fromY, toX, toY
-
-    if (trans.from === "[*]") {
-      // Start state
-      fromX = 50
-      fromY = 50
-    } else {
-      const fromState = states.get(trans.from)
-      if (fromState) {
-        fromX = fromState.x + stateWidth / 2
-        fromY = fromState.y + stateHeight / 2
-      }
-    }
-
-    if (trans.to === "[*]") {
-      // End state
-      toX = width - 50
-      toY = height - 50
-    } else {
-      const toState = states.get(trans.to)
-      if (toState) {
-        toX = toState.x + stateWidth / 2
-        toY = toState.y + stateHeight / 2
-      }
-    }
-
-    if (fromX !== undefined && toX !== undefined) {
-      drawArrow(ctx, fromX, fromY, toX, toY)
-
-      // Draw label
-      if (trans.label) {
-        const midX = (fromX + toX) / 2
-        const midY = (fromY + toY) / 2
-        ctx.fillStyle = COLORS.WHITE
-        ctx.fillRect(midX - 25, midY - 8, 50, 16)
-        ctx.fillStyle = COLORS.BLACK
-        ctx.textAlign = "center"
-        ctx.fillText(trans.label, midX, midY + 4)
-      }
-    }
-  })
+// State diagram shapes
+function measureState(ctx: DiagramContext, state: StateNode, vertical: boolean) {
+  switch (state.kind) {
+    case "start":
+      return { width: 16, height: 16 }
+    case "end":
+      return { width: 24, height: 24 }
+    case "choice":
+      return { width: 28, height: 28 }
+    case "fork":
+      return vertical ? { width: 70, height: 8 } : { width: 8, height: 70 }
+    default:
+      ctx.font = FONTS.NORMAL
+      return { width: Math.max(100, ctx.measureText(state.label).width + 30), height: 40 }
+  }
+}
 
-  // Draw start/end markers
-  ctx.fillStyle = COLORS.BLACK
-  ctx.beginPath()
-  ctx.arc(50, 50, 8, 0, 2 * Math.PI)
-  ctx.fill()
+function drawState(ctx: DiagramContext, state: StateNode, box: LayoutBox) {
+  const { x, y, width, height } = box
+  const centerX = x + width / 2
+  const centerY = y + height / 2
 
   ctx.strokeStyle = COLORS.BLACK
-  ctx.lineWidth = 2
-  ctx.beginPath()
-  ctx.arc(width - 50, height - 50, 12, 0, 2 * Math.PI)
-  ctx.stroke()
-  ctx.beginPath()
-  ctx.arc(width - 50, height - 50, 8, 0, 2 * Math.PI)
-  ctx.fill()
+  ctx.fillStyle = COLORS.BLACK
+  ctx.lineWidth = 1.5
+  ctx.setLineDash([])
 
-  // Draw states
-  ctx.font = FONTS.NORMAL
-  stateArray.forEach((state) => {
-    ctx.strokeStyle = COLORS.BLACK
-    ctx.fillStyle = COLORS.WHITE
-    ctx.lineWidth = 1.5
+  switch (state.kind) {
+    case "start":
+      ctx.beginPath()
+      ctx.arc(centerX, centerY, 8, 0, 2 * Math.PI)
+      ctx.fill()
+      break
+    case "end":
+      ctx.lineWidth = 2
+      ctx.beginPath()
+      ctx.arc(centerX, centerY, 12, 0, 2 * Math.PI)
+      ctx.stroke()
+      ctx.beginPath()
+      ctx.arc(centerX, centerY, 8, 0, 2 * Math.PI)
+      ctx.fill()
+      break
+    case "fork":
+      ctx.fillRect(x, y, width, height)
+      break
+    case "choice":
+      ctx.fillStyle = COLORS.WHITE
+      ctx.beginPath()
+      ctx.moveTo(centerX, y)
+      ctx.lineTo(x + width, centerY)
+      ctx.lineTo(centerX, y + height)
+      ctx.lineTo(x, centerY)
+      ctx.closePath()
+      ctx.fill()
+      ctx.stroke()
+      break
+    default:
+      ctx.fillStyle = COLORS.WHITE
+      drawRoundedRect(ctx, x, y, width, height, 12)
+      ctx.fill()
+      ctx.stroke()
 
-    drawRoundedRect(ctx, state.x, state.y, stateWidth, stateHeight, 25)
-    ctx.fill()
-    ctx.stroke()
+      ctx.font = FONTS.NORMAL
+      ctx.fillStyle = COLORS.BLACK
+      ctx.textAlign = "center"
+      ctx.fillText(state.label, centerX, centerY + 4)
+  }
+}
 
-    ctx.fillStyle = COLORS.BLACK
-    ctx.textAlign = "center"
-    ctx.fillText(state.name, state.x + stateWidth / 2, state.y + stateHeight / 2 + 4)
+// State diagram renderer
+async function renderStateDiagram(ctx: DiagramContext, code: string, width: number, height: number) {
+  const { direction, states, transitions, composites } = parseStateDiagram(code).ast
+  const vertical = direction === "TD" || direction === "BT"
+
+  const layout = layoutGraph(
+    states.map((state) => ({
+      id: state.id,
+      ...measureState(ctx, state, vertical),
+      shape: state.kind === "choice" ? "diamond" : state.kind === "start" || state.kind === "end" ? "ellipse" : "rect",
+      cluster: state.composite,
+    })),
+    transitions.map((transition) => ({
+      from: transition.from,
+      to: transition.to,
+      ...measureEdgeLabel(ctx, transition.label),
+    })),
+    composites.map((composite) => {
+      ctx.font = FONTS.BOLD
+      return { id: composite.id, parent: composite.parent, labelWidth: ctx.measureText(composite.title).width }
+    }),
+    { direction, clusterLabelHeight: 20 },
+  )
+
+  // Composite states first so that their contents are drawn on top
+  composites.forEach((composite) => drawCluster(ctx, composite.title, layout.clusters.get(composite.id)))
+
+  transitions.forEach((_, index) => drawEdge(ctx, layout.edges[index].points))
+  transitions.forEach((transition, index) => drawEdgeLabel(ctx, transition.label, layout.edges[index].label))
+
+  states.forEach((state) => {
+    const box = layout.nodes.get(state.id)
+    if (box) drawState(ctx, state, box)
   })
 }
 
 // Block diagram renderer
-// Block diagram renderer - IMPROVED VERSION
-async function renderBlockDiagram(ctx: CanvasRenderingContext2D, code: string, width: number, height: number) {
-  const blocks = []
-  const connections = []
-  const lines = code.split("\n").filter((line) => line.trim())
-
-  let columns = 3 // default
-  let currentRow = 0
-  let currentCol = 0
-
-  console.log("Parsing block diagram:", code)
-
-  // First pass: parse columns and blocks
-  lines.forEach((line, lineIndex) => {
-    const trimmed = line.trim()
-    console.log(`Line ${lineIndex}: "${trimmed}"`)
-
-    if (trimmed.startsWith("columns ")) {
-      columns = Number.parseInt(trimmed.split(" ")[1]) || 3
-      currentRow = 0
-      currentCol = 0
-      console.log(`Set columns to: ${columns}`)
-    } else if (trimmed && !trimmed.startsWith("block-beta") && !trimmed.includes("-->")) {
-      // Parse block definitions - handle multiple formats
-
-      // Format 1: A["Label"] B["Label"] C["Label"]
-      const blockMatches = trimmed.matchAll(/(\w+)\["([^"]+)"\]/g)
-      for (const match of blockMatches) {
-        const block = {
-          id: match[1],
-          label: match[2],
-          row: currentRow,
-          col: currentCol,
-        }
-        blocks.push(block)
-        console.log(`Added block: ${block.id} = "${block.label}" at (${block.row}, ${block.col})`)
-
-        currentCol++
-        if (currentCol >= columns) {
-          currentCol = 0
-          currentRow++
-        }
-      }
-
-      // Format 2: Simple space-separated words (if no bracket format found)
-      if (!trimmed.includes('["') && !trimmed.includes("-->")) {
-        const words = trimmed.split(/\s+/).filter((word) => word.length > 0)
-        words.forEach((word) => {
-          // Only add if not already added
-          if (!blocks.find((b) => b.id === word)) {
-            const block = {
-              id: word,
-              label: word,
-              row: currentRow,
-              col: currentCol,
-            }
-            blocks.push(block)
-            console.log(`Added simple block: ${block.id} at (${block.row}, ${block.col})`)
-
-            currentCol++
-            if (currentCol >= columns) {
-              currentCol = 0
-              currentRow++
-            }
-          }
-        })
-      }
-    }
-  })
-
-  // Second pass: parse connections
-  lines.forEach((line) => {
-    const trimmed = line.trim()
-    if (trimmed.includes("-->")) {
-      // Handle various connection formats
-      const parts = trimmed.split(/\s*-->\s*/)
-      if (parts.length >= 2) {
-        const from = parts[0].trim()
-        const to = parts[1].trim()
-        connections.push({ from, to })
-        console.log(`Added connection: ${from} --> ${to}`)
-      }
-    }
-  })
-
-  console.log(`Found ${blocks.length} blocks and ${connections.length} connections`)
-
-  // If still no blocks, try fallback parsing
-  if (blocks.length === 0) {
-    console.log("No blocks found, creating default layout")
-    const sampleBlocks = ["Input", "Process", "Output"]
-    sampleBlocks.forEach((label, index) => {
-      blocks.push({
-        id: label,
-        label: label,
-        row: 0,
-        col: index,
-      })
-    })
-  }
+async function renderBlockDiagram(ctx: DiagramContext, code: string, width: number, height: number) {
+  const { columns, connections, ...ast } = parseBlockDiagram(code).ast
 
   // Layout blocks with better spacing
   const blockWidth = 120
@@ -752,25 +830,20 @@ async function renderBlockDiagram(ctx: CanvasRenderingContext2D, code: string, w
   const spacingY = 100
   const startX = 50
 
-  blocks.forEach((block) => {
-    block.x = startX + block.col * spacingX
-    block.y = 50 + block.row * spacingY
-    console.log(`Block ${block.id} positioned at (${block.x}, ${block.y})`)
-  })
+  const blocks = ast.blocks.map((block) => ({
+    ...block,
+    x: startX + block.col * spacingX,
+    y: 50 + block.row * spacingY,
+  }))
 
   // Draw connections first (so they appear behind blocks)
   ctx.strokeStyle = COLORS.BLACK
   ctx.lineWidth = 1.5
-  console.log(`Drawing ${connections.length} connections`)
 
-  connections.forEach((conn, index) => {
+  connections.forEach((conn) => {
     const fromBlock = blocks.find((b) => b.id === conn.from)
     const toBlock = blocks.find((b) => b.id === conn.to)
 
-    console.log(`Connection ${index}: ${conn.from} --> ${conn.to}`)
-    console.log(`From block:`, fromBlock)
-    console.log(`To block:`, toBlock)
-
     if (fromBlock && toBlock) {
       // Calculate connection points on block edges
       const fromCenterX = fromBlock.x + blockWidth / 2
@@ -817,20 +890,13 @@ async function renderBlockDiagram(ctx: CanvasRenderingContext2D, code: string, w
         }
       }
 
-      console.log(`Drawing arrow from (${fromX}, ${fromY}) to (${toX}, ${toY})`)
       drawArrow(ctx, fromX, fromY, toX, toY)
-    } else {
-      console.log(`Connection ${conn.from} --> ${conn.to} failed: missing blocks`)
     }
   })
 
   // Draw blocks
   ctx.font = FONTS.NORMAL
-  console.log(`Drawing ${blocks.length} blocks`)
-
-  blocks.forEach((block, index) => {
-    console.log(`Drawing block ${index}: ${block.id} at (${block.x}, ${block.y})`)
-
+  blocks.forEach((block) => {
     ctx.strokeStyle = COLORS.BLACK
     ctx.fillStyle = COLORS.WHITE
     ctx.lineWidth = 1.5
@@ -881,33 +947,9 @@ async function renderBlockDiagram(ctx: CanvasRenderingContext2D, code: string, w
 }
 
 // User journey renderer
-async function renderUserJourney(ctx: CanvasRenderingContext2D, code: string, width: number, height: number) {
-  const sections = []
-  const lines = code.split("\n").filter((line) => line.trim())
-
-  let currentSection = null
-  let title = "User Journey"
-
-  lines.forEach((line) => {
-    const trimmed = line.trim()
-    if (trimmed.startsWith("title ")) {
-      title = trimmed.substring(6)
-    } else if (trimmed.startsWith("section ")) {
-      currentSection = {
-        name: trimmed.substring(8),
-        tasks: [],
-      }
-      sections.push(currentSection)
-    } else if (currentSection && trimmed.includes(":")) {
-      const parts = trimmed.split(":")
-      if (parts.length >= 3) {
-        const task = parts[0].trim()
-        const score = Number.parseInt(parts[1].trim()) || 3
-        const actor = parts[2].trim()
-        currentSection.tasks.push({ task, score, actor })
-      }
-    }
-  })
+async function renderUserJourney(ctx: DiagramContext, code: string, width: number, height: number) {
+  const { sections, ...ast } = parseUserJourney(code).ast
+  const title = ast.title || "User Journey"
 
   // Draw title
   ctx.font = FONTS.LARGE
@@ -957,171 +999,154 @@ async function renderUserJourney(ctx: CanvasRenderingContext2D, code: string, wi
   })
 }
 
-// ER diagram renderer
-async function renderERDiagram(ctx: CanvasRenderingContext2D, code: string, width: number, height: number) {
-  const entities = []
-  const relationships = []
-  const lines = code.split("\n").filter((line) => line.trim())
-
-  let currentEntity = null
-  lines.forEach((line) => {
-    const trimmed = line.trim()
-    if (trimmed.includes(" {")) {
-      const entityName = trimmed.split(" ")[0]
-      currentEntity = {
-        name: entityName,
-        attributes: [],
-      }
-      entities.push(currentEntity)
-    } else if (currentEntity && trimmed.includes(" ")) {
-      const parts = trimmed.split(" ")
-      if (parts.length >= 2) {
-        currentEntity.attributes.push({
-          type: parts[0],
-          name: parts[1],
-          constraints: parts.slice(2),
-        })
-      }
-    } else if (trimmed.includes("||--") || trimmed.includes("}o--")) {
-      const match = trimmed.match(/(\w+)\s+([|}][|}]--o?\{?)\s+(\w+)\s*:\s*(.+)/)
-      if (match) {
-        relationships.push({
-          from: match[1],
-          to: match[3],
-          type: match[2],
-          label: match[4],
-        })
-      }
-    }
+// ER diagram shapes
+function measureEntity(ctx: DiagramContext, entity: Entity) {
+  ctx.font = FONTS.BOLD
+  let textWidth = ctx.measureText(entity.name).width
+  let height = 40
+  ctx.font = FONTS.SMALL
+  entity.attributes.forEach((attr) => {
+    textWidth = Math.max(textWidth, ctx.measureText(`${attr.name}: ${attr.type}`).width)
+    if (attr.constraints) textWidth = Math.max(textWidth, ctx.measureText(attr.constraints).width)
+    height += attr.constraints ? 27 : 15
   })
+  return { width: Math.max(150, textWidth + 20), height }
+}
 
-  // Layout entities
-  const entityWidth = 150
-  const entityHeight = 120
-  const cols = Math.ceil(Math.sqrt(entities.length))
+function drawEntity(ctx: DiagramContext, entity: Entity, box: LayoutBox) {
+  const { x, y, width, height } = box
 
-  entities.forEach((entity, index) => {
-    const col = index % cols
-    const row = Math.floor(index / cols)
-    entity.x = 50 + col * (entityWidth + 100)
-    entity.y = 50 + row * (entityHeight + 80)
-  })
+  ctx.strokeStyle = COLORS.BLACK
+  ctx.fillStyle = COLORS.WHITE
+  ctx.lineWidth = 1.5
+  ctx.setLineDash([])
 
-  // Draw relationships
-  relationships.forEach((rel) => {
-    const fromEntity = entities.find((e) => e.name === rel.from)
-    const toEntity = entities.find((e) => e.name === rel.to)
+  // Draw entity box
+  ctx.fillRect(x, y, width, height)
+  ctx.strokeRect(x, y, width, height)
 
-    if (fromEntity && toEntity) {
-      const fromX = fromEntity.x + entityWidth / 2
-      const fromY = fromEntity.y + entityHeight / 2
-      const toX = toEntity.x + entityWidth / 2
-      const toY = toEntity.y + entityHeight / 2
+  // Draw entity name
+  ctx.fillStyle = COLORS.BLACK
+  ctx.font = FONTS.BOLD
+  ctx.textAlign = "center"
+  ctx.fillText(entity.name, x + width / 2, y + 20)
 
-      ctx.strokeStyle = COLORS.BLACK
-      ctx.lineWidth = 1.5
-      ctx.beginPath()
-      ctx.moveTo(fromX, fromY)
-      ctx.lineTo(toX, toY)
-      ctx.stroke()
+  // Draw separator line
+  ctx.beginPath()
+  ctx.moveTo(x, y + 30)
+  ctx.lineTo(x + width, y + 30)
+  ctx.stroke()
 
-      // Draw relationship label
-      ctx.font = FONTS.SMALL
+  // Draw attributes
+  ctx.font = FONTS.SMALL
+  ctx.textAlign = "left"
+  let textY = y + 45
+  entity.attributes.forEach((attr) => {
+    ctx.fillText(`${attr.name}: ${attr.type}`, x + 5, textY)
+
+    // Draw constraints
+    if (attr.constraints) {
+      ctx.fillStyle = COLORS.GRAY
+      ctx.fillText(attr.constraints, x + 5, textY + 12)
       ctx.fillStyle = COLORS.BLACK
-      ctx.textAlign = "center"
-      const midX = (fromX + toX) / 2
-      const midY = (fromY + toY) / 2
-      ctx.fillText(rel.label, midX, midY - 5)
+      textY += 12
     }
+    textY += 15
   })
+}
 
-  // Draw entities
-  ctx.font = FONTS.NORMAL
-  entities.forEach((entity) => {
-    ctx.strokeStyle = COLORS.BLACK
-    ctx.fillStyle = COLORS.WHITE
-    ctx.lineWidth = 1.5
-
-    // Draw entity box
-    ctx.fillRect(entity.x, entity.y, entityWidth, entityHeight)
-    ctx.strokeRect(entity.x, entity.y, entityWidth, entityHeight)
+// Helper function to draw crow's foot markers where a relationship meets an entity
+function drawCardinality(ctx: DiagramContext, end: LayoutPoint, toward: LayoutPoint, cardinality: Cardinality) {
+  const length = Math.hypot(toward.x - end.x, toward.y - end.y) || 1
+  const alongX = (toward.x - end.x) / length
+  const alongY = (toward.y - end.y) / length
+  const at = (along: number, across: number) => ({
+    x: end.x + alongX * along - alongY * across,
+    y: end.y + alongY * along + alongX * across,
+  })
+  const line = (from: LayoutPoint, to: LayoutPoint) => {
+    ctx.moveTo(from.x, from.y)
+    ctx.lineTo(to.x, to.y)
+  }
 
-    // Draw entity name
-    ctx.fillStyle = COLORS.BLACK
-    ctx.font = FONTS.BOLD
-    ctx.textAlign = "center"
-    ctx.fillText(entity.name, entity.x + entityWidth / 2, entity.y + 20)
+  ctx.strokeStyle = COLORS.BLACK
+  ctx.lineWidth = 1.5
+  ctx.setLineDash([])
+  ctx.beginPath()
+  if (cardinality.max === "many") {
+    line(at(0, -7), at(12, 0))
+    line(at(0, 7), at(12, 0))
+  } else {
+    line(at(8, -6), at(8, 6))
+  }
+  if (cardinality.min === "one") line(at(16, -6), at(16, 6))
+  ctx.stroke()
 
-    // Draw separator line
+  if (cardinality.min === "zero") {
+    const center = at(21, 0)
+    ctx.fillStyle = COLORS.WHITE
     ctx.beginPath()
-    ctx.moveTo(entity.x, entity.y + 30)
-    ctx.lineTo(entity.x + entityWidth, entity.y + 30)
+    ctx.arc(center.x, center.y, 4, 0, 2 * Math.PI)
+    ctx.fill()
     ctx.stroke()
+  }
+}
 
-    // Draw attributes
-    ctx.font = FONTS.SMALL
-    ctx.textAlign = "left"
-    let y = entity.y + 45
-    entity.attributes.forEach((attr) => {
-      const text = `${attr.name}: ${attr.type}`
-      ctx.fillText(text, entity.x + 5, y)
-
-      // Draw constraints
-      if (attr.constraints.length > 0) {
-        ctx.fillStyle = COLORS.GRAY
-        ctx.fillText(attr.constraints.join(" "), entity.x + 5, y + 12)
-        ctx.fillStyle = COLORS.BLACK
-        y += 12
-      }
-      y += 15
-    })
+// ER diagram renderer
+async function renderERDiagram(ctx: DiagramContext, code: string, width: number, height: number) {
+  const { direction, entities, relationships } = parseERDiagram(code).ast
+
+  const layout = layoutGraph(
+    entities.map((entity) => ({ id: entity.name, ...measureEntity(ctx, entity) })),
+    relationships.map((rel) => ({ from: rel.from, to: rel.to, ...measureEdgeLabel(ctx, rel.label) })),
+    [],
+    { direction, rankSpacing: 60 },
+  )
+
+  // Draw relationships
+  relationships.forEach((rel, index) => {
+    const { points } = layout.edges[index]
+    if (points.length < 2) return
+    drawEdge(ctx, points, { dashed: !rel.identifying, arrow: false })
+    drawCardinality(ctx, points[0], points[1], rel.fromCardinality)
+    drawCardinality(ctx, points[points.length - 1], points[points.length - 2], rel.toCardinality)
+  })
+  relationships.forEach((rel, index) => drawEdgeLabel(ctx, rel.label, layout.edges[index].label))
+
+  // Draw entities
+  entities.forEach((entity) => {
+    const box = layout.nodes.get(entity.name)
+    if (box) drawEntity(ctx, entity, box)
   })
 }
 
 // Git graph renderer
-async function renderGitGraph(ctx: CanvasRenderingContext2D, code: string, width: number, height: number) {
-  const commits = []
-  const branches = new Map()
-  const lines = code.split("\n").filter((line) => line.trim())
-
-  let currentBranch = "main"
+async function renderGitGraph(ctx: DiagramContext, code: string, width: number, height: number) {
+  const commits: Array<{ id: string; branch: string; x: number }> = []
+  const branches = new Map<string, { name: string; color: string; y: number }>()
   branches.set("main", { name: "main", color: COLORS.BLACK, y: 100 })
 
-  lines.forEach((line) => {
-    const trimmed = line.trim()
-    if (trimmed.startsWith("commit")) {
-      const idMatch = trimmed.match(/id:\s*"([^"]+)"/)
-      const id = idMatch ? idMatch[1] : `commit-${commits.length}`
-      commits.push({
-        id,
-        branch: currentBranch,
-        x: 50 + commits.length * 80,
-        y: branches.get(currentBranch)?.y || 100,
-      })
-    } else if (trimmed.startsWith("branch ")) {
-      const branchName = trimmed.split(" ")[1]
-      const branchY = 100 + branches.size * 60
-      branches.set(branchName, { name: branchName, color: COLORS.GRAY, y: branchY })
-    } else if (trimmed.startsWith("checkout ")) {
-      currentBranch = trimmed.split(" ")[1]
-    } else if (trimmed.startsWith("merge ")) {
-      const mergeBranch = trimmed.split(" ")[1]
-      const fromBranch = branches.get(mergeBranch)
-      const toBranch = branches.get(currentBranch)
-
-      if (fromBranch && toBranch) {
-        // Draw merge line
-        const lastCommit = commits[commits.length - 1]
-        if (lastCommit) {
-          ctx.strokeStyle = COLORS.GRAY
-          ctx.lineWidth = 1
-          ctx.setLineDash([3, 3])
-          ctx.beginPath()
-          ctx.moveTo(lastCommit.x, fromBranch.y)
-          ctx.lineTo(lastCommit.x, toBranch.y)
-          ctx.stroke()
-          ctx.setLineDash([])
-        }
+  parseGitGraph(code).ast.operations.forEach((operation) => {
+    if (operation.type === "commit") {
+      const id = operation.id || `commit-${commits.length}`
+      commits.push({ id, branch: operation.branch, x: 50 + commits.length * 80 })
+    } else if (operation.type === "branch") {
+      branches.set(operation.name, { name: operation.name, color: COLORS.GRAY, y: 100 + branches.size * 60 })
+    } else {
+      const fromBranch = branches.get(operation.branch)
+      const toBranch = branches.get(operation.into)
+      const lastCommit = commits[commits.length - 1]
+
+      // Draw merge line
+      if (fromBranch && toBranch && lastCommit) {
+        ctx.strokeStyle = COLORS.GRAY
+        ctx.lineWidth = 1
+        ctx.setLineDash([3, 3])
+        ctx.beginPath()
+        ctx.moveTo(lastCommit.x, fromBranch.y)
+        ctx.lineTo(lastCommit.x, toBranch.y)
+        ctx.stroke()
+        ctx.setLineDash([])
       }
     }
   })
@@ -1172,39 +1197,11 @@ async function renderGitGraph(ctx: CanvasRenderingContext2D, code: string, width
 }
 
 // Quadrant chart renderer
-async function renderQuadrantChart(ctx: CanvasRenderingContext2D, code: string, width: number, height: number) {
-  const items = []
-  const quadrants = {}
-  const lines = code.split("\n").filter((line) => line.trim())
-
-  let title = "Quadrant Chart"
-  let xAxisLabel = "X Axis"
-  let yAxisLabel = "Y Axis"
-
-  lines.forEach((line) => {
-    const trimmed = line.trim()
-    if (trimmed.startsWith("title ")) {
-      title = trimmed.substring(6)
-    } else if (trimmed.startsWith("x-axis ")) {
-      xAxisLabel = trimmed.substring(7)
-    } else if (trimmed.startsWith("y-axis ")) {
-      yAxisLabel = trimmed.substring(7)
-    } else if (trimmed.startsWith("quadrant-")) {
-      const parts = trimmed.split(" ")
-      const quadNum = parts[0].split("-")[1]
-      const label = parts.slice(1).join(" ")
-      quadrants[quadNum] = label
-    } else if (trimmed.includes(": [") && trimmed.includes("]")) {
-      const match = trimmed.match(/(.+):\s*\[([0-9.]+),\s*([0-9.]+)\]/)
-      if (match) {
-        items.push({
-          name: match[1],
-          x: Number.parseFloat(match[2]),
-          y: Number.parseFloat(match[3]),
-        })
-      }
-    }
-  })
+async function renderQuadrantChart(ctx: DiagramContext, code: string, width: number, height: number) {
+  const { quadrants, points: items, ...ast } = parseQuadrantChart(code).ast
+  const title = ast.title || "Quadrant Chart"
+  const xAxisLabel = ast.xAxis || "X Axis"
+  const yAxisLabel = ast.yAxis || "Y Axis"
 
   const chartSize = Math.min(width - 100, height - 100)
   const chartX = (width - chartSize) / 2
@@ -1237,10 +1234,10 @@ async function renderQuadrantChart(ctx: CanvasRenderingContext2D, code: string,
   ctx.font = FONTS.SMALL
   ctx.fillStyle = COLORS.GRAY
   ctx.textAlign = "center"
-  if (quadrants["1"]) ctx.fillText(quadrants["1"], chartX + chartSize * 0.75, chartY + 20)
-  if (quadrants["2"]) ctx.fillText(quadrants["2"], chartX + chartSize * 0.25, chartY + 20)
-  if (quadrants["3"]) ctx.fillText(quadrants["3"], chartX + chartSize * 0.25, chartY + chartSize - 10)
-  if (quadrants["4"]) ctx.fillText(quadrants["4"], chartX + chartSize * 0.75, chartY + chartSize - 10)
+  if (quadrants[1]) ctx.fillText(quadrants[1], chartX + chartSize * 0.75, chartY + 20)
+  if (quadrants[2]) ctx.fillText(quadrants[2], chartX + chartSize * 0.25, chartY + 20)
+  if (quadrants[3]) ctx.fillText(quadrants[3], chartX + chartSize * 0.25, chartY + chartSize - 10)
+  if (quadrants[4]) ctx.fillText(quadrants[4], chartX + chartSize * 0.75, chartY + chartSize - 10)
 
   // Draw axis labels
   ctx.font = FONTS.NORMAL
@@ -1273,24 +1270,562 @@ async function renderQuadrantChart(ctx: CanvasRenderingContext2D, code: string,
   })
 }
 
-// Generic diagram renderer (fallback)
-async function renderGenericDiagram(ctx: CanvasRenderingContext2D, code: string, width: number, height: number) {
+// Mind map shapes
+const MINDMAP_TEXT_WIDTH = 140 // Labels wrap beyond this width
+
+interface MindmapItem {
+  node: MindmapNode
+  depth: number
+  lines: string[]
+  width: number
+  height: number
+  leaves: number // Leaves under the node, which decide the share of the circle its subtree gets
+  angle: number
+  x: number
+  y: number
+  children: MindmapItem[]
+}
+
+function measureMindmapNode(ctx: DiagramContext, node: MindmapNode, depth: number): MindmapItem {
+  ctx.font = depth === 0 ? FONTS.BOLD : FONTS.NORMAL
+  const lines = wrapText(ctx, node.label, MINDMAP_TEXT_WIDTH)
+  let width = Math.max(...lines.map((line) => ctx.measureText(line).width)) + 24
+  let height = lines.length * 14 + 16
+  if (node.shape === "circle") width = height = Math.max(width, height)
+
+  const children = node.children.map((child) => measureMindmapNode(ctx, child, depth + 1))
+  const leaves = children.reduce((sum, child) => sum + child.leaves, 0) || 1
+  return { node, depth, lines, width, height, leaves, angle: 0, x: 0, y: 0, children }
+}
+
+function drawMindmapNode(ctx: DiagramContext, item: MindmapItem) {
+  const { x: centerX, y: centerY, width, height } = item
+  const x = centerX - width / 2
+  const y = centerY - height / 2
+
+  ctx.strokeStyle = COLORS.BLACK
+  ctx.fillStyle = COLORS.WHITE
+  ctx.lineWidth = item.depth === 0 ? 2 : 1.5
+  ctx.setLineDash([])
+
+  switch (item.node.shape) {
+    case "rect":
+      ctx.beginPath()
+      ctx.rect(x, y, width, height)
+      break
+    case "rounded":
+      drawRoundedRect(ctx, x, y, width, height, 10)
+      break
+    case "circle":
+      ctx.beginPath()
+      ctx.arc(centerX, centerY, width / 2, 0, 2 * Math.PI)
+      break
+    case "cloud":
+      drawRoundedRect(ctx, x, y, width, height, height / 2)
+      break
+    case "bang":
+      ctx.lineWidth = 3
+      ctx.beginPath()
+      ctx.rect(x, y, width, height)
+      break
+    case "hexagon": {
+      const inset = height / 4
+      ctx.beginPath()
+      ctx.moveTo(x + inset, y)
+      ctx.lineTo(x + width - inset, y)
+      ctx.lineTo(x + width, centerY)
+      ctx.lineTo(x + width - inset, y + height)
+      ctx.lineTo(x + inset, y + height)
+      ctx.lineTo(x, centerY)
+      ctx.closePath()
+      break
+    }
+    default:
+      // Plain nodes stay in the background next to the ones given a shape
+      if (item.depth > 0) {
+        ctx.fillStyle = COLORS.PALE_GRAY
+        ctx.strokeStyle = COLORS.LIGHT_GRAY
+      }
+      drawRoundedRect(ctx, x, y, width, height)
+  }
+
+  ctx.fill()
+  ctx.stroke()
+
+  ctx.font = item.depth === 0 ? FONTS.BOLD : FONTS.NORMAL
+  drawTextLines(ctx, item.lines, centerX, centerY)
+}
+
+// Mind map renderer: the root in the middle, with each subtree in its own wedge of rings around it
+async function renderMindmap(ctx: DiagramContext, code: string, width: number, height: number) {
+  const { root } = parseMindmap(code).ast
+  if (!root) return
+
+  const tree = measureMindmapNode(ctx, root, 0)
+  const items: MindmapItem[] = []
+  const collect = (item: MindmapItem) => {
+    items.push(item)
+    item.children.forEach(collect)
+  }
+  collect(tree)
+
+  // Split each wedge between the children by the number of leaves under them
+  const spread = (item: MindmapItem, from: number, to: number) => {
+    item.angle = (from + to) / 2
+    let start = from
+    item.children.forEach((child) => {
+      const end = start + ((to - from) * child.leaves) / item.leaves
+      spread(child, start, end)
+      start = end
+    })
+  }
+  spread(tree, -Math.PI / 2, (3 * Math.PI) / 2)
+
+  // Rings far enough apart for the widest nodes on them, pushed outwards while any nodes overlap
+  const depth = Math.max(...items.map((item) => item.depth))
+  const halfWidths = Array.from({ length: depth + 1 }, (_, ring) =>
+    Math.max(...items.filter((item) => item.depth === ring).map((item) => item.width / 2)),
+  )
+  const radii = halfWidths.map((_, ring) =>
+    halfWidths.slice(0, ring).reduce((sum, half, index) => sum + half + halfWidths[index + 1] + 30, 0),
+  )
+  const overlaps = (a: MindmapItem, b: MindmapItem) =>
+    Math.abs(a.x - b.x) < (a.width + b.width) / 2 + 8 && Math.abs(a.y - b.y) < (a.height + b.height) / 2 + 8
+  for (let attempt = 0; attempt < 30; attempt++) {
+    items.forEach((item) => {
+      item.x = radii[item.depth] * Math.cos(item.angle)
+      item.y = radii[item.depth] * Math.sin(item.angle)
+    })
+    if (!items.some((item, index) => items.slice(index + 1).some((other) => overlaps(item, other)))) break
+    radii.forEach((radius, ring) => (radii[ring] = radius * 1.12))
+  }
+
+  // Branches curve out of their parent towards the child
+  items.forEach((item) => {
+    item.children.forEach((child) => {
+      ctx.strokeStyle = item.depth === 0 ? COLORS.BLACK : COLORS.GRAY
+      ctx.lineWidth = Math.max(1, 3 - item.depth)
+      ctx.setLineDash([])
+      ctx.beginPath()
+      ctx.moveTo(item.x, item.y)
+      ctx.quadraticCurveTo(
+        radii[item.depth] * Math.cos(child.angle),
+        radii[item.depth] * Math.sin(child.angle),
+        child.x,
+        child.y,
+      )
+      ctx.stroke()
+    })
+  })
+  items.forEach((item) => drawMindmapNode(ctx, item))
+}
+
+// Timeline renderer: periods along an axis, each with its events stacked below it
+async function renderTimeline(ctx: DiagramContext, code: string, width: number, height: number) {
+  const { title, sections, periods } = parseTimeline(code).ast
+  if (periods.length === 0) return
+
+  const columnWidth = 150
+  const totalWidth = periods.length * columnWidth
+  let top = 0
+
+  if (title) {
+    ctx.font = FONTS.LARGE
+    ctx.fillStyle = COLORS.BLACK
+    ctx.textAlign = "center"
+    ctx.fillText(title, totalWidth / 2, 14)
+    top += 34
+  }
+
+  // Sections span the periods that follow them
+  if (sections.length > 0) {
+    let first = 0
+    periods.forEach((period, index) => {
+      if (index < periods.length - 1 && periods[index + 1].section === period.section) return
+      if (period.section) {
+        ctx.fillStyle = COLORS.PALE_GRAY
+        ctx.strokeStyle = COLORS.GRAY
+        ctx.lineWidth = 1
+        ctx.setLineDash([])
+        drawRoundedRect(ctx, first * columnWidth + 5, top, (index - first + 1) * columnWidth - 10, 26)
+        ctx.fill()
+        ctx.stroke()
+
+        ctx.font = FONTS.BOLD
+        ctx.fillStyle = COLORS.BLACK
+        ctx.textAlign = "center"
+        ctx.fillText(period.section, ((first + index + 1) * columnWidth) / 2, top + 17)
+      }
+      first = index + 1
+    })
+    top += 38
+  }
+
+  // The axis runs through the middle of the period boxes
+  ctx.font = FONTS.BOLD
+  const periodLines = periods.map((period) => wrapText(ctx, period.period, columnWidth - 30))
+  const periodHeight = Math.max(...periodLines.map((lines) => lines.length)) * 14 + 14
+  const axisY = top + periodHeight / 2
+
+  ctx.strokeStyle = COLORS.BLACK
+  ctx.lineWidth = 2
+  ctx.setLineDash([])
+  ctx.beginPath()
+  ctx.moveTo(0, axisY)
+  ctx.lineTo(totalWidth, axisY)
+  ctx.stroke()
+  drawArrowHead(ctx, totalWidth, axisY, 0)
+
+  periods.forEach((period, index) => {
+    const centerX = (index + 0.5) * columnWidth
+    const boxWidth = columnWidth - 20
+
+    ctx.font = FONTS.SMALL
+    const events = period.events.map((event) => wrapText(ctx, event, boxWidth - 16))
+    const eventsBottom = events.reduce((y, lines) => y + lines.length * 14 + 22, top + periodHeight) - 10
+
+    if (events.length > 0) {
+      ctx.strokeStyle = COLORS.GRAY
+      ctx.lineWidth = 1
+      ctx.setLineDash([3, 3])
+      ctx.beginPath()
+      ctx.moveTo(centerX, top + periodHeight)
+      ctx.lineTo(centerX, eventsBottom)
+      ctx.stroke()
+      ctx.setLineDash([])
+    }
+
+    ctx.fillStyle = COLORS.WHITE
+    ctx.strokeStyle = COLORS.BLACK
+    ctx.lineWidth = 1.5
+    drawRoundedRect(ctx, centerX - boxWidth / 2, top, boxWidth, periodHeight)
+    ctx.fill()
+    ctx.stroke()
+    ctx.font = FONTS.BOLD
+    drawTextLines(ctx, periodLines[index], centerX, axisY)
+
+    let y = top + periodHeight + 12
+    events.forEach((lines) => {
+      const eventHeight = lines.length * 14 + 10
+      ctx.fillStyle = COLORS.PALE_GRAY
+      ctx.strokeStyle = COLORS.GRAY
+      ctx.lineWidth = 1
+      drawRoundedRect(ctx, centerX - boxWidth / 2 + 5, y, boxWidth - 10, eventHeight)
+      ctx.fill()
+      ctx.stroke()
+      ctx.font = FONTS.SMALL
+      drawTextLines(ctx, lines, centerX, y + eventHeight / 2)
+      y += eventHeight + 12
+    })
+  })
+}
+
+// Gantt chart renderer
+const DAY = 24 * 60 * 60 * 1000
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"]
+
+async function renderGantt(ctx: DiagramContext, code: string, width: number, height: number) {
+  const { title, tasks } = parseGantt(code).ast
+  if (tasks.length === 0) return
+
+  const start = Math.min(...tasks.map((task) => task.start))
+  const end = Math.max(...tasks.map((task) => task.end))
+  const chartWidth = Math.max(400, Math.min(800, ((end - start) / DAY) * 30))
+  const scale = chartWidth / Math.max(end - start, DAY)
+
+  // Section names go in a column on the left
+  ctx.font = FONTS.BOLD
+  const labelWidth = Math.max(20, ...tasks.map((task) => ctx.measureText(task.section || "").width + 20))
+  const toX = (time: number) => labelWidth + (time - start) * scale
+
+  const rowHeight = 26
+  const axisY = title ? 50 : 16
+  const rowsTop = axisY + 10
+  const rowsBottom = rowsTop + tasks.length * rowHeight
+
+  if (title) {
+    ctx.font = FONTS.LARGE
+    ctx.fillStyle = COLORS.BLACK
+    ctx.textAlign = "center"
+    ctx.fillText(title, labelWidth + chartWidth / 2, 20)
+  }
+
+  // Alternate shading marks where each section starts and ends
+  let sectionIndex = 0
+  tasks.forEach((task, index) => {
+    if (index > 0 && task.section === tasks[index - 1].section) return
+    const count = tasks.slice(index).findIndex((other) => other.section !== task.section)
+    const rows = count < 0 ? tasks.length - index : count
+    const y = rowsTop + index * rowHeight
+
+    ctx.fillStyle = sectionIndex++ % 2 === 0 ? COLORS.PALE_GRAY : COLORS.WHITE
+    ctx.fillRect(0, y, labelWidth + chartWidth, rows * rowHeight)
+    if (task.section) {
+      ctx.font = FONTS.BOLD
+      ctx.fillStyle = COLORS.BLACK
+      ctx.textAlign = "left"
+      ctx.fillText(task.section, 8, y + rowHeight / 2 + 4)
+    }
+  })
+
+  // Ticks every few days, or at the start of every few months for long charts
+  const ticks: Array<{ time: number; label: string }> = []
+  const dayStep = [1, 2, 7, 14].find((days) => days * DAY * scale >= 50)
+  if (dayStep) {
+    for (let time = start; time <= end; time += dayStep * DAY) {
+      const date = new Date(time)
+      ticks.push({ time, label: `${MONTHS[date.getUTCMonth()]} ${date.getUTCDate()}` })
+    }
+  } else {
+    const monthStep = [1, 2, 3, 6].find((months) => months * 30 * DAY * scale >= 50) || 12
+    const first = new Date(start)
+    for (let month = first.getUTCMonth() + 1; ; month += monthStep) {
+      const time = Date.UTC(first.getUTCFullYear(), month, 1)
+      if (time > end) break
+      const date = new Date(time)
+      ticks.push({ time, label: `${MONTHS[date.getUTCMonth()]} ${date.getUTCFullYear()}` })
+    }
+  }
+
+  ctx.font = FONTS.SMALL
+  ticks.forEach(({ time, label }) => {
+    ctx.strokeStyle = COLORS.LIGHT_GRAY
+    ctx.lineWidth = 1
+    ctx.setLineDash([3, 3])
+    ctx.beginPath()
+    ctx.moveTo(toX(time), rowsTop)
+    ctx.lineTo(toX(time), rowsBottom)
+    ctx.stroke()
+    ctx.setLineDash([])
+
+    ctx.fillStyle = COLORS.GRAY
+    ctx.textAlign = "center"
+    ctx.fillText(label, toX(time), axisY)
+  })
+
+  tasks.forEach((task, index) => {
+    const centerY = rowsTop + index * rowHeight + rowHeight / 2
+    const x = toX(task.start)
+    const barWidth = Math.max(2, toX(task.end) - x)
+
+    ctx.strokeStyle = COLORS.BLACK
+    ctx.lineWidth = task.critical ? 2.5 : 1
+    ctx.fillStyle = task.done ? COLORS.LIGHT_GRAY : task.active ? COLORS.PALE_GRAY : COLORS.WHITE
+    ctx.beginPath()
+    if (task.milestone) {
+      ctx.moveTo(x, centerY - 8)
+      ctx.lineTo(x + 8, centerY)
+      ctx.lineTo(x, centerY + 8)
+      ctx.lineTo(x - 8, centerY)
+      ctx.closePath()
+    } else {
+      ctx.rect(x, centerY - 9, barWidth, 18)
+    }
+    ctx.fill()
+    ctx.stroke()
+
+    // Names that don't fit in their bar go after it
+    ctx.font = FONTS.SMALL
+    ctx.fillStyle = COLORS.BLACK
+    const inside = !task.milestone && ctx.measureText(task.name).width + 10 <= barWidth
+    ctx.textAlign = inside ? "center" : "left"
+    const textX = inside ? x + barWidth / 2 : task.milestone ? x + 14 : x + barWidth + 6
+    ctx.fillText(task.name, textX, centerY + 4)
+  })
+}
+
+// Fills for pie slices and bars, dark to light so that neighbours stand apart in print
+const CHART_SHADES = ["#333333", "#777777", "#aaaaaa", "#d4d4d4", "#f5f5f5", "#555555", "#bbbbbb"]
+const DARK_SHADES = ["#333333", "#777777", "#555555"] // Shades that need white text
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(6)))
+}
+
+// Pie chart renderer
+async function renderPieChart(ctx: DiagramContext, code: string, width: number, height: number) {
+  const { title, showData, slices } = parsePieChart(code).ast
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0)
+  if (total <= 0) return
+
+  const radius = 110
+  const centerX = radius
+  const centerY = (title ? 40 : 0) + radius
+
+  if (title) {
+    ctx.font = FONTS.LARGE
+    ctx.fillStyle = COLORS.BLACK
+    ctx.textAlign = "center"
+    ctx.fillText(title, centerX, 14)
+  }
+
+  // Slices go clockwise from the top, each with its share written inside when there is room
+  let angle = -Math.PI / 2
+  slices.forEach((slice, index) => {
+    const sweep = (slice.value / total) * 2 * Math.PI
+    const shade = CHART_SHADES[index % CHART_SHADES.length]
+    if (sweep === 0) return
+
+    ctx.fillStyle = shade
+    ctx.strokeStyle = COLORS.BLACK
+    ctx.lineWidth = 1
+    ctx.setLineDash([])
+    ctx.beginPath()
+    ctx.moveTo(centerX, centerY)
+    ctx.arc(centerX, centerY, radius, angle, angle + sweep)
+    ctx.closePath()
+    ctx.fill()
+    ctx.stroke()
+
+    if (sweep > 0.3) {
+      const middle = angle + sweep / 2
+      ctx.font = FONTS.SMALL
+      ctx.fillStyle = DARK_SHADES.includes(shade) ? COLORS.WHITE : COLORS.BLACK
+      ctx.textAlign = "center"
+      const percentage = `${formatNumber(Math.round((slice.value / total) * 1000) / 10)}%`
+      const labelRadius = radius * 0.65
+      ctx.fillText(percentage, centerX + labelRadius * Math.cos(middle), centerY + labelRadius * Math.sin(middle) + 4)
+    }
+    angle += sweep
+  })
+
+  // Legend
+  const legendX = centerX + radius + 30
+  const legendY = centerY - (slices.length * 20) / 2
   ctx.font = FONTS.NORMAL
+  slices.forEach((slice, index) => {
+    const y = legendY + index * 20
+    ctx.fillStyle = CHART_SHADES[index % CHART_SHADES.length]
+    ctx.strokeStyle = COLORS.BLACK
+    ctx.lineWidth = 1
+    ctx.fillRect(legendX, y, 12, 12)
+    ctx.strokeRect(legendX, y, 12, 12)
+
+    ctx.fillStyle = COLORS.BLACK
+    ctx.textAlign = "left"
+    ctx.fillText(showData ? `${slice.label} [${formatNumber(slice.value)}]` : slice.label, legendX + 20, y + 10)
+  })
+}
+
+// Bar and line chart renderer
+async function renderXYChart(ctx: DiagramContext, code: string, width: number, height: number) {
+  const { title, xLabel, categories, yLabel, yRange, series } = parseXYChart(code).ast
+  if (categories.length === 0) return
+
+  // Round numbers for the y-axis, covering zero unless a range is given
+  const values = series.flatMap((item) => item.values)
+  let min = yRange ? yRange.min : Math.min(0, ...values)
+  let max = yRange ? yRange.max : Math.max(0, ...values)
+  if (max === min) max = min + 1
+  const rough = (max - min) / 5
+  const magnitude = 10 ** Math.floor(Math.log10(rough))
+  const step = magnitude * ([1, 2, 5].find((factor) => factor * magnitude >= rough) || 10)
+  if (!yRange) {
+    min = Math.floor(min / step) * step
+    max = Math.ceil(max / step) * step
+  }
+
+  const bars = series.filter((item) => item.type === "bar")
+  const bandWidth = Math.max(50, bars.length * 24 + 30)
+  const plotLeft = yLabel ? 70 : 50
+  const plotTop = title ? 40 : 10
+  const plotWidth = Math.max(300, categories.length * bandWidth)
+  const plotHeight = 260
+  const toY = (value: number) => plotTop + plotHeight - ((value - min) / (max - min)) * plotHeight
+  const baseline = toY(Math.min(max, Math.max(min, 0)))
+  const band = plotWidth / categories.length
+
+  if (title) {
+    ctx.font = FONTS.LARGE
+    ctx.fillStyle = COLORS.BLACK
+    ctx.textAlign = "center"
+    ctx.fillText(title, plotLeft + plotWidth / 2, 14)
+  }
+
+  // Grid lines with their values
+  ctx.font = FONTS.SMALL
+  for (let tick = Math.ceil(min / step) * step; tick <= max + step / 1000; tick += step) {
+    ctx.strokeStyle = COLORS.LIGHT_GRAY
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    ctx.moveTo(plotLeft, toY(tick))
+    ctx.lineTo(plotLeft + plotWidth, toY(tick))
+    ctx.stroke()
+
+    ctx.fillStyle = COLORS.GRAY
+    ctx.textAlign = "right"
+    ctx.fillText(formatNumber(tick), plotLeft - 6, toY(tick) + 4)
+  }
+
+  // Bars side by side in each category's band
+  const groupWidth = band * 0.7
+  bars.forEach((item, barIndex) => {
+    item.values.forEach((value, index) => {
+      const x = plotLeft + index * band + (band - groupWidth) / 2 + (barIndex * groupWidth) / bars.length
+      const y = toY(Math.min(max, Math.max(min, value)))
+      ctx.fillStyle = CHART_SHADES[barIndex % CHART_SHADES.length]
+      ctx.strokeStyle = COLORS.BLACK
+      ctx.lineWidth = 1
+      ctx.fillRect(x, Math.min(y, baseline), groupWidth / bars.length, Math.abs(baseline - y))
+      ctx.strokeRect(x, Math.min(y, baseline), groupWidth / bars.length, Math.abs(baseline - y))
+    })
+  })
+
+  // Lines through the middle of the bands, dashed from the second one on
+  series
+    .filter((item) => item.type === "line")
+    .forEach((item, lineIndex) => {
+      const points = item.values.map((value, index) => ({ x: plotLeft + (index + 0.5) * band, y: toY(value) }))
+      ctx.strokeStyle = COLORS.BLACK
+      ctx.lineWidth = 2
+      ctx.setLineDash(lineIndex % 2 === 0 ? [] : [6, 4])
+      ctx.beginPath()
+      points.forEach((point, index) => (index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)))
+      ctx.stroke()
+      ctx.setLineDash([])
+
+      points.forEach((point) => {
+        ctx.fillStyle = COLORS.WHITE
+        ctx.lineWidth = 1.5
+        ctx.beginPath()
+        ctx.arc(point.x, point.y, 3, 0, 2 * Math.PI)
+        ctx.fill()
+        ctx.stroke()
+      })
+    })
+
+  // Axes
+  ctx.strokeStyle = COLORS.BLACK
+  ctx.lineWidth = 1.5
+  ctx.beginPath()
+  ctx.moveTo(plotLeft, plotTop)
+  ctx.lineTo(plotLeft, plotTop + plotHeight)
+  ctx.lineTo(plotLeft + plotWidth, plotTop + plotHeight)
+  ctx.stroke()
+
+  ctx.font = FONTS.SMALL
   ctx.fillStyle = COLORS.BLACK
   ctx.textAlign = "center"
-  ctx.fillText("Diagram Type Not Supported", width / 2, height / 2)
-  ctx.fillText("Please check your diagram syntax", width / 2, height / 2 + 20)
-}
+  categories.forEach((category, index) => {
+    ctx.fillText(category, plotLeft + (index + 0.5) * band, plotTop + plotHeight + 16)
+  })
 
-// Helper functions
-function getShapeFromSyntax(nodeText: string): string {
-  if (nodeText.includes("{") && nodeText.includes("}")) return "diamond"
-  if (nodeText.includes("((") && nodeText.includes("))")) return "circle"
-  return "rectangle"
+  ctx.font = FONTS.NORMAL
+  if (xLabel) ctx.fillText(xLabel, plotLeft + plotWidth / 2, plotTop + plotHeight + 38)
+  if (yLabel) {
+    ctx.save()
+    ctx.translate(16, plotTop + plotHeight / 2)
+    ctx.rotate(-Math.PI / 2)
+    ctx.fillText(yLabel, 0, 0)
+    ctx.restore()
+  }
 }
 
-function getNodeLabel(nodeText: string): string {
-  // Extract label from various bracket types
-  const match = nodeText.match(/[[{$$]+([^\]}$$]+)[\]})]+/)
-  return match ? match[1] : nodeText
+// Generic diagram renderer (fallback)
+async function renderGenericDiagram(ctx: DiagramContext, code: string, width: number, height: number) {
+  ctx.font = FONTS.NORMAL
+  ctx.fillStyle = COLORS.BLACK
+  ctx.textAlign = "center"
+  ctx.fillText("Diagram Type Not Supported", width / 2, height / 2)
+  ctx.fillText("Please check your diagram syntax", width / 2, height / 2 + 20)
 }
@@ -0,0 +1,96 @@
+/**
+ * Line-based diff used by the revision history panel
+ */
+
+export type DiffLineType = "added" | "removed" | "unchanged"
+
+export interface DiffLine {
+  type: DiffLineType
+  text: string
+  oldLineNumber?: number
+  newLineNumber?: number
+}
+
+export interface DiffStats {
+  added: number
+  removed: number
+}
+
+// Compute a line diff between two texts using the longest common subsequence
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split("\n")
+  const newLines = newText.split("\n")
+
+  // Skip the common prefix and suffix so the LCS table only covers the changed block
+  let prefix = 0
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++
+  }
+
+  let suffix = 0
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix)
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix)
+
+  // Build the LCS length table for the changed block
+  const rows = oldMiddle.length
+  const cols = newMiddle.length
+  const table: number[][] = Array.from({ length: rows + 1 }, () => new Array(cols + 1).fill(0))
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      table[i][j] =
+        oldMiddle[i] === newMiddle[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1])
+    }
+  }
+
+  const result: DiffLine[] = []
+  let oldLineNumber = 1
+  let newLineNumber = 1
+
+  const pushUnchanged = (text: string) => {
+    result.push({ type: "unchanged", text, oldLineNumber: oldLineNumber++, newLineNumber: newLineNumber++ })
+  }
+
+  oldLines.slice(0, prefix).forEach(pushUnchanged)
+
+  // Walk the table to emit removed/added/unchanged lines in order
+  let i = 0
+  let j = 0
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && oldMiddle[i] === newMiddle[j]) {
+      pushUnchanged(oldMiddle[i])
+      i++
+      j++
+    } else if (j < cols && (i === rows || table[i][j + 1] >= table[i + 1][j])) {
+      result.push({ type: "added", text: newMiddle[j], newLineNumber: newLineNumber++ })
+      j++
+    } else {
+      result.push({ type: "removed", text: oldMiddle[i], oldLineNumber: oldLineNumber++ })
+      i++
+    }
+  }
+
+  oldLines.slice(oldLines.length - suffix).forEach(pushUnchanged)
+
+  return result
+}
+
+// Count added and removed lines in a diff
+export function getDiffStats(diff: DiffLine[]): DiffStats {
+  return diff.reduce(
+    (stats, line) => {
+      if (line.type === "added") stats.added++
+      if (line.type === "removed") stats.removed++
+      return stats
+    },
+    { added: 0, removed: 0 },
+  )
+}
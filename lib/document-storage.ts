@@ -0,0 +1,294 @@
+/**
+ * Document storage utility using IndexedDB
+ * Each note is stored as its own record so saving one note never rewrites the whole library
+ */
+
+import type { DocumentData, DocumentRevision } from "./storage-utils"
+import type { SearchIndexEntry } from "./search-index"
+import { settleTransaction } from "./indexeddb-utils"
+
+// Database name and version
+const DB_NAME = "cornell-notes-documents"
+const DB_VERSION = 3
+const STORE_NAME = "documents"
+const REVISIONS_STORE_NAME = "revisions"
+const SEARCH_INDEX_STORE_NAME = "search-index"
+
+// Legacy localStorage keys
+const LEGACY_STORAGE_KEY = "cornell-notes-docs"
+const MIGRATION_FLAG_KEY = "cornell-notes-docs-migrated"
+
+// Pending migration, shared by all callers so it only runs once per page load
+let migrationPromise: Promise<void> | null = null
+
+// Open the database connection
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onerror = (event) => {
+      console.error("Error opening IndexedDB:", event)
+      reject(new Error("Could not open document database"))
+    }
+
+    request.onsuccess = (event) => {
+      resolve((event.target as IDBOpenDBRequest).result)
+    }
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result
+
+      // Create the document store with indexes used for lookups and sorting
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: "id" })
+        store.createIndex("title", "title", { unique: false })
+        store.createIndex("tags", "tags", { unique: false, multiEntry: true })
+        store.createIndex("createdAt", "createdAt", { unique: false })
+      }
+
+      // Create the revision store (added in version 2) with an index per document
+      if (!db.objectStoreNames.contains(REVISIONS_STORE_NAME)) {
+        const revisions = db.createObjectStore(REVISIONS_STORE_NAME, { keyPath: "id" })
+        revisions.createIndex("documentId", "documentId", { unique: false })
+      }
+
+      // Create the full-text search index store (added in version 3), one entry per document
+      if (!db.objectStoreNames.contains(SEARCH_INDEX_STORE_NAME)) {
+        db.createObjectStore(SEARCH_INDEX_STORE_NAME, { keyPath: "documentId" })
+      }
+    }
+  })
+}
+
+// Copy documents from the old single localStorage blob into IndexedDB (runs once)
+async function migrateFromLocalStorage(): Promise<void> {
+  if (typeof window === "undefined") return
+  if (localStorage.getItem(MIGRATION_FLAG_KEY)) return
+
+  const legacyDocs = localStorage.getItem(LEGACY_STORAGE_KEY)
+  if (!legacyDocs) {
+    localStorage.setItem(MIGRATION_FLAG_KEY, new Date().toISOString())
+    return
+  }
+
+  let docs: DocumentData[]
+  try {
+    docs = JSON.parse(legacyDocs)
+  } catch (error) {
+    console.error("Error parsing legacy documents, skipping migration:", error)
+    return
+  }
+
+  const db = await openDB()
+  const transaction = db.transaction([STORE_NAME], "readwrite")
+  const store = transaction.objectStore(STORE_NAME)
+
+  docs.forEach((doc) => {
+    if (doc && doc.id) {
+      // Keep any record already written to IndexedDB
+      store.add(doc).onerror = (event) => {
+        event.preventDefault()
+        event.stopPropagation()
+      }
+    }
+  })
+  await settleTransaction(db, transaction, "Failed to migrate documents", () => undefined)
+
+  // The legacy blob is kept as a fallback copy; the flag stops it being read again
+  localStorage.setItem(MIGRATION_FLAG_KEY, new Date().toISOString())
+  console.log(`Migrated ${docs.length} documents from localStorage to IndexedDB`)
+}
+
+// Ensure the legacy migration has run before touching the store
+function ensureMigrated(): Promise<void> {
+  if (!migrationPromise) {
+    migrationPromise = migrateFromLocalStorage().catch((error) => {
+      console.error("Error in migrateFromLocalStorage:", error)
+      migrationPromise = null
+    })
+  }
+  return migrationPromise
+}
+
+// Get every stored document record
+export async function getAllDocumentRecords(): Promise<DocumentData[]> {
+  await ensureMigrated()
+
+  const db = await openDB()
+  const transaction = db.transaction([STORE_NAME], "readonly")
+  const request = transaction.objectStore(STORE_NAME).getAll()
+
+  return settleTransaction(db, transaction, "Failed to retrieve documents", () => request.result as DocumentData[])
+}
+
+// Get a single document record by ID
+export async function getDocumentRecord(id: string): Promise<DocumentData | null> {
+  await ensureMigrated()
+
+  const db = await openDB()
+  const transaction = db.transaction([STORE_NAME], "readonly")
+  const request = transaction.objectStore(STORE_NAME).get(id)
+
+  return settleTransaction(
+    db,
+    transaction,
+    "Failed to retrieve document",
+    () => (request.result as DocumentData | undefined) || null,
+  )
+}
+
+// Get document records carrying a given tag
+export async function getDocumentRecordsByTag(tag: string): Promise<DocumentData[]> {
+  await ensureMigrated()
+
+  const db = await openDB()
+  const transaction = db.transaction([STORE_NAME], "readonly")
+  const request = transaction.objectStore(STORE_NAME).index("tags").getAll(tag)
+
+  return settleTransaction(
+    db,
+    transaction,
+    "Failed to retrieve documents by tag",
+    () => request.result as DocumentData[],
+  )
+}
+
+// Create or replace a document record
+export async function putDocumentRecord(doc: DocumentData): Promise<void> {
+  await ensureMigrated()
+
+  const db = await openDB()
+  const transaction = db.transaction([STORE_NAME], "readwrite")
+  transaction.objectStore(STORE_NAME).put(doc)
+
+  return settleTransaction(db, transaction, "Failed to store document", () => undefined)
+}
+
+// Delete a document record by ID, returning whether it existed
+export async function deleteDocumentRecord(id: string): Promise<boolean> {
+  await ensureMigrated()
+
+  const db = await openDB()
+  const transaction = db.transaction([STORE_NAME], "readwrite")
+  const store = transaction.objectStore(STORE_NAME)
+
+  let existed = false
+  const countRequest = store.count(id)
+  countRequest.onsuccess = () => {
+    existed = countRequest.result > 0
+    if (existed) {
+      store.delete(id)
+    }
+  }
+
+  return settleTransaction(db, transaction, "Failed to delete document", () => existed)
+}
+
+// Get all revisions of a document, oldest first
+export async function getRevisionRecords(documentId: string): Promise<DocumentRevision[]> {
+  const db = await openDB()
+  const transaction = db.transaction([REVISIONS_STORE_NAME], "readonly")
+  const request = transaction.objectStore(REVISIONS_STORE_NAME).index("documentId").getAll(documentId)
+
+  return settleTransaction(db, transaction, "Failed to retrieve revisions", () => {
+    const revisions = request.result as DocumentRevision[]
+    return revisions.sort((a, b) => a.savedAt.localeCompare(b.savedAt))
+  })
+}
+
+// Get the revisions of every document
+export async function getAllRevisionRecords(): Promise<DocumentRevision[]> {
+  const db = await openDB()
+  const transaction = db.transaction([REVISIONS_STORE_NAME], "readonly")
+  const request = transaction.objectStore(REVISIONS_STORE_NAME).getAll()
+
+  return settleTransaction(db, transaction, "Failed to retrieve revisions", () => request.result as DocumentRevision[])
+}
+
+// Add revisions that are not stored yet, returning how many were added
+export async function addMissingRevisionRecords(revisions: DocumentRevision[]): Promise<number> {
+  const db = await openDB()
+  const transaction = db.transaction([REVISIONS_STORE_NAME], "readwrite")
+  const store = transaction.objectStore(REVISIONS_STORE_NAME)
+
+  let added = 0
+  revisions.forEach((revision) => {
+    const request = store.add(revision)
+    request.onsuccess = () => added++
+    // Keep the revision already stored under this id
+    request.onerror = (event) => {
+      event.preventDefault()
+      event.stopPropagation()
+    }
+  })
+
+  return settleTransaction(db, transaction, "Failed to store revisions", () => added)
+}
+
+// Append a revision and drop the oldest ones beyond maxRevisions
+export async function addRevisionRecord(revision: DocumentRevision, maxRevisions: number): Promise<void> {
+  const existing = await getRevisionRecords(revision.documentId)
+  const overflow = existing.length + 1 - maxRevisions
+
+  const db = await openDB()
+  const transaction = db.transaction([REVISIONS_STORE_NAME], "readwrite")
+  const store = transaction.objectStore(REVISIONS_STORE_NAME)
+
+  store.add(revision)
+  if (overflow > 0) {
+    existing.slice(0, overflow).forEach((old) => store.delete(old.id))
+  }
+
+  return settleTransaction(db, transaction, "Failed to store revision", () => undefined)
+}
+
+// Delete every revision of a document
+export async function deleteRevisionRecords(documentId: string): Promise<void> {
+  const db = await openDB()
+  const transaction = db.transaction([REVISIONS_STORE_NAME], "readwrite")
+  const store = transaction.objectStore(REVISIONS_STORE_NAME)
+
+  const request = store.index("documentId").openKeyCursor(IDBKeyRange.only(documentId))
+  request.onsuccess = () => {
+    const cursor = request.result
+    if (cursor) {
+      store.delete(cursor.primaryKey)
+      cursor.continue()
+    }
+  }
+
+  return settleTransaction(db, transaction, "Failed to delete revisions", () => undefined)
+}
+
+// Get every search index entry
+export async function getAllSearchIndexRecords(): Promise<SearchIndexEntry[]> {
+  const db = await openDB()
+  const transaction = db.transaction([SEARCH_INDEX_STORE_NAME], "readonly")
+  const request = transaction.objectStore(SEARCH_INDEX_STORE_NAME).getAll()
+
+  return settleTransaction(
+    db,
+    transaction,
+    "Failed to retrieve search index",
+    () => request.result as SearchIndexEntry[],
+  )
+}
+
+// Create or replace the search index entries of one or more documents
+export async function putSearchIndexRecords(entries: SearchIndexEntry[]): Promise<void> {
+  const db = await openDB()
+  const transaction = db.transaction([SEARCH_INDEX_STORE_NAME], "readwrite")
+  const store = transaction.objectStore(SEARCH_INDEX_STORE_NAME)
+  entries.forEach((entry) => store.put(entry))
+
+  return settleTransaction(db, transaction, "Failed to store search index", () => undefined)
+}
+
+// Delete the search index entry of a document
+export async function deleteSearchIndexRecord(documentId: string): Promise<void> {
+  const db = await openDB()
+  const transaction = db.transaction([SEARCH_INDEX_STORE_NAME], "readwrite")
+  transaction.objectStore(SEARCH_INDEX_STORE_NAME).delete(documentId)
+
+  return settleTransaction(db, transaction, "Failed to delete search index entry", () => undefined)
+}
@@ -1,5 +1,40 @@
+/**
+ * Markdown export and import
+ *
+ * Export zip layout:
+ *   notes/<title>-<id>.md    YAML frontmatter (id, title, summary, tags, folder, source, createdAt, updatedAt)
+ *                            followed by the note's markdown exactly as stored
+ *   assets/<image id>.<ext>  Images, linked from notes as ../assets/<image id>.<ext>
+ *
+ * Importing the zip (or its .md files) upserts by id, so a round trip restores notes
+ * instead of duplicating them. Files without frontmatter are read as plain markdown.
+ */
+
 import JSZip from "jszip"
-import { getAllDocuments, saveDocument, type DocumentData } from "./storage-utils"
+import { getAllDocuments, getDocument, saveDocument, type DocumentData } from "./storage-utils"
+import { getImage, importImages } from "./image-storage"
+import { parseFrontmatter, serializeFrontmatter, getFrontmatterList, type FrontmatterValue } from "./frontmatter"
+
+export interface MarkdownImportResult {
+  created: number
+  updated: number
+  unchanged: number // Notes whose id and content already match the library
+  failed: number
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+  "image/bmp": "bmp",
+}
+
+const STORED_IMAGE_REGEX = /cornell-image:\/\/([A-Za-z0-9_-]+)/g
+
+// Asset links written by the export, with or without the leading "../"
+const ASSET_LINK_REGEX = /(?:\.\.\/)?assets\/([A-Za-z0-9_-]+)\.([A-Za-z0-9]+)/g
 
 // Helper function to download a blob
 function downloadBlob(blob: Blob, filename: string) {
@@ -20,49 +55,80 @@ function downloadBlob(blob: Blob, filename: string) {
   setTimeout(() => URL.revokeObjectURL(url), 100)
 }
 
+// File extension for an image data URL
+export function getImageExtension(dataUrl: string): string {
+  const mimeType = dataUrl.match(/^data:([^;,]+)/)?.[1] || ""
+  return IMAGE_EXTENSIONS[mimeType] || "png"
+}
+
+function getImageMimeType(extension: string): string {
+  const lower = extension.toLowerCase() === "jpeg" ? "jpg" : extension.toLowerCase()
+  return Object.keys(IMAGE_EXTENSIONS).find((mimeType) => IMAGE_EXTENSIONS[mimeType] === lower) || "image/png"
+}
+
+// Write a note as markdown with its metadata in frontmatter
+function serializeNote(doc: DocumentData, content: string): string {
+  const data: Record<string, FrontmatterValue | undefined> = {
+    id: doc.id,
+    title: doc.title,
+    summary: doc.summary || "",
+    tags: doc.tags || [],
+    folder: doc.folder,
+    source: doc.sourceUrl,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+  }
+
+  return serializeFrontmatter(data) + content
+}
+
 // Export all notes as markdown files in a zip
 export async function exportAllToZip(documents?: DocumentData[]): Promise<void> {
-  const docs = documents || getAllDocuments()
+  const docs = documents || (await getAllDocuments())
 
   if (docs.length === 0) {
     throw new Error("No documents to export")
   }
 
   const zip = new JSZip()
-
-  // Create a folder for the notes
   const notesFolder = zip.folder("notes")
+  const assetsFolder = zip.folder("assets")
 
-  // Add each document as a markdown file
-  docs.forEach((doc) => {
-    // Create a safe filename
-    const filename = `${doc.title.replace(/[^a-z0-9]/gi, "-").toLowerCase()}-${doc.id.substring(0, 8)}.md`
-
-    // Create markdown content
-    let content = `# ${doc.title}\n\n`
+  // Image id -> asset filename, so each image is written once
+  const assetNames = new Map<string, string | null>()
 
-    // Add summary if it exists
-    if (doc.summary) {
-      content += `> ${doc.summary}\n\n`
-    }
+  for (const doc of docs) {
+    const imageIds = new Set(Array.from(doc.content.matchAll(STORED_IMAGE_REGEX), (match) => match[1]))
 
-    // Add tags if they exist
-    if (doc.tags && doc.tags.length > 0) {
-      content += `Tags: ${doc.tags.join(", ")}\n\n`
-    }
+    for (const imageId of imageIds) {
+      if (assetNames.has(imageId)) continue
 
-    // Add creation date
-    content += `Created: ${new Date(doc.createdAt).toLocaleDateString()}\n\n`
+      const data = await getImage(imageId)
+      if (!data) {
+        // Keep the original reference for images that are no longer stored
+        assetNames.set(imageId, null)
+        continue
+      }
 
-    // Add separator
-    content += `---\n\n`
+      const assetName = `${imageId}.${getImageExtension(data)}`
+      const payload = data.slice(data.indexOf(",") + 1)
+      if (data.includes(";base64,")) {
+        assetsFolder?.file(assetName, payload, { base64: true })
+      } else {
+        assetsFolder?.file(assetName, decodeURIComponent(payload))
+      }
+      assetNames.set(imageId, assetName)
+    }
 
-    // Add the main content
-    content += doc.content
+    const content = doc.content.replace(STORED_IMAGE_REGEX, (match, imageId: string) => {
+      const assetName = assetNames.get(imageId)
+      return assetName ? `../assets/${assetName}` : match
+    })
 
-    // Add to zip
-    notesFolder?.file(filename, content)
-  })
+    // Include the full id so notes with the same title never overwrite each other
+    const filename = `${doc.title.replace(/[^a-z0-9]/gi, "-").toLowerCase()}-${doc.id}.md`
+    notesFolder?.file(filename, serializeNote(doc, content))
+  }
 
   // Generate the zip file
   const zipBlob = await zip.generateAsync({ type: "blob" })
@@ -71,62 +137,154 @@ export async function exportAllToZip(documents?: DocumentData[]): Promise<void>
   downloadBlob(zipBlob, "notes-export.zip")
 }
 
-// Import markdown files
-export async function importMarkdownFiles(files: FileList): Promise<number> {
-  let importedCount = 0
+// Read the older export layout (# title, > summary, Tags: line) or any plain markdown file
+function parseLegacyMarkdown(name: string, content: string) {
+  // Extract title from the first heading or use filename
+  let title = name.replace(/^.*\//, "").replace(/\.md$/, "")
+  const titleMatch = content.match(/^# (.+)$/m)
+  if (titleMatch) {
+    title = titleMatch[1]
+  }
 
-  const importPromises = Array.from(files).map(async (file) => {
-    // Only process markdown files
-    if (!file.name.endsWith(".md")) return
+  // Extract summary (optional)
+  let summary = ""
+  const summaryMatch = content.match(/^> (.+)$/m)
+  if (summaryMatch) {
+    summary = summaryMatch[1]
+  }
 
-    try {
-      const content = await file.text()
+  // Extract tags (optional)
+  let tags: string[] = []
+  const tagsMatch = content.match(/^Tags: (.+)$/m)
+  if (tagsMatch) {
+    tags = tagsMatch[1].split(",").map((tag) => tag.trim())
+  }
 
-      // Extract title from the first heading or use filename
-      let title = file.name.replace(/\.md$/, "")
-      const titleMatch = content.match(/^# (.+)$/m)
-      if (titleMatch) {
-        title = titleMatch[1]
-      }
+  // Remove metadata from content
+  const cleanContent = content
+    .replace(/^# .+$/m, "") // Remove title
+    .replace(/^> .+$/m, "") // Remove summary
+    .replace(/^Tags: .+$/m, "") // Remove tags
+    .replace(/^Created: .+$/m, "") // Remove created date
+    .replace(/^Updated: .+$/m, "") // Remove updated date
+    .replace(/^Words: \d+$/m, "") // Remove word count
+    .replace(/^---$/m, "") // Remove separator
+    .trim()
 
-      // Extract summary (optional)
-      let summary = ""
-      const summaryMatch = content.match(/^> (.+)$/m)
-      if (summaryMatch) {
-        summary = summaryMatch[1]
-      }
+  return { title, summary, tags, content: cleanContent }
+}
 
-      // Extract tags (optional)
-      let tags: string[] = []
-      const tagsMatch = content.match(/^Tags: (.+)$/m)
-      if (tagsMatch) {
-        tags = tagsMatch[1].split(",").map((tag) => tag.trim())
-      }
+// Point asset links back at stored images, restoring images from the zip when needed
+async function restoreAssetLinks(content: string, zip: JSZip | null): Promise<string> {
+  const restored = new Map<string, boolean>()
 
-      // Remove metadata from content
-      const cleanContent = content
-        .replace(/^# .+$/m, "") // Remove title
-        .replace(/^> .+$/m, "") // Remove summary
-        .replace(/^Tags: .+$/m, "") // Remove tags
-        .replace(/^Created: .+$/m, "") // Remove created date
-        .replace(/^---$/m, "") // Remove separator
-        .trim()
-
-      // Save the document
-      saveDocument({
-        title,
-        summary,
-        tags,
-        content: cleanContent,
-        createdAt: new Date().toISOString(),
-      })
-
-      importedCount++
-    } catch (error) {
-      console.error(`Error importing ${file.name}:`, error)
+  for (const match of content.matchAll(ASSET_LINK_REGEX)) {
+    const [, imageId, extension] = match
+    if (restored.has(imageId)) continue
+
+    const asset = zip?.file(new RegExp(`(^|/)assets/${imageId}\\.${extension}$`))[0]
+    if (asset) {
+      const base64 = await asset.async("base64")
+      await importImages({ [imageId]: `data:${getImageMimeType(extension)};base64,${base64}` })
+      restored.set(imageId, true)
+    } else {
+      // Without the asset the link only works if the image is already in this browser
+      restored.set(imageId, Boolean(await getImage(imageId)))
     }
+  }
+
+  return content.replace(ASSET_LINK_REGEX, (match, imageId: string) =>
+    restored.get(imageId) ? `cornell-image://${imageId}` : match,
+  )
+}
+
+// Import one markdown file; notes with an id in their frontmatter are upserted
+async function importMarkdownNote(
+  name: string,
+  text: string,
+  zip: JSZip | null,
+): Promise<"created" | "updated" | "unchanged"> {
+  const { data, body } = parseFrontmatter(text)
+  const id = typeof data.id === "string" ? data.id : ""
+
+  if (!id) {
+    const note = parseLegacyMarkdown(name, text)
+    await saveDocument({
+      ...note,
+      content: await restoreAssetLinks(note.content, zip),
+      createdAt: new Date().toISOString(),
+    })
+    return "created"
+  }
+
+  const getString = (key: string) => (typeof data[key] === "string" ? (data[key] as string) : "")
+  const note = {
+    id,
+    title: getString("title") || name.replace(/^.*\//, "").replace(/\.md$/, ""),
+    summary: getString("summary"),
+    tags: getFrontmatterList(data.tags),
+    folder: getString("folder") || undefined,
+    sourceUrl: getString("source") || undefined,
+    content: await restoreAssetLinks(body, zip),
+  }
+
+  const existing = await getDocument(id)
+  if (
+    existing &&
+    existing.title === note.title &&
+    (existing.summary || "") === note.summary &&
+    (existing.tags || []).join("\n") === note.tags.join("\n") &&
+    existing.folder === note.folder &&
+    existing.sourceUrl === note.sourceUrl &&
+    existing.content === note.content
+  ) {
+    return "unchanged"
+  }
+
+  await saveDocument({
+    ...note,
+    createdAt: getString("createdAt") || undefined,
+    updatedAt: getString("updatedAt") || undefined,
   })
+  return existing ? "updated" : "created"
+}
+
+// Import markdown files, or zips produced by exportAllToZip
+export async function importMarkdownFiles(files: FileList | File[]): Promise<MarkdownImportResult> {
+  const result: MarkdownImportResult = { created: 0, updated: 0, unchanged: 0, failed: 0 }
+
+  const importNote = async (name: string, readText: () => Promise<string>, zip: JSZip | null) => {
+    try {
+      const outcome = await importMarkdownNote(name, await readText(), zip)
+      result[outcome]++
+    } catch (error) {
+      console.error(`Error importing ${name}:`, error)
+      result.failed++
+    }
+  }
+
+  for (const file of Array.from(files)) {
+    if (file.name.endsWith(".zip")) {
+      const zip = await JSZip.loadAsync(file)
+      const entries = zip.file(/\.md$/).filter((entry) => !entry.name.split("/").some((part) => part.startsWith(".")))
+      for (const entry of entries) {
+        await importNote(entry.name, () => entry.async("string"), zip)
+      }
+    } else if (file.name.endsWith(".md")) {
+      await importNote(file.name, () => file.text(), null)
+    }
+  }
+
+  return result
+}
 
-  await Promise.all(importPromises)
-  return importedCount
+// Describe an import result for the user, e.g. "3 new, 1 updated"
+export function describeMarkdownImport(result: MarkdownImportResult): string {
+  const parts = [
+    `${result.created} new`,
+    result.updated > 0 ? `${result.updated} updated` : "",
+    result.unchanged > 0 ? `${result.unchanged} unchanged` : "",
+    result.failed > 0 ? `${result.failed} failed` : "",
+  ].filter(Boolean)
+  return parts.join(", ")
 }
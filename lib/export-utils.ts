@@ -1,6 +1,18 @@
 import { jsPDF } from "jspdf"
 import { getImage } from "./image-storage"
-import { extractNoteLinks } from "./link-utils"
+import { renderDiagramVector } from "./diagram-utils"
+import { extractNoteLinks, replaceNoteLinks } from "./link-utils"
+import {
+  drawText,
+  getEmbeddedFontName,
+  getTextWidth,
+  registerPdfFonts,
+  splitIntoWords,
+  splitTextToSize,
+} from "./pdf-fonts"
+import { CODE_THEME, tokenizeCode, wrapCodeLine } from "./syntax-highlight"
+import { drawVectorDrawing, type VectorDrawing } from "./vector-canvas"
+import { formatDocumentDetails, type DocumentData, type DocumentDetails } from "./storage-utils"
 
 interface Section {
   heading: string
@@ -14,41 +26,207 @@ interface FontSettings {
   titleFontSize: number
   bodyFontSize: number
   smallFontSize: number
+  documentTitleFontSize: number
+  lineHeight: number
+  codeLineHeight: number
 }
 
-// Replace the entire loadCustomFonts function with this simplified version that doesn't attempt to load custom fonts
-async function loadCustomFonts(doc: jsPDF): Promise<boolean> {
-  console.log("Custom font loading disabled - using built-in fonts only")
-  return false
+export type PdfFont = "sans" | "serif" | "mixed"
+export type PdfPageSize = "a4" | "letter" | "a5"
+export type PdfOrientation = "portrait" | "landscape"
+export type PdfHeaderFooterItem = "title" | "date" | "page" | "tags"
+
+export interface PdfExportOptions {
+  font: PdfFont
+  pageSize: PdfPageSize
+  orientation: PdfOrientation
+  margin: number // mm
+  cueColumnWidth: number // mm
+  fontScale: number // 1 = 11pt body text
+  lineSpacing: number // 1 = the default line height for the font size
+  header: PdfHeaderFooterItem[]
+  footer: PdfHeaderFooterItem[]
+  studySheet: boolean // Leave the cue column blank so cues can be written in by hand
+}
+
+export const DEFAULT_PDF_OPTIONS: PdfExportOptions = {
+  font: "sans",
+  pageSize: "a4",
+  orientation: "portrait",
+  margin: 15,
+  cueColumnWidth: 45,
+  fontScale: 1,
+  lineSpacing: 1,
+  header: [],
+  footer: [],
+  studySheet: false,
+}
+
+export const PDF_PAGE_SIZE_LABELS: Record<PdfPageSize, string> = {
+  a4: "A4",
+  letter: "Letter",
+  a5: "A5",
+}
+
+export const PDF_HEADER_FOOTER_LABELS: Record<PdfHeaderFooterItem, string> = {
+  title: "Title",
+  date: "Date",
+  page: "Page X of Y",
+  tags: "Tags",
+}
+
+const PDF_SETTINGS_KEY = "cornell-notes-pdf-settings"
+
+interface PdfNote {
+  title: string
+  summary: string
+  markdown: string
+  details?: DocumentDetails
+  tags?: string[]
+}
+
+// A clickable area drawn over a note link, pointing at the note it links to
+interface PdfLinkArea {
+  page: number
+  x: number
+  y: number
+  width: number
+  height: number
+  target: string
+}
+
+// Notes that links can point to (lower-case title -> note id) and the link areas drawn so far
+interface PdfLinkContext {
+  noteIds: Map<string, string>
+  areas: PdfLinkArea[]
+}
+
+// Where a link's label sits in a line of plain text
+interface PdfLinkRange {
+  start: number
+  end: number
+  target: string
+}
+
+interface PdfSectionPage {
+  heading: string
+  page: number
+}
+
+// Note links that point into the same PDF are kept in the content as "\uE000label\uE001noteId\uE002"
+// so the renderers can draw them as links; private-use characters never clash with Markdown
+const LINK_MARKER_REGEX = /\uE000([^\uE001]*)\uE001([^\uE002]*)\uE002/g
+const LINK_COLOR: [number, number, number] = [37, 99, 235]
+
+function stripLinkMarkers(text: string): string {
+  return text.replace(LINK_MARKER_REGEX, "$1")
+}
+
+// Remove link markers and return where each link's label ends up in the plain text
+function parseLinkMarkers(text: string): { text: string; ranges: PdfLinkRange[] } {
+  const ranges: PdfLinkRange[] = []
+  let plainText = ""
+  let lastIndex = 0
+
+  for (const match of text.matchAll(LINK_MARKER_REGEX)) {
+    plainText += text.substring(lastIndex, match.index)
+    ranges.push({ start: plainText.length, end: plainText.length + match[1].length, target: match[2] })
+    plainText += match[1]
+    lastIndex = (match.index || 0) + match[0].length
+  }
+
+  return { text: plainText + text.substring(lastIndex), ranges }
+}
+
+// Record a clickable area for link text drawn at the given baseline
+function addLinkArea(doc: jsPDF, links: PdfLinkContext, target: string, x: number, y: number, width: number) {
+  links.areas.push({ page: doc.getCurrentPageInfo().pageNumber, x, y: y - 4, width, height: 5, target })
+}
+
+// Draw a line of text; the parts covered by note links are coloured and made clickable
+function drawTextWithLinks(
+  doc: jsPDF,
+  line: string,
+  x: number,
+  y: number,
+  ranges: PdfLinkRange[],
+  links?: PdfLinkContext,
+) {
+  if (ranges.length === 0 || !links) {
+    drawText(doc, line, x, y)
+    return
+  }
+
+  let cursor = 0
+  const drawPart = (end: number, target?: string) => {
+    const part = line.substring(cursor, end)
+    const partX = x + getTextWidth(doc, line.substring(0, cursor))
+    if (target) {
+      doc.setTextColor(...LINK_COLOR)
+      drawText(doc, part, partX, y)
+      doc.setTextColor(0, 0, 0)
+      addLinkArea(doc, links, target, partX, y, getTextWidth(doc, part))
+    } else {
+      drawText(doc, part, partX, y)
+    }
+    cursor = end
+  }
+
+  for (const range of ranges) {
+    const start = Math.max(range.start, cursor)
+    const end = Math.min(range.end, line.length)
+    if (start >= end) continue
+    if (start > cursor) drawPart(start)
+    drawPart(end, range.target)
+  }
+  if (cursor < line.length) drawPart(line.length)
+}
+
+// Get the PDF export settings last used in this browser
+export function getPdfExportSettings(): PdfExportOptions {
+  try {
+    const settings = localStorage.getItem(PDF_SETTINGS_KEY)
+    return settings ? { ...DEFAULT_PDF_OPTIONS, ...JSON.parse(settings) } : DEFAULT_PDF_OPTIONS
+  } catch (error) {
+    console.error("Error loading PDF export settings:", error)
+    return DEFAULT_PDF_OPTIONS
+  }
+}
+
+export function savePdfExportSettings(options: PdfExportOptions): void {
+  localStorage.setItem(PDF_SETTINGS_KEY, JSON.stringify(options))
 }
 
 // Update the getFontSettings function to make serif font slightly larger
-function getFontSettings(font: "sans" | "serif" | "mixed"): FontSettings {
+function getFontSettings(font: PdfFont, fontScale = 1, lineSpacing = 1): FontSettings {
   // Consistent sizes across all font styles - slightly smaller than before
-  const titleFontSize = 14 // Reduced from varying sizes (14.5-16)
-  const bodyFontSize = 11 // Reduced from varying sizes (11.5-12.5)
-  const smallFontSize = 9 // Reduced from 10
+  const titleFontSize = 14 * fontScale // Reduced from varying sizes (14.5-16)
+  const bodyFontSize = 11 * fontScale // Reduced from varying sizes (11.5-12.5)
+  const smallFontSize = 9 * fontScale // Reduced from 10
+  const sizes = {
+    titleFontSize,
+    bodyFontSize,
+    smallFontSize,
+    documentTitleFontSize: 24 * fontScale,
+    lineHeight: 6 * fontScale * lineSpacing,
+    codeLineHeight: 5 * fontScale * lineSpacing,
+  }
 
-  // Always use built-in fonts
-  console.log("Using built-in fonts for PDF export")
+  // Built-in font families; setFont swaps in the embedded fonts registered for them
   switch (font) {
     case "serif":
       return {
         titleFont: "times", // Will be overridden to Georgia in setFont function
         bodyFont: "times", // Will be overridden to Georgia in setFont function
         mixedMode: false,
-        titleFontSize, // Now consistent 14
-        bodyFontSize, // Now consistent 11
-        smallFontSize, // Now consistent 9
+        ...sizes,
       }
     case "mixed":
       return {
         titleFont: "helvetica",
         bodyFont: "times", // Will be overridden to Georgia in setFont function
         mixedMode: true,
-        titleFontSize, // Now consistent 14
-        bodyFontSize, // Now consistent 11
-        smallFontSize, // Now consistent 9
+        ...sizes,
       }
     case "sans":
     default:
@@ -56,9 +234,7 @@ function getFontSettings(font: "sans" | "serif" | "mixed"): FontSettings {
         titleFont: "helvetica",
         bodyFont: "helvetica",
         mixedMode: false,
-        titleFontSize, // Now consistent 14
-        bodyFontSize, // Now consistent 11
-        smallFontSize, // Now consistent 9
+        ...sizes,
       }
   }
 }
@@ -66,6 +242,13 @@ function getFontSettings(font: "sans" | "serif" | "mixed"): FontSettings {
 // And update the setFont function to handle Georgia and ensure Courier for code blocks:
 function setFont(doc: jsPDF, fontName: string, style = "normal") {
   try {
+    // Use the embedded TrueType font where one was registered for this font and style
+    const embeddedFont = getEmbeddedFontName(doc, fontName, style)
+    if (embeddedFont) {
+      doc.setFont(embeddedFont, style)
+      return
+    }
+
     // Special handling for courier/monospace to ensure code blocks use monospace
     if (fontName.toLowerCase() === "courier") {
       try {
@@ -168,7 +351,7 @@ function setFont(doc: jsPDF, fontName: string, style = "normal") {
 // Function to estimate section height - more conservative for better space utilization
 function estimateSectionHeight(section: Section, fontSettings: FontSettings, maxWidth: number): number {
   const lines = section.content.split("\n")
-  const lineHeight = 6
+  const lineHeight = fontSettings.lineHeight
   let estimatedHeight = 0
 
   // Add heading height with more generous estimate
@@ -252,7 +435,8 @@ function estimateSectionHeight(section: Section, fontSettings: FontSettings, max
     }
 
     // Regular text - more generous estimation
-    const avgCharsPerLine = 65 // More conservative estimate
+    // More conservative estimate, about 65 characters per line of the default A4 notes column
+    const avgCharsPerLine = Math.max(20, Math.round((65 * maxWidth) / 125 / (fontSettings.bodyFontSize / 11)))
     const textLines = Math.ceil(line.length / avgCharsPerLine)
     contentLines += textLines * 1.1 // Add 10% buffer for text
   }
@@ -285,288 +469,537 @@ export async function exportToPdf(
   title: string,
   summary: string,
   markdown: string,
-  font: "sans" | "serif" | "mixed" = "sans",
+  options: PdfExportOptions = DEFAULT_PDF_OPTIONS,
+  details?: DocumentDetails & { tags?: string[] },
 ): Promise<void> {
   try {
     console.log("Starting PDF export...")
 
-    // First, process the markdown to load images from storage
-    const processedMarkdown = await processContentForExport(markdown)
+    // Create a new PDF document with clean, minimal styling
+    const doc = createPdfDocument(options)
 
-    const sections = parseMarkdown(processedMarkdown)
+    await registerPdfFonts(doc, [title, summary, markdown, ...(details?.tags || [])].join("\n"))
+    const fontSettings = getFontSettings(options.font, options.fontScale, options.lineSpacing)
 
-    // Extract all note links for the related links section
-    const noteLinks = extractNoteLinks(markdown)
+    console.log("Font settings:", fontSettings)
 
-    // Create a new PDF document with clean, minimal styling
-    const doc = new jsPDF({
-      orientation: "portrait",
-      unit: "mm",
-      format: "a4",
-    })
+    await renderNoteToPdf(doc, { title, summary, markdown, details, tags: details?.tags }, fontSettings, options)
+    drawHeaderAndFooter(doc, options, fontSettings, 1, doc.getNumberOfPages(), { title, tags: details?.tags })
+
+    console.log("PDF generation completed successfully")
+
+    // Generate the PDF as a blob
+    const pdfBlob = doc.output("blob")
+
+    // Download the PDF
+    downloadBlob(pdfBlob, `${title.replace(/\s+/g, "-").toLowerCase()}.pdf`)
+  } catch (error) {
+    console.error("Error generating PDF:", error)
+    throw new Error(`Failed to generate PDF: ${error instanceof Error ? error.message : "Unknown error"}`)
+  }
+}
+
+// Export several notes as one PDF binder: a cover page, a table of contents with page numbers,
+// bookmarks for every note and section, and [[links]] between the notes as clickable links
+export async function exportBinderToPdf(
+  documents: DocumentData[],
+  bookTitle: string,
+  options: PdfExportOptions = DEFAULT_PDF_OPTIONS,
+): Promise<void> {
+  try {
+    const doc = createPdfDocument(options)
+    const noteTexts = documents.map((document) =>
+      [document.title, document.summary, document.content, ...document.tags].join("\n"),
+    )
+    await registerPdfFonts(doc, [bookTitle, ...noteTexts].join("\n"))
 
-    // Get page dimensions
     const pageHeight = doc.internal.pageSize.getHeight()
     const pageWidth = doc.internal.pageSize.getWidth()
-    const margin = 15
-    const keyPointsWidth = 45
-    const contentWidth = pageWidth - margin - keyPointsWidth - margin
+    const margin = options.margin
+    const fontSettings = getFontSettings(options.font, options.fontScale, options.lineSpacing)
 
-    // Skip custom font loading and use built-in fonts only
-    await loadCustomFonts(doc) // Just for logging
-    const fontSettings = getFontSettings(font)
+    // Cover page
+    doc.setFontSize(28)
+    setFont(doc, fontSettings.titleFont, "bold")
+    const titleLines = splitTextToSize(doc, bookTitle, pageWidth - margin * 4)
+    let coverY = pageHeight / 3
+    for (const line of titleLines) {
+      drawText(doc, line, pageWidth / 2, coverY, { align: "center" })
+      coverY += 12
+    }
 
-    console.log("Font settings:", fontSettings)
+    doc.setFontSize(fontSettings.bodyFontSize)
+    setFont(doc, fontSettings.bodyFont, "normal")
+    doc.setTextColor(120, 120, 120)
+    const noteCount = `${documents.length} note${documents.length !== 1 ? "s" : ""}`
+    drawText(doc, `${noteCount} · ${new Date().toLocaleDateString()}`, pageWidth / 2, coverY + 4, { align: "center" })
+    doc.setTextColor(0, 0, 0)
+
+    // Reserve the table of contents pages now, they are filled in once the page numbers are known
+    const tocLineHeight = fontSettings.lineHeight + 1
+    const tocTop = margin + 20
+    const tocContinuedTop = margin + 5
+    const firstPageRows = Math.floor((pageHeight - margin - tocTop) / tocLineHeight)
+    const otherPageRows = Math.floor((pageHeight - margin - tocContinuedTop) / tocLineHeight)
+    const tocEntryCount = documents.reduce(
+      (count, document) => count + 1 + parseMarkdown(document.content).filter(hasSectionContent).length,
+      0,
+    )
+    const tocPageCount = 1 + Math.max(0, Math.ceil((tocEntryCount - firstPageRows) / otherPageRows))
+    for (let i = 0; i < tocPageCount; i++) {
+      doc.addPage()
+    }
+
+    // Links to notes with the same title go to the first of them
+    const links: PdfLinkContext = { noteIds: new Map(), areas: [] }
+    for (const document of documents) {
+      const key = document.title.trim().toLowerCase()
+      if (!links.noteIds.has(key)) {
+        links.noteIds.set(key, document.id)
+      }
+    }
 
-    // Set title - using website typography
-    doc.setFontSize(24) // Larger title to match website
+    // Every note starts on a new page
+    const rendered: Array<{ document: DocumentData; page: number; sections: PdfSectionPage[] }> = []
+    for (const document of documents) {
+      doc.addPage()
+      const page = doc.getCurrentPageInfo().pageNumber
+      const note = {
+        title: document.title,
+        summary: document.summary || "",
+        markdown: document.content,
+        details: document,
+        tags: document.tags,
+      }
+      const sections = await renderNoteToPdf(doc, note, fontSettings, options, links)
+      rendered.push({ document, page, sections })
+    }
+
+    // Table of contents, every entry links to its page
+    doc.setPage(2)
+    doc.setFontSize(fontSettings.titleFontSize + 4)
     setFont(doc, fontSettings.titleFont, "bold")
-    doc.text(title, 15, 20)
+    drawText(doc, "Contents", margin, margin + 8)
+
+    let tocPage = 2
+    let tocY = tocTop
+    const addTocEntry = (text: string, page: number, indent: number, fontName: string, style: string) => {
+      if (tocY + tocLineHeight > pageHeight - margin) {
+        tocPage++
+        doc.setPage(tocPage)
+        tocY = tocContinuedTop
+      }
 
-    // Add summary if provided - use body font with proper sizing
-    let y = 30
-    if (summary) {
       doc.setFontSize(fontSettings.bodyFontSize)
-      setFont(doc, fontSettings.bodyFont, "normal")
-      const summaryLineHeight = 6 // Consistent line height
-      const summaryLines = doc.splitTextToSize(summary, 180)
+      setFont(doc, fontName, style)
+      const textLines = splitTextToSize(doc, text, pageWidth - margin * 2 - indent - 15)
+      drawText(doc, textLines.length > 1 ? `${textLines[0]}...` : textLines[0], margin + indent, tocY)
+      drawText(doc, String(page), pageWidth - margin, tocY, { align: "right" })
+      doc.link(margin, tocY - 5, pageWidth - margin * 2, tocLineHeight, { pageNumber: page })
+      tocY += tocLineHeight
+    }
 
-      // Apply clean line spacing
-      for (let i = 0; i < summaryLines.length; i++) {
-        doc.text(summaryLines[i], 15, y + i * summaryLineHeight + 2)
+    for (const { document, page, sections } of rendered) {
+      addTocEntry(document.title || "Untitled", page, 0, fontSettings.titleFont, "bold")
+      for (const section of sections) {
+        addTocEntry(section.heading, section.page, 6, fontSettings.bodyFont, "normal")
       }
+    }
 
-      y += summaryLines.length * summaryLineHeight + 6
-    } else {
-      y = 35
+    // Bookmarks for the PDF viewer's outline
+    doc.outline.add(null, "Contents", { pageNumber: 2 })
+    for (const { document, page, sections } of rendered) {
+      const noteItem = doc.outline.add(null, document.title || "Untitled", { pageNumber: page })
+      for (const section of sections) {
+        doc.outline.add(noteItem, section.heading, { pageNumber: section.page })
+      }
     }
 
-    // Draw a light horizontal line under the header - minimal styling
-    doc.setDrawColor(230, 230, 230)
-    doc.line(margin, y + 2, margin + keyPointsWidth + contentWidth, y + 2)
+    // Turn the note links drawn in the content into links to the linked note's first page
+    const notePages = new Map(rendered.map(({ document, page }) => [document.id, page]))
+    for (const area of links.areas) {
+      const pageNumber = notePages.get(area.target)
+      if (pageNumber) {
+        doc.setPage(area.page)
+        doc.link(area.x, area.y, area.width, area.height, { pageNumber })
+      }
+    }
 
-    y += 8
+    // Headers and footers for every page but the cover
+    const totalPages = doc.getNumberOfPages()
+    drawHeaderAndFooter(doc, options, fontSettings, 2, tocPageCount + 1, { title: bookTitle })
+    rendered.forEach(({ document, page }, index) => {
+      const lastPage = index < rendered.length - 1 ? rendered[index + 1].page - 1 : totalPages
+      drawHeaderAndFooter(doc, options, fontSettings, page, lastPage, { title: document.title, tags: document.tags })
+    })
 
-    // Track section boundaries for proper horizontal line alignment
-    const sectionBoundaries = []
+    // Without page numbers in the header or footer, number the pages to match the table of contents
+    if (!options.header.includes("page") && !options.footer.includes("page")) {
+      doc.setFontSize(fontSettings.smallFontSize)
+      setFont(doc, fontSettings.bodyFont, "normal")
+      doc.setTextColor(150, 150, 150)
+      for (let pageNum = 2; pageNum <= totalPages; pageNum++) {
+        doc.setPage(pageNum)
+        drawText(doc, String(pageNum), pageWidth / 2, pageHeight - margin / 2 + 1.5, { align: "center" })
+      }
+      doc.setTextColor(0, 0, 0)
+    }
+
+    downloadBlob(doc.output("blob"), `${bookTitle.replace(/\s+/g, "-").toLowerCase()}.pdf`)
+  } catch (error) {
+    console.error("Error generating PDF binder:", error)
+    throw new Error(`Failed to generate PDF: ${error instanceof Error ? error.message : "Unknown error"}`)
+  }
+}
 
-    // Track pages that contain continuation of sections
-    const continuationPages = new Map<number, number>()
+function createPdfDocument(options: PdfExportOptions): jsPDF {
+  return new jsPDF({
+    orientation: options.orientation,
+    unit: "mm",
+    format: options.pageSize,
+  })
+}
 
-    for (let index = 0; index < sections.length; index++) {
-      const section = sections[index]
+// Draw the chosen header and footer items on a range of pages: text on the left, page numbers on the right
+function drawHeaderAndFooter(
+  doc: jsPDF,
+  options: PdfExportOptions,
+  fontSettings: FontSettings,
+  fromPage: number,
+  toPage: number,
+  info: { title: string; tags?: string[] },
+) {
+  if (options.header.length === 0 && options.footer.length === 0) return
+
+  const pageHeight = doc.internal.pageSize.getHeight()
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const totalPages = doc.getNumberOfPages()
+  const itemText: Record<Exclude<PdfHeaderFooterItem, "page">, string> = {
+    title: info.title,
+    date: new Date().toLocaleDateString(),
+    tags: (info.tags || []).map((tag) => `#${tag}`).join(" "),
+  }
+  const rows: Array<[PdfHeaderFooterItem[], number]> = [
+    [options.header, options.margin / 2 + 1.5],
+    [options.footer, pageHeight - options.margin / 2 + 1.5],
+  ]
 
-      // Skip sections with empty content or only whitespace
-      if (!section.content.trim() || section.content.replace(/<img[^>]*>/g, "").trim() === "") {
-        continue
+  doc.setFontSize(fontSettings.smallFontSize)
+  setFont(doc, fontSettings.bodyFont, "normal")
+  doc.setTextColor(150, 150, 150)
+
+  for (let pageNum = fromPage; pageNum <= toPage; pageNum++) {
+    doc.setPage(pageNum)
+
+    for (const [items, y] of rows) {
+      const text = (Object.keys(itemText) as Array<keyof typeof itemText>)
+        .filter((item) => items.includes(item) && itemText[item])
+        .map((item) => itemText[item])
+        .join(" · ")
+      if (text) {
+        drawText(doc, splitTextToSize(doc, text, pageWidth - options.margin * 2 - 30)[0], options.margin, y)
+      }
+      if (items.includes("page")) {
+        drawText(doc, `Page ${pageNum} of ${totalPages}`, pageWidth - options.margin, y, { align: "right" })
       }
+    }
+  }
 
-      // Calculate estimated section height
-      const estimatedSectionHeight = estimateSectionHeight(section, fontSettings, contentWidth - 10)
-      const availableSpace = pageHeight - margin - y
+  doc.setTextColor(0, 0, 0)
+}
 
-      // Always start a new page if the section won't fit completely on the current page
-      // Only exception: if we're at the very top of a page (just started)
-      const isAtTopOfPage = y <= margin + 40
-      const sectionWontFit = estimatedSectionHeight > availableSpace - 10 // Leave 10mm buffer
+// Sections without any text are left out of the PDF
+function hasSectionContent(section: Section): boolean {
+  return section.content.trim() !== "" && section.content.replace(/<img[^>]*>/g, "").trim() !== ""
+}
 
-      if (!isAtTopOfPage && sectionWontFit) {
-        console.log(
-          `Section "${section.heading}" estimated height: ${estimatedSectionHeight}mm, available space: ${availableSpace}mm - starting new page to keep section together`,
-        )
-        doc.addPage()
-        y = margin + 8
-      }
+// Render one note in the Cornell layout, starting at the top of the current page, and return the page
+// each section starts on. With a link context, links to other notes in the same PDF stay clickable
+async function renderNoteToPdf(
+  doc: jsPDF,
+  note: PdfNote,
+  fontSettings: FontSettings,
+  options: PdfExportOptions,
+  links?: PdfLinkContext,
+): Promise<PdfSectionPage[]> {
+  const { title, summary, markdown, details } = note
+
+  // First, process the markdown to load images from storage
+  const processedMarkdown = await processContentForExport(markdown, links?.noteIds)
+
+  const sections = parseMarkdown(processedMarkdown).map((section) => ({
+    ...section,
+    heading: stripLinkMarkers(section.heading),
+  }))
+
+  // Extract all note links for the related links section
+  const noteLinks = extractNoteLinks(markdown)
+  const sectionPages: PdfSectionPage[] = []
+
+  // Get page dimensions
+  const pageHeight = doc.internal.pageSize.getHeight()
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const margin = options.margin
+  const keyPointsWidth = options.cueColumnWidth
+  const contentWidth = pageWidth - margin - keyPointsWidth - margin
+
+  // Set title - using website typography
+  doc.setFontSize(fontSettings.documentTitleFontSize) // Larger title to match website
+  setFont(doc, fontSettings.titleFont, "bold")
+  drawText(doc, title, margin, margin + 5)
+
+  // Add created/updated dates and word count under the title
+  let y = margin + 15
+  const detailsLine = formatDocumentDetails(details)
+  if (detailsLine) {
+    doc.setFontSize(fontSettings.smallFontSize)
+    setFont(doc, fontSettings.bodyFont, "normal")
+    doc.setTextColor(120, 120, 120)
+    drawText(doc, detailsLine, margin, margin + 12)
+    doc.setTextColor(0, 0, 0)
+    y = margin + 19
+  }
 
-      // If section is too large for any single page, we'll have to allow it to span
-      const maxSinglePageHeight = pageHeight - margin * 2 - 20 // Account for margins and spacing
-      if (estimatedSectionHeight > maxSinglePageHeight) {
-        console.log(
-          `Section "${section.heading}" is too large (${estimatedSectionHeight}mm) for a single page - allowing it to span pages`,
-        )
-      }
+  // Add summary if provided - use body font with proper sizing
+  if (summary) {
+    doc.setFontSize(fontSettings.bodyFontSize)
+    setFont(doc, fontSettings.bodyFont, "normal")
+    const summaryLineHeight = fontSettings.lineHeight // Consistent line height
+    const summaryLines = splitTextToSize(doc, summary, pageWidth - margin * 2)
 
-      const startY = y
-      const startPage = doc.getCurrentPageInfo().pageNumber
+    // Apply clean line spacing
+    for (let i = 0; i < summaryLines.length; i++) {
+      drawText(doc, summaryLines[i], margin, y + i * summaryLineHeight + 2)
+    }
 
-      // Draw key point (heading) with title font
-      doc.setFontSize(fontSettings.bodyFontSize)
-      setFont(doc, fontSettings.titleFont, "bold")
-      const headingLines = doc.splitTextToSize(section.heading, keyPointsWidth - 10)
+    y += summaryLines.length * summaryLineHeight + 6
+  } else {
+    y += 5
+  }
 
-      const headingLineHeight = 6 // Consistent line height
-      const headingTextStartY = y + 5 + 2 // This is where the heading text actually starts
-      for (let i = 0; i < headingLines.length; i++) {
-        doc.text(headingLines[i], margin + 5, headingTextStartY + i * headingLineHeight)
-      }
+  // Draw a light horizontal line under the header - minimal styling
+  doc.setDrawColor(230, 230, 230)
+  doc.line(margin, y + 2, margin + keyPointsWidth + contentWidth, y + 2)
 
-      // Calculate the actual height of the heading
-      const headingHeight = headingLines.length * headingLineHeight + 5
+  y += 8
 
-      // Content area - align with the baseline of the first line of heading text
-      const contentStartX = margin + keyPointsWidth + 5
-      const contentStartY = headingTextStartY // Same baseline as the heading text
+  // Track section boundaries for proper horizontal line alignment
+  const sectionBoundaries = []
 
-      // Pass section info and font settings to the rendering functions
-      const sectionInfo = {
-        currentSection: index,
-        totalSections: sections.length,
-      }
+  // Track pages that contain continuation of sections
+  const continuationPages = new Map<number, number>()
 
-      // Draw content with improved markdown rendering - now includes images inline
-      doc.setFontSize(fontSettings.bodyFontSize)
-      setFont(doc, fontSettings.bodyFont, "normal")
-      const contentEndY = await renderMarkdownContentWithImages(
-        doc,
-        section.content,
-        contentStartX,
-        contentStartY,
-        contentWidth - 10,
-        pageHeight,
-        margin,
-        keyPointsWidth,
-        pageWidth - margin * 2,
-        sectionInfo,
-        fontSettings,
-      )
+  for (let index = 0; index < sections.length; index++) {
+    const section = sections[index]
 
-      // Store section boundary information for proper line drawing
-      const endPage = doc.getCurrentPageInfo().pageNumber
-      sectionBoundaries.push({
-        index,
-        startY,
-        startPage,
-        endY: contentEndY,
-        endPage,
-      })
+    // Skip sections with empty content or only whitespace
+    if (!hasSectionContent(section)) {
+      continue
+    }
 
-      // Track all pages that contain this section
-      for (let pageNum = startPage; pageNum <= endPage; pageNum++) {
-        if (pageNum > startPage) {
-          continuationPages.set(pageNum, index)
-        }
-      }
+    // Calculate estimated section height
+    const estimatedSectionHeight = estimateSectionHeight(section, fontSettings, contentWidth - 10)
+    const availableSpace = pageHeight - margin - y
 
-      // Draw section with very light borders - minimal styling
-      doc.setDrawColor(240, 240, 240)
+    // Always start a new page if the section won't fit completely on the current page
+    // Only exception: if we're at the very top of a page (just started)
+    const isAtTopOfPage = y <= margin + 40
+    const sectionWontFit = estimatedSectionHeight > availableSpace - 10 // Leave 10mm buffer
 
-      // Draw vertical divider between key points and notes - but not for Related Notes
-      for (let pageNum = startPage; pageNum <= endPage; pageNum++) {
-        doc.setPage(pageNum)
+    if (!isAtTopOfPage && sectionWontFit) {
+      console.log(
+        `Section "${section.heading}" estimated height: ${estimatedSectionHeight}mm, available space: ${availableSpace}mm - starting new page to keep section together`,
+      )
+      doc.addPage()
+      y = margin + 8
+    }
 
-        if (pageNum === startPage) {
-          const endY = pageNum === endPage ? contentEndY : pageHeight - margin
-          doc.line(margin + keyPointsWidth, startY, margin + keyPointsWidth, endY)
-        } else if (pageNum === endPage) {
-          doc.line(margin + keyPointsWidth, margin, margin + keyPointsWidth, contentEndY)
-        } else {
-          doc.line(margin + keyPointsWidth, margin, margin + keyPointsWidth, pageHeight - margin)
-        }
+    // If section is too large for any single page, we'll have to allow it to span
+    const maxSinglePageHeight = pageHeight - margin * 2 - 20 // Account for margins and spacing
+    if (estimatedSectionHeight > maxSinglePageHeight) {
+      console.log(
+        `Section "${section.heading}" is too large (${estimatedSectionHeight}mm) for a single page - allowing it to span pages`,
+      )
+    }
+
+    const startY = y
+    const startPage = doc.getCurrentPageInfo().pageNumber
+    sectionPages.push({ heading: section.heading, page: startPage })
+
+    // Draw key point (heading) with title font
+    doc.setFontSize(fontSettings.bodyFontSize)
+    setFont(doc, fontSettings.titleFont, "bold")
+    const headingLines = splitTextToSize(doc, section.heading, keyPointsWidth - 10)
+
+    const headingLineHeight = fontSettings.lineHeight // Consistent line height
+    const headingTextStartY = y + 5 + 2 // This is where the heading text actually starts
+    // Study sheets leave the cue column blank to write the cues in by hand
+    if (!options.studySheet) {
+      for (let i = 0; i < headingLines.length; i++) {
+        drawText(doc, headingLines[i], margin + 5, headingTextStartY + i * headingLineHeight)
       }
+    }
+
+    // Calculate the actual height of the heading
+    const headingHeight = headingLines.length * headingLineHeight + 5
 
-      // Set back to the last page
-      doc.setPage(endPage)
+    // Content area - align with the baseline of the first line of heading text
+    const contentStartX = margin + keyPointsWidth + 5
+    const contentStartY = headingTextStartY // Same baseline as the heading text
 
-      // Update y position for next section
-      y = contentEndY + 0.5
+    // Pass section info and font settings to the rendering functions
+    const sectionInfo = {
+      currentSection: index,
+      totalSections: sections.length,
     }
 
-    // Draw horizontal lines at the bottom of each section - minimal styling
-    for (let i = 0; i < sectionBoundaries.length; i++) {
-      const section = sectionBoundaries[i]
+    // Draw content with improved markdown rendering - now includes images inline
+    doc.setFontSize(fontSettings.bodyFontSize)
+    setFont(doc, fontSettings.bodyFont, "normal")
+    const contentEndY = await renderMarkdownContentWithImages(
+      doc,
+      section.content,
+      contentStartX,
+      contentStartY,
+      contentWidth - 10,
+      pageHeight,
+      margin,
+      keyPointsWidth,
+      pageWidth - margin * 2,
+      sectionInfo,
+      fontSettings,
+      links,
+    )
 
-      // Only draw bottom line if not the last section and not before Related Notes
-      if (i < sectionBoundaries.length - 1) {
-        doc.setPage(section.endPage)
-        doc.setDrawColor(240, 240, 240)
-        doc.line(margin, section.endY, margin + keyPointsWidth + contentWidth, section.endY)
+    // Store section boundary information for proper line drawing
+    const endPage = doc.getCurrentPageInfo().pageNumber
+    sectionBoundaries.push({
+      index,
+      startY,
+      startPage,
+      endY: contentEndY,
+      endPage,
+    })
+
+    // Track all pages that contain this section
+    for (let pageNum = startPage; pageNum <= endPage; pageNum++) {
+      if (pageNum > startPage) {
+        continuationPages.set(pageNum, index)
       }
     }
 
-    // Handle continuation pages - clean styling
-    const totalPages = doc.getNumberOfPages()
-    for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
-      if (continuationPages.has(pageNum)) {
-        const sectionIndex = continuationPages.get(pageNum)!
-        const section = sections[sectionIndex]
+    // Draw section with very light borders - minimal styling
+    doc.setDrawColor(240, 240, 240)
 
-        doc.setPage(pageNum)
+    // Draw vertical divider between key points and notes - but not for Related Notes
+    for (let pageNum = startPage; pageNum <= endPage; pageNum++) {
+      doc.setPage(pageNum)
 
-        // Draw the key point heading on the continuation page
-        doc.setFontSize(fontSettings.bodyFontSize)
-        setFont(doc, fontSettings.titleFont, "bold")
-        const headingLines = doc.splitTextToSize(section.heading, keyPointsWidth - 10)
+      if (pageNum === startPage) {
+        const endY = pageNum === endPage ? contentEndY : pageHeight - margin
+        doc.line(margin + keyPointsWidth, startY, margin + keyPointsWidth, endY)
+      } else if (pageNum === endPage) {
+        doc.line(margin + keyPointsWidth, margin, margin + keyPointsWidth, contentEndY)
+      } else {
+        doc.line(margin + keyPointsWidth, margin, margin + keyPointsWidth, pageHeight - margin)
+      }
+    }
 
-        const headingLineHeight = 6 // Consistent line height
-        for (let i = 0; i < headingLines.length; i++) {
-          doc.text(headingLines[i], margin + 5, margin + 5 + i * headingLineHeight + 2)
-        }
+    // Set back to the last page
+    doc.setPage(endPage)
 
-        // Add "(continued)" text in smaller, italic font
-        doc.setFontSize(fontSettings.smallFontSize)
-        setFont(doc, fontSettings.titleFont, "italic")
-        doc.text("(continued)", margin + 5, margin + 5 + headingLines.length * headingLineHeight + 4)
-        setFont(doc, fontSettings.titleFont, "bold")
-        doc.setFontSize(fontSettings.bodyFontSize)
-      }
+    // Update y position for next section
+    y = contentEndY + 0.5
+  }
+
+  // Draw horizontal lines at the bottom of each section - minimal styling
+  for (let i = 0; i < sectionBoundaries.length; i++) {
+    const section = sectionBoundaries[i]
+
+    // Only draw bottom line if not the last section and not before Related Notes
+    if (i < sectionBoundaries.length - 1) {
+      doc.setPage(section.endPage)
+      doc.setDrawColor(240, 240, 240)
+      doc.line(margin, section.endY, margin + keyPointsWidth + contentWidth, section.endY)
     }
+  }
 
-    // Add related links section at the end if there are any note links
-    if (noteLinks.length > 0) {
-      // Go to the last page and check if we need a new page
-      const currentPageNum = doc.getNumberOfPages()
-      doc.setPage(currentPageNum)
+  // Handle continuation pages - clean styling
+  const totalPages = doc.getNumberOfPages()
+  for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
+    if (continuationPages.has(pageNum) && !options.studySheet) {
+      const sectionIndex = continuationPages.get(pageNum)!
+      const section = sections[sectionIndex]
 
-      // Get the current Y position from the last section
-      let currentY = y + 20 // Add some space before the related links
+      doc.setPage(pageNum)
 
-      // Check if we have enough space for the related links section
-      const estimatedHeight = 20 + noteLinks.length * 6
+      // Draw the key point heading on the continuation page
+      doc.setFontSize(fontSettings.bodyFontSize)
+      setFont(doc, fontSettings.titleFont, "bold")
+      const headingLines = splitTextToSize(doc, section.heading, keyPointsWidth - 10)
 
-      if (currentY + estimatedHeight > pageHeight - margin) {
-        doc.addPage()
-        currentY = margin + 10
+      const headingLineHeight = fontSettings.lineHeight // Consistent line height
+      for (let i = 0; i < headingLines.length; i++) {
+        drawText(doc, headingLines[i], margin + 5, margin + 5 + i * headingLineHeight + 2)
       }
 
-      // Add related links section - use title font for heading
-      doc.setFontSize(fontSettings.titleFontSize)
+      // Add "(continued)" text in smaller, italic font
+      doc.setFontSize(fontSettings.smallFontSize)
+      setFont(doc, fontSettings.titleFont, "italic")
+      drawText(doc, "(continued)", margin + 5, margin + 5 + headingLines.length * headingLineHeight + 4)
       setFont(doc, fontSettings.titleFont, "bold")
-      doc.text("Related Notes", margin, currentY)
+      doc.setFontSize(fontSettings.bodyFontSize)
+    }
+  }
 
-      currentY += 8
-      currentY += 2
+  // Add related links section at the end if there are any note links
+  if (noteLinks.length > 0) {
+    // Go to the last page and check if we need a new page
+    const currentPageNum = doc.getNumberOfPages()
+    doc.setPage(currentPageNum)
 
-      // List all the note links - use body font for content
-      doc.setFontSize(fontSettings.bodyFontSize)
-      setFont(doc, fontSettings.bodyFont, "normal")
-      for (let i = 0; i < noteLinks.length; i++) {
-        const link = noteLinks[i]
+    // Get the current Y position from the last section
+    let currentY = y + 20 // Add some space before the related links
 
-        // Check if we need a new page
-        if (currentY + 6 > pageHeight - margin) {
-          doc.addPage()
-          currentY = margin
-          // Reset font after page break
-          setFont(doc, fontSettings.bodyFont, "normal")
-        }
+    // Check if we have enough space for the related links section
+    const estimatedHeight = 20 + noteLinks.length * 6
 
-        // Add bullet point and link text
-        doc.text(`• ${link}`, margin + 5, currentY)
-        currentY += 6 // Consistent line height
-      }
+    if (currentY + estimatedHeight > pageHeight - margin) {
+      doc.addPage()
+      currentY = margin + 10
     }
 
-    console.log("PDF generation completed successfully")
+    // Add related links section - use title font for heading
+    doc.setFontSize(fontSettings.titleFontSize)
+    setFont(doc, fontSettings.titleFont, "bold")
+    drawText(doc, "Related Notes", margin, currentY)
 
-    // Generate the PDF as a blob
-    const pdfBlob = doc.output("blob")
+    currentY += 8
+    currentY += 2
 
-    // Download the PDF
-    downloadBlob(pdfBlob, `${title.replace(/\s+/g, "-").toLowerCase()}.pdf`)
-  } catch (error) {
-    console.error("Error generating PDF:", error)
-    throw new Error(`Failed to generate PDF: ${error instanceof Error ? error.message : "Unknown error"}`)
+    // List all the note links - use body font for content
+    doc.setFontSize(fontSettings.bodyFontSize)
+    setFont(doc, fontSettings.bodyFont, "normal")
+    for (let i = 0; i < noteLinks.length; i++) {
+      const link = noteLinks[i]
+
+      // Check if we need a new page
+      if (currentY + 6 > pageHeight - margin) {
+        doc.addPage()
+        currentY = margin
+        // Reset font after page break
+        setFont(doc, fontSettings.bodyFont, "normal")
+      }
+
+      // Add bullet point and link text, clickable when the linked note is in the same PDF
+      const target = links?.noteIds.get(link.toLowerCase())
+      const ranges = target ? [{ start: 2, end: link.length + 2, target }] : []
+      drawTextWithLinks(doc, `• ${link}`, margin + 5, currentY, ranges, links)
+      currentY += fontSettings.lineHeight // Consistent line height
+    }
   }
+
+  return sectionPages
 }
 
 // Helper function to download a blob
@@ -589,7 +1022,7 @@ function downloadBlob(blob: Blob, filename: string) {
 }
 
 // Parse markdown into Cornell note sections
-function parseMarkdown(markdown: string): Section[] {
+export function parseMarkdown(markdown: string): Section[] {
   const lines = markdown.split("\n")
   const sections: Section[] = []
 
@@ -627,8 +1060,9 @@ function parseMarkdown(markdown: string): Section[] {
   return sections
 }
 
-// Process content to load images from storage and clean note links
-async function processContentForExport(content: string): Promise<string> {
+// Process content to load images from storage and clean note links. Links to the notes in
+// noteIds are kept as link markers, all others become plain text
+async function processContentForExport(content: string, noteIds?: Map<string, string>): Promise<string> {
   let processedContent = content
 
   // Find all cornell-image:// URLs and load them
@@ -656,7 +1090,10 @@ async function processContentForExport(content: string): Promise<string> {
   }
 
   // Remove [[ ]] from note links in the content for PDF display
-  processedContent = processedContent.replace(/\[\[([^\]]+)\]\]/g, "$1")
+  processedContent = replaceNoteLinks(processedContent, (title, label) => {
+    const target = noteIds?.get(title.trim().toLowerCase())
+    return target ? `\uE000${label || title}\uE001${target}\uE002` : label || title
+  })
 
   return processedContent
 }
@@ -664,12 +1101,12 @@ async function processContentForExport(content: string): Promise<string> {
 // Process markdown formatting and return segments with formatting info
 function processMarkdownFormatting(
   text: string,
-): Array<{ text: string; bold?: boolean; italic?: boolean; code?: boolean }> {
-  const segments: Array<{ text: string; bold?: boolean; italic?: boolean; code?: boolean }> = []
+): Array<{ text: string; bold?: boolean; italic?: boolean; code?: boolean; link?: string }> {
+  const segments: Array<{ text: string; bold?: boolean; italic?: boolean; code?: boolean; link?: string }> = []
   let currentIndex = 0
 
   // Find all formatting markers in order
-  const markers = []
+  const markers: Array<{ start: number; end: number; text: string; type: string; target?: string }> = []
 
   // Bold markers (**text** or __text__)
   let boldMatch
@@ -707,11 +1144,25 @@ function processMarkdownFormatting(
     })
   }
 
+  // Note link markers, only present when the linked note is in the same PDF
+  for (const linkMatch of text.matchAll(LINK_MARKER_REGEX)) {
+    markers.push({
+      start: linkMatch.index || 0,
+      end: (linkMatch.index || 0) + linkMatch[0].length,
+      text: linkMatch[1],
+      type: "link",
+      target: linkMatch[2],
+    })
+  }
+
   // Sort markers by position
   markers.sort((a, b) => a.start - b.start)
 
   // Process text with markers
   for (const marker of markers) {
+    // Skip markers nested in one that was already used, e.g. a link inside bold text
+    if (marker.start < currentIndex) continue
+
     // Add any text before this marker
     if (currentIndex < marker.start) {
       const beforeText = text.substring(currentIndex, marker.start)
@@ -725,6 +1176,7 @@ function processMarkdownFormatting(
     if (marker.type === "bold") segment.bold = true
     if (marker.type === "italic") segment.italic = true
     if (marker.type === "code") segment.code = true
+    if (marker.type === "link") segment.link = marker.target
 
     segments.push(segment)
     currentIndex = marker.end
@@ -761,7 +1213,7 @@ function renderFormattedText(
   const segments = processMarkdownFormatting(text)
   let currentX = x
   let currentY = y
-  const lineHeight = 6 // Consistent with main text rendering
+  const lineHeight = fontSettings.lineHeight // Consistent with main text rendering
 
   for (const segment of segments) {
     // Set font based on formatting
@@ -782,19 +1234,16 @@ function renderFormattedText(
       fontSize = fontSettings.smallFontSize
       // Add background for inline code
       doc.setFillColor(248, 248, 248)
-      const textWidth = doc.getTextWidth(segment.text)
+      const textWidth = getTextWidth(doc, segment.text)
       doc.rect(currentX - 1, currentY - 3, textWidth + 2, fontSize * 0.4, "F")
     }
 
     doc.setFontSize(fontSize)
     setFont(doc, fontFamily, fontStyle)
 
-    // Handle text wrapping
-    const words = segment.text.split(" ")
-
-    for (let i = 0; i < words.length; i++) {
-      const word = words[i] + (i < words.length - 1 ? " " : "")
-      const wordWidth = doc.getTextWidth(word)
+    // Handle text wrapping (CJK text wraps between characters)
+    for (const word of splitIntoWords(segment.text)) {
+      const wordWidth = getTextWidth(doc, word)
 
       // Check if word fits on current line
       if (currentX + wordWidth > x + maxWidth) {
@@ -811,7 +1260,7 @@ function renderFormattedText(
         }
       }
 
-      doc.text(word, currentX, currentY)
+      drawText(doc, word, currentX, currentY)
       currentX += wordWidth
     }
   }
@@ -873,7 +1322,7 @@ function renderTable(
   // Pre-process all header cells to determine header row height
   columns.forEach((col, colIndex) => {
     const colText = col
-    const headerLines = doc.splitTextToSize(colText, columnWidth - cellPadding * 2)
+    const headerLines = splitTextToSize(doc, colText, columnWidth - cellPadding * 2)
     headerLinesArray.push(headerLines)
 
     // Calculate height needed for this header cell
@@ -904,12 +1353,12 @@ function renderTable(
     }
 
     // Calculate vertical position for text (top-aligned within header cell)
-    const lineHeight = 6 // Consistent line height
+    const lineHeight = fontSettings.lineHeight // Consistent line height
     const textY = currentY + cellPadding
 
     // Draw each line of header text
     for (let i = 0; i < headerLines.length; i++) {
-      doc.text(headerLines[i], textX, textY + i * lineHeight, {
+      drawText(doc, headerLines[i], textX, textY + i * lineHeight, {
         align: textAlign,
         baseline: "top",
       })
@@ -945,7 +1394,7 @@ function renderTable(
     cells.forEach((cell, colIndex) => {
       if (colIndex < columns.length) {
         const cellText = cell
-        const cellLines = doc.splitTextToSize(cellText, columnWidth - cellPadding * 2)
+        const cellLines = splitTextToSize(doc, cellText, columnWidth - cellPadding * 2)
         cellLinesArray.push(cellLines)
 
         // Calculate height needed for this cell
@@ -971,7 +1420,7 @@ function renderTable(
       // Pre-process all header cells to determine header row height
       columns.forEach((col, colIndex) => {
         const colText = col
-        const headerLines = doc.splitTextToSize(colText, columnWidth - cellPadding * 2)
+        const headerLines = splitTextToSize(doc, colText, columnWidth - cellPadding * 2)
         headerLinesArray.push(headerLines)
 
         // Calculate height needed for this header cell
@@ -1001,12 +1450,12 @@ function renderTable(
         }
 
         // Calculate vertical position for text (top-aligned within header cell)
-        const lineHeight = 6 // Consistent line height
+        const lineHeight = fontSettings.lineHeight // Consistent line height
         const textY = currentY + cellPadding
 
         // Draw each line of header text
         for (let i = 0; i < headerLines.length; i++) {
-          doc.text(headerLines[i], textX, textY + i * lineHeight, {
+          drawText(doc, headerLines[i], textX, textY + i * lineHeight, {
             align: textAlign,
             baseline: "top",
           })
@@ -1050,12 +1499,12 @@ function renderTable(
         }
 
         // Calculate vertical position for text (top-aligned within cell)
-        const lineHeight = 6 // Consistent line height
+        const lineHeight = fontSettings.lineHeight // Consistent line height
         const textY = currentY + cellPadding
 
         // Draw each line of text
         for (let i = 0; i < cellLines.length; i++) {
-          doc.text(cellLines[i], textX, textY + i * lineHeight, {
+          drawText(doc, cellLines[i], textX, textY + i * lineHeight, {
             align: textAlign,
             baseline: "top",
           })
@@ -1093,7 +1542,7 @@ function renderList(
   fontSettings: FontSettings,
 ): number {
   let currentY = y
-  const lineHeight = 6 // Same as regular text line height
+  const lineHeight = fontSettings.lineHeight // Same as regular text line height
   const indent = 5
 
   // Use body font for list content
@@ -1113,10 +1562,10 @@ function renderList(
 
     // Create bullet or number
     const marker = isNumbered ? `${index + 1}.` : "•"
-    const markerWidth = doc.getTextWidth(isNumbered ? `${marker} ` : `${marker}  `)
+    const markerWidth = getTextWidth(doc, isNumbered ? `${marker} ` : `${marker}  `)
 
     // Draw the marker
-    doc.text(marker, x, currentY)
+    drawText(doc, marker, x, currentY)
 
     // Draw the list item text with formatting
     const itemText = item.trim()
@@ -1138,10 +1587,12 @@ function renderList(
   return currentY + lineHeight * 0.1 // Reduced spacing after list to match paragraphs
 }
 
-// Fix the renderCodeBlock function to ensure Courier font is properly applied
+// Render a fenced code block with syntax highlighting and line numbers. Long lines wrap, with the
+// continuation rows left unnumbered
 function renderCodeBlock(
   doc: jsPDF,
   codeLines: string[],
+  language: string,
   x: number,
   y: number,
   maxWidth: number,
@@ -1149,108 +1600,117 @@ function renderCodeBlock(
   margin: number,
   fontSettings: FontSettings,
 ): number {
-  const lineHeight = 5 // Slightly tighter line height for code
+  const lineHeight = fontSettings.codeLineHeight // Slightly tighter line height for code
+  const padding = 3
   let currentY = y
 
-  // Check if we need a new page
-  if (currentY + lineHeight * codeLines.length + 8 > pageHeight - margin) {
-    // If the entire code block won't fit, start on a new page
+  doc.setFontSize(fontSettings.smallFontSize)
+  setFont(doc, "courier", "normal")
+
+  // Courier is monospaced, so lines wrap at a fixed number of characters
+  const tokenLines = tokenizeCode(codeLines.join("\n"), language)
+  const charWidth = doc.getTextWidth("M")
+  const gutterWidth = charWidth * String(tokenLines.length).length + padding * 2
+  const maxChars = Math.floor((maxWidth - gutterWidth - padding * 2) / charWidth)
+  const rows = tokenLines.flatMap((tokens, index) =>
+    wrapCodeLine(tokens, maxChars).map((rowTokens, rowIndex) => ({
+      lineNumber: rowIndex === 0 ? index + 1 : null,
+      tokens: rowTokens,
+    })),
+  )
+
+  // Start on a new page when the whole block won't fit but would on an empty page
+  const blockHeight = rows.length * lineHeight + padding * 2
+  if (currentY + blockHeight > pageHeight - margin && currentY > margin && blockHeight <= pageHeight - margin * 2) {
     doc.addPage()
     currentY = margin
   }
 
-  // Draw code block background with border
-  const blockHeight = Math.min(codeLines.length * lineHeight + 8, pageHeight - margin - currentY)
-  doc.setFillColor(248, 248, 248) // Light gray background
-  doc.setDrawColor(220, 220, 220) // Light border
-  doc.setLineWidth(0.5)
-  doc.rect(x, currentY, maxWidth, blockHeight, "FD") // Fill and Draw border
-
-  // Set monospace font
-  doc.setFontSize(fontSettings.smallFontSize)
+  let rowIndex = 0
+  while (rowIndex < rows.length) {
+    // Draw the background for the rows that fit on this page
+    const rowsOnPage = Math.max(1, Math.floor((pageHeight - margin - currentY - padding * 2) / lineHeight))
+    const pageRows = rows.slice(rowIndex, rowIndex + rowsOnPage)
+    const segmentHeight = pageRows.length * lineHeight + padding * 2
+
+    doc.setFillColor(...CODE_THEME.background)
+    doc.setDrawColor(...CODE_THEME.border)
+    doc.setLineWidth(0.5)
+    doc.rect(x, currentY, maxWidth, segmentHeight, "FD")
+    doc.setLineWidth(0.2)
+    doc.line(x + gutterWidth, currentY, x + gutterWidth, currentY + segmentHeight)
+
+    let textY = currentY + padding + lineHeight * 0.75
+    for (const row of pageRows) {
+      if (row.lineNumber !== null) {
+        setFont(doc, "courier", "normal")
+        doc.setTextColor(...CODE_THEME.lineNumber)
+        drawText(doc, String(row.lineNumber), x + gutterWidth - padding, textY, { align: "right" })
+      }
 
-  // Force monospace font using the most compatible approach
-  try {
-    // Try the most reliable monospace font first
-    doc.setFont("courier", "normal")
-  } catch (error) {
-    try {
-      // Fallback to Courier New if available
-      doc.setFont("CourierNew", "normal")
-    } catch (error2) {
-      try {
-        // Last resort - use times which is more monospace-like than helvetica
-        doc.setFont("times", "normal")
-      } catch (error3) {
-        // Ultimate fallback
-        doc.setFont("helvetica", "normal")
+      let textX = x + gutterWidth + padding
+      for (const token of row.tokens) {
+        const style = CODE_THEME.tokens[token.type]
+        setFont(doc, "courier", `${style.bold ? "bold" : ""}${style.italic ? "italic" : ""}` || "normal")
+        doc.setTextColor(...style.color)
+        drawText(doc, token.text, textX, textY)
+        textX += getTextWidth(doc, token.text)
       }
+      textY += lineHeight
     }
-  }
-
-  // Set text color to dark for better contrast
-  doc.setTextColor(40, 40, 40)
-
-  // Calculate the starting Y position for text within the code block
-  let textY = currentY + 6
-
-  // Draw each line of code with proper positioning and preserve whitespace
-  for (let i = 0; i < codeLines.length; i++) {
-    // Check if we need a new page
-    if (textY + lineHeight > pageHeight - margin) {
-      // Calculate remaining lines
-      const remainingLines = codeLines.slice(i)
 
+    rowIndex += pageRows.length
+    currentY += segmentHeight
+    if (rowIndex < rows.length) {
       doc.addPage()
       currentY = margin
-
-      // Draw background for the rest of the code block
-      const remainingHeight = Math.min(remainingLines.length * lineHeight + 8, pageHeight - margin - currentY)
-      doc.setFillColor(248, 248, 248)
-      doc.setDrawColor(220, 220, 220)
-      doc.setLineWidth(0.5)
-      doc.rect(x, currentY, maxWidth, remainingHeight, "FD")
-
-      // CRITICAL: Reset monospace font after page break - EXPLICITLY force courier
-      doc.setFontSize(fontSettings.smallFontSize)
-
-      try {
-        doc.setFont("courier", "normal")
-      } catch (error) {
-        try {
-          doc.setFont("Courier", "normal")
-        } catch (error2) {
-          doc.setFont("helvetica", "normal")
-        }
-      }
-
-      doc.setTextColor(40, 40, 40)
-
-      // Reset text Y position for new page
-      textY = currentY + 6
     }
-
-    // Draw the code line with proper positioning and preserve whitespace
-    const lineText = codeLines[i] || "" // Handle empty lines
-
-    // Use direct text rendering to ensure monospace is preserved
-    doc.text(lineText, x + 4, textY)
-    textY += lineHeight
   }
 
-  // Calculate the final Y position based on the last drawn line
-  const finalY = Math.max(currentY + blockHeight, textY) + 4
-
   // Reset text color and font back to normal
   doc.setTextColor(0, 0, 0)
   doc.setFontSize(fontSettings.bodyFontSize)
+  setFont(doc, fontSettings.bodyFont, "normal")
+
+  return currentY + 4
+}
+
+// Draw a ```mermaid diagram as vector graphics, centered in the notes column. Returns the y below it, or null when
+// the diagram can't be drawn
+async function renderDiagramBlock(
+  doc: jsPDF,
+  source: string,
+  x: number,
+  y: number,
+  maxWidth: number,
+  pageHeight: number,
+  margin: number,
+): Promise<number | null> {
+  let drawing: VectorDrawing
   try {
-    setFont(doc, fontSettings.bodyFont, "normal")
+    drawing = await renderDiagramVector(source)
   } catch (error) {
-    doc.setFont("helvetica", "normal")
+    console.error("Error drawing diagram for PDF:", error)
+    return null
   }
 
-  return finalY
+  // Diagram pixels at 96 dpi, shrunk to fit the column and at most 60% of the page height
+  let width = Math.min(maxWidth, (drawing.width * 25.4) / 96)
+  let height = (width * drawing.height) / drawing.width
+  const maxHeight = (pageHeight - margin * 2) * 0.6
+  if (height > maxHeight) {
+    width *= maxHeight / height
+    height = maxHeight
+  }
+
+  let currentY = y + 3
+  if (currentY + height > pageHeight - margin) {
+    doc.addPage()
+    currentY = margin + 3
+  }
+
+  drawVectorDrawing(doc, drawing, x + (maxWidth - width) / 2, currentY, width)
+  return currentY + height + 3
 }
 
 // New function that combines renderMarkdownContent and addImagesToPdf to render images inline
@@ -1266,9 +1726,10 @@ async function renderMarkdownContentWithImages(
   pageWidth: number,
   sectionInfo: any,
   fontSettings: FontSettings,
+  links?: PdfLinkContext,
 ): Promise<number> {
   let currentY = y
-  const lineHeight = 6 // Consistent line height
+  const lineHeight = fontSettings.lineHeight // Consistent line height
   const indent = 5
 
   // Use body font for content
@@ -1434,7 +1895,7 @@ async function renderMarkdownContentWithImages(
                 doc.setTextColor(100, 100, 100)
                 setFont(doc, fontSettings.bodyFont, "italic")
 
-                const captionLines = doc.splitTextToSize(`Figure: ${altText}`, maxWidth)
+                const captionLines = splitTextToSize(doc, `Figure: ${altText}`, maxWidth)
                 for (let i = 0; i < captionLines.length; i++) {
                   // Check for page break on each caption line
                   if (currentY + 5 > pageHeight - margin) {
@@ -1444,7 +1905,7 @@ async function renderMarkdownContentWithImages(
                     setFont(doc, fontSettings.bodyFont, "italic")
                   }
 
-                  doc.text(captionLines[i], x, currentY)
+                  drawText(doc, captionLines[i], x, currentY)
                   currentY += 5
                 }
 
@@ -1461,7 +1922,7 @@ async function renderMarkdownContentWithImages(
               // Add a placeholder text instead
               doc.setFontSize(fontSettings.smallFontSize)
               doc.setTextColor(150, 150, 150)
-              doc.text(`[Image: ${altText}]`, x, currentY)
+              drawText(doc, `[Image: ${altText}]`, x, currentY)
               doc.setTextColor(0, 0, 0)
               doc.setFontSize(fontSettings.bodyFontSize)
               currentY += 8
@@ -1471,7 +1932,7 @@ async function renderMarkdownContentWithImages(
             // Add a placeholder text for failed images
             doc.setFontSize(fontSettings.smallFontSize)
             doc.setTextColor(150, 150, 150)
-            doc.text(`[Image could not be loaded: ${altText}]`, x, currentY)
+            drawText(doc, `[Image could not be loaded: ${altText}]`, x, currentY)
             doc.setTextColor(0, 0, 0)
             doc.setFontSize(fontSettings.bodyFontSize)
             currentY += 8
@@ -1487,7 +1948,7 @@ async function renderMarkdownContentWithImages(
     if (line.startsWith("|") && line.endsWith("|")) {
       const tableLines: string[] = []
       while (i < lines.length && lines[i].trim().startsWith("|") && lines[i].trim().endsWith("|")) {
-        tableLines.push(lines[i])
+        tableLines.push(stripLinkMarkers(lines[i]))
         i++
       }
       i-- // Adjust for the outer loop increment
@@ -1497,13 +1958,25 @@ async function renderMarkdownContentWithImages(
 
     // Code blocks
     if (line.startsWith("```")) {
+      const language = line.slice(3).trim()
       const codeLines: string[] = []
       i++ // Skip opening \`\`\`
       while (i < lines.length && !lines[i].trim().startsWith("```")) {
-        codeLines.push(lines[i])
+        codeLines.push(stripLinkMarkers(lines[i]))
         i++
       }
-      currentY = renderCodeBlock(doc, codeLines, x, currentY, maxWidth, pageHeight, margin, fontSettings)
+
+      // Diagrams are drawn as vector graphics; one that can't be drawn is shown as its code
+      if (language === "mermaid") {
+        const source = codeLines.join("\n")
+        const diagramY = await renderDiagramBlock(doc, source, x, currentY, maxWidth, pageHeight, margin)
+        if (diagramY !== null) {
+          currentY = diagramY
+          continue
+        }
+      }
+
+      currentY = renderCodeBlock(doc, codeLines, language, x, currentY, maxWidth, pageHeight, margin, fontSettings)
       continue
     }
 
@@ -1546,7 +2019,18 @@ async function renderMarkdownContentWithImages(
 
       if (listItems.length > 0) {
         // Use the fixed renderListFixed function instead
-        currentY = renderListFixed(doc, listItems, x, currentY, maxWidth, isNumbered, pageHeight, margin, fontSettings)
+        currentY = renderListFixed(
+          doc,
+          listItems,
+          x,
+          currentY,
+          maxWidth,
+          isNumbered,
+          pageHeight,
+          margin,
+          fontSettings,
+          links,
+        )
       }
       continue
     }
@@ -1555,7 +2039,7 @@ async function renderMarkdownContentWithImages(
     if (line.startsWith(">")) {
       const quoteLines: string[] = []
       while (i < lines.length && lines[i].trim().startsWith(">")) {
-        quoteLines.push(lines[i].substring(1).trim())
+        quoteLines.push(stripLinkMarkers(lines[i].substring(1).trim()))
         i++
       }
       i-- // Adjust for the outer loop increment
@@ -1566,7 +2050,7 @@ async function renderMarkdownContentWithImages(
       doc.setTextColor(100, 100, 100)
 
       for (const quoteLine of quoteLines) {
-        const textLines = doc.splitTextToSize(quoteLine, maxWidth - indent * 2)
+        const textLines = splitTextToSize(doc, quoteLine, maxWidth - indent * 2)
 
         for (const textLine of textLines) {
           // Check if we need a new page
@@ -1577,7 +2061,7 @@ async function renderMarkdownContentWithImages(
             setFont(doc, fontSettings.bodyFont, "italic")
           }
 
-          doc.text(textLine, x + indent, currentY + 2)
+          drawText(doc, textLine, x + indent, currentY + 2)
           currentY += lineHeight
         }
       }
@@ -1591,7 +2075,7 @@ async function renderMarkdownContentWithImages(
     // Headings
     if (line.match(/^#{2,6}\s/)) {
       const headingLevel = line.indexOf(" ")
-      const headingText = line.substring(headingLevel + 1)
+      const headingText = stripLinkMarkers(line.substring(headingLevel + 1))
 
       // Set font size based on heading level
       let fontSize = fontSettings.titleFontSize - (headingLevel - 1) * 1
@@ -1600,7 +2084,7 @@ async function renderMarkdownContentWithImages(
       doc.setFontSize(fontSize)
       setFont(doc, fontSettings.titleFont, "bold")
 
-      const textLines = doc.splitTextToSize(headingText, maxWidth)
+      const textLines = splitTextToSize(doc, headingText, maxWidth)
 
       for (const textLine of textLines) {
         // Check if we need a new page
@@ -1611,7 +2095,7 @@ async function renderMarkdownContentWithImages(
           setFont(doc, fontSettings.titleFont, "bold")
         }
 
-        doc.text(textLine, x, currentY + 2)
+        drawText(doc, textLine, x, currentY + 2)
         currentY += lineHeight * 1.2
       }
 
@@ -1674,13 +2158,13 @@ async function renderMarkdownContentWithImages(
 
       doc.setFontSize(fontSize)
       setFont(doc, fontFamily, fontStyle)
+      if (segment.link) {
+        doc.setTextColor(...LINK_COLOR)
+      }
 
       // Handle text wrapping with proper page breaks
-      const words = segment.text.split(" ")
-
-      for (let i = 0; i < words.length; i++) {
-        const word = words[i] + (i < words.length - 1 ? " " : "")
-        const wordWidth = doc.getTextWidth(word)
+      for (const word of splitIntoWords(stripLinkMarkers(segment.text))) {
+        const wordWidth = getTextWidth(doc, word)
 
         // Check if word fits on current line
         if (currentX + wordWidth > x + maxWidth) {
@@ -1698,9 +2182,13 @@ async function renderMarkdownContentWithImages(
         }
 
         // Draw the word
-        doc.text(word, currentX, currentY)
+        drawText(doc, word, currentX, currentY)
+        if (segment.link && links) {
+          addLinkArea(doc, links, segment.link, currentX, currentY, wordWidth)
+        }
         currentX += wordWidth
       }
+      doc.setTextColor(0, 0, 0)
     }
 
     // Reset X position and move to next line
@@ -1722,9 +2210,10 @@ function renderListFixed(
   pageHeight: number,
   margin: number,
   fontSettings: FontSettings,
+  links?: PdfLinkContext,
 ): number {
   const currentY = y
-  const lineHeight = 6 // Same as regular text line height
+  const lineHeight = fontSettings.lineHeight // Same as regular text line height
   const indent = 8 // Slightly larger indent for better readability
 
   // Use body font for list content
@@ -1734,7 +2223,7 @@ function renderListFixed(
   let currentItemY = currentY
 
   for (let index = 0; index < listItems.length; index++) {
-    const item = listItems[index].trim()
+    const { text: item, ranges } = parseLinkMarkers(listItems[index].trim())
 
     // Skip empty items
     if (!item) continue
@@ -1751,19 +2240,28 @@ function renderListFixed(
     const marker = isNumbered ? `${index + 1}.` : "•"
 
     // Calculate marker width
-    const markerWidth = doc.getTextWidth(marker) + 2
+    const markerWidth = getTextWidth(doc, marker) + 2
 
     // Draw the marker
-    doc.text(marker, x, currentItemY)
+    drawText(doc, marker, x, currentItemY)
 
     // Calculate available width for the item text
     const itemTextWidth = maxWidth - markerWidth - indent
 
     // Split the item text into lines that fit
-    const itemLines = doc.splitTextToSize(item, itemTextWidth)
+    const itemLines: string[] = splitTextToSize(doc, item, itemTextWidth)
+
+    // Find where each line starts in the item text so note links can be placed on it
+    let searchFrom = 0
+    const lineRanges = itemLines.map((itemLine) => {
+      const lineStart = item.indexOf(itemLine, searchFrom)
+      if (lineStart === -1) return []
+      searchFrom = lineStart + itemLine.length
+      return ranges.map((range) => ({ ...range, start: range.start - lineStart, end: range.end - lineStart }))
+    })
 
     // Draw the first line of the item
-    doc.text(itemLines[0], x + markerWidth + indent, currentItemY)
+    drawTextWithLinks(doc, itemLines[0], x + markerWidth + indent, currentItemY, lineRanges[0], links)
 
     // Draw any additional lines with proper indentation
     for (let lineIndex = 1; lineIndex < itemLines.length; lineIndex++) {
@@ -1777,7 +2275,8 @@ function renderListFixed(
         setFont(doc, fontSettings.bodyFont, "normal")
       }
 
-      doc.text(itemLines[lineIndex], x + markerWidth + indent, currentItemY)
+      const lineX = x + markerWidth + indent
+      drawTextWithLinks(doc, itemLines[lineIndex], lineX, currentItemY, lineRanges[lineIndex], links)
     }
 
     // Move to the next list item with slightly increased spacing
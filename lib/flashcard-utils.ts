@@ -1,8 +1,32 @@
 import { v4 as uuidv4 } from "uuid"
+import {
+  getScheduler,
+  getDeckSchedulerSettings,
+  switchDeckScheduler,
+  sm2Scheduler,
+  DEFAULT_SCHEDULER_SETTINGS,
+  type FsrsState,
+  type SchedulerAlgorithm,
+  type SchedulerSettings,
+} from "./scheduler"
+import { addReviewLogEntry, generateReviewLogId } from "./review-log"
+import { getSectionId } from "./search-index"
 
 // Flashcard types
 export type FlashcardType = "question-answer" | "feynman" | "cloze"
 
+// Where in the source note a generated card came from, used to resync decks after edits
+export interface FlashcardSource {
+  kind: "section" | "list-item" | "sentence"
+  sectionId: string
+  heading: string
+  text: string // Source text the card was generated from
+  hash: string
+}
+
+// Set when a resync finds the card's source text changed or deleted
+export type FlashcardSyncStatus = "changed" | "retired"
+
 export interface Flashcard {
   id: string
   type: FlashcardType
@@ -16,6 +40,11 @@ export interface Flashcard {
   easeFactor: number // SuperMemo algorithm parameter
   interval: number // Days until next review
   repetitions: number // Number of successful reviews in a row
+  lapses?: number // Times the card was forgotten after being learned
+  fsrs?: FsrsState // Memory state, only for decks scheduled with FSRS
+  source?: FlashcardSource
+  syncStatus?: FlashcardSyncStatus
+  pendingUpdate?: Pick<Flashcard, "front" | "back" | "notes"> & { source: FlashcardSource } // Regenerated content awaiting approval
 }
 
 export interface FlashcardDeck {
@@ -26,15 +55,29 @@ export interface FlashcardDeck {
   createdAt: string
   updatedAt: string
   sourceDocumentId?: string
+  scheduler?: SchedulerAlgorithm // Defaults to SM-2
+  schedulerSettings?: SchedulerSettings
+  generatorTypes?: FlashcardType[] // Card types generated from the source note, reused when resyncing
 }
 
+// A due card together with the deck it belongs to
+export type DueFlashcard = Flashcard & { deckId: string }
+
+// Review answer buttons and the SM-2 quality each one maps to
+export const REVIEW_GRADES = [
+  { label: "Again", quality: 1 },
+  { label: "Hard", quality: 3 },
+  { label: "Good", quality: 4 },
+  { label: "Easy", quality: 5 },
+] as const
+
+// Placeholder used for the hidden term on the front of cloze cards
+export const CLOZE_BLANK = "[...]"
+
 // Default values for new flashcards
 const DEFAULT_EASE_FACTOR = 2.5
 const DEFAULT_INTERVAL = 1
 
-// SuperMemo-2 algorithm parameters
-const MIN_EASE_FACTOR = 1.3
-
 // Create a new flashcard
 export function createFlashcard(
   type: FlashcardType,
@@ -103,45 +146,39 @@ export function updateFlashcardWithReview(
   card: Flashcard,
   quality: number, // 0-5 rating (0=complete blackout, 5=perfect recall)
 ): Flashcard {
-  // Ensure quality is between 0 and 5
-  quality = Math.max(0, Math.min(5, quality))
-
-  let { easeFactor, interval, repetitions } = card
-
-  // Update ease factor based on performance
-  easeFactor = Math.max(MIN_EASE_FACTOR, easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)))
-
-  // Update repetitions and interval
-  if (quality < 3) {
-    // If recall was difficult, reset repetitions
-    repetitions = 0
-    interval = 1
-  } else {
-    // If recall was good, increase interval
-    repetitions += 1
-    if (repetitions === 1) {
-      interval = 1
-    } else if (repetitions === 2) {
-      interval = 6
-    } else {
-      interval = Math.round(interval * easeFactor)
-    }
-  }
+  return sm2Scheduler.review(card, quality, DEFAULT_SCHEDULER_SETTINGS, new Date())
+}
 
-  // Calculate next review date
-  const now = new Date()
-  const nextReview = new Date(now.getTime() + interval * 24 * 60 * 60 * 1000).toISOString()
+// Hash normalized source text so unchanged content can be recognised after edits
+export function hashSourceText(text: string): string {
+  const normalized = text.replace(/\s+/g, " ").trim().toLowerCase()
+  let hash = 5381
+  for (let i = 0; i < normalized.length; i++) {
+    hash = ((hash << 5) + hash + normalized.charCodeAt(i)) | 0
+  }
+  return (hash >>> 0).toString(36)
+}
 
+// Build the source anchor for a generated card
+function createSource(kind: FlashcardSource["kind"], heading: string, text: string): FlashcardSource {
   return {
-    ...card,
-    easeFactor,
-    interval,
-    repetitions,
-    lastReviewed: now.toISOString(),
-    nextReview,
+    kind,
+    sectionId: getSectionId(heading),
+    heading,
+    text: text.trim(),
+    hash: hashSourceText(text),
   }
 }
 
+// Generate flashcards of the given types from markdown content
+export function generateFlashcards(markdown: string, types: FlashcardType[], tags: string[] = []): Flashcard[] {
+  return [
+    ...(types.includes("question-answer") ? generateQuestionAnswerFlashcards(markdown, tags) : []),
+    ...(types.includes("feynman") ? generateFeynmanFlashcards(markdown, tags) : []),
+    ...(types.includes("cloze") ? generateClozeFlashcards(markdown, tags) : []),
+  ]
+}
+
 // Generate question-answer flashcards from markdown content
 export function generateQuestionAnswerFlashcards(markdown: string, tags: string[] = []): Flashcard[] {
   const flashcards: Flashcard[] = []
@@ -150,30 +187,32 @@ export function generateQuestionAnswerFlashcards(markdown: string, tags: string[
   sections.forEach((section) => {
     if (section.heading && section.content.trim()) {
       // Use the heading as the question and the content as the answer
-      flashcards.push(
-        createFlashcard(
+      flashcards.push({
+        ...createFlashcard(
           "question-answer",
           `${section.heading}?`, // Add a question mark if not present
           section.content.trim(),
           `Generated from heading: ${section.heading}`,
           tags,
         ),
-      )
+        source: createSource("section", section.heading, section.content),
+      })
 
       // Look for bullet points or numbered lists to create additional cards
       const listItems = extractListItems(section.content)
       listItems.forEach((item) => {
         if (item.trim().length > 10) {
           // Only create cards for substantial list items
-          flashcards.push(
-            createFlashcard(
+          flashcards.push({
+            ...createFlashcard(
               "question-answer",
               `What is ${item.split(" ").slice(0, 3).join(" ")}...?`,
               item,
               `Generated from list item under: ${section.heading}`,
               tags,
             ),
-          )
+            source: createSource("list-item", section.heading, item),
+          })
         }
       })
     }
@@ -190,15 +229,16 @@ export function generateFeynmanFlashcards(markdown: string, tags: string[] = [])
   sections.forEach((section) => {
     if (section.heading && section.content.trim()) {
       // Create a Feynman-style card asking to explain the concept
-      flashcards.push(
-        createFlashcard(
+      flashcards.push({
+        ...createFlashcard(
           "feynman",
           `Explain "${section.heading}" in simple terms as if teaching someone new to the subject.`,
           section.content.trim(),
           `Feynman technique for: ${section.heading}`,
           tags,
         ),
-      )
+        source: createSource("section", section.heading, section.content),
+      })
     }
   })
 
@@ -225,11 +265,12 @@ export function generateClozeFlashcards(markdown: string, tags: string[] = []):
             if (term.length > 3) {
               // Only use terms that are substantial
               // Create the cloze deletion by replacing the term with [...]
-              const front = sentence.replace(new RegExp(`\\b${escapeRegExp(term)}\\b`, "i"), "[...]")
+              const front = sentence.replace(new RegExp(`\\b${escapeRegExp(term)}\\b`, "i"), CLOZE_BLANK)
 
-              flashcards.push(
-                createFlashcard("cloze", front, term, `Cloze deletion from: ${section.heading || "content"}`, tags),
-              )
+              flashcards.push({
+                ...createFlashcard("cloze", front, term, `Cloze deletion from: ${section.heading || "content"}`, tags),
+                source: createSource("sentence", section.heading, sentence),
+              })
             }
           })
         }
@@ -471,18 +512,89 @@ export function deleteFlashcardDeck(deckId: string): boolean {
   }
 }
 
+// A card is due if it has never been reviewed or if its next review date is in the past
+// (retired cards are never due)
+export function isFlashcardDue(card: Flashcard, now: Date = new Date()): boolean {
+  if (card.syncStatus === "retired") return false
+  return !card.nextReview || card.nextReview <= now.toISOString()
+}
+
+// Count the cards of a deck that are due for review
+export function getDeckDueCount(deck: FlashcardDeck, now: Date = new Date()): number {
+  return deck.cards.filter((card) => isFlashcardDue(card, now)).length
+}
+
+// Preview how a card would be rescheduled by its deck's algorithm
+export function previewFlashcardReview(deck: FlashcardDeck, card: Flashcard, quality: number): Flashcard {
+  return getScheduler(deck.scheduler).review(card, quality, getDeckSchedulerSettings(deck), new Date())
+}
+
+// Grade a card in a stored deck with the deck's scheduler, persist the new schedule and log the review
+export function reviewFlashcardInDeck(
+  deckId: string,
+  cardId: string,
+  quality: number,
+  durationMs?: number,
+): Flashcard | null {
+  const deck = getFlashcardDeck(deckId)
+  const card = deck?.cards.find((c) => c.id === cardId)
+  if (!deck || !card) return null
+
+  const reviewed = previewFlashcardReview(deck, card, quality)
+  saveFlashcardDeck(updateFlashcardInDeck(deck, reviewed))
+
+  const reviewedAt = reviewed.lastReviewed || new Date().toISOString()
+  const elapsedMs = card.lastReviewed ? new Date(reviewedAt).getTime() - new Date(card.lastReviewed).getTime() : 0
+
+  // The log only feeds statistics, so a failed write must not undo the review
+  addReviewLogEntry({
+    id: generateReviewLogId(),
+    cardId,
+    deckId,
+    quality,
+    reviewedAt,
+    elapsedDays: Math.max(0, elapsedMs / (24 * 60 * 60 * 1000)),
+    durationMs,
+    previousInterval: card.lastReviewed ? card.interval : 0,
+    nextInterval: reviewed.interval,
+    scheduler: deck.scheduler || "sm2",
+  }).catch((error) => console.error("Error logging review:", error))
+
+  return reviewed
+}
+
+// Change a stored deck's scheduling algorithm and settings, migrating card state
+export function updateDeckScheduler(
+  deckId: string,
+  algorithm: SchedulerAlgorithm,
+  settings?: Partial<SchedulerSettings>,
+): FlashcardDeck | null {
+  const deck = getFlashcardDeck(deckId)
+  if (!deck) return null
+
+  const updated = switchDeckScheduler(deck, algorithm, settings)
+  saveFlashcardDeck(updated)
+  return updated
+}
+
+// Split a cloze front into the text before and after the blank (null if there is no blank)
+export function splitClozeText(front: string): [string, string] | null {
+  const index = front.indexOf(CLOZE_BLANK)
+  if (index === -1) return null
+  return [front.substring(0, index), front.substring(index + CLOZE_BLANK.length)]
+}
+
 // Get flashcards due for review
-export function getDueFlashcards(deckId?: string): Flashcard[] {
+export function getDueFlashcards(deckId?: string): DueFlashcard[] {
   try {
-    const now = new Date().toISOString()
+    const now = new Date()
     const decks = deckId ? ([getFlashcardDeck(deckId)].filter(Boolean) as FlashcardDeck[]) : getAllFlashcardDecks()
 
-    const dueCards: Flashcard[] = []
+    const dueCards: DueFlashcard[] = []
 
     decks.forEach((deck) => {
       deck.cards.forEach((card) => {
-        // A card is due if it has never been reviewed or if its next review date is in the past
-        if (!card.nextReview || card.nextReview <= now) {
+        if (isFlashcardDue(card, now)) {
           dueCards.push({ ...card, deckId: deck.id })
         }
       })
@@ -0,0 +1,117 @@
+/**
+ * YAML frontmatter for markdown notes
+ * Covers the subset used by note apps: scalars, quoted strings, [inline, lists] and "- item" lists
+ */
+
+export type FrontmatterValue = string | string[]
+
+export interface ParsedFrontmatter {
+  data: Record<string, FrontmatterValue>
+  body: string // Markdown after the frontmatter block
+}
+
+const FRONTMATTER_REGEX = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/
+
+function unquote(value: string): string {
+  const trimmed = value.trim()
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    // Double-quoted YAML strings use the same escapes as JSON for everything we write
+    try {
+      return JSON.parse(trimmed)
+    } catch {
+      return trimmed.slice(1, -1).replace(/\\"/g, '"').replace(/\\\\/g, "\\")
+    }
+  }
+  if (trimmed.length >= 2 && trimmed.startsWith("'") && trimmed.endsWith("'")) {
+    return trimmed.slice(1, -1).replace(/''/g, "'")
+  }
+  return trimmed
+}
+
+// Split "[a, "b, c", d]" into its items
+function parseInlineList(value: string): string[] {
+  const items: string[] = []
+  let current = ""
+  let quote: string | null = null
+  let escaped = false
+
+  for (const char of value.slice(1, -1)) {
+    if (quote) {
+      // A backslash escapes the next character inside double quotes
+      if (escaped) escaped = false
+      else if (char === "\\" && quote === '"') escaped = true
+      else if (char === quote) quote = null
+      current += char
+    } else if (char === '"' || char === "'") {
+      quote = char
+      current += char
+    } else if (char === ",") {
+      items.push(current)
+      current = ""
+    } else {
+      current += char
+    }
+  }
+  items.push(current)
+
+  return items.map(unquote).filter(Boolean)
+}
+
+// Read the frontmatter block at the start of a note, if any
+export function parseFrontmatter(markdown: string): ParsedFrontmatter {
+  const match = markdown.match(FRONTMATTER_REGEX)
+  if (!match) return { data: {}, body: markdown }
+
+  const data: Record<string, FrontmatterValue> = {}
+  let listKey: string | null = null
+
+  match[1].split(/\r?\n/).forEach((line) => {
+    if (!line.trim() || line.trim().startsWith("#")) return
+
+    const item = line.match(/^\s*-\s+(.*)$/)
+    if (item && listKey) {
+      const list = data[listKey]
+      data[listKey] = [...(Array.isArray(list) ? list : []), unquote(item[1])]
+      return
+    }
+
+    const entry = line.match(/^([A-Za-z0-9_-]+)\s*:\s*(.*)$/)
+    if (!entry) return
+
+    const [, key, rawValue] = entry
+    const value = rawValue.trim()
+    listKey = null
+
+    if (!value) {
+      // Either an empty value or the start of a "- item" list
+      data[key] = ""
+      listKey = key
+    } else if (value.startsWith("[") && value.endsWith("]")) {
+      data[key] = parseInlineList(value)
+    } else {
+      data[key] = unquote(value)
+    }
+  })
+
+  return { data, body: markdown.slice(match[0].length) }
+}
+
+// Read a frontmatter value as a list, splitting comma separated strings
+export function getFrontmatterList(value: FrontmatterValue | undefined): string[] {
+  if (!value) return []
+  const items = Array.isArray(value) ? value : value.split(",")
+  return items.map((item) => item.trim()).filter(Boolean)
+}
+
+// Write a frontmatter block; strings are always double-quoted so any text survives a round trip
+export function serializeFrontmatter(data: Record<string, FrontmatterValue | undefined>): string {
+  const lines = Object.entries(data)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) =>
+      Array.isArray(value)
+        ? `${key}: [${value.map((item) => JSON.stringify(item)).join(", ")}]`
+        : `${key}: ${JSON.stringify(value)}`,
+    )
+
+  return `---\n${lines.join("\n")}\n---\n`
+}
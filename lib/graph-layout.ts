@@ -0,0 +1,721 @@
+/**
+ * Layered graph layout for the diagram renderers
+ * Places nodes in ranks along the flow direction (Sugiyama-style): cycles are broken, edges spanning several ranks get
+ * dummy nodes, crossings are reduced with barycenter sweeps and positions are balanced under spacing constraints.
+ * Edges are routed through the gaps between ranks, labels get slots of their own and clusters are kept in boxes.
+ */
+
+export type LayoutDirection = "TD" | "BT" | "LR" | "RL"
+
+// Outline of a node, used to end edges on its border
+export type LayoutShape = "rect" | "diamond" | "ellipse"
+
+export interface LayoutNodeInput {
+  id: string
+  width: number
+  height: number
+  shape?: LayoutShape
+  cluster?: string // Innermost cluster containing the node
+}
+
+export interface LayoutEdgeInput {
+  from: string
+  to: string
+  labelWidth?: number
+  labelHeight?: number
+}
+
+export interface LayoutClusterInput {
+  id: string
+  parent?: string
+  labelWidth?: number
+}
+
+export interface LayoutOptions {
+  direction?: LayoutDirection
+  nodeSpacing?: number // Between neighbouring nodes in a rank
+  rankSpacing?: number // Between ranks
+  edgeSpacing?: number // Between edges passing side by side
+  clusterPadding?: number
+  clusterLabelHeight?: number // Space kept for the title at the top of a cluster
+}
+
+export interface LayoutPoint {
+  x: number
+  y: number
+}
+
+// Top-left corner and size
+export interface LayoutBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface LayoutEdge {
+  from: string
+  to: string
+  points: LayoutPoint[] // From the border of the source node to the border of the target, empty if not laid out
+  label: LayoutBox | null
+}
+
+export interface GraphLayout {
+  nodes: Map<string, LayoutBox>
+  edges: LayoutEdge[] // In input order
+  clusters: Map<string, LayoutBox>
+  width: number
+  height: number
+}
+
+// A node in the layered graph. Positions are in layout space: breadth runs across a rank, depth along the flow
+interface LayerNode {
+  kind: "node" | "dummy" | "label" | "border"
+  id: string
+  rank: number
+  breadth: number
+  depth: number
+  shape: LayoutShape
+  chain: string[] // Clusters containing the node, outermost first
+  side?: "start" | "end" // Which border of its cluster a border node marks
+  extra: number // Breadth kept free after the node, e.g. for self loops
+  order: number
+  pos: number
+  above: Segment[]
+  below: Segment[]
+}
+
+// A piece of an edge between neighbouring ranks
+interface Segment {
+  upper: LayerNode
+  lower: LayerNode
+  weight: number // How strongly the two ends pull towards each other
+  border: boolean // Links the borders of a cluster rather than belonging to an edge
+}
+
+// A position shared by one or more layer nodes, with the space it needs from its neighbours
+interface Slot {
+  desired: number
+  pos: number
+  before: Array<{ slot: Slot; space: number }>
+  after: Array<{ slot: Slot; space: number }>
+}
+
+const SWEEPS = 8
+const BALANCE_ITERATIONS = 30
+const LOOP_SIZE = 18
+
+export function layoutGraph(
+  nodeInputs: LayoutNodeInput[],
+  edgeInputs: LayoutEdgeInput[],
+  clusterInputs: LayoutClusterInput[] = [],
+  options: LayoutOptions = {},
+): GraphLayout {
+  const direction = options.direction || "TD"
+  const nodeSpacing = options.nodeSpacing ?? 40
+  const rankSpacing = options.rankSpacing ?? 50
+  const edgeSpacing = options.edgeSpacing ?? 12
+  const padding = options.clusterPadding ?? 15
+  const clusterLabelHeight = options.clusterLabelHeight ?? 0
+  const vertical = direction === "TD" || direction === "BT"
+
+  // Layout space sizes: breadth across the rank, depth along the flow
+  const toBreadth = (width: number, height: number) => (vertical ? width : height)
+  const toDepth = (width: number, height: number) => (vertical ? height : width)
+
+  // Cluster nesting
+  const clusterParents = new Map(clusterInputs.map((cluster) => [cluster.id, cluster.parent]))
+  const clusterChain = (id: string | undefined): string[] => {
+    const chain: string[] = []
+    while (id !== undefined && clusterParents.has(id) && !chain.includes(id)) {
+      chain.unshift(id)
+      id = clusterParents.get(id)
+    }
+    return chain
+  }
+
+  // Real nodes
+  const layerNodes = new Map<string, LayerNode>()
+  for (const input of nodeInputs) {
+    if (layerNodes.has(input.id)) continue
+    layerNodes.set(input.id, {
+      kind: "node",
+      id: input.id,
+      rank: 0,
+      breadth: toBreadth(input.width, input.height),
+      depth: toDepth(input.width, input.height),
+      shape: input.shape || "rect",
+      chain: clusterChain(input.cluster),
+      extra: 0,
+      order: 0,
+      pos: 0,
+      above: [],
+      below: [],
+    })
+  }
+
+  const edgeIndices = edgeInputs
+    .map((_, index) => index)
+    .filter((index) => layerNodes.has(edgeInputs[index].from) && layerNodes.has(edgeInputs[index].to))
+  const loopIndices = edgeIndices.filter((index) => edgeInputs[index].from === edgeInputs[index].to)
+  const flowIndices = edgeIndices.filter((index) => edgeInputs[index].from !== edgeInputs[index].to)
+  const hasLabel = (edge: LayoutEdgeInput) => Boolean(edge.labelWidth && edge.labelHeight)
+  const labelBreadth = (edge: LayoutEdgeInput) => (hasLabel(edge) ? toBreadth(edge.labelWidth!, edge.labelHeight!) : 0)
+
+  // Break cycles by reversing the edges that lead back to a node still being visited
+  const reversed = new Set<number>()
+  const outgoing = new Map<string, number[]>()
+  for (const index of flowIndices) {
+    const list = outgoing.get(edgeInputs[index].from) || []
+    list.push(index)
+    outgoing.set(edgeInputs[index].from, list)
+  }
+  const visitState = new Map<string, "active" | "done">()
+  const visit = (id: string) => {
+    visitState.set(id, "active")
+    for (const index of outgoing.get(id) || []) {
+      const target = edgeInputs[index].to
+      const state = visitState.get(target)
+      if (state === "active") reversed.add(index)
+      else if (!state) visit(target)
+    }
+    visitState.set(id, "done")
+  }
+  layerNodes.forEach((_, id) => {
+    if (!visitState.has(id)) visit(id)
+  })
+
+  const flowEnds = (index: number): [LayerNode, LayerNode] => {
+    const edge = edgeInputs[index]
+    const from = layerNodes.get(edge.from)!
+    const to = layerNodes.get(edge.to)!
+    return reversed.has(index) ? [to, from] : [from, to]
+  }
+
+  // Rank by longest path. Labelled edges take two ranks so their labels get a rank of their own in between
+  const labelRanks = flowIndices.some((index) => hasLabel(edgeInputs[index]))
+  const minLength = labelRanks ? 2 : 1
+  const predecessors = new Map<LayerNode, LayerNode[]>()
+  const successors = new Map<LayerNode, LayerNode[]>()
+  layerNodes.forEach((node) => {
+    predecessors.set(node, [])
+    successors.set(node, [])
+  })
+  for (const index of flowIndices) {
+    const [upper, lower] = flowEnds(index)
+    successors.get(upper)!.push(lower)
+    predecessors.get(lower)!.push(upper)
+  }
+
+  const topological: LayerNode[] = []
+  const pending = new Map<LayerNode, number>()
+  layerNodes.forEach((node) => pending.set(node, predecessors.get(node)!.length))
+  const ready = [...layerNodes.values()].filter((node) => pending.get(node) === 0)
+  while (ready.length > 0) {
+    const node = ready.shift()!
+    topological.push(node)
+    for (const next of successors.get(node)!) {
+      pending.set(next, pending.get(next)! - 1)
+      if (pending.get(next) === 0) ready.push(next)
+    }
+  }
+  for (const node of topological) {
+    const ranks = predecessors.get(node)!.map((upper) => upper.rank + minLength)
+    node.rank = Math.max(0, ...ranks)
+  }
+  // Sources sit just above the first node they lead to, rather than all in the top rank
+  for (const node of [...topological].reverse()) {
+    const next = successors.get(node)!
+    if (predecessors.get(node)!.length === 0 && next.length > 0) {
+      node.rank = Math.min(...next.map((lower) => lower.rank)) - minLength
+    }
+  }
+  const lowestRank = Math.min(0, ...topological.map((node) => node.rank))
+  topological.forEach((node) => (node.rank -= lowestRank))
+
+  let created = 0
+  const createNode = (kind: LayerNode["kind"], rank: number, chain: string[], breadth = 0, depth = 0): LayerNode => ({
+    kind,
+    id: `${kind}:${created++}`,
+    rank,
+    breadth,
+    depth,
+    shape: "rect",
+    chain,
+    extra: 0,
+    order: 0,
+    pos: 0,
+    above: [],
+    below: [],
+  })
+  const connect = (upper: LayerNode, lower: LayerNode, border = false) => {
+    const dummies = [upper, lower].filter((node) => node.kind === "dummy" || node.kind === "label").length
+    const segment = { upper, lower, weight: border ? 4 : [1, 2, 8][dummies], border }
+    upper.below.push(segment)
+    lower.above.push(segment)
+  }
+
+  // Split edges into one segment per rank, through dummy nodes. The label sits on the dummy in the middle
+  const edgePaths = new Map<number, LayerNode[]>()
+  const allNodes = [...layerNodes.values()]
+  for (const index of flowIndices) {
+    const [upper, lower] = flowEnds(index)
+    const edge = edgeInputs[index]
+    const chain = upper.chain.filter((cluster, level) => lower.chain[level] === cluster)
+    const middle = upper.rank + (lower.rank - upper.rank) / 2
+    const labelRank = hasLabel(edge) ? (Math.floor(middle) % 2 === 1 ? Math.floor(middle) : Math.ceil(middle) - 1) : -1
+
+    const path = [upper]
+    for (let rank = upper.rank + 1; rank < lower.rank; rank++) {
+      const dummy =
+        rank === labelRank
+          ? createNode("label", rank, chain, labelBreadth(edge), toDepth(edge.labelWidth!, edge.labelHeight!))
+          : createNode("dummy", rank, chain)
+      allNodes.push(dummy)
+      path.push(dummy)
+    }
+    path.push(lower)
+    for (let i = 1; i < path.length; i++) connect(path[i - 1], path[i])
+    edgePaths.set(index, path)
+  }
+
+  // Self loops go out on the far side of their node, so keep that side free
+  const loopsByNode = new Map<LayerNode, number[]>()
+  for (const index of loopIndices) {
+    const node = layerNodes.get(edgeInputs[index].from)!
+    loopsByNode.set(node, [...(loopsByNode.get(node) || []), index])
+  }
+  loopsByNode.forEach((indices, node) => {
+    const widest = Math.max(0, ...indices.map((index) => labelBreadth(edgeInputs[index])))
+    node.extra = LOOP_SIZE * indices.length + (widest ? widest + 6 : 0)
+  })
+
+  // Each cluster gets a pair of border nodes in every rank it spans, which keeps its members together
+  const clusterRanks = new Map<string, { first: number; last: number }>()
+  for (const node of allNodes) {
+    for (const cluster of node.chain) {
+      const span = clusterRanks.get(cluster)
+      clusterRanks.set(cluster, {
+        first: Math.min(span?.first ?? node.rank, node.rank),
+        last: Math.max(span?.last ?? node.rank, node.rank),
+      })
+    }
+  }
+  const borders = new Map<string, { start: LayerNode[]; end: LayerNode[] }>()
+  clusterRanks.forEach(({ first, last }, cluster) => {
+    const chain = clusterChain(cluster)
+    const start: LayerNode[] = []
+    const end: LayerNode[] = []
+    for (let rank = first; rank <= last; rank++) {
+      const startNode = { ...createNode("border", rank, chain), side: "start" as const }
+      const endNode = { ...createNode("border", rank, chain), side: "end" as const }
+      if (rank > first) {
+        connect(start[start.length - 1], startNode, true)
+        connect(end[end.length - 1], endNode, true)
+      }
+      start.push(startNode)
+      end.push(endNode)
+      allNodes.push(startNode, endNode)
+    }
+    borders.set(cluster, { start, end })
+  })
+
+  // Initial order: depth-first from the nodes in input order
+  const rankCount = Math.max(-1, ...allNodes.map((node) => node.rank)) + 1
+  let layers: LayerNode[][] = Array.from({ length: rankCount }, () => [])
+  const visited = new Set<LayerNode>()
+  const initialOrder = new Map<LayerNode, number>()
+  const visitOrder = (node: LayerNode) => {
+    if (visited.has(node)) return
+    visited.add(node)
+    initialOrder.set(node, initialOrder.size)
+    node.below.forEach((segment) => visitOrder(segment.lower))
+  }
+  ;[...allNodes].sort((a, b) => a.rank - b.rank).forEach(visitOrder)
+  allNodes.forEach((node) => layers[node.rank].push(node))
+
+  // Clusters are ordered by where their members sit on average, the same in every rank, so that their boxes can
+  // be placed side by side
+  const clusterIndices = new Map(clusterInputs.map((cluster, index) => [cluster.id, index]))
+  const clusterKeys = (position: (node: LayerNode) => number) => {
+    const totals = new Map<string, { sum: number; count: number }>()
+    for (const node of allNodes) {
+      for (const cluster of node.chain) {
+        const total = totals.get(cluster) || { sum: 0, count: 0 }
+        totals.set(cluster, { sum: total.sum + position(node), count: total.count + 1 })
+      }
+    }
+    const keys = new Map<string, { key: number; index: number }>()
+    totals.forEach(({ sum, count }, cluster) => keys.set(cluster, { key: sum / count, index: clusterIndices.get(cluster)! }))
+    return keys
+  }
+  const initialClusterKeys = clusterKeys((node) => initialOrder.get(node)!)
+  layers = layers.map((layer) => sortLayer(layer, initialOrder, initialClusterKeys))
+  assignOrder(layers)
+
+  // Reduce crossings with barycenter sweeps, keeping the best order found. Keys are relative positions in a rank
+  let bestOrder = layers.map((layer) => [...layer])
+  let bestCrossings = countCrossings(layers)
+  for (let sweep = 0; sweep < SWEEPS && bestCrossings > 0; sweep++) {
+    const downwards = sweep % 2 === 0
+    const sweepClusterKeys = clusterKeys((node) => node.order / layers[node.rank].length)
+    for (let step = 0; step < rankCount; step++) {
+      const rank = downwards ? step : rankCount - 1 - step
+      const keys = new Map<LayerNode, number>()
+      for (const node of layers[rank]) {
+        const fixed = step === 0 ? [] : downwards ? node.above : node.below
+        const neighbours = fixed.map((segment) => (downwards ? segment.upper : segment.lower))
+        const total = neighbours.reduce((sum, other) => sum + other.order / layers[other.rank].length, 0)
+        keys.set(node, neighbours.length > 0 ? total / neighbours.length : node.order / layers[rank].length)
+      }
+      layers[rank] = sortLayer(layers[rank], keys, sweepClusterKeys)
+      assignOrder([layers[rank]])
+    }
+    const crossings = countCrossings(layers)
+    if (crossings < bestCrossings) {
+      bestCrossings = crossings
+      bestOrder = layers.map((layer) => [...layer])
+    }
+  }
+  layers = bestOrder
+  assignOrder(layers)
+
+  // Space needed between neighbours in a rank, centre to centre
+  const titleAcross = vertical ? 0 : clusterLabelHeight
+  const separation = (a: LayerNode, b: LayerNode) => {
+    let space: number
+    if (a.side === "start") space = padding + titleAcross
+    else if (b.side === "end") space = padding
+    else if (a.side === "end" || b.side === "start") space = nodeSpacing / 2
+    else if (a.kind === "dummy" && b.kind === "dummy") space = edgeSpacing
+    else if (a.kind === "dummy" || b.kind === "dummy") space = nodeSpacing / 2
+    else space = nodeSpacing
+    return a.breadth / 2 + a.extra + space + b.breadth / 2
+  }
+
+  // Start packed, then repeatedly move each rank towards its neighbours without breaking the spacing
+  for (const layer of layers) {
+    let pos = 0
+    layer.forEach((node, index) => {
+      if (index > 0) pos += separation(layer[index - 1], node)
+      node.pos = pos
+    })
+    layer.forEach((node) => (node.pos -= pos / 2))
+  }
+  for (let iteration = 0; iteration < BALANCE_ITERATIONS; iteration++) {
+    const ranks = layers.map((_, index) => (iteration % 2 === 0 ? index : layers.length - 1 - index))
+    for (const rank of ranks) {
+      const layer = layers[rank]
+      const targets = layer.map((node) => {
+        const segments = [...node.above, ...node.below]
+        const weight = segments.reduce((sum, segment) => sum + segment.weight, 0)
+        if (weight === 0) return { value: node.pos, weight: 0.01 }
+        const sum = segments.reduce((total, s) => total + s.weight * (s.upper === node ? s.lower.pos : s.upper.pos), 0)
+        return { value: sum / weight, weight }
+      })
+      placeLayer(layer, targets, separation)
+    }
+  }
+
+  // Settle the final positions with each cluster's borders shared across its ranks, so that its box holds its
+  // members and nothing else. Pushing right from the balanced positions and pushing left from them both give
+  // valid layouts, and so does their average
+  const nesting = (cluster: string): number =>
+    1 + Math.max(0, ...clusterInputs.filter((c) => c.parent === cluster && borders.has(c.id)).map((c) => nesting(c.id)))
+  const labelWidths = new Map(clusterInputs.map((cluster) => [cluster.id, cluster.labelWidth || 0]))
+  const slots = new Map<LayerNode, Slot>()
+  borders.forEach(({ start, end }, cluster) => {
+    const startSlot = createSlot(Math.min(...start.map((node) => node.pos)))
+    const endSlot = createSlot(Math.max(...end.map((node) => node.pos)))
+    start.forEach((node) => slots.set(node, startSlot))
+    end.forEach((node) => slots.set(node, endSlot))
+    if (vertical) constrain(startSlot, endSlot, labelWidths.get(cluster)! + 2 * padding)
+  })
+  for (const layer of layers) {
+    layer.forEach((node) => {
+      if (!slots.has(node)) slots.set(node, createSlot(node.pos))
+    })
+    for (let i = 1; i < layer.length; i++) {
+      constrain(slots.get(layer[i - 1])!, slots.get(layer[i])!, separation(layer[i - 1], layer[i]))
+    }
+  }
+  const placed = placeSlots([...new Set(slots.values())])
+  if (placed) slots.forEach((slot, node) => (node.pos = slot.pos))
+
+  // Depth positions: each rank is as deep as its deepest node, with room between ranks for cluster edges and titles
+  const rankDepths = layers.map((layer) =>
+    Math.max(0, ...layer.filter((node) => node.kind === "node" || node.kind === "label").map((node) => node.depth)),
+  )
+  const levelPadding = (title: boolean) => padding + (title ? clusterLabelHeight : 0)
+  const startPadding = (cluster: string) => nesting(cluster) * levelPadding(direction === "TD")
+  const endPadding = (cluster: string) => nesting(cluster) * levelPadding(direction === "BT")
+  const baseGap = labelRanks ? rankSpacing / 2 : rankSpacing
+  const rankPositions: number[] = []
+  layers.forEach((_, rank) => {
+    if (rank === 0) {
+      rankPositions.push(rankDepths[0] / 2)
+      return
+    }
+    let ending = 0
+    let starting = 0
+    clusterRanks.forEach(({ first, last }, cluster) => {
+      if (last === rank - 1) ending = Math.max(ending, endPadding(cluster))
+      if (first === rank) starting = Math.max(starting, startPadding(cluster))
+    })
+    const gap = Math.max(baseGap, ending + starting + baseGap / 2)
+    rankPositions.push(rankPositions[rank - 1] + rankDepths[rank - 1] / 2 + gap + rankDepths[rank] / 2)
+  })
+  const bandStart = (rank: number) => rankPositions[rank] - rankDepths[rank] / 2
+  const bandEnd = (rank: number) => rankPositions[rank] + rankDepths[rank] / 2
+
+  // Layout space to the page: depth runs down or across, and is flipped for BT and RL
+  const toPoint = (breadth: number, depth: number): LayoutPoint => {
+    if (direction === "TD") return { x: breadth, y: depth }
+    if (direction === "BT") return { x: breadth, y: -depth }
+    if (direction === "LR") return { x: depth, y: breadth }
+    return { x: -depth, y: breadth }
+  }
+  const toBox = (breadth: number, depth: number, breadthSize: number, depthSize: number): LayoutBox => {
+    const centre = toPoint(breadth, depth)
+    const width = vertical ? breadthSize : depthSize
+    const height = vertical ? depthSize : breadthSize
+    return { x: centre.x - width / 2, y: centre.y - height / 2, width, height }
+  }
+
+  // Edges leave from the far side of a node and arrive on the near side, spread out when several share a side
+  const ports = new Map<string, number>()
+  const spreadPorts = (node: LayerNode, paths: Array<{ index: number; neighbour: LayerNode }>, side: "out" | "in") => {
+    const sorted = [...paths].sort((a, b) => a.neighbour.pos - b.neighbour.pos)
+    const step = sorted.length > 1 ? Math.min(16, (node.breadth * 0.6) / (sorted.length - 1)) : 0
+    sorted.forEach(({ index }, i) => ports.set(`${side}:${index}`, (i - (sorted.length - 1) / 2) * step))
+  }
+  layerNodes.forEach((node) => {
+    const leaving: Array<{ index: number; neighbour: LayerNode }> = []
+    const arriving: Array<{ index: number; neighbour: LayerNode }> = []
+    edgePaths.forEach((path, index) => {
+      if (path[0] === node) leaving.push({ index, neighbour: path[1] })
+      if (path[path.length - 1] === node) arriving.push({ index, neighbour: path[path.length - 2] })
+    })
+    spreadPorts(node, leaving, "out")
+    spreadPorts(node, arriving, "in")
+  })
+
+  const edges: LayoutEdge[] = edgeInputs.map((edge) => ({ from: edge.from, to: edge.to, points: [], label: null }))
+  edgePaths.forEach((path, index) => {
+    const upper = path[0]
+    const lower = path[path.length - 1]
+    const outOffset = ports.get(`out:${index}`) || 0
+    const inOffset = ports.get(`in:${index}`) || 0
+    const route: Array<[number, number]> = [
+      [upper.pos + outOffset, rankPositions[upper.rank] + halfDepthAt(upper, outOffset)],
+      [upper.pos + outOffset, bandEnd(upper.rank)],
+    ]
+    for (const dummy of path.slice(1, -1)) {
+      route.push([dummy.pos, bandStart(dummy.rank)], [dummy.pos, bandEnd(dummy.rank)])
+      if (dummy.kind === "label") {
+        edges[index].label = toBox(dummy.pos, rankPositions[dummy.rank], dummy.breadth, dummy.depth)
+      }
+    }
+    route.push(
+      [lower.pos + inOffset, bandStart(lower.rank)],
+      [lower.pos + inOffset, rankPositions[lower.rank] - halfDepthAt(lower, inOffset)],
+    )
+    const points = route
+      .filter(([b, d], i) => i === 0 || Math.abs(b - route[i - 1][0]) > 0.01 || Math.abs(d - route[i - 1][1]) > 0.01)
+      .map(([b, d]) => toPoint(b, d))
+    edges[index].points = reversed.has(index) ? points.reverse() : points
+  })
+
+  // Self loops, nested outwards when a node has several
+  loopsByNode.forEach((indices, node) => {
+    const depth = rankPositions[node.rank]
+    const spread = node.depth / 4
+    const side = node.pos + halfBreadthAt(node, spread)
+    const outer = node.pos + node.breadth / 2 + LOOP_SIZE * indices.length
+    indices.forEach((index, i) => {
+      const edge = edgeInputs[index]
+      const reach = node.pos + node.breadth / 2 + LOOP_SIZE * (i + 1)
+      edges[index].points = [
+        toPoint(side, depth - spread),
+        toPoint(reach, depth - spread),
+        toPoint(reach, depth + spread),
+        toPoint(side, depth + spread),
+      ]
+      if (hasLabel(edge)) {
+        const breadth = labelBreadth(edge)
+        const labelDepth = toDepth(edge.labelWidth!, edge.labelHeight!)
+        const labelPos = depth + (i - (indices.length - 1) / 2) * (labelDepth + 2)
+        edges[index].label = toBox(outer + 4 + breadth / 2, labelPos, breadth, labelDepth)
+      }
+    })
+  })
+
+  const nodes = new Map<string, LayoutBox>()
+  layerNodes.forEach((node, id) => nodes.set(id, toBox(node.pos, rankPositions[node.rank], node.breadth, node.depth)))
+
+  const clusters = new Map<string, LayoutBox>()
+  borders.forEach(({ start, end }, cluster) => {
+    const { first, last } = clusterRanks.get(cluster)!
+    const left = Math.min(...start.map((node) => node.pos))
+    const right = Math.max(...end.map((node) => node.pos))
+    const top = bandStart(first) - startPadding(cluster)
+    let bottom = bandEnd(last) + endPadding(cluster)
+    // Across the flow the title runs along the depth axis, so the box has to be long enough for it
+    if (!vertical) bottom = Math.max(bottom, top + labelWidths.get(cluster)! + 2 * padding)
+    clusters.set(cluster, toBox((left + right) / 2, (top + bottom) / 2, right - left, bottom - top))
+  })
+
+  // Move everything to start at the origin
+  const boxes = [...nodes.values(), ...clusters.values(), ...edges.flatMap((edge) => (edge.label ? [edge.label] : []))]
+  const points = edges.flatMap((edge) => edge.points)
+  if (boxes.length === 0) return { nodes, edges, clusters, width: 0, height: 0 }
+
+  const minX = Math.min(...boxes.map((box) => box.x), ...points.map((point) => point.x))
+  const minY = Math.min(...boxes.map((box) => box.y), ...points.map((point) => point.y))
+  const maxX = Math.max(...boxes.map((box) => box.x + box.width), ...points.map((point) => point.x))
+  const maxY = Math.max(...boxes.map((box) => box.y + box.height), ...points.map((point) => point.y))
+
+  for (const box of boxes) {
+    box.x -= minX
+    box.y -= minY
+  }
+  for (const point of points) {
+    point.x -= minX
+    point.y -= minY
+  }
+
+  return { nodes, edges, clusters, width: maxX - minX, height: maxY - minY }
+}
+
+// Order a rank by the given keys, keeping the members of each cluster together with its borders on the outside
+function sortLayer(
+  layer: LayerNode[],
+  keys: Map<LayerNode, number>,
+  clusterKeys: Map<string, { key: number; index: number }>,
+): LayerNode[] {
+  const sortGroup = (items: LayerNode[], level: number): LayerNode[] => {
+    const units: Array<{ key: number; index: number; items: LayerNode[] }> = []
+    const groups = new Map<string, LayerNode[]>()
+    for (const item of items) {
+      const cluster = item.chain[level]
+      if (cluster === undefined) {
+        const key = item.side === "start" ? -Infinity : item.side === "end" ? Infinity : keys.get(item) ?? 0
+        units.push({ key, index: -1, items: [item] })
+      } else if (groups.has(cluster)) {
+        groups.get(cluster)!.push(item)
+      } else {
+        const group = [item]
+        groups.set(cluster, group)
+        units.push({ ...clusterKeys.get(cluster)!, items: group })
+      }
+    }
+    units.forEach((unit) => {
+      if (unit.index >= 0) unit.items = sortGroup(unit.items, level + 1)
+    })
+    return units.sort((a, b) => a.key - b.key || a.index - b.index).flatMap((unit) => unit.items)
+  }
+  return sortGroup(layer, 0)
+}
+
+function assignOrder(layers: LayerNode[][]) {
+  layers.forEach((layer) => layer.forEach((node, index) => (node.order = index)))
+}
+
+function countCrossings(layers: LayerNode[][]): number {
+  let crossings = 0
+  for (const layer of layers) {
+    const segments = layer.flatMap((node) => node.below.filter((segment) => !segment.border))
+    for (let i = 0; i < segments.length; i++) {
+      for (let j = i + 1; j < segments.length; j++) {
+        const upper = segments[i].upper.order - segments[j].upper.order
+        const lower = segments[i].lower.order - segments[j].lower.order
+        if (upper * lower < 0) crossings++
+      }
+    }
+  }
+  return crossings
+}
+
+// Place a rank as close to the targets as the spacing allows: the weighted least-squares fit under the ordering
+// constraints, found by pooling neighbours that would otherwise overlap
+function placeLayer(
+  layer: LayerNode[],
+  targets: Array<{ value: number; weight: number }>,
+  separation: (a: LayerNode, b: LayerNode) => number,
+) {
+  const offsets = [0]
+  for (let i = 1; i < layer.length; i++) offsets.push(offsets[i - 1] + separation(layer[i - 1], layer[i]))
+
+  const blocks: Array<{ value: number; weight: number; size: number }> = []
+  targets.forEach((target, i) => {
+    blocks.push({ value: target.value - offsets[i], weight: target.weight, size: 1 })
+    while (blocks.length > 1 && blocks[blocks.length - 2].value > blocks[blocks.length - 1].value) {
+      const last = blocks.pop()!
+      const previous = blocks[blocks.length - 1]
+      const weight = previous.weight + last.weight
+      previous.value = (previous.value * previous.weight + last.value * last.weight) / weight
+      previous.weight = weight
+      previous.size += last.size
+    }
+  })
+
+  let index = 0
+  for (const block of blocks) {
+    for (let i = 0; i < block.size; i++, index++) layer[index].pos = block.value + offsets[index]
+  }
+}
+
+function createSlot(desired: number): Slot {
+  return { desired, pos: desired, before: [], after: [] }
+}
+
+function constrain(left: Slot, right: Slot, space: number) {
+  left.after.push({ slot: right, space })
+  right.before.push({ slot: left, space })
+}
+
+// Place the slots as close to where they want to be as the constraints allow, left to right and right to left, and
+// take the average. Returns false if the constraints are circular
+function placeSlots(slots: Slot[]): boolean {
+  const pending = new Map(slots.map((slot) => [slot, slot.before.length]))
+  const ready = slots.filter((slot) => slot.before.length === 0)
+  const sorted: Slot[] = []
+  while (ready.length > 0) {
+    const slot = ready.pop()!
+    sorted.push(slot)
+    for (const { slot: next } of slot.after) {
+      pending.set(next, pending.get(next)! - 1)
+      if (pending.get(next) === 0) ready.push(next)
+    }
+  }
+  if (sorted.length < slots.length) return false
+
+  const pushedRight = new Map<Slot, number>()
+  for (const slot of sorted) {
+    const limits = slot.before.map(({ slot: left, space }) => pushedRight.get(left)! + space)
+    pushedRight.set(slot, Math.max(slot.desired, ...limits))
+  }
+  const pushedLeft = new Map<Slot, number>()
+  for (const slot of [...sorted].reverse()) {
+    const limits = slot.after.map(({ slot: right, space }) => pushedLeft.get(right)! - space)
+    pushedLeft.set(slot, Math.min(slot.desired, ...limits))
+  }
+  slots.forEach((slot) => (slot.pos = (pushedRight.get(slot)! + pushedLeft.get(slot)!) / 2))
+  return true
+}
+
+// Distance from a node's centre to its outline along the flow, at an offset across it
+function halfDepthAt(node: LayerNode, offset: number): number {
+  const across = Math.min(1, Math.abs(offset) / (node.breadth / 2 || 1))
+  if (node.shape === "diamond") return (node.depth / 2) * (1 - across)
+  if (node.shape === "ellipse") return (node.depth / 2) * Math.sqrt(1 - across * across)
+  return node.depth / 2
+}
+
+// Distance from a node's centre to its outline across the flow, at an offset along it
+function halfBreadthAt(node: LayerNode, offset: number): number {
+  const along = Math.min(1, Math.abs(offset) / (node.depth / 2 || 1))
+  if (node.shape === "diamond") return (node.breadth / 2) * (1 - along)
+  if (node.shape === "ellipse") return (node.breadth / 2) * Math.sqrt(1 - along * along)
+  return node.breadth / 2
+}
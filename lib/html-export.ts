@@ -0,0 +1,380 @@
+/**
+ * Standalone HTML and EPUB export
+ * Notes are rendered with the app's markdown renderer in the Cornell layout: key points beside the
+ * notes, with the summary as a footer. HTML files embed their images and styles; EPUB books hold
+ * one or many notes with a table of contents, and [[note links]] between them become internal links.
+ */
+
+import { createElement } from "react"
+import { renderToStaticMarkup } from "react-dom/server"
+import ReactMarkdown, { defaultUrlTransform } from "react-markdown"
+import remarkGfm from "remark-gfm"
+import JSZip from "jszip"
+import { v4 as uuidv4 } from "uuid"
+import { getImage } from "./image-storage"
+import { parseMarkdown } from "./export-utils"
+import { replaceDiagramBlocks } from "./diagram-utils"
+import { getImageExtension } from "./export-import-utils"
+import { replaceNoteLinks } from "./link-utils"
+import { getSectionId } from "./search-index"
+import { formatDocumentDetails, type DocumentData } from "./storage-utils"
+
+interface RenderOptions {
+  resolveLink: (title: string) => string | null // Address of a linked note, or null to show its name as text
+  imageSrc: (imageId: string) => string
+}
+
+const STORED_IMAGE_TAG_REGEX = /<img[^>]*?src=["']cornell-image:\/\/([^"']+)["'][^>]*?>/g
+const STORED_IMAGE_ID_REGEX = /cornell-image:\/\/([A-Za-z0-9_-]+)/g
+
+// Shared by both formats; plain tables keep the two columns on e-readers without grid support
+const CORNELL_CSS = `
+body { font-family: Georgia, "Times New Roman", serif; line-height: 1.5; color: #1f2937; margin: 0 auto; max-width: 60rem; padding: 1.5rem; }
+h1.note-title { font-size: 1.8em; margin: 0 0 0.25em; }
+.details, .tags { color: #6b7280; font-size: 0.85em; margin: 0 0 0.5em; }
+.tag { display: inline-block; border: 1px solid #d1d5db; border-radius: 0.25em; padding: 0 0.4em; margin-right: 0.3em; text-transform: uppercase; font-size: 0.8em; }
+.source a { color: #6b7280; word-break: break-all; }
+table.cornell { width: 100%; border-collapse: collapse; margin: 1em 0; border: 1px solid #d1d5db; }
+table.cornell > thead th { background: #f3f4f6; text-transform: uppercase; font-size: 0.8em; letter-spacing: 0.05em; padding: 0.5em; border-bottom: 1px solid #d1d5db; }
+table.cornell > tbody > tr > th.cue { width: 25%; text-align: left; vertical-align: top; font-weight: bold; padding: 0.75em; background: #f9fafb; border-right: 1px solid #d1d5db; }
+table.cornell > tbody > tr > td.notes { vertical-align: top; padding: 0.75em; }
+table.cornell > tbody > tr + tr > * { border-top: 1px solid #e5e7eb; }
+.notes > :first-child { margin-top: 0; }
+.notes > :last-child { margin-bottom: 0; }
+.notes img { max-width: 100%; height: auto; }
+.notes table { border-collapse: collapse; margin: 0.5em 0; }
+.notes table th, .notes table td { border: 1px solid #d1d5db; padding: 0.25em 0.5em; }
+.notes pre { background: #f3f4f6; padding: 0.75em; overflow-x: auto; white-space: pre-wrap; }
+.notes code { font-family: Menlo, Consolas, monospace; font-size: 0.9em; }
+.notes blockquote { border-left: 4px solid #d1d5db; margin: 0.5em 0; padding-left: 1em; font-style: italic; }
+footer.summary { border: 1px solid #d1d5db; background: #f9fafb; padding: 0.75em 1em; margin-top: 1em; }
+footer.summary h2 { font-size: 0.8em; text-transform: uppercase; letter-spacing: 0.05em; color: #6b7280; margin: 0 0 0.25em; }
+footer.summary p { margin: 0; }
+nav ol { list-style: none; padding-left: 1em; }
+@media print { body { max-width: none; padding: 0; } table.cornell > tbody > tr { page-break-inside: avoid; } }
+`.trim()
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+function getSlug(title: string): string {
+  return title.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "").toLowerCase() || "notes"
+}
+
+// Helper function to download a blob
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  setTimeout(() => URL.revokeObjectURL(url), 100)
+}
+
+// Load every stored image used by the notes, as data URLs by image id
+async function loadImages(docs: DocumentData[]): Promise<Map<string, string>> {
+  const images = new Map<string, string>()
+
+  for (const doc of docs) {
+    for (const match of doc.content.matchAll(STORED_IMAGE_ID_REGEX)) {
+      if (images.has(match[1])) continue
+      try {
+        const data = await getImage(match[1])
+        if (data) images.set(match[1], data)
+      } catch (error) {
+        console.error(`Error loading image ${match[1]} for export:`, error)
+      }
+    }
+  }
+
+  return images
+}
+
+// Draw the notes' diagram blocks as images, added to the image map under generated ids
+async function renderDiagrams(docs: DocumentData[], images: Map<string, string>): Promise<DocumentData[]> {
+  const rendered: DocumentData[] = []
+  for (const doc of docs) {
+    const content = await replaceDiagramBlocks(doc.content, (imageData, altText) => {
+      const imageId = `diagram-${images.size + 1}`
+      images.set(imageId, imageData)
+      return `<img src="cornell-image://${imageId}" alt="${escapeHtml(altText)}" />`
+    })
+    rendered.push({ ...doc, content })
+  }
+  return rendered
+}
+
+// Note links become markdown links when the note is part of the export, plain text otherwise
+function renderNoteLinks(text: string, options: RenderOptions, asMarkdown: boolean): string {
+  return replaceNoteLinks(text, (title, label) => {
+    const name = (label || title).trim()
+    const href = options.resolveLink(title.trim())
+    if (!asMarkdown) return name
+    return href ? `[${name.replace(/([[\]])/g, "\\$1")}](${href})` : name
+  })
+}
+
+// Render markdown to HTML with the same renderer as the app
+function renderMarkdown(markdown: string, options: RenderOptions): string {
+  const prepared = renderNoteLinks(
+    // Stored images are written as <img> tags in notes; markdown images let the renderer handle them
+    markdown.replace(STORED_IMAGE_TAG_REGEX, (tag, imageId: string) => {
+      const alt = tag.match(/alt=["']([^"']*)["']/)?.[1] || ""
+      return `![${alt.replace(/([[\]])/g, "\\$1")}](cornell-image://${imageId})`
+    }),
+    options,
+    true,
+  )
+
+  const html = renderToStaticMarkup(
+    createElement(ReactMarkdown, {
+      remarkPlugins: [remarkGfm],
+      urlTransform: (url: string) =>
+        url.startsWith("cornell-image://")
+          ? options.imageSrc(url.slice("cornell-image://".length))
+          : defaultUrlTransform(url),
+      children: prepared,
+    }),
+  )
+
+  // React adds preload hints for images, which have no place in a static page
+  return html.replace(/<link rel="preload"[^>]*\/>/g, "")
+}
+
+// Anchor ids for the key points of a note, unique within the note
+function getSectionAnchors(headings: string[]): string[] {
+  const usedIds = new Set<string>()
+  return headings.map((heading) => {
+    const base = `section-${getSectionId(heading) || "untitled"}`
+    let id = base
+    for (let counter = 2; usedIds.has(id); counter++) {
+      id = `${base}-${counter}`
+    }
+    usedIds.add(id)
+    return id
+  })
+}
+
+// The note as an <article> in the Cornell layout
+function renderNoteArticle(doc: DocumentData, options: RenderOptions): string {
+  const sections = parseMarkdown(doc.content)
+  if (sections.length === 0 && doc.content.trim()) {
+    sections.push({ heading: "", content: doc.content })
+  }
+
+  const anchors = getSectionAnchors(sections.map((section) => section.heading))
+  const rows = sections.map((section, index) => {
+    const heading = escapeHtml(renderNoteLinks(section.heading, options, false))
+    const notes = renderMarkdown(section.content, options)
+    return `<tr><th class="cue" scope="row" id="${anchors[index]}">${heading}</th><td class="notes">${notes}</td></tr>`
+  })
+
+  const tags = doc.tags.length
+    ? `<p class="tags">${doc.tags.map((tag) => `<span class="tag">${escapeHtml(tag)}</span>`).join("")}</p>`
+    : ""
+  const source = doc.sourceUrl
+    ? `<p class="details source">Source: <a href="${escapeHtml(doc.sourceUrl)}">${escapeHtml(doc.sourceUrl)}</a></p>`
+    : ""
+  const summary = doc.summary
+    ? `<footer class="summary"><h2>Summary</h2><p>${escapeHtml(doc.summary)}</p></footer>`
+    : ""
+
+  return [
+    `<article class="cornell-note">`,
+    `<header><h1 class="note-title">${escapeHtml(doc.title)}</h1>`,
+    `<p class="details">${escapeHtml(formatDocumentDetails(doc))}</p>${tags}${source}</header>`,
+    `<table class="cornell"><thead><tr><th>Key Points</th><th>Notes</th></tr></thead>`,
+    `<tbody>${rows.join("\n")}</tbody></table>`,
+    summary,
+    `</article>`,
+  ].join("\n")
+}
+
+// Export a note as a single HTML file with its images and styles embedded
+export async function exportToHtml(doc: DocumentData): Promise<void> {
+  const images = await loadImages([doc])
+  const [renderedDoc] = await renderDiagrams([doc], images)
+
+  const article = renderNoteArticle(renderedDoc, {
+    resolveLink: () => null,
+    imageSrc: (imageId) => images.get(imageId) || "",
+  })
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(doc.title)}</title>
+<style>
+${CORNELL_CSS}
+</style>
+</head>
+<body>
+${article}
+</body>
+</html>
+`
+
+  downloadBlob(new Blob([html], { type: "text/html;charset=utf-8" }), `${getSlug(doc.title)}.html`)
+}
+
+function xhtmlPage(title: string, body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="en" xml:lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" type="text/css" href="styles.css" />
+</head>
+<body>
+${body}
+</body>
+</html>
+`
+}
+
+// Export notes as an EPUB book, one chapter per note
+export async function exportToEpub(docs: DocumentData[], bookTitle: string): Promise<void> {
+  if (docs.length === 0) {
+    throw new Error("No documents to export")
+  }
+
+  const zip = new JSZip()
+  // The mimetype entry must come first and stay uncompressed
+  zip.file("mimetype", "application/epub+zip", { compression: "STORE" })
+  zip.file(
+    "META-INF/container.xml",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`,
+  )
+
+  const images = await loadImages(docs)
+  const renderedDocs = await renderDiagrams(docs, images)
+  const chapters = renderedDocs.map((doc, index) => ({ doc, file: `note-${index + 1}.xhtml` }))
+  const chapterByTitle = new Map<string, string>()
+  chapters.forEach(({ doc, file }) => {
+    if (!chapterByTitle.has(doc.title.toLowerCase())) chapterByTitle.set(doc.title.toLowerCase(), file)
+  })
+
+  const manifest: string[] = []
+  const imageFiles = new Map<string, string>()
+  Array.from(images.entries()).forEach(([imageId, data], index) => {
+    const extension = getImageExtension(data)
+    const file = `images/${imageId}.${extension}`
+    const mimeType = data.match(/^data:([^;,]+)/)?.[1] || "image/png"
+    const payload = data.slice(data.indexOf(",") + 1)
+
+    if (data.includes(";base64,")) {
+      zip.file(`OEBPS/${file}`, payload, { base64: true })
+    } else {
+      zip.file(`OEBPS/${file}`, decodeURIComponent(payload))
+    }
+    imageFiles.set(imageId, file)
+    manifest.push(`<item id="image-${index + 1}" href="${file}" media-type="${mimeType}"/>`)
+  })
+
+  const options: RenderOptions = {
+    resolveLink: (title) => chapterByTitle.get(title.toLowerCase()) || null,
+    imageSrc: (imageId) => imageFiles.get(imageId) || "",
+  }
+
+  chapters.forEach(({ doc, file }, index) => {
+    zip.file(`OEBPS/${file}`, xhtmlPage(doc.title, renderNoteArticle(doc, options)))
+    manifest.push(`<item id="note-${index + 1}" href="${file}" media-type="application/xhtml+xml"/>`)
+  })
+
+  // Table of contents: every note with its key points
+  const tocEntries = chapters.map(({ doc, file }) => {
+    const headings = parseMarkdown(doc.content).map((section) => section.heading)
+    const anchors = getSectionAnchors(headings)
+    const sectionLinks = headings.map((heading, index) => ({
+      href: `${file}#${anchors[index]}`,
+      label: renderNoteLinks(heading, options, false),
+    }))
+    return { href: file, label: doc.title, sectionLinks }
+  })
+
+  const navLink = (href: string, label: string) => `<a href="${href}">${escapeHtml(label)}</a>`
+  const navList = tocEntries
+    .map((entry) => {
+      const sections = entry.sectionLinks.map((link) => `<li>${navLink(link.href, link.label)}</li>`).join("")
+      return `<li>${navLink(entry.href, entry.label)}${sections ? `<ol>${sections}</ol>` : ""}</li>`
+    })
+    .join("\n")
+  zip.file(
+    "OEBPS/nav.xhtml",
+    xhtmlPage("Contents", `<nav epub:type="toc" id="toc"><h1>Contents</h1>\n<ol>\n${navList}\n</ol>\n</nav>`),
+  )
+
+  // NCX table of contents for older readers
+  let playOrder = 0
+  const navPoint = (label: string, href: string, children = "") => {
+    playOrder++
+    const navLabel = `<navLabel><text>${escapeHtml(label)}</text></navLabel>`
+    return `<navPoint id="nav-${playOrder}" playOrder="${playOrder}">${navLabel}<content src="${href}"/>${children}</navPoint>`
+  }
+  const navPoints = tocEntries
+    .map((entry) =>
+      navPoint(entry.label, entry.href, entry.sectionLinks.map((link) => navPoint(link.label, link.href)).join("")),
+    )
+    .join("\n")
+
+  const identifier = `urn:uuid:${uuidv4()}`
+  zip.file(
+    "OEBPS/toc.ncx",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+<head><meta name="dtb:uid" content="${identifier}"/></head>
+<docTitle><text>${escapeHtml(bookTitle)}</text></docTitle>
+<navMap>
+${navPoints}
+</navMap>
+</ncx>
+`,
+  )
+
+  zip.file("OEBPS/styles.css", CORNELL_CSS)
+
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, "Z")
+  zip.file(
+    "OEBPS/content.opf",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${identifier}</dc:identifier>
+<dc:title>${escapeHtml(bookTitle)}</dc:title>
+<dc:language>en</dc:language>
+<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+<item id="css" href="styles.css" media-type="text/css"/>
+${manifest.join("\n")}
+</manifest>
+<spine toc="ncx">
+<itemref idref="nav"/>
+${chapters.map((_, index) => `<itemref idref="note-${index + 1}"/>`).join("\n")}
+</spine>
+</package>
+`,
+  )
+
+  const blob = await zip.generateAsync({ type: "blob", mimeType: "application/epub+zip", compression: "DEFLATE" })
+  downloadBlob(blob, `${getSlug(bookTitle)}.epub`)
+}
@@ -0,0 +1,445 @@
+/**
+ * Import web pages and copied HTML as Cornell notes
+ * Headings become "# " sections, tables become GFM tables and images are copied into image
+ * storage. Conversion runs on the pasted or saved HTML itself, so it works offline; only images
+ * that exist nowhere but on the web need a connection and are linked instead when unreachable.
+ */
+
+import { storeImage } from "./image-storage"
+
+export interface HtmlImportOptions {
+  sourceUrl?: string // Page address, used for relative links and recorded on the note
+  files?: File[] // Files saved next to the page, e.g. the "_files" folder of a saved web page
+  storeImages?: boolean // Copy images into image storage (off for previews)
+}
+
+export interface HtmlImportResult {
+  title: string
+  summary: string
+  content: string
+  sourceUrl?: string
+  imageCount: number
+  missingImages: number // Images that could not be copied and were linked or left out
+}
+
+// Elements that never contain note content
+const IGNORED_TAGS = new Set([
+  "SCRIPT",
+  "STYLE",
+  "NOSCRIPT",
+  "TEMPLATE",
+  "IFRAME",
+  "OBJECT",
+  "EMBED",
+  "CANVAS",
+  "SVG",
+  "FORM",
+  "BUTTON",
+  "INPUT",
+  "SELECT",
+  "TEXTAREA",
+  "NAV",
+  "ASIDE",
+  "FOOTER",
+])
+
+const BLOCK_TAGS = new Set([
+  "P",
+  "DIV",
+  "SECTION",
+  "ARTICLE",
+  "MAIN",
+  "HEADER",
+  "FIGURE",
+  "FIGCAPTION",
+  "DL",
+  "DT",
+  "DD",
+  "ADDRESS",
+  "DETAILS",
+  "SUMMARY",
+  "CENTER",
+])
+
+const HEADING_TAGS = ["H1", "H2", "H3", "H4", "H5", "H6"]
+
+const OVERVIEW_HEADING = "Overview"
+
+interface ConvertContext {
+  headingLevels: Map<Element, number> // Markdown level for each heading that stays in the note
+  images: Map<Element, { src: string; alt: string } | null>
+  baseUrl?: string
+}
+
+// Read the page address a saved or copied page was taken from
+function findSourceUrl(doc: Document, html: string): string | undefined {
+  const candidates = [
+    doc.querySelector('link[rel="canonical"]')?.getAttribute("href"),
+    doc.querySelector('meta[property="og:url"]')?.getAttribute("content"),
+    doc.querySelector("base[href]")?.getAttribute("href"),
+    // Browsers mark pages saved to disk with <!-- saved from url=(0042)https://... -->
+    html.match(/<!--\s*saved from url=\(\d+\)(\S+?)\s*-->/i)?.[1],
+    // Clipboard HTML on Windows carries a SourceURL header
+    html.match(/^SourceURL:(\S+)/m)?.[1],
+  ]
+
+  return candidates.find((url): url is string => !!url && /^https?:\/\//i.test(url))
+}
+
+function resolveUrl(url: string, baseUrl?: string): string | null {
+  try {
+    return new URL(url, baseUrl).href
+  } catch {
+    return null
+  }
+}
+
+function getFileName(path: string): string {
+  return decodeURIComponent(path.split(/[?#]/)[0].split("/").pop() || "").toLowerCase()
+}
+
+function readAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(new Error("Failed to read image"))
+    reader.readAsDataURL(file)
+  })
+}
+
+// Get image data from the page itself, from files saved with it, or from the web
+async function loadImageData(src: string, files: Map<string, File>, baseUrl?: string): Promise<string | null> {
+  if (src.startsWith("data:image/")) return src
+
+  const localFile = files.get(getFileName(src))
+  if (localFile) return readAsDataUrl(localFile)
+
+  const url = resolveUrl(src, baseUrl)
+  if (!url || !/^https?:/i.test(url)) return null
+
+  try {
+    const response = await fetch(url)
+    if (!response.ok) return null
+    const blob = await response.blob()
+    return blob.type.startsWith("image/") ? readAsDataUrl(blob) : null
+  } catch {
+    // Offline or blocked by the site; the image is linked instead
+    return null
+  }
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ")
+}
+
+// Escape characters that would otherwise be read as markdown; a "#" could start a new section
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]])/g, "\\$1").replace(/(^|\s)#/g, "$1\\#")
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n+/g, " ").trim()
+}
+
+function getTableAlignment(cell: Element): string {
+  const align = (cell.getAttribute("align") || cell.getAttribute("style")?.match(/text-align:\s*(\w+)/i)?.[1] || "")
+    .toLowerCase()
+  if (align === "center") return ":---:"
+  if (align === "right") return "---:"
+  return ":---"
+}
+
+// Inline content of an element, on a single line
+function convertInline(node: Node, context: ConvertContext): string {
+  return convertChildren(node, context).replace(/\\?\s*\n+\s*/g, " ").trim()
+}
+
+// Wrap inline content in markers, keeping surrounding spaces outside them ("a <b> b</b>" -> "a **b**")
+function wrapInline(element: Element, context: ConvertContext, before: string, after = before): string {
+  const raw = convertChildren(element, context)
+  const text = raw.replace(/\\?\s*\n+\s*/g, " ").trim()
+  if (!text) return raw.trim() ? "" : raw
+  return `${/^\s/.test(raw) ? " " : ""}${before}${text}${after}${/\s$/.test(raw) ? " " : ""}`
+}
+
+// GFM table in the same layout as the table generator
+function convertTable(table: Element, context: ConvertContext): string {
+  const rows = Array.from(table.querySelectorAll("tr")).filter((row) => row.closest("table") === table)
+  if (rows.length === 0) return ""
+
+  const cells = rows.map((row) =>
+    Array.from(row.children)
+      .filter((cell) => cell.tagName === "TD" || cell.tagName === "TH")
+      .flatMap((cell) => {
+        const text = escapeTableCell(convertInline(cell, context))
+        const span = Math.max(1, Number(cell.getAttribute("colspan")) || 1)
+        return [{ text, cell }, ...Array.from({ length: span - 1 }, () => ({ text: "", cell }))]
+      }),
+  )
+  const columns = Math.max(...cells.map((row) => row.length))
+  if (columns === 0) return ""
+
+  const formatRow = (values: string[]) => `| ${values.join(" | ")} |`
+  const pad = (row: { text: string }[]) => Array.from({ length: columns }, (_, index) => row[index]?.text || "")
+
+  const [header, ...body] = cells
+  const alignments = Array.from({ length: columns }, (_, index) =>
+    header[index] ? getTableAlignment(header[index].cell) : ":---",
+  )
+  const lines = [
+    formatRow(pad(header)),
+    formatRow(alignments),
+    ...body.map((row) => formatRow(pad(row))),
+  ]
+
+  const caption = table.querySelector("caption")
+  const captionText = caption ? convertInline(caption, context) : ""
+  return (captionText ? `*${captionText}*\n\n` : "") + lines.join("\n")
+}
+
+function convertList(list: Element, context: ConvertContext): string {
+  const ordered = list.tagName === "OL"
+  let number = Number(list.getAttribute("start")) || 1
+
+  return Array.from(list.children)
+    .filter((item) => item.tagName === "LI")
+    .map((item) => {
+      const marker = ordered ? `${number++}. ` : "- "
+      const content = convertChildren(item, context)
+        .trim()
+        .replace(/\n{3,}/g, "\n\n")
+        .replace(/\n\n(?=(?:- |\d+\. ))/g, "\n") // Keep nested lists tight
+      const indent = " ".repeat(marker.length)
+      return marker + content.split("\n").join(`\n${indent}`).replace(/\n\s+\n/g, "\n\n")
+    })
+    .join("\n")
+}
+
+function convertCodeBlock(pre: Element): string {
+  const code = pre.querySelector("code")
+  const className = `${code?.getAttribute("class") || ""} ${pre.getAttribute("class") || ""}`
+  const language = className.match(/(?:language|lang)-([\w+#-]+)/)?.[1] || ""
+  const text = (pre.textContent || "").replace(/\n$/, "")
+  const fence = text.includes("```") ? "~~~" : "```"
+  return `${fence}${language}\n${text}\n${fence}`
+}
+
+function block(text: string): string {
+  return text.trim() ? `\n\n${text.trim()}\n\n` : ""
+}
+
+// Whether an element is left out of the note together with everything inside it
+function isDropped(element: Element): boolean {
+  const hidden = element.getAttribute("hidden") !== null || element.getAttribute("aria-hidden") === "true"
+  return IGNORED_TAGS.has(element.tagName.toUpperCase()) || hidden
+}
+
+// Whether an element or one of its ancestors below root is dropped
+function isInsideDropped(element: Element, root: Element): boolean {
+  for (let current: Element | null = element; current && current !== root; current = current.parentElement) {
+    if (isDropped(current)) return true
+  }
+  return false
+}
+
+// Convert an element to markdown
+function convertNode(node: Node, context: ConvertContext): string {
+  if (node.nodeType === 3) {
+    return escapeMarkdown(collapseWhitespace(node.textContent || ""))
+  }
+  if (node.nodeType !== 1) return ""
+
+  const element = node as Element
+  const tag = element.tagName.toUpperCase()
+
+  if (isDropped(element)) return ""
+
+  if (HEADING_TAGS.includes(tag)) {
+    const level = context.headingLevels.get(element)
+    if (!level) return "" // The heading used as the note title
+    const text = convertInline(element, context)
+    return text ? `\n\n${"#".repeat(level)} ${text}\n\n` : ""
+  }
+
+  switch (tag) {
+    case "BR":
+      return "\\\n"
+    case "HR":
+      return "\n\n---\n\n"
+    case "IMG": {
+      const image = context.images.get(element)
+      if (!image) return ""
+      const alt = image.alt.replace(/"/g, "&quot;")
+      return image.src.startsWith("cornell-image://")
+        ? `\n\n<img src="${image.src}" alt="${alt}" />\n\n`
+        : `![${escapeMarkdown(image.alt)}](${image.src})`
+    }
+    case "A": {
+      const href = element.getAttribute("href") || ""
+      if (!href || href.startsWith("#") || /^javascript:/i.test(href)) return convertChildren(element, context)
+      const url = resolveUrl(href, context.baseUrl) || href
+      return wrapInline(element, context, "[", `](${url.replace(/ /g, "%20").replace(/\)/g, "%29")})`)
+    }
+    case "STRONG":
+    case "B":
+      return wrapInline(element, context, "**")
+    case "EM":
+    case "I":
+      return wrapInline(element, context, "*")
+    case "DEL":
+    case "S":
+    case "STRIKE":
+      return wrapInline(element, context, "~~")
+    case "CODE": {
+      const text = collapseWhitespace(element.textContent || "")
+      const fence = text.includes("`") ? "``" : "`"
+      return text ? `${fence}${text}${fence}` : ""
+    }
+    case "PRE":
+      return block(convertCodeBlock(element))
+    case "BLOCKQUOTE": {
+      const text = convertChildren(element, context).trim().replace(/\n{3,}/g, "\n\n")
+      return block(text.split("\n").map((line) => (line ? `> ${line}` : ">")).join("\n"))
+    }
+    case "UL":
+    case "OL":
+      return block(convertList(element, context))
+    case "TABLE":
+      return block(convertTable(element, context))
+  }
+
+  const content = convertChildren(element, context)
+  return BLOCK_TAGS.has(tag) ? block(content) : content
+}
+
+function convertChildren(node: Node, context: ConvertContext): string {
+  return Array.from(node.childNodes)
+    .map((child) => convertNode(child, context))
+    .join("")
+}
+
+// Tidy the converted text and make sure everything sits in a "# " section
+function finishMarkdown(markdown: string): string {
+  const output: string[] = []
+  let fence: string | null = null
+
+  // Code blocks are kept exactly as they are
+  markdown.split("\n").forEach((line) => {
+    if (fence) {
+      output.push(line)
+      if (line === fence) fence = null
+      return
+    }
+
+    const tidy = line
+      .replace(/[ \t]+$/, "")
+      .replace(/^ (?=\S)/, "")
+      .replace(/(\S) {2,}/g, "$1 ")
+    const opening = tidy.match(/^(```|~~~)/)
+    if (opening) fence = opening[1]
+    if (tidy || output[output.length - 1]) output.push(tidy)
+  })
+
+  const lines = output.join("\n").trim()
+
+  if (!lines) return `# ${OVERVIEW_HEADING}\n`
+  return lines.startsWith("# ") ? `${lines}\n` : `# ${OVERVIEW_HEADING}\n\n${lines}\n`
+}
+
+// Turn pasted plain text into paragraphs, so it can go through the same conversion
+export function plainTextToHtml(text: string): string {
+  const escape = (value: string) => value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+  return text
+    .split(/\n\s*\n/)
+    .map((paragraph) => `<p>${escape(paragraph.trim()).replace(/\n/g, "<br>")}</p>`)
+    .join("\n")
+}
+
+// Convert a page or HTML fragment into a note
+export async function convertHtmlToNote(html: string, options: HtmlImportOptions = {}): Promise<HtmlImportResult> {
+  const doc = new DOMParser().parseFromString(html, "text/html")
+  const sourceUrl = options.sourceUrl?.trim() || findSourceUrl(doc, html)
+
+  const title =
+    doc.querySelector('meta[property="og:title"]')?.getAttribute("content")?.trim() ||
+    doc.querySelector("title")?.textContent?.trim() ||
+    ""
+  const summary = collapseWhitespace(
+    doc.querySelector('meta[name="description"]')?.getAttribute("content") ||
+      doc.querySelector('meta[property="og:description"]')?.getAttribute("content") ||
+      "",
+  ).trim()
+
+  // Prefer the article over the page around it
+  const root =
+    doc.querySelector("article") || doc.querySelector("main") || doc.querySelector('[role="main"]') || doc.body
+
+  // The first heading names the note when the page has no title or it matches the page title
+  const headings = Array.from(root.querySelectorAll(HEADING_TAGS.join(","))).filter(
+    (heading) => collapseWhitespace(heading.textContent || "").trim(),
+  )
+  const firstHeading = headings[0]
+  const firstHeadingText = firstHeading ? collapseWhitespace(firstHeading.textContent || "").trim() : ""
+  const titleHeading =
+    firstHeading &&
+    firstHeading.tagName === "H1" &&
+    (!title || title.toLowerCase().includes(firstHeadingText.toLowerCase()))
+      ? firstHeading
+      : null
+
+  // The shallowest remaining heading level becomes the Cornell "# " section
+  const sectionHeadings = headings.filter((heading) => heading !== titleHeading)
+  const topLevel = Math.min(...sectionHeadings.map((heading) => Number(heading.tagName[1])))
+  const headingLevels = new Map(
+    sectionHeadings.map((heading) => [heading, Math.min(6, Number(heading.tagName[1]) - topLevel + 1)]),
+  )
+
+  // Copy images before converting, so the conversion itself stays synchronous
+  const files = new Map((options.files || []).map((file) => [getFileName(file.name), file]))
+  const images = new Map<Element, { src: string; alt: string } | null>()
+  let imageCount = 0
+  let missingImages = 0
+
+  for (const img of Array.from(root.querySelectorAll("img"))) {
+    const src = img.getAttribute("src") || img.getAttribute("data-src") || ""
+    const alt = collapseWhitespace(img.getAttribute("alt") || "").trim()
+    // Images the conversion drops (tracking pixels, navigation logos, hidden content) would never be referenced
+    if (!src || isInsideDropped(img, root)) continue
+
+    if (!options.storeImages) {
+      // Previews show the original image without storing anything
+      const localFile = files.get(getFileName(src))
+      const previewSrc = src.startsWith("data:") ? src : localFile ? "" : resolveUrl(src, sourceUrl)
+      images.set(img, previewSrc ? { src: previewSrc, alt } : null)
+      continue
+    }
+
+    try {
+      const data = await loadImageData(src, files, sourceUrl)
+      if (data) {
+        const id = await storeImage(data, alt || getFileName(src) || undefined)
+        images.set(img, { src: `cornell-image://${id}`, alt })
+        imageCount++
+        continue
+      }
+    } catch (error) {
+      console.error(`Error importing image ${src.slice(0, 100)}:`, error)
+    }
+
+    // Link images that are on the web; drop those that only existed on the original computer
+    const url = resolveUrl(src, sourceUrl)
+    images.set(img, url && /^https?:/i.test(url) ? { src: url, alt } : null)
+    missingImages++
+  }
+
+  const content = finishMarkdown(convertChildren(root, { headingLevels, images, baseUrl: sourceUrl }))
+
+  return {
+    title: titleHeading ? firstHeadingText : title || firstHeadingText || "Imported page",
+    summary,
+    content,
+    sourceUrl,
+    imageCount,
+    missingImages,
+  }
+}
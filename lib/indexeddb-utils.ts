@@ -0,0 +1,27 @@
+/**
+ * Helpers shared by the IndexedDB stores
+ */
+
+// Settle a transaction: resolve with the result once it commits, or reject when it fails or is aborted (for example
+// when the disk is full). The connection is closed either way
+export function settleTransaction<T>(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  errorMessage: string,
+  getResult: () => T,
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => {
+      db.close()
+      resolve(getResult())
+    }
+
+    const fail = (event: Event) => {
+      console.error(`${errorMessage}:`, transaction.error || event)
+      db.close()
+      reject(new Error(errorMessage))
+    }
+    transaction.onerror = fail
+    transaction.onabort = fail
+  })
+}
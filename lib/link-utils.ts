@@ -3,23 +3,46 @@ import { getAllDocuments, type DocumentData } from "./storage-utils"
 // Export DocumentData type for other components to use
 export type { DocumentData }
 
+// Match [[Note Title]] and [[Note Title|label]] patterns
+const NOTE_LINK_REGEX = /\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g
+const CODE_FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})/
+
+// Replace the note links in content. Fenced code blocks are left alone, since [[ ]] is code there (a subroutine
+// shape in a mermaid diagram, a nested array, ...)
+export function replaceNoteLinks(content: string, replacer: (title: string, label?: string) => string): string {
+  let fence: string | null = null
+
+  return content
+    .split("\n")
+    .map((line) => {
+      const marker = line.match(CODE_FENCE_REGEX)?.[1]
+      if (fence) {
+        if (marker && marker[0] === fence[0] && marker.length >= fence.length) fence = null
+        return line
+      }
+      if (marker) {
+        fence = marker
+        return line
+      }
+      return line.replace(NOTE_LINK_REGEX, (_, title: string, label?: string) => replacer(title, label))
+    })
+    .join("\n")
+}
+
 // Extract all note links from content
 export function extractNoteLinks(content: string): string[] {
-  // Match [[Note Title]] pattern
-  const linkRegex = /\[\[([^\]]+)\]\]/g
   const links: string[] = []
-  let match
-
-  while ((match = linkRegex.exec(content)) !== null) {
-    links.push(match[1].trim())
-  }
+  replaceNoteLinks(content, (title) => {
+    links.push(title.trim())
+    return ""
+  })
 
   return [...new Set(links)] // Remove duplicates
 }
 
 // Find documents that link to a specific document
-export function findBacklinks(targetTitle: string): DocumentData[] {
-  const allDocs = getAllDocuments()
+export async function findBacklinks(targetTitle: string): Promise<DocumentData[]> {
+  const allDocs = await getAllDocuments()
   const backlinks: DocumentData[] = []
 
   allDocs.forEach((doc) => {
@@ -33,8 +56,8 @@ export function findBacklinks(targetTitle: string): DocumentData[] {
 }
 
 // Find documents that are linked from a specific document
-export function findForwardLinks(content: string): DocumentData[] {
-  const allDocs = getAllDocuments()
+export async function findForwardLinks(content: string): Promise<DocumentData[]> {
+  const allDocs = await getAllDocuments()
   const links = extractNoteLinks(content)
   const linkedDocs: DocumentData[] = []
 
@@ -49,12 +72,14 @@ export function findForwardLinks(content: string): DocumentData[] {
 }
 
 // Get all related documents (both forward and backward links)
-export function getRelatedDocuments(document: DocumentData): {
+export async function getRelatedDocuments(document: DocumentData): Promise<{
   forwardLinks: DocumentData[]
   backlinks: DocumentData[]
-} {
-  const forwardLinks = findForwardLinks(document.content)
-  const backlinks = findBacklinks(document.title)
+}> {
+  const [forwardLinks, backlinks] = await Promise.all([
+    findForwardLinks(document.content),
+    findBacklinks(document.title),
+  ])
 
   return {
     forwardLinks,
@@ -64,21 +89,21 @@ export function getRelatedDocuments(document: DocumentData): {
 
 // Convert note links in content to clickable links
 export function processNoteLinks(content: string, onLinkClick: (title: string) => void): string {
-  return content.replace(/\[\[([^\]]+)\]\]/g, (match, title) => {
+  return replaceNoteLinks(content, (title, label) => {
     const trimmedTitle = title.trim()
-    return `<span class="note-link" data-title="${trimmedTitle}">${trimmedTitle}</span>`
+    return `<span class="note-link" data-title="${trimmedTitle}">${label?.trim() || trimmedTitle}</span>`
   })
 }
 
 // Check if a note title exists
-export function noteExists(title: string): boolean {
-  const allDocs = getAllDocuments()
+export async function noteExists(title: string): Promise<boolean> {
+  const allDocs = await getAllDocuments()
   return allDocs.some((doc) => doc.title.toLowerCase() === title.toLowerCase())
 }
 
 // Get suggestions for note links based on existing titles
-export function getNoteLinkSuggestions(query: string): string[] {
-  const allDocs = getAllDocuments()
+export async function getNoteLinkSuggestions(query: string): Promise<string[]> {
+  const allDocs = await getAllDocuments()
   const suggestions = allDocs
     .filter((doc) => doc.title.toLowerCase().includes(query.toLowerCase()))
     .map((doc) => doc.title)
@@ -0,0 +1,290 @@
+import type { jsPDF } from "jspdf"
+
+/**
+ * TrueType fonts for PDF export. The Noto fonts bundled in /fonts (SIL Open Font License, see /fonts/OFL.txt) are
+ * embedded in the PDF instead of jsPDF's built-in fonts, and text is drawn in runs so characters the current font has
+ * no glyph for (Greek, math symbols, CJK, ...) come from a Unicode fallback font.
+ */
+
+interface FontFile {
+  url: string
+  fontName: string
+  replaces: string // Built-in font family the embedded font is used for
+  style: "normal" | "bold"
+}
+
+interface FontRun {
+  text: string
+  fontName: string
+  fontStyle: string
+}
+
+interface RegisteredFonts {
+  replacements: Map<string, string> // "helvetica:bold" -> embedded font name
+  fallbacks: string[]
+  codeMaps: Map<string, Record<number, number>> // "NotoSans:bold" -> glyph id per code point
+}
+
+const FONT_FILES: FontFile[] = [
+  { url: "/fonts/NotoSans-Regular.ttf", fontName: "NotoSans", replaces: "helvetica", style: "normal" },
+  { url: "/fonts/NotoSans-Bold.ttf", fontName: "NotoSans", replaces: "helvetica", style: "bold" },
+  { url: "/fonts/NotoSerif-Regular.ttf", fontName: "NotoSerif", replaces: "times", style: "normal" },
+  { url: "/fonts/NotoSerif-Bold.ttf", fontName: "NotoSerif", replaces: "times", style: "bold" },
+]
+
+// Fonts tried in order for characters the chosen font lacks, after Noto Sans itself (Latin, Greek, Cyrillic): math
+// symbols, then Chinese and Japanese. They are only loaded for text that needs them
+const FALLBACK_FONT_FILES = ["/fonts/NotoSansMath-Regular.ttf", "/fonts/NotoSansSC-Regular.ttf"]
+
+// Characters above U+00FF that the built-in fonts can show through WinAnsiEncoding
+const WIN_ANSI_EXTRAS = new Set("€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ")
+
+// Scripts written without spaces, where lines may break between any two characters
+const CJK_CHARACTER = "\\u2E80-\\u9FFF\\uAC00-\\uD7AF\\uF900-\\uFAFF\\uFF00-\\uFFEF"
+const CJK_REGEX = new RegExp(`[${CJK_CHARACTER}]`)
+const WORD_REGEX = new RegExp(`[${CJK_CHARACTER}]|[^\\s${CJK_CHARACTER}]+\\s*|\\s+`, "g")
+
+const fontFiles = new Map<string, Promise<string | null>>()
+const registeredFonts = new WeakMap<jsPDF, RegisteredFonts>()
+
+// TrueType outlines start with 0x00010000 or "true"; jsPDF cannot embed other formats
+function isTrueTypeFont(bytes: Uint8Array): boolean {
+  const signature = String.fromCharCode(...bytes.subarray(0, 4))
+  return signature === "\u0000\u0001\u0000\u0000" || signature === "true"
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ""
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+// Fetch a font as base64, or null when it is missing or not a TrueType font (fetched once per session)
+function loadFontFile(url: string): Promise<string | null> {
+  let file = fontFiles.get(url)
+  if (!file) {
+    file = (async () => {
+      try {
+        const response = await fetch(url)
+        if (!response.ok) return null
+
+        const bytes = new Uint8Array(await response.arrayBuffer())
+        if (!isTrueTypeFont(bytes)) {
+          console.warn(`${url} is not a TrueType font, using the built-in PDF fonts instead`)
+          return null
+        }
+        return toBase64(bytes)
+      } catch (error) {
+        console.warn(`Could not load font ${url}:`, error)
+        return null
+      }
+    })()
+    fontFiles.set(url, file)
+  }
+  return file
+}
+
+// Embed a font and read which characters it has glyphs for
+function addFont(doc: jsPDF, fonts: RegisteredFonts, url: string, data: string, fontName: string, style: string) {
+  try {
+    const fileName = url.substring(url.lastIndexOf("/") + 1)
+    doc.addFileToVFS(fileName, data)
+    doc.addFont(fileName, fontName, style, undefined, "Identity-H")
+    doc.setFont(fontName, style)
+    fonts.codeMaps.set(`${fontName}:${style}`, doc.getFont().metadata?.cmap?.unicode?.codeMap || {})
+    return true
+  } catch (error) {
+    console.warn(`Could not embed font ${url}:`, error)
+    return false
+  }
+}
+
+// Characters of text that none of the embedded fonts has a glyph for. Characters outside the Basic Multilingual
+// Plane are left out, since jsPDF cannot read them from any font
+function getMissingCharacters(fonts: RegisteredFonts, text: string): Set<number> {
+  const missing = new Set<number>()
+  for (const char of new Set(text)) {
+    const codePoint = char.codePointAt(0)!
+    if (codePoint > 0xffff || /\s/.test(char)) continue
+
+    const covered =
+      fonts.codeMaps.size > 0
+        ? [...fonts.codeMaps.values()].some((codeMap) => codeMap[codePoint])
+        : codePoint <= 0xff || WIN_ANSI_EXTRAS.has(char)
+    if (!covered) missing.add(codePoint)
+  }
+  return missing
+}
+
+// Embed the bundled fonts, plus the Unicode fallback fonts that text needs. Returns false when the PDF has to use
+// the built-in fonts only
+export async function registerPdfFonts(doc: jsPDF, text: string): Promise<boolean> {
+  const fonts: RegisteredFonts = { replacements: new Map(), fallbacks: [], codeMaps: new Map() }
+  const files = await Promise.all(FONT_FILES.map((file) => loadFontFile(file.url)))
+
+  FONT_FILES.forEach((file, index) => {
+    const data = files[index]
+    if (data && addFont(doc, fonts, file.url, data, file.fontName, file.style)) {
+      fonts.replacements.set(`${file.replaces}:${file.style}`, file.fontName)
+    }
+  })
+
+  const sans = fonts.replacements.get("helvetica:normal")
+  if (sans) fonts.fallbacks.push(sans)
+
+  // Each fallback is loaded only while there are characters left that no embedded font has
+  const missing = getMissingCharacters(fonts, text)
+  for (const [index, url] of FALLBACK_FONT_FILES.entries()) {
+    if (missing.size === 0) break
+
+    const data = await loadFontFile(url)
+    const fontName = `UnicodeFallback${index + 1}`
+    if (data && addFont(doc, fonts, url, data, fontName, "normal")) {
+      fonts.fallbacks.push(fontName)
+      const codeMap = fonts.codeMaps.get(`${fontName}:normal`)!
+      missing.forEach((codePoint) => codeMap[codePoint] && missing.delete(codePoint))
+    }
+  }
+
+  registeredFonts.set(doc, fonts)
+  doc.setFont("helvetica", "normal")
+
+  return fonts.codeMaps.size > 0
+}
+
+// The embedded font used in place of a built-in font, if there is one for that style
+export function getEmbeddedFontName(doc: jsPDF, fontName: string, style: string): string | null {
+  return registeredFonts.get(doc)?.replacements.get(`${fontName.toLowerCase()}:${style}`) || null
+}
+
+function hasGlyph(fonts: RegisteredFonts, fontName: string, fontStyle: string, char: string): boolean {
+  const codeMap = fonts.codeMaps.get(`${fontName}:${fontStyle}`)
+  if (codeMap) {
+    return Boolean(codeMap[char.codePointAt(0)!])
+  }
+  return char.codePointAt(0)! <= 0xff || WIN_ANSI_EXTRAS.has(char)
+}
+
+// Split text into runs that can each be drawn in one font: the current font where it has the glyphs, then the
+// embedded font of the same family (e.g. for italics, which have no bundled file), then the fallback fonts
+function splitIntoFontRuns(doc: jsPDF, text: string): FontRun[] {
+  const { fontName, fontStyle } = doc.getFont()
+  const fonts = registeredFonts.get(doc)
+  if (!fonts || fonts.codeMaps.size === 0) {
+    return [{ text, fontName, fontStyle }]
+  }
+
+  const candidates = [{ fontName, fontStyle }]
+  const weight = fontStyle.includes("bold") ? "bold" : "normal"
+  const sameFamily = fonts.replacements.get(`${fontName.toLowerCase()}:${weight}`)
+  if (sameFamily) {
+    candidates.push({ fontName: sameFamily, fontStyle: weight })
+  }
+  for (const fallback of fonts.fallbacks) {
+    candidates.push({ fontName: fallback, fontStyle: "normal" })
+  }
+
+  // jsPDF only reads the Basic Multilingual Plane from a font, so characters no font has, such as the math letters
+  // U+1D400-U+1D7FF, are drawn in their compatibility form (𝑥 as x) where there is one
+  const hasAnyGlyph = (char: string) =>
+    candidates.some((candidate) => hasGlyph(fonts, candidate.fontName, candidate.fontStyle, char))
+  const chars = Array.from(text).flatMap((char) => (hasAnyGlyph(char) ? [char] : Array.from(char.normalize("NFKC"))))
+
+  const runs: FontRun[] = []
+  for (const char of chars) {
+    const previous = runs[runs.length - 1]
+
+    // Spaces stay in the run they follow
+    if (previous && /\s/.test(char) && hasGlyph(fonts, previous.fontName, previous.fontStyle, char)) {
+      previous.text += char
+      continue
+    }
+
+    const font = candidates.find((candidate) => hasGlyph(fonts, candidate.fontName, candidate.fontStyle, char))
+    const chosen = font || candidates[0]
+    if (previous && previous.fontName === chosen.fontName && previous.fontStyle === chosen.fontStyle) {
+      previous.text += char
+    } else {
+      runs.push({ text: char, ...chosen })
+    }
+  }
+
+  return runs.length > 0 ? runs : [{ text, fontName, fontStyle }]
+}
+
+// Measure each run in its own font and restore the current font afterwards
+function measureRuns(doc: jsPDF, runs: FontRun[]): number[] {
+  const { fontName, fontStyle } = doc.getFont()
+  const widths = runs.map((run) => {
+    doc.setFont(run.fontName, run.fontStyle)
+    return doc.getTextWidth(run.text)
+  })
+  doc.setFont(fontName, fontStyle)
+  return widths
+}
+
+// Draw text like doc.text, switching fonts for characters the current font cannot show
+export function drawText(
+  doc: jsPDF,
+  text: string,
+  x: number,
+  y: number,
+  options?: { align?: "left" | "center" | "right"; baseline?: "top" | "middle" | "bottom" | "alphabetic" },
+) {
+  const runs = splitIntoFontRuns(doc, text)
+  if (runs.length === 1 && runs[0].fontName === doc.getFont().fontName) {
+    doc.text(text, x, y, options)
+    return
+  }
+
+  const widths = measureRuns(doc, runs)
+  const totalWidth = widths.reduce((sum, width) => sum + width, 0)
+  let currentX = options?.align === "center" ? x - totalWidth / 2 : options?.align === "right" ? x - totalWidth : x
+
+  const { fontName, fontStyle } = doc.getFont()
+  runs.forEach((run, index) => {
+    doc.setFont(run.fontName, run.fontStyle)
+    doc.text(run.text, currentX, y, { baseline: options?.baseline })
+    currentX += widths[index]
+  })
+  doc.setFont(fontName, fontStyle)
+}
+
+// Width of text as drawText draws it
+export function getTextWidth(doc: jsPDF, text: string): number {
+  const runs = splitIntoFontRuns(doc, text)
+  if (runs.length === 1 && runs[0].fontName === doc.getFont().fontName) {
+    return doc.getTextWidth(text)
+  }
+  return measureRuns(doc, runs).reduce((sum, width) => sum + width, 0)
+}
+
+// Split text into words for wrapping, each with its trailing spaces. CJK characters are words of their own
+export function splitIntoWords(text: string): string[] {
+  return text.match(WORD_REGEX) || []
+}
+
+// Wrap text to lines that fit maxWidth, like doc.splitTextToSize but measured with the fonts drawText uses
+export function splitTextToSize(doc: jsPDF, text: string, maxWidth: number): string[] {
+  const runs = splitIntoFontRuns(doc, text)
+  if (runs.length === 1 && runs[0].fontName === doc.getFont().fontName && !CJK_REGEX.test(text)) {
+    return doc.splitTextToSize(text, maxWidth)
+  }
+
+  const lines: string[] = []
+  for (const paragraph of text.split("\n")) {
+    let line = ""
+    for (const word of splitIntoWords(paragraph)) {
+      if (line && getTextWidth(doc, (line + word).trimEnd()) > maxWidth) {
+        lines.push(line.trimEnd())
+        line = word.trimStart()
+      } else {
+        line += word
+      }
+    }
+    lines.push(line.trimEnd())
+  }
+  return lines
+}
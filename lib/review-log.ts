@@ -0,0 +1,119 @@
+/**
+ * Review log storage using IndexedDB
+ * Every flashcard review appends an entry, which feeds the study statistics page
+ */
+
+import type { SchedulerAlgorithm } from "./scheduler"
+import { settleTransaction } from "./indexeddb-utils"
+
+export interface ReviewLogEntry {
+  id: string
+  cardId: string
+  deckId: string
+  quality: number // 0-5 grade given
+  reviewedAt: string
+  elapsedDays: number // Days since the previous review (0 for new cards)
+  durationMs?: number // Time spent on the card before grading
+  previousInterval: number // Interval in days before this review
+  nextInterval: number // Interval in days scheduled by this review
+  scheduler: SchedulerAlgorithm
+}
+
+// Database name and version
+const DB_NAME = "cornell-notes-reviews"
+const DB_VERSION = 1
+const STORE_NAME = "review-log"
+
+// Open the database connection
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onerror = (event) => {
+      console.error("Error opening IndexedDB:", event)
+      reject(new Error("Could not open review log database"))
+    }
+
+    request.onsuccess = (event) => {
+      resolve((event.target as IDBOpenDBRequest).result)
+    }
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result
+
+      // Create the log store with indexes for per-deck queries and date ranges
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: "id" })
+        store.createIndex("deckId", "deckId", { unique: false })
+        store.createIndex("reviewedAt", "reviewedAt", { unique: false })
+      }
+    }
+  })
+}
+
+// Generate a unique ID for a log entry
+export function generateReviewLogId(): string {
+  return `review_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`
+}
+
+// Append a review to the log
+export async function addReviewLogEntry(entry: ReviewLogEntry): Promise<void> {
+  const db = await openDB()
+  const transaction = db.transaction([STORE_NAME], "readwrite")
+  transaction.objectStore(STORE_NAME).add(entry)
+
+  return settleTransaction(db, transaction, "Failed to store review log entry", () => undefined)
+}
+
+// Add logged reviews restored from a backup, keeping any already stored; returns how many were added
+export async function importReviewLogEntries(entries: ReviewLogEntry[]): Promise<number> {
+  if (entries.length === 0) return 0
+
+  const db = await openDB()
+  const transaction = db.transaction([STORE_NAME], "readwrite")
+  const store = transaction.objectStore(STORE_NAME)
+
+  let added = 0
+  entries.forEach((entry) => {
+    const request = store.add(entry)
+    request.onsuccess = () => added++
+    // Keep the entry already stored under this id
+    request.onerror = (event) => {
+      event.preventDefault()
+      event.stopPropagation()
+    }
+  })
+
+  return settleTransaction(db, transaction, "Failed to import review log entries", () => added)
+}
+
+// Get logged reviews, optionally for a single deck, oldest first
+export async function getReviewLogEntries(deckId?: string): Promise<ReviewLogEntry[]> {
+  const db = await openDB()
+  const transaction = db.transaction([STORE_NAME], "readonly")
+  const store = transaction.objectStore(STORE_NAME)
+  const request = deckId ? store.index("deckId").getAll(deckId) : store.index("reviewedAt").getAll()
+
+  return settleTransaction(db, transaction, "Failed to retrieve review log", () => {
+    const entries = request.result as ReviewLogEntry[]
+    return deckId ? entries.sort((a, b) => a.reviewedAt.localeCompare(b.reviewedAt)) : entries
+  })
+}
+
+// Delete the logged reviews of a deck
+export async function deleteReviewLogEntries(deckId: string): Promise<void> {
+  const db = await openDB()
+  const transaction = db.transaction([STORE_NAME], "readwrite")
+  const store = transaction.objectStore(STORE_NAME)
+
+  const request = store.index("deckId").openKeyCursor(IDBKeyRange.only(deckId))
+  request.onsuccess = () => {
+    const cursor = request.result
+    if (cursor) {
+      store.delete(cursor.primaryKey)
+      cursor.continue()
+    }
+  }
+
+  return settleTransaction(db, transaction, "Failed to delete review log entries", () => undefined)
+}
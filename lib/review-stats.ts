@@ -0,0 +1,117 @@
+/**
+ * Study statistics computed from the review log and flashcard decks
+ */
+
+import type { Flashcard, FlashcardDeck } from "./flashcard-utils"
+import type { ReviewLogEntry } from "./review-log"
+
+export interface DeckRetention {
+  deckId: string
+  name: string
+  reviews: number // Reviews of cards that had already been learned
+  passed: number
+  retention: number | null // passed / reviews, null when there is nothing to measure
+}
+
+export interface LapsedCard {
+  card: Flashcard
+  deck: FlashcardDeck
+  lapses: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Local calendar day of a timestamp, e.g. "2026-03-14"
+export function getDayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+// Number of reviews logged on each day
+export function getReviewsPerDay(entries: ReviewLogEntry[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  entries.forEach((entry) => {
+    const key = getDayKey(new Date(entry.reviewedAt))
+    counts.set(key, (counts.get(key) || 0) + 1)
+  })
+  return counts
+}
+
+// Consecutive days with at least one review, ending today (or yesterday if nothing was studied yet today)
+export function getStudyStreak(reviewsPerDay: Map<string, number>, now: Date = new Date()): number {
+  const day = startOfDay(now)
+  if (!reviewsPerDay.has(getDayKey(day))) {
+    day.setDate(day.getDate() - 1)
+  }
+
+  let streak = 0
+  while (reviewsPerDay.has(getDayKey(day))) {
+    streak++
+    day.setDate(day.getDate() - 1)
+  }
+  return streak
+}
+
+// Share of reviews passed (grade 3 or better) per deck, counting only cards past their first review
+export function getRetentionByDeck(entries: ReviewLogEntry[], decks: FlashcardDeck[]): DeckRetention[] {
+  return decks.map((deck) => {
+    const mature = entries.filter((entry) => entry.deckId === deck.id && entry.previousInterval > 0)
+    const passed = mature.filter((entry) => entry.quality >= 3).length
+    return {
+      deckId: deck.id,
+      name: deck.name,
+      reviews: mature.length,
+      passed,
+      retention: mature.length > 0 ? passed / mature.length : null,
+    }
+  })
+}
+
+// Cards coming due on each of the next `days` days; overdue and new cards count towards today
+export function getDueForecast(decks: FlashcardDeck[], days = 30, now: Date = new Date()): number[] {
+  const forecast = new Array(days).fill(0)
+  const today = startOfDay(now).getTime()
+
+  decks.forEach((deck) => {
+    deck.cards.forEach((card) => {
+      if (card.syncStatus === "retired") return
+
+      // Rounded, since a day across a daylight saving change is an hour shorter or longer than DAY_MS
+      const offset = card.nextReview
+        ? Math.max(0, Math.round((startOfDay(new Date(card.nextReview)).getTime() - today) / DAY_MS))
+        : 0
+      if (offset < days) {
+        forecast[offset]++
+      }
+    })
+  })
+
+  return forecast
+}
+
+// Cards forgotten most often, using the review log for cards reviewed before lapses were tracked
+export function getMostLapsedCards(decks: FlashcardDeck[], entries: ReviewLogEntry[], limit = 10): LapsedCard[] {
+  const loggedLapses = new Map<string, number>()
+  entries.forEach((entry) => {
+    if (entry.quality < 3 && entry.previousInterval > 0) {
+      loggedLapses.set(entry.cardId, (loggedLapses.get(entry.cardId) || 0) + 1)
+    }
+  })
+
+  return decks
+    .flatMap((deck) =>
+      deck.cards.map((card) => ({
+        card,
+        deck,
+        lapses: Math.max(card.lapses || 0, loggedLapses.get(card.id) || 0),
+      })),
+    )
+    .filter((item) => item.lapses > 0)
+    .sort((a, b) => b.lapses - a.lapses)
+    .slice(0, limit)
+}
@@ -0,0 +1,340 @@
+/**
+ * Spaced-repetition schedulers for flashcards
+ * Each deck picks an algorithm: classic SM-2, or FSRS (Free Spaced Repetition Scheduler),
+ * which models memory stability/difficulty and targets a desired retention
+ */
+
+import type { Flashcard, FlashcardDeck } from "./flashcard-utils"
+
+export type SchedulerAlgorithm = "sm2" | "fsrs"
+
+// FSRS ratings: 1 = Again, 2 = Hard, 3 = Good, 4 = Easy
+export type FsrsRating = 1 | 2 | 3 | 4
+
+export type FsrsCardState = "learning" | "review" | "relearning"
+
+// Memory state tracked by FSRS (absent until a card's first FSRS review)
+export interface FsrsState {
+  stability: number // Days until retrievability drops to 90%
+  difficulty: number // 1 (easy) to 10 (hard)
+  state: FsrsCardState
+  step: number // Index into the learning or relearning steps
+}
+
+export interface SchedulerSettings {
+  desiredRetention: number // Target probability of recall when a card comes due (FSRS)
+  learningSteps: number[] // Minutes between reviews of new cards before they graduate (FSRS)
+  relearningSteps: number[] // Minutes between reviews after forgetting a card (FSRS)
+  maximumInterval: number // Longest interval in days
+}
+
+export interface Scheduler {
+  algorithm: SchedulerAlgorithm
+  name: string
+  // Apply a review graded on the 0-5 quality scale
+  review: (card: Flashcard, quality: number, settings: SchedulerSettings, now: Date) => Flashcard
+  // Convert a card scheduled by another algorithm into this scheduler's state
+  migrate: (card: Flashcard) => Flashcard
+}
+
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+  desiredRetention: 0.9,
+  learningSteps: [1, 10],
+  relearningSteps: [10],
+  maximumInterval: 36500,
+}
+
+export const SCHEDULER_NAMES: Record<SchedulerAlgorithm, string> = {
+  sm2: "SM-2",
+  fsrs: "FSRS",
+}
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+// SuperMemo-2 algorithm parameters
+const MIN_EASE_FACTOR = 1.3
+
+// FSRS-5 default model weights
+const FSRS_WEIGHTS = [
+  0.40255, 1.18385, 3.173, 15.69105, 7.1949, 0.5345, 1.4604, 0.0046, 1.54575, 0.1192, 1.01925, 1.9395, 0.11, 0.29605,
+  2.2698, 0.2315, 2.9898, 0.51655, 0.6621,
+]
+const FSRS_DECAY = -0.5
+const FSRS_FACTOR = 19 / 81 // Chosen so that retrievability is 90% after `stability` days
+
+function addMinutes(now: Date, minutes: number): string {
+  return new Date(now.getTime() + minutes * MINUTE_MS).toISOString()
+}
+
+function addDays(now: Date, days: number): string {
+  return new Date(now.getTime() + days * DAY_MS).toISOString()
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+// Map the 0-5 SM-2 quality scale onto the four FSRS ratings
+export function qualityToRating(quality: number): FsrsRating {
+  if (quality < 3) return 1
+  if (quality === 3) return 2
+  if (quality === 4) return 3
+  return 4
+}
+
+// SM-2
+
+function sm2Review(card: Flashcard, quality: number, settings: SchedulerSettings, now: Date): Flashcard {
+  // Ensure quality is between 0 and 5
+  quality = Math.max(0, Math.min(5, quality))
+
+  let { easeFactor, interval, repetitions } = card
+  let lapses = card.lapses || 0
+
+  // Update ease factor based on performance
+  easeFactor = Math.max(MIN_EASE_FACTOR, easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)))
+
+  // Update repetitions and interval
+  if (quality < 3) {
+    // If recall was difficult, reset repetitions
+    if (repetitions > 0) lapses += 1
+    repetitions = 0
+    interval = 1
+  } else {
+    // If recall was good, increase interval
+    repetitions += 1
+    if (repetitions === 1) {
+      interval = 1
+    } else if (repetitions === 2) {
+      interval = 6
+    } else {
+      interval = Math.round(interval * easeFactor)
+    }
+  }
+
+  interval = Math.min(interval, settings.maximumInterval)
+
+  return {
+    ...card,
+    easeFactor,
+    interval,
+    repetitions,
+    lapses,
+    fsrs: undefined,
+    lastReviewed: now.toISOString(),
+    nextReview: addDays(now, interval),
+  }
+}
+
+// SM-2 ease factor matching an FSRS difficulty (1 -> 3.0, 10 -> 1.3), rounded to two decimals
+export function difficultyToEaseFactor(difficulty: number): number {
+  const easeFactor = Math.max(MIN_EASE_FACTOR, 1.3 + ((10 - difficulty) * 1.7) / 9)
+  return Math.round(easeFactor * 100) / 100
+}
+
+// Derive an SM-2 ease factor from FSRS difficulty
+function sm2Migrate(card: Flashcard): Flashcard {
+  if (!card.fsrs) return card
+
+  return {
+    ...card,
+    easeFactor: difficultyToEaseFactor(card.fsrs.difficulty),
+    interval: Math.max(1, Math.round(card.fsrs.state === "review" ? card.fsrs.stability : card.interval)),
+    fsrs: undefined,
+  }
+}
+
+export const sm2Scheduler: Scheduler = {
+  algorithm: "sm2",
+  name: SCHEDULER_NAMES.sm2,
+  review: sm2Review,
+  migrate: sm2Migrate,
+}
+
+// FSRS
+
+// Probability of recalling a card `elapsedDays` after its last review
+export function getRetrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + (FSRS_FACTOR * elapsedDays) / stability, FSRS_DECAY)
+}
+
+// Days until retrievability falls to the desired retention
+function nextInterval(stability: number, settings: SchedulerSettings): number {
+  const interval = (stability / FSRS_FACTOR) * (Math.pow(settings.desiredRetention, 1 / FSRS_DECAY) - 1)
+  return clamp(Math.round(interval), 1, settings.maximumInterval)
+}
+
+function initialStability(rating: FsrsRating): number {
+  return Math.max(FSRS_WEIGHTS[rating - 1], 0.1)
+}
+
+function initialDifficulty(rating: FsrsRating): number {
+  return FSRS_WEIGHTS[4] - Math.exp(FSRS_WEIGHTS[5] * (rating - 1)) + 1
+}
+
+function nextDifficulty(difficulty: number, rating: FsrsRating): number {
+  // Linear damping keeps difficulty from overshooting 10
+  const delta = -FSRS_WEIGHTS[6] * (rating - 3)
+  const damped = difficulty + (delta * (10 - difficulty)) / 9
+  // Mean reversion towards the difficulty of an "Easy" first answer
+  const reverted = FSRS_WEIGHTS[7] * initialDifficulty(4) + (1 - FSRS_WEIGHTS[7]) * damped
+  return clamp(reverted, 1, 10)
+}
+
+// Stability after a successful long-term review
+function recallStability(difficulty: number, stability: number, retrievability: number, rating: FsrsRating): number {
+  const hardPenalty = rating === 2 ? FSRS_WEIGHTS[15] : 1
+  const easyBonus = rating === 4 ? FSRS_WEIGHTS[16] : 1
+  return (
+    stability *
+    (1 +
+      Math.exp(FSRS_WEIGHTS[8]) *
+        (11 - difficulty) *
+        Math.pow(stability, -FSRS_WEIGHTS[9]) *
+        (Math.exp(FSRS_WEIGHTS[10] * (1 - retrievability)) - 1) *
+        hardPenalty *
+        easyBonus)
+  )
+}
+
+// Stability after forgetting a card
+function forgetStability(difficulty: number, stability: number, retrievability: number): number {
+  const forgotten =
+    FSRS_WEIGHTS[11] *
+    Math.pow(difficulty, -FSRS_WEIGHTS[12]) *
+    (Math.pow(stability + 1, FSRS_WEIGHTS[13]) - 1) *
+    Math.exp(FSRS_WEIGHTS[14] * (1 - retrievability))
+  return Math.min(forgotten, stability)
+}
+
+// Stability after a same-day review (learning and relearning steps)
+function shortTermStability(stability: number, rating: FsrsRating): number {
+  return stability * Math.exp(FSRS_WEIGHTS[17] * (rating - 3 + FSRS_WEIGHTS[18]))
+}
+
+function fsrsReview(card: Flashcard, quality: number, settings: SchedulerSettings, now: Date): Flashcard {
+  const rating = qualityToRating(quality)
+  const lastReviewed = card.lastReviewed ? new Date(card.lastReviewed) : now
+  const elapsedDays = Math.max(0, (now.getTime() - lastReviewed.getTime()) / DAY_MS)
+
+  let { stability, difficulty, state, step } = card.fsrs || {
+    stability: initialStability(rating),
+    difficulty: clamp(initialDifficulty(rating), 1, 10),
+    state: "learning" as FsrsCardState,
+    step: 0,
+  }
+  let repetitions = card.repetitions
+  let lapses = card.lapses || 0
+
+  if (card.fsrs) {
+    difficulty = nextDifficulty(difficulty, rating)
+
+    if (state === "review") {
+      const retrievability = getRetrievability(elapsedDays, stability)
+      if (rating === 1) {
+        stability = forgetStability(card.fsrs.difficulty, stability, retrievability)
+        lapses += 1
+        state = "relearning"
+        step = 0
+      } else {
+        stability = recallStability(card.fsrs.difficulty, stability, retrievability, rating)
+      }
+    } else {
+      stability = shortTermStability(stability, rating)
+    }
+  }
+
+  const result = (fsrs: FsrsState, nextReview: string, interval: number): Flashcard => ({
+    ...card,
+    fsrs,
+    interval,
+    repetitions,
+    lapses,
+    lastReviewed: now.toISOString(),
+    nextReview,
+  })
+
+  // Cards still in (re)learning step through short, minute-based intervals
+  if (state !== "review") {
+    const steps = state === "learning" ? settings.learningSteps : settings.relearningSteps
+
+    if (rating === 1) {
+      step = 0
+    } else if (rating === 3) {
+      step += 1
+    }
+
+    if (rating !== 4 && step < steps.length) {
+      repetitions = 0
+      return result({ stability, difficulty, state, step }, addMinutes(now, steps[step]), 0)
+    }
+
+    // Graduated (or no steps configured)
+    state = "review"
+    step = 0
+  }
+
+  repetitions += rating === 1 ? 0 : 1
+  const interval = nextInterval(stability, settings)
+  return result({ stability, difficulty, state, step }, addDays(now, interval), interval)
+}
+
+// Estimate FSRS memory state from SM-2 scheduling
+function fsrsMigrate(card: Flashcard): Flashcard {
+  // Cards that were never reviewed start fresh on their first FSRS review
+  if (card.fsrs || !card.lastReviewed) return card
+
+  // At the SM-2 interval recall is assumed to be ~90%, which is FSRS's definition of stability;
+  // ease factor 3.0 -> difficulty 1, 1.3 -> difficulty 10
+  const difficulty = clamp(10 - ((card.easeFactor - 1.3) * 9) / 1.7, 1, 10)
+  return {
+    ...card,
+    fsrs: {
+      stability: Math.max(card.interval, 0.1),
+      difficulty: Math.round(difficulty * 100) / 100,
+      state: "review",
+      step: 0,
+    },
+  }
+}
+
+export const fsrsScheduler: Scheduler = {
+  algorithm: "fsrs",
+  name: SCHEDULER_NAMES.fsrs,
+  review: fsrsReview,
+  migrate: fsrsMigrate,
+}
+
+const SCHEDULERS: Record<SchedulerAlgorithm, Scheduler> = {
+  sm2: sm2Scheduler,
+  fsrs: fsrsScheduler,
+}
+
+// Get the scheduler for an algorithm (decks without one use SM-2)
+export function getScheduler(algorithm?: SchedulerAlgorithm): Scheduler {
+  return SCHEDULERS[algorithm || "sm2"]
+}
+
+// Get a deck's scheduler settings, filling in defaults
+export function getDeckSchedulerSettings(deck: FlashcardDeck): SchedulerSettings {
+  return { ...DEFAULT_SCHEDULER_SETTINGS, ...deck.schedulerSettings }
+}
+
+// Switch a deck to another algorithm, converting each card's scheduling state
+export function switchDeckScheduler(
+  deck: FlashcardDeck,
+  algorithm: SchedulerAlgorithm,
+  settings?: Partial<SchedulerSettings>,
+): FlashcardDeck {
+  const scheduler = getScheduler(algorithm)
+  const switching = (deck.scheduler || "sm2") !== algorithm
+
+  return {
+    ...deck,
+    scheduler: algorithm,
+    schedulerSettings: { ...getDeckSchedulerSettings(deck), ...settings },
+    cards: switching ? deck.cards.map(scheduler.migrate) : deck.cards,
+    updatedAt: new Date().toISOString(),
+  }
+}
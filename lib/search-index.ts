@@ -0,0 +1,374 @@
+/**
+ * Full-text search over the document library
+ * An inverted index is kept per document in IndexedDB and updated whenever a document is saved
+ */
+
+import type { DocumentData } from "./storage-utils"
+import { getAllSearchIndexRecords, putSearchIndexRecords, deleteSearchIndexRecord } from "./document-storage"
+
+// Index entry for a single document: term -> weighted frequency across all fields
+export interface SearchIndexEntry {
+  documentId: string
+  indexedAt: string // updatedAt/createdAt of the document version that was indexed
+  terms: Record<string, number>
+}
+
+export interface SnippetSegment {
+  text: string
+  highlight: boolean
+}
+
+export interface SearchResult {
+  document: DocumentData
+  score: number
+  snippet: SnippetSegment[]
+  sectionHeading?: string
+  sectionId?: string
+}
+
+interface ParsedQuery {
+  terms: string[]
+  phrases: string[]
+}
+
+// How much a term counts depending on where it appears
+const FIELD_WEIGHTS = {
+  title: 5,
+  tags: 4,
+  headings: 3,
+  summary: 2,
+  body: 1,
+}
+
+// Score multipliers for inexact matches
+const PREFIX_MATCH_FACTOR = 0.7
+const FUZZY_MATCH_FACTOR = 0.4
+
+// Characters of context shown on each side of a snippet hit
+const SNIPPET_CONTEXT = 60
+
+const WORD_REGEX = /[a-z0-9\u00c0-\uffff]+/gi
+
+// In-memory copy of the persisted index, loaded on first search
+let indexCache: Map<string, SearchIndexEntry> | null = null
+
+// Lowercase and strip accents so "Café" matches "cafe"
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+}
+
+// Split text into normalized word tokens
+export function tokenize(text: string): string[] {
+  return normalize(text).match(WORD_REGEX) || []
+}
+
+// Remove markup that should not be searchable (image tags, link syntax, code fences)
+function stripMarkup(text: string): string {
+  return text
+    .replace(/<img[^>]*>/g, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+    .replace(/\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g, (_, title: string, label?: string) => label || title)
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/^```.*$/gm, " ")
+    .replace(/[*_`~>|]/g, " ")
+}
+
+// Build the section anchor id used by the Cornell view for a heading
+export function getSectionId(heading: string): string {
+  return heading
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+}
+
+function getIndexedAt(doc: DocumentData): string {
+  return doc.updatedAt || doc.createdAt
+}
+
+// Build the weighted term map for a document
+export function buildIndexEntry(doc: DocumentData): SearchIndexEntry {
+  const terms: Record<string, number> = {}
+
+  const addTokens = (text: string, weight: number) => {
+    tokenize(text).forEach((token) => {
+      terms[token] = (terms[token] || 0) + weight
+    })
+  }
+
+  addTokens(doc.title, FIELD_WEIGHTS.title)
+  addTokens(doc.tags.join(" "), FIELD_WEIGHTS.tags)
+  addTokens(doc.summary || "", FIELD_WEIGHTS.summary)
+
+  stripMarkup(doc.content)
+    .split("\n")
+    .forEach((line) => {
+      if (/^#{1,6}\s/.test(line)) {
+        addTokens(line.replace(/^#+\s*/, ""), FIELD_WEIGHTS.headings)
+      } else {
+        addTokens(line, FIELD_WEIGHTS.body)
+      }
+    })
+
+  return {
+    documentId: doc.id,
+    indexedAt: getIndexedAt(doc),
+    terms,
+  }
+}
+
+async function loadIndex(): Promise<Map<string, SearchIndexEntry>> {
+  if (!indexCache) {
+    try {
+      const entries = await getAllSearchIndexRecords()
+      indexCache = new Map(entries.map((entry) => [entry.documentId, entry]))
+    } catch (error) {
+      console.error("Error loading search index, rebuilding in memory:", error)
+      indexCache = new Map()
+    }
+  }
+  return indexCache
+}
+
+// Update the index for a saved document
+export async function indexDocument(doc: DocumentData): Promise<void> {
+  const index = await loadIndex()
+  const entry = buildIndexEntry(doc)
+  index.set(doc.id, entry)
+
+  try {
+    await putSearchIndexRecords([entry])
+  } catch (error) {
+    console.error("Error persisting search index entry:", error)
+  }
+}
+
+// Remove a deleted document from the index
+export async function removeDocumentFromIndex(documentId: string): Promise<void> {
+  const index = await loadIndex()
+  index.delete(documentId)
+
+  try {
+    await deleteSearchIndexRecord(documentId)
+  } catch (error) {
+    console.error("Error removing search index entry:", error)
+  }
+}
+
+// Index any documents that are missing or stale (e.g. saved before the index existed)
+async function ensureIndexed(docs: DocumentData[]): Promise<Map<string, SearchIndexEntry>> {
+  const index = await loadIndex()
+  const stale = docs.filter((doc) => index.get(doc.id)?.indexedAt !== getIndexedAt(doc))
+
+  if (stale.length > 0) {
+    const entries = stale.map(buildIndexEntry)
+    entries.forEach((entry) => index.set(entry.documentId, entry))
+
+    try {
+      await putSearchIndexRecords(entries)
+    } catch (error) {
+      console.error("Error persisting search index:", error)
+    }
+  }
+
+  return index
+}
+
+// Split a query into free terms and "quoted phrases"
+export function parseSearchQuery(query: string): ParsedQuery {
+  const phrases: string[] = []
+  const withoutPhrases = query.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const normalized = tokenize(phrase).join(" ")
+    if (normalized) phrases.push(normalized)
+    return " "
+  })
+
+  return {
+    // Single letters are too common to be useful on their own
+    terms: [...new Set(tokenize(withoutPhrases))].filter((term) => term.length > 1 || /\d/.test(term)),
+    phrases,
+  }
+}
+
+// Levenshtein distance with an early exit once maxDistance is exceeded
+function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin > maxDistance) return maxDistance + 1
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+// Typos allowed for a query term of a given length
+function allowedTypos(term: string): number {
+  if (term.length >= 8) return 2
+  if (term.length >= 4) return 1
+  return 0
+}
+
+// Find the index terms a query term matches in one document, with their match factor
+function matchTerm(term: string, entry: SearchIndexEntry): Map<string, number> {
+  const matches = new Map<string, number>()
+
+  if (entry.terms[term]) {
+    matches.set(term, 1)
+  }
+
+  const typos = allowedTypos(term)
+  Object.keys(entry.terms).forEach((indexed) => {
+    if (indexed === term) return
+
+    if (term.length >= 2 && indexed.startsWith(term)) {
+      matches.set(indexed, PREFIX_MATCH_FACTOR)
+    } else if (typos > 0 && editDistance(term, indexed, typos) <= typos) {
+      matches.set(indexed, FUZZY_MATCH_FACTOR)
+    }
+  })
+
+  return matches
+}
+
+// Searchable plain text of a document, used for phrase checks
+function getDocumentText(doc: DocumentData): string {
+  return tokenize([doc.title, doc.tags.join(" "), doc.summary || "", stripMarkup(doc.content)].join(" ")).join(" ")
+}
+
+// Split text into segments, highlighting words in the matched set
+function highlightText(text: string, matchedWords: Set<string>): SnippetSegment[] {
+  const segments: SnippetSegment[] = []
+  let lastIndex = 0
+
+  text.replace(WORD_REGEX, (word: string, offset: number) => {
+    if (matchedWords.has(normalize(word))) {
+      if (offset > lastIndex) {
+        segments.push({ text: text.slice(lastIndex, offset), highlight: false })
+      }
+      segments.push({ text: word, highlight: true })
+      lastIndex = offset + word.length
+    }
+    return word
+  })
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), highlight: false })
+  }
+
+  return segments
+}
+
+// Find the first body line containing a matched word and cut a snippet around it
+export function buildSnippet(
+  doc: DocumentData,
+  matchedWords: Set<string>,
+): Pick<SearchResult, "snippet" | "sectionHeading" | "sectionId"> {
+  let currentHeading: string | undefined
+
+  for (const rawLine of doc.content.split("\n")) {
+    if (rawLine.startsWith("# ")) {
+      currentHeading = rawLine.substring(2).trim()
+    }
+
+    const line = stripMarkup(rawLine.replace(/^#+\s*/, "")).replace(/\s+/g, " ").trim()
+    if (!line) continue
+
+    let hitOffset = -1
+    line.replace(WORD_REGEX, (word: string, offset: number) => {
+      if (hitOffset === -1 && matchedWords.has(normalize(word))) {
+        hitOffset = offset
+      }
+      return word
+    })
+
+    if (hitOffset !== -1) {
+      const start = Math.max(0, hitOffset - SNIPPET_CONTEXT)
+      const end = Math.min(line.length, hitOffset + SNIPPET_CONTEXT * 2)
+      const window = `${start > 0 ? "…" : ""}${line.slice(start, end)}${end < line.length ? "…" : ""}`
+
+      return {
+        snippet: highlightText(window, matchedWords),
+        sectionHeading: currentHeading,
+        sectionId: currentHeading ? getSectionId(currentHeading) : undefined,
+      }
+    }
+  }
+
+  // No body hit: fall back to the summary (matches may be in the title or tags)
+  const fallback =
+    doc.summary ||
+    stripMarkup(doc.content)
+      .replace(/^#+\s*/gm, "")
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, SNIPPET_CONTEXT * 3)
+  return { snippet: highlightText(fallback, matchedWords) }
+}
+
+// Search documents, returning ranked results with highlighted snippets
+export async function searchDocuments(query: string, docs: DocumentData[]): Promise<SearchResult[]> {
+  const { terms, phrases } = parseSearchQuery(query)
+  if (terms.length === 0 && phrases.length === 0) return []
+
+  const index = await ensureIndexed(docs)
+
+  // Phrase words also need to be present, so they take part in ranking and highlighting
+  const phraseWords = phrases.flatMap((phrase) => phrase.split(" "))
+  const allTerms = [...new Set([...terms, ...phraseWords])]
+
+  // Per indexed document: which index terms each query term matched
+  const matchesById = new Map(
+    [...index.values()].map((entry) => [entry.documentId, allTerms.map((term) => matchTerm(term, entry))]),
+  )
+
+  // Document frequency of each query term across the whole index, for inverse document frequency weighting
+  const totalDocs = Math.max(index.size, 1)
+  const documentFrequency = allTerms.map(
+    (_, termIndex) => [...matchesById.values()].filter((matches) => matches[termIndex].size > 0).length,
+  )
+
+  const candidates = docs
+    .map((doc) => ({ doc, entry: index.get(doc.id), matches: matchesById.get(doc.id) || [] }))
+    .filter(({ entry, matches }) => entry && matches.every((match) => match.size > 0))
+
+  const results: SearchResult[] = []
+
+  candidates.forEach(({ doc, entry, matches }) => {
+    if (phrases.length > 0) {
+      const text = ` ${getDocumentText(doc)} `
+      if (!phrases.every((phrase) => text.includes(` ${phrase} `))) return
+    }
+
+    let score = 0
+    const matchedWords = new Set<string>()
+
+    matches.forEach((termMatches, termIndex) => {
+      const idf = Math.log(1 + totalDocs / Math.max(documentFrequency[termIndex], 1))
+      let best = 0
+      termMatches.forEach((factor, indexed) => {
+        best = Math.max(best, entry!.terms[indexed] * factor)
+        matchedWords.add(indexed)
+      })
+      score += best * idf
+    })
+
+    // Exact phrases are a strong signal
+    score *= 1 + phrases.length * 0.5
+
+    results.push({ document: doc, score, ...buildSnippet(doc, matchedWords) })
+  })
+
+  return results.sort((a, b) => b.score - a.score)
+}
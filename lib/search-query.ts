@@ -0,0 +1,237 @@
+/**
+ * Structured search queries for the document library
+ * Supports operators such as `tag:biology -tag:draft before:2026-01-01 has:diagram links-to:"Cell Division"`
+ * alongside free text, which is passed on to the full-text index
+ */
+
+import type { DocumentData } from "./storage-utils"
+import { extractNoteLinks } from "./link-utils"
+import { searchDocuments, type SearchResult } from "./search-index"
+
+export type QueryOperator = "tag" | "title" | "folder" | "before" | "after" | "has" | "links-to" | "linked-from"
+
+export interface QueryFilter {
+  operator: QueryOperator
+  value: string
+  negated: boolean
+}
+
+export interface ParsedLibraryQuery {
+  text: string // Free text left over after removing operators
+  filters: QueryFilter[]
+  errors: string[]
+}
+
+// Outcome of running a query against the library
+export interface LibrarySearch {
+  documents: DocumentData[] // Matching documents, ranked by relevance when the query has free text
+  results: SearchResult[] | null // Full-text hits, or null when the query only uses operators
+  errors: string[]
+}
+
+export interface SavedSearch {
+  id: string
+  name: string
+  query: string
+  createdAt: string
+}
+
+const SAVED_SEARCHES_KEY = "cornell-notes-saved-searches"
+
+const OPERATORS: QueryOperator[] = ["tag", "title", "folder", "before", "after", "has", "links-to", "linked-from"]
+
+// Things a note can contain, for has:
+const HAS_CHECKS: Record<string, (doc: DocumentData) => boolean> = {
+  image: (doc) => /cornell-image:\/\/|!\[[^\]]*\]\(/.test(doc.content),
+  diagram: (doc) => /```mermaid|<img[^>]*alt="[^"]*diagram"/i.test(doc.content),
+  link: (doc) => extractNoteLinks(doc.content).length > 0,
+  summary: (doc) => !!doc.summary?.trim(),
+  tag: (doc) => doc.tags.length > 0,
+  code: (doc) => /^```/m.test(doc.content),
+  table: (doc) => /^\s*\|.*\|\s*$/m.test(doc.content),
+}
+
+// Plural spellings accepted by has:
+const HAS_ALIASES: Record<string, string> = {
+  images: "image",
+  diagrams: "diagram",
+  links: "link",
+  tags: "tag",
+  tables: "table",
+}
+
+// Operator token: optional "-", operator name, then a bare or "quoted" value
+const OPERATOR_REGEX = /(^|\s)(-?)([a-z-]+):(?:"([^"]*)"|(\S+))/gi
+
+// Parse a YYYY-MM-DD (or any Date-parsable) value as local midnight
+function parseQueryDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?$/)
+  const date = match
+    ? new Date(Number(match[1]), Number(match[2]) - 1, match[3] ? Number(match[3]) : 1)
+    : new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+// Split a query into operator filters and free text
+export function parseLibraryQuery(query: string): ParsedLibraryQuery {
+  const filters: QueryFilter[] = []
+  const errors: string[] = []
+
+  const text = query.replace(
+    OPERATOR_REGEX,
+    (match, leading: string, minus: string, name: string, quoted?: string, bare?: string) => {
+      const operator = name.toLowerCase() as QueryOperator
+
+      // Unknown operators (e.g. "10:30") stay part of the free text
+      if (!OPERATORS.includes(operator)) return match
+
+      const value = (quoted ?? bare ?? "").trim()
+      if (!value) {
+        errors.push(`${operator}: needs a value`)
+        return leading
+      }
+
+      if ((operator === "before" || operator === "after") && !parseQueryDate(value)) {
+        errors.push(`${operator}: "${value}" is not a date (use YYYY-MM-DD)`)
+        return leading
+      }
+
+      if (operator === "has" && !HAS_CHECKS[HAS_ALIASES[value.toLowerCase()] || value.toLowerCase()]) {
+        errors.push(`has: "${value}" is not supported (try ${Object.keys(HAS_CHECKS).join(", ")})`)
+        return leading
+      }
+
+      filters.push({ operator, value, negated: minus === "-" })
+      return leading
+    },
+  )
+
+  return { text: text.replace(/\s+/g, " ").trim(), filters, errors }
+}
+
+// Check a single filter against a document
+function matchesFilter(doc: DocumentData, filter: QueryFilter, docsByTitle: Map<string, DocumentData>): boolean {
+  const value = filter.value.toLowerCase()
+
+  switch (filter.operator) {
+    case "tag":
+      return doc.tags.some((tag) => tag.toLowerCase() === value)
+    case "title":
+      return doc.title.toLowerCase().includes(value)
+    case "folder": {
+      // A folder also matches the notes in its subfolders
+      const folder = doc.folder?.toLowerCase()
+      return !!folder && (folder === value || folder.startsWith(`${value}/`))
+    }
+    case "before":
+      return new Date(doc.createdAt).getTime() < parseQueryDate(filter.value)!.getTime()
+    case "after": {
+      // "after:2026-01-01" starts the day after the given date
+      const date = parseQueryDate(filter.value)!
+      date.setDate(date.getDate() + 1)
+      return new Date(doc.createdAt).getTime() >= date.getTime()
+    }
+    case "has":
+      return HAS_CHECKS[HAS_ALIASES[value] || value](doc)
+    case "links-to":
+      return extractNoteLinks(doc.content).some((link) => link.toLowerCase() === value)
+    case "linked-from": {
+      const source = docsByTitle.get(value)
+      return !!source && extractNoteLinks(source.content).some((link) => link.toLowerCase() === doc.title.toLowerCase())
+    }
+    default:
+      return true
+  }
+}
+
+// Apply the operator filters of a parsed query
+export function filterByQuery(docs: DocumentData[], filters: QueryFilter[]): DocumentData[] {
+  if (filters.length === 0) return docs
+
+  const docsByTitle = new Map(docs.map((doc) => [doc.title.toLowerCase(), doc]))
+  return docs.filter((doc) =>
+    filters.every((filter) => matchesFilter(doc, filter, docsByTitle) !== filter.negated),
+  )
+}
+
+// Run a library query: operators narrow the documents, free text ranks them
+export async function searchLibrary(query: string, docs: DocumentData[]): Promise<LibrarySearch> {
+  const { text, filters, errors } = parseLibraryQuery(query)
+  const matching = filterByQuery(docs, filters)
+
+  if (!text) {
+    return { documents: matching, results: null, errors }
+  }
+
+  const results = await searchDocuments(text, matching)
+  return { documents: results.map((result) => result.document), results, errors }
+}
+
+// Saved searches are kept in localStorage
+
+// Get all saved searches
+export function getSavedSearches(): SavedSearch[] {
+  try {
+    const searches = localStorage.getItem(SAVED_SEARCHES_KEY)
+    return searches ? JSON.parse(searches) : []
+  } catch (error) {
+    console.error("Error loading saved searches:", error)
+    return []
+  }
+}
+
+// Save a query under a name, replacing any saved search with the same name
+export function saveSearch(name: string, query: string): SavedSearch {
+  const search: SavedSearch = {
+    id: `search_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+    name,
+    query,
+    createdAt: new Date().toISOString(),
+  }
+
+  try {
+    const searches = getSavedSearches().filter((saved) => saved.name.toLowerCase() !== name.toLowerCase())
+    localStorage.setItem(SAVED_SEARCHES_KEY, JSON.stringify([...searches, search]))
+    return search
+  } catch (error) {
+    console.error("Error saving search:", error)
+    throw new Error("Failed to save search")
+  }
+}
+
+// Add saved searches restored from a backup, skipping ids and names already saved; returns how many were added
+export function importSavedSearches(searches: SavedSearch[]): number {
+  const existing = getSavedSearches()
+  const takenIds = new Set(existing.map((search) => search.id))
+  const takenNames = new Set(existing.map((search) => search.name.toLowerCase()))
+
+  const added = searches.filter((search) => {
+    if (takenIds.has(search.id) || takenNames.has(search.name.toLowerCase())) return false
+    takenIds.add(search.id)
+    takenNames.add(search.name.toLowerCase())
+    return true
+  })
+
+  if (added.length > 0) {
+    localStorage.setItem(SAVED_SEARCHES_KEY, JSON.stringify([...existing, ...added]))
+  }
+  return added.length
+}
+
+// Delete a saved search by ID
+export function deleteSavedSearch(id: string): boolean {
+  try {
+    const searches = getSavedSearches()
+    const remaining = searches.filter((search) => search.id !== id)
+
+    if (remaining.length !== searches.length) {
+      localStorage.setItem(SAVED_SEARCHES_KEY, JSON.stringify(remaining))
+      return true
+    }
+
+    return false
+  } catch (error) {
+    console.error("Error deleting saved search:", error)
+    return false
+  }
+}
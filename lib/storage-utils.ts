@@ -1,4 +1,17 @@
-import { getAllImages, cleanupUnusedImages } from "./image-storage"
+import { v4 as uuidv4 } from "uuid"
+import { cleanupUnusedImages } from "./image-storage"
+import {
+  getAllDocumentRecords,
+  getDocumentRecord,
+  putDocumentRecord,
+  deleteDocumentRecord,
+  getRevisionRecords,
+  getAllRevisionRecords,
+  addRevisionRecord,
+  addMissingRevisionRecords,
+  deleteRevisionRecords,
+} from "./document-storage"
+import { indexDocument, removeDocumentFromIndex } from "./search-index"
 
 export interface DocumentData {
   id: string
@@ -6,9 +19,47 @@ export interface DocumentData {
   summary?: string
   content: string
   tags: string[]
+  folder?: string // Folder path the note was imported from, e.g. "Projects/Biology"
+  sourceUrl?: string // Web page the note was imported from
   createdAt: string
+  updatedAt?: string
+  lastOpenedAt?: string
+  wordCount?: number
+  characterCount?: number
+  sectionCount?: number
 }
 
+// Content statistics maintained on every save
+export interface DocumentStats {
+  wordCount: number
+  characterCount: number
+  sectionCount: number
+}
+
+// Fields accepted by saveDocument; timestamps and statistics are filled in automatically
+export type DocumentInput = Omit<
+  DocumentData,
+  "id" | "createdAt" | "updatedAt" | "lastOpenedAt" | keyof DocumentStats
+> & {
+  id?: string
+  createdAt?: string
+  updatedAt?: string // Kept when restoring an export; otherwise the save time
+}
+
+// A timestamped snapshot of a document, recorded on every save
+export interface DocumentRevision {
+  id: string
+  documentId: string
+  title: string
+  summary?: string
+  tags: string[]
+  content: string
+  savedAt: string
+}
+
+// Maximum number of revisions kept per document (oldest are dropped first)
+const MAX_REVISIONS_PER_DOCUMENT = 50
+
 // Extract all image IDs from content
 function extractImageIds(content: string): string[] {
   const imageIds: string[] = []
@@ -24,13 +75,12 @@ function extractImageIds(content: string): string[] {
   return imageIds
 }
 
-// Get all documents from localStorage
-export function getAllDocuments(): DocumentData[] {
+// Get all documents from IndexedDB
+export async function getAllDocuments(): Promise<DocumentData[]> {
   if (typeof window === "undefined") return []
 
   try {
-    const docs = localStorage.getItem("cornell-notes-docs")
-    return docs ? JSON.parse(docs) : []
+    return await getAllDocumentRecords()
   } catch (error) {
     console.error("Error loading documents:", error)
     return []
@@ -38,54 +88,221 @@ export function getAllDocuments(): DocumentData[] {
 }
 
 // Get a single document by ID
-export function getDocument(id: string): DocumentData | null {
-  const docs = getAllDocuments()
-  return docs.find((doc) => doc.id === id) || null
+export async function getDocument(id: string): Promise<DocumentData | null> {
+  if (typeof window === "undefined") return null
+
+  try {
+    return await getDocumentRecord(id)
+  } catch (error) {
+    console.error("Error loading document:", error)
+    return null
+  }
+}
+
+// Compute word, character and Cornell section counts for note content
+export function getDocumentStats(content: string): DocumentStats {
+  // Count words in the readable text only, ignoring HTML tags and image data
+  const text = content
+    .replace(/<[^>]*>/g, " ")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+    .replace(/[#>*_`~|[\]()]/g, " ")
+    .trim()
+
+  return {
+    wordCount: text ? text.split(/\s+/).filter((word) => /\w|[^\x00-\x7F]/.test(word)).length : 0,
+    characterCount: content.replace(/<[^>]*>/g, "").length,
+    sectionCount: content.split("\n").filter((line) => line.startsWith("# ")).length,
+  }
 }
 
 // Save a document (create or update)
-export async function saveDocument(doc: Omit<DocumentData, "id"> & { id?: string }): Promise<string> {
-  const docs = getAllDocuments()
-
-  // If id is provided, update existing document
-  if (doc.id) {
-    const index = docs.findIndex((d) => d.id === doc.id)
-    if (index !== -1) {
-      docs[index] = { ...doc, id: doc.id } as DocumentData
-    } else {
-      // If id not found, create new with provided id
-      docs.push({ ...doc, id: doc.id } as DocumentData)
+export async function saveDocument(doc: DocumentInput): Promise<string> {
+  // If id is provided, update existing document (or create new with provided id),
+  // otherwise create a new document with a generated id
+  const docId = doc.id || uuidv4()
+  const existing = doc.id ? await getDocument(doc.id) : null
+  const now = new Date().toISOString()
+
+  const savedDoc: DocumentData = {
+    ...doc,
+    id: docId,
+    folder: doc.folder ?? existing?.folder,
+    sourceUrl: doc.sourceUrl ?? existing?.sourceUrl,
+    createdAt: existing?.createdAt || doc.createdAt || now,
+    updatedAt: doc.updatedAt || now,
+    lastOpenedAt: existing?.lastOpenedAt,
+    ...getDocumentStats(doc.content),
+  }
+
+  await putDocumentRecord(savedDoc)
+  await recordRevision(savedDoc)
+  await indexDocument(savedDoc)
+
+  return docId
+}
+
+// Record that a document was opened, without touching its edit history
+export async function markDocumentOpened(id: string): Promise<void> {
+  try {
+    const doc = await getDocumentRecord(id)
+    if (doc) {
+      await putDocumentRecord({ ...doc, lastOpenedAt: new Date().toISOString() })
     }
-    localStorage.setItem("cornell-notes-docs", JSON.stringify(docs))
-    return doc.id
+  } catch (error) {
+    console.error("Error updating last opened time:", error)
   }
+}
 
-  // Create new document with generated id
-  const newId = Date.now().toString()
-  const newDoc = { ...doc, id: newId } as DocumentData
-  docs.push(newDoc)
-  localStorage.setItem("cornell-notes-docs", JSON.stringify(docs))
-  return newId
+// Get the most recent modification time of a document (legacy documents only have createdAt)
+export function getDocumentUpdatedAt(doc: DocumentData): string {
+  return doc.updatedAt || doc.createdAt
 }
 
-// Delete a document by ID
-export function deleteDocument(id: string): boolean {
-  const docs = getAllDocuments()
-  const filteredDocs = docs.filter((doc) => doc.id !== id)
+// Document metadata shown alongside a note's title
+export type DocumentDetails = Partial<
+  Pick<DocumentData, "createdAt" | "updatedAt" | "wordCount" | "characterCount" | "sectionCount">
+>
+
+// Build a metadata line, e.g. "Created 1/2/2026 · Updated 3/4/2026 · 512 words · 4 sections"
+export function formatDocumentDetails(details?: DocumentDetails): string {
+  if (!details) return ""
+
+  const parts: string[] = []
+  if (details.createdAt) {
+    parts.push(`Created ${new Date(details.createdAt).toLocaleDateString()}`)
+  }
+  if (details.updatedAt && details.updatedAt !== details.createdAt) {
+    parts.push(`Updated ${new Date(details.updatedAt).toLocaleDateString()}`)
+  }
+  if (details.wordCount !== undefined) {
+    parts.push(`${details.wordCount} words`)
+  }
+  if (details.sectionCount !== undefined) {
+    parts.push(`${details.sectionCount} sections`)
+  }
+
+  return parts.join(" · ")
+}
 
-  if (filteredDocs.length !== docs.length) {
-    localStorage.setItem("cornell-notes-docs", JSON.stringify(filteredDocs))
-    return true
+export type DocumentSortKey = "updated" | "created" | "opened" | "title" | "tags" | "words"
+
+export const DOCUMENT_SORT_LABELS: Record<DocumentSortKey, string> = {
+  updated: "Last Edited",
+  created: "Date Created",
+  opened: "Last Opened",
+  title: "Title",
+  tags: "Tags",
+  words: "Word Count",
+}
+
+// Sort documents by one of the library sort keys
+export function sortDocuments(
+  docs: DocumentData[],
+  sortBy: DocumentSortKey,
+  direction: "asc" | "desc" = "desc",
+): DocumentData[] {
+  const compare = (a: DocumentData, b: DocumentData): number => {
+    switch (sortBy) {
+      case "updated":
+        return new Date(getDocumentUpdatedAt(a)).getTime() - new Date(getDocumentUpdatedAt(b)).getTime()
+      case "created":
+        return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      case "opened":
+        // Never-opened documents sort as the oldest
+        return new Date(a.lastOpenedAt || 0).getTime() - new Date(b.lastOpenedAt || 0).getTime()
+      case "title":
+        return a.title.localeCompare(b.title)
+      case "tags":
+        // Sort by the first tag, or empty if no tags
+        return (a.tags[0] || "").localeCompare(b.tags[0] || "")
+      case "words": {
+        // Legacy documents have no stored count yet
+        const wordsA = a.wordCount ?? getDocumentStats(a.content).wordCount
+        const wordsB = b.wordCount ?? getDocumentStats(b.content).wordCount
+        return wordsA - wordsB
+      }
+      default:
+        return 0
+    }
+  }
+
+  return [...docs].sort((a, b) => (direction === "asc" ? compare(a, b) : compare(b, a)))
+}
+
+// Snapshot a saved document into its revision log, skipping unchanged saves
+async function recordRevision(doc: DocumentData): Promise<void> {
+  try {
+    const revisions = await getRevisionRecords(doc.id)
+    const latest = revisions[revisions.length - 1]
+
+    if (
+      latest &&
+      latest.title === doc.title &&
+      (latest.summary || "") === (doc.summary || "") &&
+      latest.tags.join("\n") === doc.tags.join("\n") &&
+      latest.content === doc.content
+    ) {
+      return
+    }
+
+    await addRevisionRecord(
+      {
+        id: `rev_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+        documentId: doc.id,
+        title: doc.title,
+        summary: doc.summary,
+        tags: [...doc.tags],
+        content: doc.content,
+        savedAt: new Date().toISOString(),
+      },
+      MAX_REVISIONS_PER_DOCUMENT,
+    )
+  } catch (error) {
+    // A failed snapshot should never block saving the document itself
+    console.error("Error recording revision:", error)
+  }
+}
+
+// Get the revision history of a document, oldest first
+export async function getDocumentRevisions(id: string): Promise<DocumentRevision[]> {
+  if (typeof window === "undefined") return []
+
+  try {
+    return await getRevisionRecords(id)
+  } catch (error) {
+    console.error("Error loading revisions:", error)
+    return []
   }
+}
+
+// Get the revision history of every document, for backups
+export async function getAllDocumentRevisions(): Promise<DocumentRevision[]> {
+  return getAllRevisionRecords()
+}
 
-  return false
+// Add revisions restored from a backup, keeping any already stored; returns how many were added
+export async function importDocumentRevisions(revisions: DocumentRevision[]): Promise<number> {
+  return revisions.length > 0 ? addMissingRevisionRecords(revisions) : 0
+}
+
+// Delete a document by ID
+export async function deleteDocument(id: string): Promise<boolean> {
+  try {
+    const deleted = await deleteDocumentRecord(id)
+    await deleteRevisionRecords(id)
+    await removeDocumentFromIndex(id)
+    return deleted
+  } catch (error) {
+    console.error("Error deleting document:", error)
+    return false
+  }
 }
 
 // Clean up unused images
 export async function cleanupImages(): Promise<number> {
   try {
     // Get all documents
-    const docs = getAllDocuments()
+    const docs = await getAllDocuments()
 
     // Extract all image IDs from all documents
     const usedImageIds: string[] = []
@@ -106,21 +323,3 @@ export async function cleanupImages(): Promise<number> {
     return 0
   }
 }
-
-// Export all documents and images
-export async function exportAllData(): Promise<string> {
-  try {
-    const docs = getAllDocuments()
-    const images = await getAllImages()
-
-    const exportData = {
-      documents: docs,
-      images,
-    }
-
-    return JSON.stringify(exportData)
-  } catch (error) {
-    console.error("Error exporting data:", error)
-    throw new Error("Failed to export data")
-  }
-}
@@ -0,0 +1,417 @@
+/**
+ * Syntax highlighting for code blocks
+ * A small regex tokenizer shared by the notes preview and the PDF export, so both show the same colours.
+ * The theme is printer friendly: dark colours on a light background that stay readable in greyscale.
+ */
+
+export type CodeTokenType =
+  | "plain"
+  | "keyword"
+  | "type"
+  | "literal"
+  | "string"
+  | "number"
+  | "comment"
+  | "function"
+  | "variable"
+  | "tag"
+  | "attribute"
+  | "operator"
+  | "punctuation"
+
+export interface CodeToken {
+  type: CodeTokenType
+  text: string
+}
+
+export interface CodeTokenStyle {
+  color: [number, number, number]
+  bold?: boolean
+  italic?: boolean
+}
+
+type Rule = [CodeTokenType, RegExp]
+
+interface LanguageDefinition {
+  rules: Rule[] // Tried in order at each position, before identifiers
+  keywords: Set<string>
+  types?: Set<string>
+  literals?: Set<string>
+  capitalizedTypes?: boolean // Treat identifiers starting with a capital letter as type names
+  caseInsensitive?: boolean
+}
+
+export const CODE_THEME = {
+  background: [248, 248, 248] as [number, number, number],
+  border: [220, 220, 220] as [number, number, number],
+  lineNumber: [160, 160, 160] as [number, number, number],
+  tokens: {
+    plain: { color: [36, 41, 47] },
+    keyword: { color: [0, 51, 179], bold: true },
+    type: { color: [0, 98, 122] },
+    literal: { color: [0, 51, 179] },
+    string: { color: [6, 125, 23] },
+    number: { color: [23, 80, 235] },
+    comment: { color: [120, 120, 120], italic: true },
+    function: { color: [121, 94, 38] },
+    variable: { color: [135, 16, 148] },
+    tag: { color: [0, 51, 179] },
+    attribute: { color: [135, 16, 148] },
+    operator: { color: [36, 41, 47] },
+    punctuation: { color: [87, 96, 106] },
+  } as Record<CodeTokenType, CodeTokenStyle>,
+}
+
+const words = (list: string) => new Set(list.split(" "))
+
+// Rules shared by several languages (all sticky, so they only match at the current position)
+const WHITESPACE: Rule = ["plain", /\s+/y]
+const LINE_COMMENT: Rule = ["comment", /\/\/.*/y]
+const BLOCK_COMMENT: Rule = ["comment", /\/\*[\s\S]*?(?:\*\/|$)/y]
+const HASH_COMMENT: Rule = ["comment", /#.*/y]
+const DOUBLE_QUOTED: Rule = ["string", /"(?:[^"\\\n]|\\.)*"?/y]
+const SINGLE_QUOTED: Rule = ["string", /'(?:[^'\\\n]|\\.)*'?/y]
+const NUMBER: Rule = ["number", /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d+)?)[a-zA-Z]*/y]
+const OPERATOR: Rule = ["operator", /[+\-*/%=&|^!<>?~:]+/y]
+const PUNCTUATION: Rule = ["punctuation", /[{}()[\];,.@]/y]
+
+const C_STYLE_RULES: Rule[] = [WHITESPACE, LINE_COMMENT, BLOCK_COMMENT, DOUBLE_QUOTED, SINGLE_QUOTED, NUMBER]
+const TRAILING_RULES: Rule[] = [OPERATOR, PUNCTUATION]
+
+const JAVASCRIPT: LanguageDefinition = {
+  rules: [
+    ...C_STYLE_RULES,
+    ["string", /`(?:[^`\\]|\\[\s\S])*`?/y],
+    ["function", /@[\w.]+/y],
+    ...TRAILING_RULES,
+  ],
+  keywords: words(
+    "abstract as async await break case catch class const continue debugger declare default delete do else enum " +
+      "export extends finally for from function get if implements import in instanceof interface keyof let new of " +
+      "private protected public readonly return satisfies set static super switch this throw try type typeof var " +
+      "void while yield",
+  ),
+  types: words("any boolean never number object string symbol unknown bigint"),
+  literals: words("true false null undefined NaN Infinity"),
+  capitalizedTypes: true,
+}
+
+const PYTHON: LanguageDefinition = {
+  rules: [
+    WHITESPACE,
+    HASH_COMMENT,
+    ["string", /[rRbBfFuU]{0,2}("""|''')[\s\S]*?(?:\1|$)/y],
+    ["string", /[rRbBfFuU]{1,2}(?="|')/y],
+    DOUBLE_QUOTED,
+    SINGLE_QUOTED,
+    NUMBER,
+    ["function", /@[\w.]+/y],
+    ...TRAILING_RULES,
+  ],
+  keywords: words(
+    "and as assert async await break class continue def del elif else except finally for from global if import in " +
+      "is lambda match case nonlocal not or pass raise return try while with yield self",
+  ),
+  types: words("int float str bool list dict set tuple bytes object type complex frozenset"),
+  literals: words("True False None"),
+  capitalizedTypes: true,
+}
+
+const JAVA: LanguageDefinition = {
+  rules: [...C_STYLE_RULES, ["type", /@\w+/y], ...TRAILING_RULES],
+  keywords: words(
+    "abstract assert break case catch class const continue default do else enum extends final finally for goto if " +
+      "implements import instanceof interface native new package private protected public record return static " +
+      "strictfp super switch synchronized this throw throws transient try var void volatile while yield",
+  ),
+  types: words("boolean byte char double float int long short"),
+  literals: words("true false null"),
+  capitalizedTypes: true,
+}
+
+const C_LIKE: LanguageDefinition = {
+  rules: [...C_STYLE_RULES, ["keyword", /#\s*\w+/y], ...TRAILING_RULES],
+  keywords: words(
+    "auto break case catch class const constexpr continue default delete do else enum explicit extern for friend " +
+      "goto if inline namespace new noexcept operator private protected public register return sizeof static " +
+      "struct switch template this throw try typedef typename union using virtual volatile while",
+  ),
+  types: words(
+    "bool char double float int long short signed unsigned void size_t int8_t int16_t int32_t int64_t uint8_t " +
+      "uint16_t uint32_t uint64_t string vector map",
+  ),
+  literals: words("true false NULL nullptr"),
+  capitalizedTypes: true,
+}
+
+const CSHARP: LanguageDefinition = {
+  rules: [...C_STYLE_RULES, ["string", /@"(?:[^"]|"")*"?/y], ...TRAILING_RULES],
+  keywords: words(
+    "abstract as async await base break case catch checked class const continue default delegate do else enum " +
+      "event explicit extern finally fixed for foreach get goto if implicit in interface internal is lock namespace " +
+      "new operator out override params private protected public readonly record ref return sealed set sizeof " +
+      "static struct switch this throw try typeof unchecked unsafe using var virtual void volatile while yield",
+  ),
+  types: words("bool byte char decimal double float int long object sbyte short string uint ulong ushort dynamic"),
+  literals: words("true false null"),
+  capitalizedTypes: true,
+}
+
+const GO: LanguageDefinition = {
+  rules: [...C_STYLE_RULES, ["string", /`[^`]*`?/y], ...TRAILING_RULES],
+  keywords: words(
+    "break case chan const continue default defer else fallthrough for func go goto if import interface map " +
+      "package range return select struct switch type var",
+  ),
+  types: words(
+    "bool byte complex64 complex128 error float32 float64 int int8 int16 int32 int64 rune string uint uint8 " +
+      "uint16 uint32 uint64 uintptr any",
+  ),
+  literals: words("true false nil iota"),
+}
+
+const RUST: LanguageDefinition = {
+  rules: [
+    WHITESPACE,
+    LINE_COMMENT,
+    BLOCK_COMMENT,
+    DOUBLE_QUOTED,
+    ["string", /'(?:[^'\\\n]|\\.)'/y],
+    ["type", /'\w+/y], // Lifetimes
+    NUMBER,
+    ["function", /\w+!/y], // Macros
+    ["attribute", /#!?\[[^\]]*\]/y],
+    ...TRAILING_RULES,
+  ],
+  keywords: words(
+    "as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod move mut " +
+      "pub ref return self Self static struct super trait type unsafe use where while",
+  ),
+  types: words("bool char f32 f64 i8 i16 i32 i64 i128 isize str u8 u16 u32 u64 u128 usize String Vec Option Result"),
+  literals: words("true false None Some Ok Err"),
+  capitalizedTypes: true,
+}
+
+const SQL: LanguageDefinition = {
+  rules: [WHITESPACE, ["comment", /--.*/y], BLOCK_COMMENT, SINGLE_QUOTED, DOUBLE_QUOTED, NUMBER, ...TRAILING_RULES],
+  keywords: words(
+    "add all alter and as asc begin between by case check column commit constraint create cross database default " +
+      "delete desc distinct drop else end exists foreign from full group having if in index inner insert intersect " +
+      "into is join key left like limit not offset on or order outer primary references returning right rollback " +
+      "select set table then transaction union unique update using values view when where with",
+  ),
+  types: words(
+    "int integer bigint smallint decimal numeric real float double varchar char text date time timestamp boolean",
+  ),
+  literals: words("null true false"),
+  caseInsensitive: true,
+}
+
+const SHELL: LanguageDefinition = {
+  rules: [
+    WHITESPACE,
+    HASH_COMMENT,
+    DOUBLE_QUOTED,
+    ["string", /'[^']*'?/y],
+    ["variable", /\$(?:\{[^}]*\}?|[\w@#?*!$-]+)/y],
+    NUMBER,
+    ["operator", /[|&;<>]+/y],
+    ["punctuation", /[{}()[\]]/y],
+  ],
+  keywords: words(
+    "if then else elif fi for while until do done case esac in function return exit export local readonly " +
+      "source alias unset shift break continue",
+  ),
+  literals: words("true false"),
+}
+
+const JSON_LANGUAGE: LanguageDefinition = {
+  rules: [WHITESPACE, ["attribute", /"(?:[^"\\\n]|\\.)*"(?=\s*:)/y], DOUBLE_QUOTED, NUMBER, PUNCTUATION, OPERATOR],
+  keywords: new Set(),
+  literals: words("true false null"),
+}
+
+const MARKUP: LanguageDefinition = {
+  rules: [
+    WHITESPACE,
+    ["comment", /<!--[\s\S]*?(?:-->|$)/y],
+    ["tag", /<\/?[A-Za-z][\w:.-]*|\/?>/y],
+    ["attribute", /[\w:-]+(?==)/y],
+    ["string", /"[^"\n]*"|'[^'\n<>]*'/y],
+    ["plain", /[^<"'\s\w]+/y],
+  ],
+  keywords: new Set(),
+}
+
+const CSS: LanguageDefinition = {
+  rules: [
+    WHITESPACE,
+    BLOCK_COMMENT,
+    DOUBLE_QUOTED,
+    SINGLE_QUOTED,
+    ["keyword", /@[\w-]+/y],
+    ["number", /#[\da-fA-F]{3,8}\b(?!\s*\{)/y],
+    ["type", /[.#][\w-]+/y],
+    ["attribute", /[\w-]+(?=\s*:[^:{]*[;}])/y],
+    ["number", /-?(?:\d*\.)?\d+[a-z%]*/y],
+    ...TRAILING_RULES,
+  ],
+  keywords: words("important"),
+  literals: words("inherit initial unset none auto"),
+}
+
+const LANGUAGES: Record<string, LanguageDefinition> = {
+  javascript: JAVASCRIPT,
+  python: PYTHON,
+  java: JAVA,
+  kotlin: JAVA,
+  c: C_LIKE,
+  cpp: C_LIKE,
+  csharp: CSHARP,
+  go: GO,
+  rust: RUST,
+  sql: SQL,
+  shell: SHELL,
+  json: JSON_LANGUAGE,
+  html: MARKUP,
+  css: CSS,
+}
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: "javascript",
+  jsx: "javascript",
+  ts: "javascript",
+  tsx: "javascript",
+  typescript: "javascript",
+  mjs: "javascript",
+  py: "python",
+  python3: "python",
+  kt: "kotlin",
+  h: "c",
+  "c++": "cpp",
+  cc: "cpp",
+  hpp: "cpp",
+  cs: "csharp",
+  "c#": "csharp",
+  golang: "go",
+  rs: "rust",
+  postgres: "sql",
+  mysql: "sql",
+  sqlite: "sql",
+  sh: "shell",
+  bash: "shell",
+  zsh: "shell",
+  console: "shell",
+  xml: "html",
+  svg: "html",
+  vue: "html",
+  scss: "css",
+  less: "css",
+}
+
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y
+
+// Canonical name of a fenced code block language, or null when it has no highlighting
+export function getCodeLanguage(language?: string): string | null {
+  if (!language) return null
+  const name = language.trim().toLowerCase()
+  const canonical = LANGUAGE_ALIASES[name] || name
+  return LANGUAGES[canonical] ? canonical : null
+}
+
+function classifyIdentifier(definition: LanguageDefinition, word: string, next: string): CodeTokenType {
+  const key = definition.caseInsensitive ? word.toLowerCase() : word
+  if (definition.keywords.has(key)) return "keyword"
+  if (definition.literals?.has(key)) return "literal"
+  if (definition.types?.has(key)) return "type"
+  if (next === "(") return "function"
+  if (definition.capitalizedTypes && /^[A-Z]/.test(word)) return "type"
+  return "plain"
+}
+
+// Split code into lines of tokens. Code in a language without highlighting comes back as plain text
+export function tokenizeCode(code: string, language?: string): CodeToken[][] {
+  const source = code.replace(/\t/g, "    ")
+  const languageName = getCodeLanguage(language)
+  const definition = languageName ? LANGUAGES[languageName] : null
+  const tokens: CodeToken[] = []
+
+  const push = (type: CodeTokenType, text: string) => {
+    const previous = tokens[tokens.length - 1]
+    if (previous && previous.type === type) {
+      previous.text += text
+    } else {
+      tokens.push({ type, text })
+    }
+  }
+
+  if (!definition) {
+    push("plain", source)
+  } else {
+    let position = 0
+    while (position < source.length) {
+      let matched = ""
+      for (const [type, regex] of definition.rules) {
+        regex.lastIndex = position
+        matched = regex.exec(source)?.[0] || ""
+        if (matched) {
+          push(type, matched)
+          break
+        }
+      }
+      if (matched) {
+        position += matched.length
+        continue
+      }
+
+      IDENTIFIER.lastIndex = position
+      const identifier = IDENTIFIER.exec(source)
+      if (identifier) {
+        const word = identifier[0]
+        const next = source.slice(position + word.length).trimStart().charAt(0)
+        push(classifyIdentifier(definition, word, next), word)
+        position += word.length
+      } else {
+        push("plain", source[position])
+        position++
+      }
+    }
+  }
+
+  // Break the tokens at line ends, so block comments and strings spanning lines keep their colour
+  const lines: CodeToken[][] = [[]]
+  for (const token of tokens) {
+    token.text.split("\n").forEach((part, index) => {
+      if (index > 0) lines.push([])
+      if (part) lines[lines.length - 1].push({ type: token.type, text: part })
+    })
+  }
+  return lines
+}
+
+// Wrap a line of tokens into rows of at most maxChars characters
+export function wrapCodeLine(tokens: CodeToken[], maxChars: number): CodeToken[][] {
+  if (maxChars <= 0) return [tokens]
+
+  const rows: CodeToken[][] = [[]]
+  let length = 0
+  for (const token of tokens) {
+    let text = token.text
+    while (text) {
+      if (length === maxChars) {
+        rows.push([])
+        length = 0
+      }
+      const part = text.slice(0, maxChars - length)
+      rows[rows.length - 1].push({ type: token.type, text: part })
+      length += part.length
+      text = text.slice(part.length)
+    }
+  }
+  return rows
+}
+
+// CSS colour for a theme colour
+export function toCssColor([red, green, blue]: [number, number, number]): string {
+  return `rgb(${red}, ${green}, ${blue})`
+}
@@ -0,0 +1,488 @@
+/**
+ * Import Obsidian and Logseq vaults
+ * A vault (folder or zip) is read into an import plan first, so conflicts with existing notes can be
+ * previewed before anything is saved. Wikilinks are rewritten to the imported note titles and
+ * embedded attachments are moved into image storage as cornell-image:// references
+ */
+
+import JSZip from "jszip"
+import { storeImage } from "./image-storage"
+import { saveDocument, type DocumentData } from "./storage-utils"
+import { parseFrontmatter, getFrontmatterList, type FrontmatterValue } from "./frontmatter"
+
+// A file inside the vault, with its path relative to the vault root
+export interface VaultFile {
+  path: string
+  file: Blob
+  lastModified?: number
+}
+
+export interface VaultNote {
+  path: string
+  title: string
+  folder: string // Folder path inside the vault, "" for the root
+  summary: string
+  tags: string[]
+  aliases: string[]
+  createdAt?: string
+  body: string // Markdown without frontmatter or Logseq page properties
+  conflict: DocumentData | null // Existing note with the same title
+  duplicateTitle: boolean // Another note in the vault has the same title
+  missingLinks: string[] // Links that match neither a vault note nor an existing note
+  missingAttachments: string[]
+}
+
+export interface VaultImportPlan {
+  notes: VaultNote[]
+  attachments: Map<string, VaultFile> // Image files by vault path
+  skipped: string[] // Paths of files that are neither notes nor images
+}
+
+// What to do with a note whose title is already in the library
+export type VaultConflictStrategy = "skip" | "replace" | "keep-both"
+
+export interface VaultImportResult {
+  imported: number
+  replaced: number
+  skipped: number
+  images: number
+}
+
+const IMAGE_MIME_TYPES: { [extension: string]: string } = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  bmp: "image/bmp",
+}
+
+// App folders that hold settings or backups rather than notes
+const IGNORED_FOLDERS = new Set([".obsidian", ".trash", ".git", "logseq", ".logseq"])
+
+// Obsidian and Logseq link forms
+const EMBED_REGEX = /!\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|([^\]]*))?\]\]/g
+const WIKILINK_REGEX = /\[\[([^\]|#]*)(?:#([^\]|]*))?(?:\|([^\]]*))?\]\]/g
+const MARKDOWN_IMAGE_REGEX = /!\[([^\]]*)\]\(<?([^)>\s]+)>?(?:\s+"[^"]*")?\)/g
+const INLINE_TAG_REGEX = /(^|\s)#([\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/gu
+
+function getExtension(path: string): string {
+  const name = path.split("/").pop() || ""
+  return name.includes(".") ? name.split(".").pop()!.toLowerCase() : ""
+}
+
+function getBaseName(path: string): string {
+  return (path.split("/").pop() || path).replace(/\.md$/i, "")
+}
+
+function getImageName(path: string): string {
+  return (path.split("/").pop() || path).replace(/\.[^.]+$/, "")
+}
+
+function getFolder(path: string): string {
+  return path.split("/").slice(0, -1).join("/")
+}
+
+function normalizePath(path: string): string {
+  const parts: string[] = []
+  path
+    .replace(/\\/g, "/")
+    .split("/")
+    .forEach((part) => {
+      if (part === "..") parts.pop()
+      else if (part && part !== ".") parts.push(part)
+    })
+  return parts.join("/")
+}
+
+function isIgnored(path: string): boolean {
+  return path.split("/").some((part) => IGNORED_FOLDERS.has(part) || part.startsWith("."))
+}
+
+// Drop the vault's own folder name when every file sits inside it
+function stripCommonRoot(files: VaultFile[]): VaultFile[] {
+  const roots = new Set(files.map((file) => (file.path.includes("/") ? file.path.split("/")[0] : "")))
+  if (roots.size !== 1 || roots.has("")) return files
+
+  return files.map((file) => ({ ...file, path: file.path.split("/").slice(1).join("/") }))
+}
+
+// Files picked with a folder input carry their path in webkitRelativePath
+export function getVaultFilesFromFolder(files: FileList | File[]): VaultFile[] {
+  return stripCommonRoot(
+    Array.from(files).map((file) => ({
+      path: normalizePath(file.webkitRelativePath || file.name),
+      file,
+      lastModified: file.lastModified,
+    })),
+  )
+}
+
+export async function getVaultFilesFromZip(zipFile: Blob): Promise<VaultFile[]> {
+  const zip = await JSZip.loadAsync(zipFile)
+  const files: VaultFile[] = []
+
+  for (const entry of Object.values(zip.files)) {
+    if (entry.dir) continue
+    files.push({ path: normalizePath(entry.name), file: await entry.async("blob"), lastModified: entry.date.getTime() })
+  }
+
+  return stripCommonRoot(files)
+}
+
+// Logseq keeps page properties as "key:: value" lines at the top of the page
+function parseLogseqProperties(markdown: string): { data: Record<string, FrontmatterValue>; body: string } {
+  const lines = markdown.split("\n")
+  const data: Record<string, FrontmatterValue> = {}
+  let index = 0
+
+  while (index < lines.length) {
+    const property = lines[index].match(/^(?:-\s+)?([A-Za-z0-9_-]+)::\s*(.*)$/)
+    if (!property) break
+    data[property[1].toLowerCase()] = property[2].trim()
+    index++
+  }
+
+  return { data, body: lines.slice(index).join("\n") }
+}
+
+// Logseq encodes namespaces ("a/b") in file names as "a___b" or "a%2Fb"
+function decodeFileTitle(name: string): string {
+  try {
+    return decodeURIComponent(name.replace(/___/g, "/"))
+  } catch {
+    return name.replace(/___/g, "/")
+  }
+}
+
+function cleanTag(tag: string): string {
+  return tag.trim().replace(/^#/, "").replace(/^\[\[|\]\]$/g, "")
+}
+
+// #tags written in the text, ignoring code and headings
+function extractInlineTags(body: string): string[] {
+  const text = body.replace(/```[\s\S]*?```/g, "").replace(/`[^`]*`/g, "")
+  return [...text.matchAll(INLINE_TAG_REGEX)].map((match) => match[2].replace(/\/$/, ""))
+}
+
+function parseCreatedAt(value: FrontmatterValue | undefined, fallback?: number): string | undefined {
+  const text = Array.isArray(value) ? value[0] : value
+  const date = text ? new Date(text) : fallback ? new Date(fallback) : null
+  return date && !isNaN(date.getTime()) ? date.toISOString() : undefined
+}
+
+// Read one markdown file into a vault note (conflicts and links are filled in later)
+async function readVaultNote(vaultFile: VaultFile): Promise<VaultNote> {
+  const text = (await vaultFile.file.text()).replace(/\r\n/g, "\n")
+  const frontmatter = parseFrontmatter(text)
+  const properties = parseLogseqProperties(frontmatter.body)
+  const data = { ...properties.data, ...frontmatter.data }
+
+  const title = (typeof data.title === "string" && data.title.trim()) || decodeFileTitle(getBaseName(vaultFile.path))
+  const tags = [...getFrontmatterList(data.tags), ...getFrontmatterList(data.tag), ...extractInlineTags(properties.body)]
+    .map(cleanTag)
+    .filter(Boolean)
+  const summary = data.summary || data.description || ""
+
+  return {
+    path: vaultFile.path,
+    title,
+    folder: getFolder(vaultFile.path),
+    summary: Array.isArray(summary) ? summary.join(" ") : summary,
+    tags: [...new Set(tags)],
+    aliases: [...getFrontmatterList(data.aliases), ...getFrontmatterList(data.alias)].map(cleanTag),
+    createdAt: parseCreatedAt(data.created || data.date || data.created_at, vaultFile.lastModified),
+    body: properties.body.trim(),
+    conflict: null,
+    duplicateTitle: false,
+    missingLinks: [],
+    missingAttachments: [],
+  }
+}
+
+interface VaultResolver {
+  findNote: (target: string) => VaultNote | undefined
+  findAttachment: (target: string, notePath: string) => string | undefined
+}
+
+// Resolve link targets and attachment paths the way Obsidian does: full path first, then file name
+function createVaultResolver(notes: VaultNote[], attachments: Map<string, VaultFile>): VaultResolver {
+  const notesByKey = new Map<string, VaultNote>()
+  const attachmentsByName = new Map<string, string>()
+
+  notes.forEach((note) => {
+    const keys = [note.path.replace(/\.md$/i, ""), getBaseName(note.path), note.title, ...note.aliases]
+    keys.forEach((key) => {
+      const normalized = key.toLowerCase()
+      if (!notesByKey.has(normalized)) notesByKey.set(normalized, note)
+    })
+  })
+  attachments.forEach((_, path) => {
+    const name = path.split("/").pop()!.toLowerCase()
+    if (!attachmentsByName.has(name)) attachmentsByName.set(name, path)
+  })
+
+  return {
+    findNote: (target) => {
+      const normalized = normalizePath(target.trim()).replace(/\.md$/i, "").toLowerCase()
+      return notesByKey.get(normalized) || notesByKey.get(normalized.split("/").pop() || "")
+    },
+    findAttachment: (target, notePath) => {
+      let decoded = target.trim()
+      try {
+        decoded = decodeURIComponent(decoded)
+      } catch {
+        // Keep the raw target
+      }
+
+      const relative = normalizePath(`${getFolder(notePath)}/${decoded}`)
+      if (attachments.has(relative)) return relative
+
+      const absolute = normalizePath(decoded)
+      if (attachments.has(absolute)) return absolute
+
+      return attachmentsByName.get((decoded.split("/").pop() || "").toLowerCase())
+    },
+  }
+}
+
+interface ConvertedContent {
+  content: string
+  missingLinks: string[]
+  missingAttachments: string[]
+}
+
+// Rewrite links and embeds for this app: [[Title|alias]] links and <img src="cornell-image://..."> images
+function convertVaultContent(
+  note: VaultNote,
+  resolver: VaultResolver,
+  getTitle: (note: VaultNote) => string,
+  existingTitles: Set<string>,
+  imageIds: Map<string, string> | null, // null during the preview
+): ConvertedContent {
+  const missingLinks = new Set<string>()
+  const missingAttachments = new Set<string>()
+
+  const imageTag = (path: string, alt: string) => {
+    const id = imageIds ? imageIds.get(path) : "preview"
+    return id ? `<img src="cornell-image://${id}" alt="${alt.replace(/"/g, "&quot;")}" />` : `*[Image: ${alt}]*`
+  }
+
+  const linkTo = (target: string, label?: string) => {
+    const linked = resolver.findNote(target)
+    const title = linked ? getTitle(linked) : target.trim()
+    if (!linked && !existingTitles.has(title.toLowerCase())) {
+      missingLinks.add(title)
+    }
+    // Links written with one of the note's aliases keep showing it
+    if (!label && linked?.aliases.some((alias) => alias.toLowerCase() === target.trim().toLowerCase())) {
+      label = target
+    }
+    return label && label.trim() && label.trim() !== title ? `[[${title}|${label.trim()}]]` : `[[${title}]]`
+  }
+
+  const content = note.body
+    .replace(EMBED_REGEX, (match, target: string, size?: string) => {
+      if (IMAGE_MIME_TYPES[getExtension(target)]) {
+        const path = resolver.findAttachment(target, note.path)
+        if (!path) {
+          missingAttachments.add(target.trim())
+          return `*[Missing image: ${target.trim()}]*`
+        }
+        // "![[image.png|300]]" sets a width rather than a caption
+        const alt = size && !/^\d+(x\d+)?$/.test(size.trim()) ? size.trim() : getImageName(target)
+        return imageTag(path, alt)
+      }
+      // Embedded notes become links
+      return linkTo(target)
+    })
+    .replace(WIKILINK_REGEX, (match, target: string, heading?: string, label?: string) => {
+      // "[[#Heading]]" points inside the same note
+      if (!target.trim()) return label || heading || match
+      return linkTo(target, label)
+    })
+    .replace(MARKDOWN_IMAGE_REGEX, (match, alt: string, src: string) => {
+      if (/^(https?:|data:|cornell-image:)/i.test(src) || !IMAGE_MIME_TYPES[getExtension(src)]) return match
+
+      const path = resolver.findAttachment(src, note.path)
+      if (!path) {
+        missingAttachments.add(src)
+        return match
+      }
+      return imageTag(path, alt || getImageName(src))
+    })
+
+  return { content, missingLinks: [...missingLinks], missingAttachments: [...missingAttachments] }
+}
+
+// Read a vault and check it against the library without saving anything
+export async function previewVaultImport(files: VaultFile[], existingDocs: DocumentData[]): Promise<VaultImportPlan> {
+  const attachments = new Map<string, VaultFile>()
+  const noteFiles: VaultFile[] = []
+  const skipped: string[] = []
+
+  files.forEach((file) => {
+    if (!file.path || isIgnored(file.path)) return
+
+    const extension = getExtension(file.path)
+    if (extension === "md" || extension === "markdown") {
+      noteFiles.push(file)
+    } else if (IMAGE_MIME_TYPES[extension]) {
+      attachments.set(file.path, file)
+    } else {
+      skipped.push(file.path)
+    }
+  })
+
+  if (noteFiles.length === 0) {
+    throw new Error("No markdown notes were found in this vault.")
+  }
+
+  const notes: VaultNote[] = []
+  for (const file of noteFiles) {
+    try {
+      notes.push(await readVaultNote(file))
+    } catch (error) {
+      console.error(`Error reading ${file.path}:`, error)
+      skipped.push(file.path)
+    }
+  }
+
+  const existingByTitle = new Map(existingDocs.map((doc) => [doc.title.toLowerCase(), doc]))
+  const titleCounts = new Map<string, number>()
+  notes.forEach((note) => {
+    const key = note.title.toLowerCase()
+    titleCounts.set(key, (titleCounts.get(key) || 0) + 1)
+  })
+
+  const resolver = createVaultResolver(notes, attachments)
+  const existingTitles = new Set(existingByTitle.keys())
+
+  notes.forEach((note) => {
+    note.conflict = existingByTitle.get(note.title.toLowerCase()) || null
+    note.duplicateTitle = (titleCounts.get(note.title.toLowerCase()) || 0) > 1
+
+    const converted = convertVaultContent(note, resolver, (linked) => linked.title, existingTitles, null)
+    note.missingLinks = converted.missingLinks
+    note.missingAttachments = converted.missingAttachments
+  })
+
+  notes.sort((a, b) => a.path.localeCompare(b.path))
+  return { notes, attachments, skipped }
+}
+
+// "Title (2)", "Title (3)", ... until the title is free
+function getUniqueTitle(title: string, usedTitles: Set<string>): string {
+  let candidate = title
+  for (let suffix = 2; usedTitles.has(candidate.toLowerCase()); suffix++) {
+    candidate = `${title} (${suffix})`
+  }
+  return candidate
+}
+
+// Save the notes of a previewed vault, storing only the attachments they use
+export async function importVault(
+  plan: VaultImportPlan,
+  strategy: VaultConflictStrategy,
+  existingDocs: DocumentData[],
+): Promise<VaultImportResult> {
+  const result: VaultImportResult = { imported: 0, replaced: 0, skipped: 0, images: 0 }
+  const usedTitles = new Set(existingDocs.map((doc) => doc.title.toLowerCase()))
+  const finalTitles = new Map<VaultNote, string>()
+
+  // Decide every title first, so links point at renamed or skipped notes correctly
+  plan.notes.forEach((note) => {
+    if (note.conflict && strategy !== "keep-both") {
+      // Skipped notes link to the existing note, replaced ones keep its title
+      finalTitles.set(note, note.conflict.title)
+      return
+    }
+
+    const title = getUniqueTitle(note.title, usedTitles)
+    usedTitles.add(title.toLowerCase())
+    finalTitles.set(note, title)
+  })
+
+  const resolver = createVaultResolver(plan.notes, plan.attachments)
+  const existingTitles = new Set(existingDocs.map((doc) => doc.title.toLowerCase()))
+  const imageIds = new Map<string, string>()
+  const replacedIds = new Set<string>()
+
+  for (const note of plan.notes) {
+    if (note.conflict && (strategy === "skip" || (strategy === "replace" && replacedIds.has(note.conflict.id)))) {
+      result.skipped++
+      continue
+    }
+
+    try {
+      // Store the images this note embeds, once per attachment
+      for (const path of findAttachmentPaths(note, resolver)) {
+        if (imageIds.has(path)) continue
+        const attachment = plan.attachments.get(path)!
+        const dataUrl = await readAsDataUrl(attachment.file, IMAGE_MIME_TYPES[getExtension(path)])
+        imageIds.set(path, await storeImage(dataUrl, path.split("/").pop()))
+        result.images++
+      }
+
+      const { content } = convertVaultContent(
+        note,
+        resolver,
+        (linked) => finalTitles.get(linked) || linked.title,
+        existingTitles,
+        imageIds,
+      )
+
+      const replacing = note.conflict && strategy === "replace" ? note.conflict : null
+
+      await saveDocument({
+        id: replacing?.id,
+        title: finalTitles.get(note)!,
+        summary: note.summary,
+        tags: note.tags,
+        folder: note.folder || undefined,
+        content,
+        createdAt: replacing ? undefined : note.createdAt,
+      })
+
+      if (replacing) {
+        replacedIds.add(replacing.id)
+        result.replaced++
+      } else {
+        result.imported++
+      }
+    } catch (error) {
+      console.error(`Error importing ${note.path}:`, error)
+      result.skipped++
+    }
+  }
+
+  return result
+}
+
+// Vault paths of the images a note embeds
+function findAttachmentPaths(note: VaultNote, resolver: VaultResolver): string[] {
+  const paths = new Set<string>()
+
+  for (const match of note.body.matchAll(EMBED_REGEX)) {
+    const path = IMAGE_MIME_TYPES[getExtension(match[1])] && resolver.findAttachment(match[1], note.path)
+    if (path) paths.add(path)
+  }
+  for (const match of note.body.matchAll(MARKDOWN_IMAGE_REGEX)) {
+    if (/^(https?:|data:|cornell-image:)/i.test(match[2])) continue
+    const path = resolver.findAttachment(match[2], note.path)
+    if (path) paths.add(path)
+  }
+
+  return [...paths]
+}
+
+function readAsDataUrl(file: Blob, mimeType: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(new Error("Failed to read attachment"))
+    // Zip entries have no type, so label the data with the type from the file extension
+    reader.readAsDataURL(file.type ? file : new Blob([file], { type: mimeType }))
+  })
+}
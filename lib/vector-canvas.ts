@@ -0,0 +1,538 @@
+import type { jsPDF } from "jspdf"
+import { drawText, getEmbeddedFontName } from "./pdf-fonts"
+
+/**
+ * Vector drawing backend for the diagram renderers
+ * A canvas-like drawing context that records what is drawn as shapes instead of pixels. The recording is
+ * cropped to what was drawn and can be written out as SVG or drawn into a PDF as vector paths and real text.
+ */
+
+type PathSegment =
+  | { type: "M" | "L"; x: number; y: number }
+  | { type: "C"; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: "Z" }
+
+export type VectorShape =
+  | {
+      type: "path"
+      segments: PathSegment[]
+      fill: string | null
+      stroke: string | null
+      lineWidth: number
+      lineDash: number[]
+    }
+  | {
+      type: "text"
+      text: string
+      x: number
+      y: number
+      fontSize: number
+      bold: boolean
+      fontFamily: string
+      color: string
+      align: "left" | "center" | "right"
+      angle: number // Radians, clockwise as on screen
+    }
+
+export interface VectorDrawing {
+  shapes: VectorShape[]
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// The subset of CanvasRenderingContext2D that the recording context implements and the diagram renderers draw with
+export interface DiagramContext {
+  fillStyle: string
+  strokeStyle: string
+  lineWidth: number
+  font: string
+  textAlign: CanvasTextAlign
+  textBaseline: CanvasTextBaseline
+  save(): void
+  restore(): void
+  translate(x: number, y: number): void
+  rotate(angle: number): void
+  scale(x: number, y: number): void
+  setLineDash(segments: number[]): void
+  getLineDash(): number[]
+  beginPath(): void
+  moveTo(x: number, y: number): void
+  lineTo(x: number, y: number): void
+  bezierCurveTo(x1: number, y1: number, x2: number, y2: number, x: number, y: number): void
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise?: boolean): void
+  rect(x: number, y: number, width: number, height: number): void
+  closePath(): void
+  fill(): void
+  stroke(): void
+  fillRect(x: number, y: number, width: number, height: number): void
+  strokeRect(x: number, y: number, width: number, height: number): void
+  fillText(text: string, x: number, y: number): void
+  measureText(text: string): { width: number }
+}
+
+// Affine transform [a, b, c, d, e, f], as in CanvasRenderingContext2D.setTransform
+type Matrix = [number, number, number, number, number, number]
+
+interface DrawingState {
+  fillStyle: string
+  strokeStyle: string
+  lineWidth: number
+  font: string
+  textAlign: CanvasTextAlign
+  textBaseline: CanvasTextBaseline
+  lineDash: number[]
+  matrix: Matrix
+}
+
+let measuringContext: CanvasRenderingContext2D | null | undefined
+
+// Text width as a browser canvas measures it, estimated where there is no canvas
+function measureTextWidth(text: string, font: string): number {
+  if (measuringContext === undefined) {
+    measuringContext = typeof document !== "undefined" ? document.createElement("canvas").getContext("2d") : null
+  }
+  if (measuringContext) {
+    measuringContext.font = font
+    return measuringContext.measureText(text).width
+  }
+  const { fontSize, bold } = parseFont(font)
+  return text.length * fontSize * (bold ? 0.6 : 0.55)
+}
+
+function parseFont(font: string): { fontSize: number; bold: boolean; fontFamily: string } {
+  const match = font.match(/(\d+(?:\.\d+)?)px\s*(.*)$/)
+  return {
+    fontSize: match ? Number.parseFloat(match[1]) : 10,
+    bold: /\b(bold|[6-9]00)\b/.test(font),
+    fontFamily: match?.[2]?.trim() || "sans-serif",
+  }
+}
+
+// Create a recording context. Renderers draw on `context` as on a canvas; `finish` returns the drawing cropped to
+// its content plus padding
+export function createVectorContext(): {
+  context: DiagramContext
+  finish: (padding: number) => VectorDrawing
+} {
+  const shapes: VectorShape[] = []
+  const stack: DrawingState[] = []
+  let state: DrawingState = {
+    fillStyle: "#000000",
+    strokeStyle: "#000000",
+    lineWidth: 1,
+    font: "10px sans-serif",
+    textAlign: "start",
+    textBaseline: "alphabetic",
+    lineDash: [],
+    matrix: [1, 0, 0, 1, 0, 0],
+  }
+  let path: PathSegment[] = []
+  let current: { x: number; y: number } | null = null // Current point in user space
+
+  const transform = (x: number, y: number) => {
+    const [a, b, c, d, e, f] = state.matrix
+    return { x: a * x + c * y + e, y: b * x + d * y + f }
+  }
+
+  const multiply = ([a2, b2, c2, d2, e2, f2]: Matrix) => {
+    const [a, b, c, d, e, f] = state.matrix
+    state.matrix = [
+      a * a2 + c * b2,
+      b * a2 + d * b2,
+      a * c2 + c * d2,
+      b * c2 + d * d2,
+      a * e2 + c * f2 + e,
+      b * e2 + d * f2 + f,
+    ]
+  }
+
+  const moveTo = (x: number, y: number) => {
+    path.push({ type: "M", ...transform(x, y) })
+    current = { x, y }
+  }
+
+  const lineTo = (x: number, y: number) => {
+    if (!current) return moveTo(x, y)
+    path.push({ type: "L", ...transform(x, y) })
+    current = { x, y }
+  }
+
+  const bezierCurveTo = (x1: number, y1: number, x2: number, y2: number, x: number, y: number) => {
+    if (!current) moveTo(x1, y1)
+    const control1 = transform(x1, y1)
+    const control2 = transform(x2, y2)
+    path.push({ type: "C", x1: control1.x, y1: control1.y, x2: control2.x, y2: control2.y, ...transform(x, y) })
+    current = { x, y }
+  }
+
+  const rectPath = (x: number, y: number, width: number, height: number): PathSegment[] => [
+    { type: "M", ...transform(x, y) },
+    { type: "L", ...transform(x + width, y) },
+    { type: "L", ...transform(x + width, y + height) },
+    { type: "L", ...transform(x, y + height) },
+    { type: "Z" },
+  ]
+
+  const addPath = (segments: PathSegment[], fill: string | null, stroke: string | null) => {
+    if (segments.length === 0) return
+    const scale = Math.hypot(state.matrix[0], state.matrix[1])
+    shapes.push({
+      type: "path",
+      segments: [...segments],
+      fill,
+      stroke,
+      lineWidth: state.lineWidth * scale,
+      lineDash: state.lineDash.map((length) => length * scale),
+    })
+  }
+
+  const context: DiagramContext = {
+    get fillStyle() {
+      return state.fillStyle
+    },
+    set fillStyle(value: string) {
+      state.fillStyle = String(value)
+    },
+    get strokeStyle() {
+      return state.strokeStyle
+    },
+    set strokeStyle(value: string) {
+      state.strokeStyle = String(value)
+    },
+    get lineWidth() {
+      return state.lineWidth
+    },
+    set lineWidth(value: number) {
+      state.lineWidth = value
+    },
+    get font() {
+      return state.font
+    },
+    set font(value: string) {
+      state.font = value
+    },
+    get textAlign() {
+      return state.textAlign
+    },
+    set textAlign(value: CanvasTextAlign) {
+      state.textAlign = value
+    },
+    get textBaseline() {
+      return state.textBaseline
+    },
+    set textBaseline(value: CanvasTextBaseline) {
+      state.textBaseline = value
+    },
+    save() {
+      stack.push({ ...state, lineDash: [...state.lineDash] })
+    },
+    restore() {
+      state = stack.pop() || state
+    },
+    translate(x: number, y: number) {
+      multiply([1, 0, 0, 1, x, y])
+    },
+    rotate(angle: number) {
+      multiply([Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0])
+    },
+    scale(x: number, y: number) {
+      multiply([x, 0, 0, y, 0, 0])
+    },
+    setLineDash(segments: number[]) {
+      state.lineDash = [...segments]
+    },
+    getLineDash() {
+      return [...state.lineDash]
+    },
+    beginPath() {
+      path = []
+      current = null
+    },
+    moveTo,
+    lineTo,
+    bezierCurveTo,
+    quadraticCurveTo(cpx: number, cpy: number, x: number, y: number) {
+      const start = current || { x: cpx, y: cpy }
+      bezierCurveTo(
+        start.x + ((cpx - start.x) * 2) / 3,
+        start.y + ((cpy - start.y) * 2) / 3,
+        x + ((cpx - x) * 2) / 3,
+        y + ((cpy - y) * 2) / 3,
+        x,
+        y,
+      )
+    },
+    // Arcs become cubic curves of at most a quarter turn each
+    arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise = false) {
+      let sweep = endAngle - startAngle
+      if (!counterclockwise && sweep < 0) sweep = (sweep % (2 * Math.PI)) + 2 * Math.PI
+      if (counterclockwise && sweep > 0) sweep = (sweep % (2 * Math.PI)) - 2 * Math.PI
+      if (Math.abs(endAngle - startAngle) >= 2 * Math.PI) sweep = counterclockwise ? -2 * Math.PI : 2 * Math.PI
+
+      const startX = x + radius * Math.cos(startAngle)
+      const startY = y + radius * Math.sin(startAngle)
+      if (current) lineTo(startX, startY)
+      else moveTo(startX, startY)
+
+      const steps = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2)))
+      const step = sweep / steps
+      const handle = (4 / 3) * Math.tan(step / 4) * radius
+      for (let i = 0; i < steps; i++) {
+        const from = startAngle + step * i
+        const to = from + step
+        bezierCurveTo(
+          x + radius * Math.cos(from) - handle * Math.sin(from),
+          y + radius * Math.sin(from) + handle * Math.cos(from),
+          x + radius * Math.cos(to) + handle * Math.sin(to),
+          y + radius * Math.sin(to) - handle * Math.cos(to),
+          x + radius * Math.cos(to),
+          y + radius * Math.sin(to),
+        )
+      }
+    },
+    rect(x: number, y: number, width: number, height: number) {
+      path.push(...rectPath(x, y, width, height))
+      current = { x, y }
+    },
+    closePath() {
+      path.push({ type: "Z" })
+    },
+    fill() {
+      addPath(path, state.fillStyle, null)
+    },
+    stroke() {
+      addPath(path, null, state.strokeStyle)
+    },
+    fillRect(x: number, y: number, width: number, height: number) {
+      addPath(rectPath(x, y, width, height), state.fillStyle, null)
+    },
+    strokeRect(x: number, y: number, width: number, height: number) {
+      addPath(rectPath(x, y, width, height), null, state.strokeStyle)
+    },
+    fillText(text: string, x: number, y: number) {
+      const { fontSize, bold, fontFamily } = parseFont(state.font)
+      const [a, b] = state.matrix
+      const position = transform(x, y)
+      const align =
+        state.textAlign === "center" ? "center" : ["right", "end"].includes(state.textAlign) ? "right" : "left"
+
+      // Move the baseline to the alphabetic one, which is what SVG and PDF text use
+      const baselineShift =
+        state.textBaseline === "middle"
+          ? fontSize * 0.35
+          : state.textBaseline === "top" || state.textBaseline === "hanging"
+            ? fontSize * 0.8
+            : state.textBaseline === "bottom"
+              ? -fontSize * 0.2
+              : 0
+      const angle = Math.atan2(b, a)
+      shapes.push({
+        type: "text",
+        text: String(text),
+        x: position.x - Math.sin(angle) * baselineShift,
+        y: position.y + Math.cos(angle) * baselineShift,
+        fontSize: fontSize * Math.hypot(a, b),
+        bold,
+        fontFamily,
+        color: state.fillStyle,
+        align,
+        angle,
+      })
+    },
+    measureText(text: string) {
+      return { width: measureTextWidth(text, state.font) }
+    },
+  }
+
+  const finish = (padding: number): VectorDrawing => {
+    let minX = Infinity
+    let minY = Infinity
+    let maxX = -Infinity
+    let maxY = -Infinity
+    const include = (x: number, y: number, margin = 0) => {
+      minX = Math.min(minX, x - margin)
+      minY = Math.min(minY, y - margin)
+      maxX = Math.max(maxX, x + margin)
+      maxY = Math.max(maxY, y + margin)
+    }
+
+    for (const shape of shapes) {
+      if (shape.type === "path") {
+        const margin = shape.stroke ? shape.lineWidth / 2 : 0
+        for (const segment of shape.segments) {
+          if (segment.type === "Z") continue
+          if (segment.type === "C") {
+            include(segment.x1, segment.y1, margin)
+            include(segment.x2, segment.y2, margin)
+          }
+          include(segment.x, segment.y, margin)
+        }
+      } else {
+        const font = `${shape.bold ? "bold " : ""}${shape.fontSize}px ${shape.fontFamily}`
+        const width = measureTextWidth(shape.text, font)
+        const start = shape.align === "center" ? -width / 2 : shape.align === "right" ? -width : 0
+        const cos = Math.cos(shape.angle)
+        const sin = Math.sin(shape.angle)
+        for (const [dx, dy] of [
+          [start, -shape.fontSize * 0.8],
+          [start + width, -shape.fontSize * 0.8],
+          [start, shape.fontSize * 0.25],
+          [start + width, shape.fontSize * 0.25],
+        ]) {
+          include(shape.x + dx * cos - dy * sin, shape.y + dx * sin + dy * cos)
+        }
+      }
+    }
+
+    if (minX > maxX) {
+      return { shapes, x: 0, y: 0, width: padding * 2, height: padding * 2 }
+    }
+    return {
+      shapes,
+      x: minX - padding,
+      y: minY - padding,
+      width: maxX - minX + padding * 2,
+      height: maxY - minY + padding * 2,
+    }
+  }
+
+  return { context, finish }
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+function toSvgPathData(segments: PathSegment[]): string {
+  return segments
+    .map((segment) => {
+      switch (segment.type) {
+        case "Z":
+          return "Z"
+        case "C":
+          return `C${[segment.x1, segment.y1, segment.x2, segment.y2, segment.x, segment.y].map(round).join(" ")}`
+        default:
+          return `${segment.type}${round(segment.x)} ${round(segment.y)}`
+      }
+    })
+    .join("")
+}
+
+// Write a drawing as a standalone SVG document on a white background
+export function drawingToSvg(drawing: VectorDrawing): string {
+  const elements = drawing.shapes.map((shape) => {
+    if (shape.type === "path") {
+      const stroke = shape.stroke
+        ? ` stroke="${escapeXml(shape.stroke)}" stroke-width="${round(shape.lineWidth)}"` +
+          (shape.lineDash.length ? ` stroke-dasharray="${shape.lineDash.map(round).join(" ")}"` : "")
+        : ""
+      const fill = shape.fill ? escapeXml(shape.fill) : "none"
+      return `<path d="${toSvgPathData(shape.segments)}" fill="${fill}"${stroke}/>`
+    }
+
+    const anchor = shape.align === "center" ? "middle" : shape.align === "right" ? "end" : "start"
+    const rotation = shape.angle
+      ? ` transform="rotate(${round((shape.angle * 180) / Math.PI)} ${round(shape.x)} ${round(shape.y)})"`
+      : ""
+    return (
+      `<text x="${round(shape.x)}" y="${round(shape.y)}" font-family="${escapeXml(shape.fontFamily)}" ` +
+      `font-size="${round(shape.fontSize)}"${shape.bold ? ` font-weight="bold"` : ""} text-anchor="${anchor}" ` +
+      `fill="${escapeXml(shape.color)}"${rotation}>${escapeXml(shape.text)}</text>`
+    )
+  })
+
+  const { x, y, width, height } = drawing
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${round(width)}" height="${round(height)}" ` +
+      `viewBox="${round(x)} ${round(y)} ${round(width)} ${round(height)}">`,
+    `<rect x="${round(x)}" y="${round(y)}" width="${round(width)}" height="${round(height)}" fill="#ffffff"/>`,
+    ...elements,
+    "</svg>",
+  ].join("\n")
+}
+
+export function svgToDataUrl(svg: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+}
+
+function toRgb(color: string): [number, number, number] {
+  const hex = color.trim().match(/^#([\da-f]{3}|[\da-f]{6})$/i)?.[1]
+  if (hex) {
+    const full = hex.length === 3 ? [...hex].map((digit) => digit + digit).join("") : hex
+    return [0, 2, 4].map((index) => Number.parseInt(full.slice(index, index + 2), 16)) as [number, number, number]
+  }
+  const rgb = color.match(/rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/)
+  if (rgb) {
+    return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])]
+  }
+  return color.trim().toLowerCase() === "white" ? [255, 255, 255] : [0, 0, 0]
+}
+
+// Draw a drawing into the PDF at (x, y), scaled to the given width in mm, as vector paths and text
+export function drawVectorDrawing(doc: jsPDF, drawing: VectorDrawing, x: number, y: number, width: number) {
+  const scale = width / drawing.width
+  const toX = (value: number) => x + (value - drawing.x) * scale
+  const toY = (value: number) => y + (value - drawing.y) * scale
+  const { fontName, fontStyle } = doc.getFont()
+  const fontSize = doc.getFontSize()
+
+  for (const shape of drawing.shapes) {
+    if (shape.type === "path") {
+      for (const segment of shape.segments) {
+        if (segment.type === "M") doc.moveTo(toX(segment.x), toY(segment.y))
+        else if (segment.type === "L") doc.lineTo(toX(segment.x), toY(segment.y))
+        else if (segment.type === "C") {
+          doc.curveTo(
+            toX(segment.x1),
+            toY(segment.y1),
+            toX(segment.x2),
+            toY(segment.y2),
+            toX(segment.x),
+            toY(segment.y),
+          )
+        } else doc.close()
+      }
+
+      if (shape.fill) doc.setFillColor(...toRgb(shape.fill))
+      if (shape.stroke) {
+        doc.setDrawColor(...toRgb(shape.stroke))
+        doc.setLineWidth(shape.lineWidth * scale)
+        doc.setLineDashPattern(shape.lineDash.map((length) => length * scale), 0)
+      }
+      if (shape.fill && shape.stroke) doc.fillStroke()
+      else if (shape.fill) doc.fill()
+      else doc.stroke()
+      if (shape.lineDash.length) doc.setLineDashPattern([], 0)
+    } else {
+      const style = shape.bold ? "bold" : "normal"
+      doc.setFont(getEmbeddedFontName(doc, "helvetica", style) || "helvetica", style)
+      doc.setFontSize((shape.fontSize * scale * 72) / 25.4) // Drawing units are mm after scaling; font sizes are pt
+      doc.setTextColor(...toRgb(shape.color))
+
+      if (shape.angle) {
+        // jsPDF measures angles counterclockwise and cannot align rotated text, so shift it along its direction
+        const textWidth = doc.getTextWidth(shape.text)
+        const offset = shape.align === "center" ? textWidth / 2 : shape.align === "right" ? textWidth : 0
+        doc.text(
+          shape.text,
+          toX(shape.x) - offset * Math.cos(shape.angle),
+          toY(shape.y) - offset * Math.sin(shape.angle),
+          { angle: (-shape.angle * 180) / Math.PI },
+        )
+      } else {
+        drawText(doc, shape.text, toX(shape.x), toY(shape.y), { align: shape.align })
+      }
+    }
+  }
+
+  doc.setFont(fontName, fontStyle)
+  doc.setFontSize(fontSize)
+  doc.setTextColor(0, 0, 0)
+  doc.setDrawColor(0, 0, 0)
+  doc.setLineWidth(0.2)
+}